@@ -1,14 +1,62 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 import { CircleMarker, MapContainer, Marker, Polyline, Popup, TileLayer, Tooltip, ZoomControl, useMap, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
-import { createSavedRoute, fetchMe, fetchRoute, fetchSavedRoute, fetchSavedRoutes, fetchStations, fetchStationCount, login, logout, signup, updatePreferences } from './services/api';
-import type { Station } from './types/station';
+import {
+  addTripLeg,
+  createGarageVehicle,
+  createSavedRoute,
+  createSavedRouteShare,
+  createStationCheckin,
+  createTrip,
+  deleteGarageVehicle,
+  deleteSavedRoute,
+  deleteTrip,
+  fetchGarageVehicles,
+  fetchGeocodeSuggestions,
+  fetchMe,
+  compareSavedRouteSnapshot,
+  fetchRoute,
+  fetchSavedRoute,
+  fetchSavedRouteShares,
+  fetchSavedRouteSnapshot,
+  fetchSavedRoutes,
+  fetchSharedRoute,
+  fetchStations,
+  fetchStationCheckins,
+  fetchStationCount,
+  fetchStationNetworks,
+  fetchTrips,
+  fetchVehicles,
+  login,
+  logout,
+  removeTripLeg,
+  renameTrip,
+  reorderTripLegs,
+  reverseGeocode,
+  revokeSavedRouteShare,
+  signup,
+  updateGarageVehicle,
+  updatePreferences,
+  updateSavedRoute,
+  updateTripLeg,
+  type GarageVehiclePatch,
+  type RouteRequestOptions,
+  type SavedRouteUpdate,
+} from './services/api';
+import type { Station, StationNetworkId, StationNetworkSummary } from './types/station';
 import type { RouteResponse, RouteStation, TruckStopAlongRoute, RechargePOIAlongRoute, RechargePOICategory, WeatherPoint } from './types/route';
-import type { SavedRoute } from './types/savedRoute';
-import RoutePlanner from './components/RoutePlanner';
+import type { SavedRoute, SavedRoutePlanParams } from './types/savedRoute';
+import RoutePlanner, { type PendingLocation, type ViewedSnapshot } from './components/RoutePlanner';
+import type { ReverseGeocodeResult } from './types/geocode';
 import AuthModal from './components/AuthModal';
 import AccountModal from './components/AccountModal';
+import TripsModal, { type TripLegPlan } from './components/TripsModal';
+import StationCheckins from './components/StationCheckins';
+import { NETWORK_COLORS } from './components/networkColors';
+import { shareLinkUrl } from './components/shareLinks';
 import type { User, UserPreferences } from './types/user';
+import type { ConnectorFilter, GarageVehicle, VehicleProfile } from './types/vehicle';
+import type { TripLeg } from './types/trip';
 
 // Fix Leaflet marker icons
 import markerIcon2x from 'leaflet/dist/images/marker-icon-2x.png';
@@ -57,6 +105,9 @@ const TRUCK_STOP_ICON = createPinIcon({ fill: '#f97316', stroke: '#9a3412' });
 const MUST_STOP_ICON = createPinIcon({ fill: '#facc15', stroke: '#92400e' });
 const MCDONALDS_ICON = createPinIcon({ fill: '#fbbf24', stroke: '#b45309' }); // Yellow/gold
 const STARBUCKS_ICON = createPinIcon({ fill: '#10b981', stroke: '#065f46' }); // Green
+const NETWORK_ICONS = Object.fromEntries(
+  Object.entries(NETWORK_COLORS).map(([network, colors]) => [network, createPinIcon(colors)])
+) as Record<StationNetworkId, L.Icon>;
 
 const DEFAULT_CENTER: [number, number] = [39.8283, -98.5795]; // Center of US
 const DEFAULT_ZOOM = 4;
@@ -87,8 +138,33 @@ type RoutePlanParams = {
   corridorMiles: number;
   autoCorridor: boolean;
   preference: 'fastest' | 'charger_optimized';
+  // ISO 8601 departure; absent means leaving now.
+  departAt?: string | null;
 };
 
+// Plan params from before `plan_params` carry only these; anything else pins the planner settings.
+const BASIC_PLAN_PARAM_KEYS = new Set(['version', 'start', 'end', 'waypoints', 'corridorMiles', 'autoCorridor', 'preference', 'departAt', 'filters']);
+
+function savedPlanRequestOptions(plan: SavedRoutePlanParams): RouteRequestOptions {
+  return {
+    rangeMiles: plan.rangeMiles,
+    minArrivalPercent: plan.minArrivalPercent,
+    maxDetourFactor: plan.maxDetourFactor,
+    autoCorridor: plan.autoCorridor,
+    startSocPercent: plan.startSocPercent,
+    batteryKwh: plan.batteryKwh,
+    efficiencyMiPerKwh: plan.efficiencyMiPerKwh,
+    maxChargingSpeedKw: plan.maxChargingSpeedKw,
+    vehicleProfileId: plan.vehicleProfileId,
+    vehicleId: plan.vehicleId,
+    vehicleMassKg: plan.vehicleMassKg,
+    connectorType: plan.connectorType,
+    networks: plan.networks,
+    departAt: plan.departAt ?? undefined,
+    ranking: plan.ranking,
+  };
+}
+
 function replaceUrlSearch(search: string) {
   const next = `${window.location.pathname}${search}${window.location.hash ?? ''}`;
   window.history.replaceState({}, '', next);
@@ -104,16 +180,47 @@ function buildSearchFromPlanParams(params: RoutePlanParams): string {
   qs.set('corridor', String(params.corridorMiles));
   if (params.autoCorridor) qs.set('auto', '1');
   qs.set('pref', params.preference);
+  if (params.departAt) qs.set('depart', params.departAt);
   const query = qs.toString();
   return query ? `?${query}` : '';
 }
 
-function buildSearchFromSavedId(id: number): string {
+function buildSearchFromSavedId(id: number, view?: 'snapshot'): string {
   const qs = new URLSearchParams();
   qs.set('saved', String(id));
+  if (view) qs.set('view', view);
   return `?${qs.toString()}`;
 }
 
+function planParamsFromSaved(plan: SavedRoutePlanParams): RoutePlanParams {
+  return {
+    start: plan.start,
+    end: plan.end,
+    waypoints: plan.waypoints,
+    corridorMiles: plan.corridorMiles,
+    autoCorridor: plan.autoCorridor,
+    preference: plan.preference,
+    departAt: plan.departAt ?? null,
+  };
+}
+
+// The route API takes departures from a day ago to 14 days ahead, which is also as far as forecasts go.
+const TRIP_LEG_DEPART_PAST_MS = 24 * 60 * 60 * 1000;
+const TRIP_LEG_DEPART_AHEAD_MS = 14 * 24 * 60 * 60 * 1000;
+
+/**
+ * Departure for a trip leg: its date at the time of day the route was saved with (8am without one).
+ * Null when that falls outside what the route API accepts; the leg is then planned without times or weather.
+ */
+function tripLegDepartAt(date: string, savedDepartAt?: string | null): string | null {
+  const [year, month, day] = date.split('-').map(Number);
+  const time = savedDepartAt ? new Date(savedDepartAt) : null;
+  const depart = new Date(year, month - 1, day, time ? time.getHours() : 8, time ? time.getMinutes() : 0);
+  const now = Date.now();
+  if (depart.getTime() < now - TRIP_LEG_DEPART_PAST_MS || depart.getTime() > now + TRIP_LEG_DEPART_AHEAD_MS) return null;
+  return depart.toISOString();
+}
+
 function parsePlanParamsFromSearch(search: string): RoutePlanParams | null {
   const qs = new URLSearchParams(search);
   const start = qs.get('start');
@@ -126,6 +233,8 @@ function parsePlanParamsFromSearch(search: string): RoutePlanParams | null {
   const autoCorridor = qs.get('auto') === '1';
   const preferenceRaw = qs.get('pref');
   const preference = preferenceRaw === 'charger_optimized' ? 'charger_optimized' : 'fastest';
+  const departRaw = qs.get('depart');
+  const departAt = departRaw && !Number.isNaN(new Date(departRaw).getTime()) ? departRaw : null;
 
   return {
     start,
@@ -134,6 +243,7 @@ function parsePlanParamsFromSearch(search: string): RoutePlanParams | null {
     corridorMiles: Number.isFinite(corridorMiles) ? Math.max(0, corridorMiles) : 30,
     autoCorridor,
     preference,
+    departAt,
   };
 }
 
@@ -310,6 +420,24 @@ function PanToSelection({ position }: { position: [number, number] | null }) {
   return null;
 }
 
+// Right-click (long-press on touch) picks a point for the route planner.
+function MapContextMenu({ onPick }: { onPick: (lat: number, lng: number) => void }) {
+  useMapEvents({
+    contextmenu: (e) => {
+      const { lat, lng } = e.latlng.wrap();
+      onPick(lat, lng);
+    },
+  });
+
+  return null;
+}
+
+type MapPick = {
+  id: number;
+  position: [number, number];
+  result: ReverseGeocodeResult | null;
+};
+
 function RouteStationMarker({
   station,
   index,
@@ -317,7 +445,9 @@ function RouteStationMarker({
   selected,
   isAutoWaypoint,
   isMustStop,
+  networkLabel,
   onSelect,
+  canCheckIn,
 }: {
   station: RouteStation;
   index: number;
@@ -325,14 +455,19 @@ function RouteStationMarker({
   selected: boolean;
   isAutoWaypoint: boolean;
   isMustStop: boolean;
+  networkLabel: string;
   onSelect: (stationId: number) => void;
+  canCheckIn: boolean;
 }) {
   const markerRef = useRef<L.Marker>(null);
+  const incompatible = station.incompatible === true;
+  const reportedDown = station.checkin_summary?.reported_down === true;
   const iconProps = useMemo(() => {
     if (isAutoWaypoint) return { icon: AUTO_WAYPOINT_ICON };
     if (isMustStop) return { icon: MUST_STOP_ICON };
-    return {};
-  }, [isAutoWaypoint, isMustStop]);
+    const networkIcon = NETWORK_ICONS[station.network];
+    return networkIcon ? { icon: networkIcon } : {};
+  }, [isAutoWaypoint, isMustStop, station.network]);
 
   useEffect(() => {
     if (!selected) return;
@@ -358,14 +493,15 @@ function RouteStationMarker({
       <Marker
         ref={markerRef}
         position={[station.latitude, station.longitude]}
-        zIndexOffset={selected ? 1_000 : 0}
+        zIndexOffset={selected ? 1_000 : incompatible ? -1_000 : 0}
+        opacity={incompatible && !selected ? 0.35 : 1}
         eventHandlers={{
           click: () => onSelect(station.id),
         }}
         {...iconProps}
       >
           <Tooltip
-            permanent={mapZoom >= 9}
+            permanent={mapZoom >= 9 && !incompatible}
             direction="top"
             offset={[0, -10]}
             opacity={0.9}
@@ -378,19 +514,28 @@ function RouteStationMarker({
           <div className="min-w-[220px]">
             <h3 className="font-bold text-slate-900 flex items-center gap-2">
               <span
-                className={`inline-block w-2.5 h-2.5 rounded-full ${station.status_code === 'E' ? 'bg-emerald-500' : 'bg-red-500'}`}
+                className={`inline-block w-2.5 h-2.5 rounded-full ${station.status_code !== 'E' ? 'bg-red-500' : reportedDown ? 'bg-amber-500' : 'bg-emerald-500'}`}
               />
               {station.station_name}
             </h3>
             {station.status_code !== 'E' && (
               <p className="text-red-600 text-sm font-semibold">Temporarily Unavailable</p>
             )}
+            {station.status_code === 'E' && reportedDown && (
+              <p className="text-amber-700 text-sm font-semibold">Reported not working by drivers</p>
+            )}
+            {incompatible && (
+              <p className="text-slate-500 text-sm font-semibold">
+                No compatible connector ({station.ev_connector_types?.join(', ') || 'unknown'})
+              </p>
+            )}
             <p className="text-slate-600 text-sm">
               {station.street_address}<br />
               {station.city}, {station.state} {station.zip}
             </p>
             <div className="mt-2 text-sm">
               <p><strong>Status:</strong> {station.status_code === 'E' ? 'Operational' : 'Temporarily Unavailable'}</p>
+              <p><strong>Network:</strong> {networkLabel}</p>
               <p><strong>Chargers:</strong> {station.ev_dc_fast_num} DC Fast</p>
               <p><strong>Max:</strong> {station.max_power_kw ?? '—'} kW</p>
               {station.rank_tier && typeof station.rank === 'number' && (
@@ -399,16 +544,35 @@ function RouteStationMarker({
                   {typeof station.rank_score === 'number' ? ` (${station.rank_score}/100)` : ''}
                 </p>
               )}
+              {typeof station.reliability_percent === 'number' && (
+                <p>
+                  <strong>Reliability:</strong> {station.reliability_percent}% operational
+                  {typeof station.reliability_runs === 'number' ? ` (last ${station.reliability_runs} data refreshes)` : ''}
+                </p>
+              )}
+              {typeof station.amenities_nearby === 'number' && station.amenities_nearby > 0 && (
+                <p><strong>Amenities nearby:</strong> {station.amenities_nearby}</p>
+              )}
               <p><strong>Off-route:</strong> {formatMiles(station.distance_to_route_miles)} mi</p>
               <p><strong>Mile marker:</strong> {formatMiles(station.distance_along_route_miles)} mi</p>
               <p>
                 <strong>From prev:</strong> {formatMiles(station.distance_from_prev_miles)} mi
                 {formatElevationFeet(station.elevation_from_prev_ft) ? ` (${formatElevationFeet(station.elevation_from_prev_ft)})` : ''}
+                {typeof station.energy_from_prev_kwh === 'number' ? ` • ${station.energy_from_prev_kwh} kWh` : ''}
               </p>
               <p>
                 <strong>To next:</strong> {formatMiles(station.distance_to_next_miles)} mi
                 {formatElevationFeet(station.elevation_to_next_ft) ? ` (${formatElevationFeet(station.elevation_to_next_ft)})` : ''}
+                {typeof station.energy_to_next_kwh === 'number' ? ` • ${station.energy_to_next_kwh} kWh` : ''}
               </p>
+              {typeof station.arrival_soc_percent === 'number' && (
+                <p>
+                  <strong>Battery:</strong> arrive {station.arrival_soc_percent}%
+                  {typeof station.departure_soc_percent === 'number' && station.departure_soc_percent !== station.arrival_soc_percent
+                    ? ` → leave ${station.departure_soc_percent}%`
+                    : ''}
+                </p>
+              )}
               {isAutoWaypoint && (
                 <p className="mt-1 inline-flex items-center gap-1 rounded-full bg-purple-100 px-2 py-0.5 text-[11px] font-semibold text-purple-800">
                   Optimizer waypoint
@@ -420,6 +584,12 @@ function RouteStationMarker({
                 </p>
               )}
             </div>
+            <StationCheckins
+              stationId={station.id}
+              stalls={station.ev_dc_fast_num}
+              onLoad={fetchStationCheckins}
+              onCheckIn={canCheckIn ? createStationCheckin : undefined}
+            />
           </div>
         </Popup>
       </Marker>
@@ -445,11 +615,39 @@ function App() {
   const [savedRoutesError, setSavedRoutesError] = useState<string | null>(null);
   const [plannerInitialParams, setPlannerInitialParams] = useState<RoutePlanParams | null>(null);
   const [plannerKey, setPlannerKey] = useState(0);
+  const [viewedSnapshot, setViewedSnapshot] = useState<ViewedSnapshot | null>(null);
+  // The saved route on screen, while the plan hasn't been changed since loading or saving it.
+  const [activeSavedRouteId, setActiveSavedRouteId] = useState<number | null>(null);
   const [user, setUser] = useState<User | null>(null);
   const [preferences, setPreferences] = useState<UserPreferences | null>(null);
   const [authModalOpen, setAuthModalOpen] = useState(false);
   const [accountModalOpen, setAccountModalOpen] = useState(false);
+  const [tripsModalOpen, setTripsModalOpen] = useState(false);
+  const [vehicleProfiles, setVehicleProfiles] = useState<VehicleProfile[]>([]);
+  const [garageVehicles, setGarageVehicles] = useState<GarageVehicle[]>([]);
+  const [activeVehicleId, setActiveVehicleId] = useState<number | null>(null);
+  const [connectorFilter, setConnectorFilter] = useState<ConnectorFilter>('ANY');
+  const [stationNetworks, setStationNetworks] = useState<StationNetworkSummary[]>([]);
+  const [networkFilter, setNetworkFilter] = useState<StationNetworkId[] | null>(null);
+  const [mapPick, setMapPick] = useState<MapPick | null>(null);
+  const [pendingLocation, setPendingLocation] = useState<PendingLocation | null>(null);
+  const mapPickSeq = useRef(0);
   const preferencesRef = useRef<UserPreferences | null>(null);
+  const activeVehicleRef = useRef<GarageVehicle | null>(null);
+  const connectorFilterRef = useRef<ConnectorFilter>('ANY');
+  const networkFilterRef = useRef<StationNetworkId[] | null>(null);
+  // Display filters from a loaded saved route, applied once its route arrives instead of the defaults.
+  const pendingDisplayFiltersRef = useRef<SavedRoutePlanParams['filters'] | null>(null);
+
+  const networkLabels = useMemo(
+    () => new Map(stationNetworks.map((network) => [network.id, network.label])),
+    [stationNetworks]
+  );
+
+  const visibleStations = useMemo(
+    () => (networkFilter ? stations.filter((station) => networkFilter.includes(station.network)) : stations),
+    [stations, networkFilter]
+  );
 
   const routeStops = useMemo(() => {
     if (!route) return [];
@@ -462,13 +660,27 @@ function App() {
 
   const mustStopStationIds = useMemo(() => {
     const ids = new Set<number>();
+    // A feasible charging plan decides the must stops; the gap heuristic only covers routes without one.
+    if (route?.charging_plan?.feasible) {
+      for (const stop of route.charging_plan.stops) ids.add(stop.station_id);
+      return ids;
+    }
+    // Cold/headwind forecasts shrink range, so the fallback thresholds shrink with it.
+    const adjustment = route?.range_adjustment;
+    const rangeScale = adjustment && adjustment.nominal_range_miles > 0
+      ? Math.min(1, adjustment.effective_range_miles / adjustment.nominal_range_miles)
+      : 1;
     for (const station of routeStations) {
-      if (station.distance_from_prev_miles > MUST_STOP_GAP_MILES && station.distance_to_next_miles > MUST_STOP_AFTER_MILES) {
+      if (station.incompatible) continue;
+      if (
+        station.distance_from_prev_miles > MUST_STOP_GAP_MILES * rangeScale
+        && station.distance_to_next_miles > MUST_STOP_AFTER_MILES * rangeScale
+      ) {
         ids.add(station.id);
       }
     }
     return ids;
-  }, [routeStations]);
+  }, [route, routeStations]);
 
   const visibleRouteStations = useMemo(() => {
     if (!showMustStopsOnly) return routeStations;
@@ -476,6 +688,11 @@ function App() {
     return routeStations.filter((station) => mustStopStationIds.has(station.id));
   }, [mustStopStationIds, routeStations, showMustStopsOnly]);
 
+  const activeVehicle = useMemo(
+    () => garageVehicles.find((vehicle) => vehicle.id === activeVehicleId) ?? null,
+    [activeVehicleId, garageVehicles]
+  );
+
   const routeTruckStops = useMemo<TruckStopAlongRoute[]>(() => {
     return route?.truck_stops ?? [];
   }, [route]);
@@ -528,6 +745,14 @@ function App() {
       setSelectedRechargePOICategories(new Set());
       return;
     }
+    const savedFilters = pendingDisplayFiltersRef.current;
+    if (savedFilters) {
+      pendingDisplayFiltersRef.current = null;
+      setSelectedTruckStopBrands(new Set(savedFilters.truckStopBrands));
+      setSelectedRechargePOICategories(new Set(savedFilters.rechargePoiCategories));
+      setShowMustStopsOnly(savedFilters.mustStopsOnly);
+      return;
+    }
     // Only select brands that are both in the route AND in our default set
     const routeBrands = new Set((route.truck_stops ?? []).map((s) => s.brand).filter(Boolean));
     const defaultsInRoute = new Set(
@@ -698,6 +923,7 @@ function App() {
 
   async function bootstrap() {
     void loadData();
+    void loadVehicleProfiles();
     await initializeAuth();
     await initializeFromUrl();
   }
@@ -709,7 +935,7 @@ function App() {
       setPreferences(me.preferences);
       preferencesRef.current = me.preferences;
       if (me.user) {
-        await loadSavedRoutes(me.user);
+        await Promise.all([loadSavedRoutes(me.user), loadGarage(me.user, me.preferences)]);
       } else {
         setSavedRoutes([]);
         setSavedRoutesError(null);
@@ -723,6 +949,60 @@ function App() {
     }
   }
 
+  function selectActiveVehicle(vehicle: GarageVehicle | null, prefs: UserPreferences | null = preferencesRef.current) {
+    activeVehicleRef.current = vehicle;
+    setActiveVehicleId(vehicle?.id ?? null);
+    applyConnectorFilter((vehicle ? vehicle.connector_type : prefs?.connector_type) ?? 'ANY');
+  }
+
+  // Sent with the next plan request; the server greys out (rather than drops) incompatible stations.
+  function applyConnectorFilter(filter: ConnectorFilter) {
+    connectorFilterRef.current = filter;
+    setConnectorFilter(filter);
+  }
+
+  // Sent with the next plan request and applied to the all-stations map right away.
+  function applyNetworkFilter(networks: StationNetworkId[] | null) {
+    networkFilterRef.current = networks;
+    setNetworkFilter(networks);
+  }
+
+  async function loadGarage(activeUser: User | null = user, prefs: UserPreferences | null = preferencesRef.current) {
+    if (!activeUser) {
+      setGarageVehicles([]);
+      selectActiveVehicle(null, prefs);
+      return;
+    }
+    try {
+      const vehicles = await fetchGarageVehicles();
+      setGarageVehicles(vehicles);
+      const current = vehicles.find((v) => v.id === activeVehicleRef.current?.id);
+      selectActiveVehicle(current ?? vehicles.find((v) => v.is_default) ?? null, prefs);
+    } catch (err) {
+      console.error('Failed to load garage:', err);
+    }
+  }
+
+  function handleSelectVehicle(vehicleId: number | null) {
+    selectActiveVehicle(garageVehicles.find((v) => v.id === vehicleId) ?? null);
+  }
+
+  async function handleAddGarageVehicle(vehicle: GarageVehiclePatch) {
+    await createGarageVehicle(vehicle);
+    await loadGarage();
+  }
+
+  async function handleUpdateGarageVehicle(id: number, patch: GarageVehiclePatch) {
+    await updateGarageVehicle(id, patch);
+    await loadGarage();
+  }
+
+  async function handleDeleteGarageVehicle(id: number) {
+    await deleteGarageVehicle(id);
+    if (activeVehicleRef.current?.id === id) activeVehicleRef.current = null;
+    await loadGarage();
+  }
+
   useEffect(() => {
     setSelectedStationId(null);
   }, [route]);
@@ -734,6 +1014,28 @@ function App() {
     setSelectedStationId(stationId);
   }
 
+  async function handleMapPick(rawLat: number, rawLng: number) {
+    mapPickSeq.current += 1;
+    const id = mapPickSeq.current;
+    const lat = Number(rawLat.toFixed(5));
+    const lng = Number(rawLng.toFixed(5));
+    setMapPick({ id, position: [lat, lng], result: null });
+    try {
+      const result = await reverseGeocode(lat, lng);
+      setMapPick((prev) => (prev?.id === id ? { ...prev, result } : prev));
+    } catch (err) {
+      // Without a label the pick still works as raw coordinates.
+      console.error('Failed to look up map location:', err);
+    }
+  }
+
+  function applyMapPick(target: PendingLocation['target']) {
+    if (!mapPick) return;
+    const [lat, lng] = mapPick.position;
+    setPendingLocation({ id: mapPick.id, target, value: mapPick.result?.query ?? `${lat},${lng}` });
+    setMapPick(null);
+  }
+
   async function loadData() {
     setLoading(true);
     setError(null);
@@ -750,6 +1052,21 @@ function App() {
     } finally {
       setLoading(false);
     }
+
+    try {
+      setStationNetworks(await fetchStationNetworks());
+    } catch (err) {
+      // Without network metadata the map still works; the network filter just stays hidden.
+      console.error('Failed to load station networks:', err);
+    }
+  }
+
+  async function loadVehicleProfiles() {
+    try {
+      setVehicleProfiles(await fetchVehicles());
+    } catch (err) {
+      console.error('Failed to load vehicle profiles:', err);
+    }
   }
 
   async function loadSavedRoutes(activeUser: User | null = user) {
@@ -771,17 +1088,43 @@ function App() {
     }
   }
 
-  async function planRoute(params: RoutePlanParams): Promise<RouteResponse | null> {
-    setRouteLoading(true);
-    setRouteError(null);
-    try {
-      const prefs = preferencesRef.current;
-      const data = await fetchRoute(params.start, params.end, params.waypoints, params.corridorMiles, params.preference, {
+  // The planner settings sent with a route request: the active garage vehicle or the account preferences.
+  function routeRequestOptions(params: RoutePlanParams): RouteRequestOptions {
+    const prefs = preferencesRef.current;
+    const vehicle = activeVehicleRef.current;
+    // With a garage vehicle selected the server resolves the vehicle fields from it.
+    return vehicle
+      ? {
+        minArrivalPercent: prefs?.min_arrival_percent,
+        maxDetourFactor: prefs?.max_detour_factor,
+        autoCorridor: params.autoCorridor,
+        vehicleId: vehicle.id,
+        connectorType: connectorFilterRef.current,
+        networks: networkFilterRef.current,
+        departAt: params.departAt ?? undefined,
+      }
+      : {
         rangeMiles: prefs?.range_miles,
         minArrivalPercent: prefs?.min_arrival_percent,
         maxDetourFactor: prefs?.max_detour_factor,
         autoCorridor: params.autoCorridor,
-      });
+        batteryKwh: prefs?.battery_kwh ?? undefined,
+        efficiencyMiPerKwh: prefs?.efficiency_mi_per_kwh ?? undefined,
+        maxChargingSpeedKw: prefs?.max_charging_speed_kw ?? undefined,
+        vehicleProfileId: prefs?.vehicle_id ?? undefined,
+        vehicleMassKg: prefs?.vehicle_mass_kg ?? undefined,
+        connectorType: connectorFilterRef.current,
+        networks: networkFilterRef.current,
+        departAt: params.departAt ?? undefined,
+      };
+  }
+
+  async function planRoute(params: RoutePlanParams, options: RouteRequestOptions = routeRequestOptions(params)): Promise<RouteResponse | null> {
+    setRouteLoading(true);
+    setRouteError(null);
+    setViewedSnapshot(null);
+    try {
+      const data = await fetchRoute(params.start, params.end, params.waypoints, params.corridorMiles, params.preference, options);
       setRoute(data);
       return data;
     } catch (err) {
@@ -801,26 +1144,119 @@ function App() {
     const preference = data?.preference === 'charger_optimized' || data?.preference === 'fastest'
       ? data.preference
       : params.preference;
+    setActiveSavedRouteId(null);
     replaceUrlSearch(buildSearchFromPlanParams({ ...params, corridorMiles, preference }));
   }
 
   async function handleLoadSavedRoute(id: number) {
     const saved = await fetchSavedRoute(id);
-    const params: RoutePlanParams = {
-      start: saved.start_query,
-      end: saved.end_query,
-      waypoints: saved.waypoints ?? [],
-      corridorMiles: saved.corridor_miles ?? 30,
-      autoCorridor: false,
-      preference: saved.preference ?? 'fastest',
-    };
+    const plan = saved.plan_params;
+    const params = planParamsFromSaved(plan);
+
+    // Routes saved with full settings replan with exactly those; older ones use today's settings.
+    let options: RouteRequestOptions | undefined;
+    if (Object.keys(plan).some((key) => !BASIC_PLAN_PARAM_KEYS.has(key))) {
+      options = savedPlanRequestOptions(plan);
+      const vehicle = plan.vehicleId === undefined ? null : garageVehicles.find((v) => v.id === plan.vehicleId) ?? null;
+      // A vehicle deleted since saving: its figures were saved alongside, so plan with those.
+      if (plan.vehicleId !== undefined && !vehicle) delete options.vehicleId;
+      selectActiveVehicle(vehicle);
+      if (plan.connectorType) applyConnectorFilter(plan.connectorType);
+      if (plan.networks !== undefined) applyNetworkFilter(plan.networks);
+    }
+    pendingDisplayFiltersRef.current = plan.filters ?? null;
+
     setPlannerInitialParams(params);
     setPlannerKey((k) => k + 1);
-    await planRoute(params);
+    await planRoute(params, options);
+    setActiveSavedRouteId(id);
     replaceUrlSearch(buildSearchFromSavedId(id));
   }
 
-  async function handleSaveRoute(params: RoutePlanParams & { name?: string }) {
+  // Someone else's route from a share link: planned with the settings it was saved with, not the viewer's.
+  async function handleLoadSharedRoute(token: string) {
+    const shared = await fetchSharedRoute(token);
+    const plan = shared.plan_params;
+    const params = planParamsFromSaved(plan);
+
+    let options: RouteRequestOptions | undefined;
+    if (Object.keys(plan).some((key) => !BASIC_PLAN_PARAM_KEYS.has(key))) {
+      options = savedPlanRequestOptions(plan);
+      if (plan.connectorType) applyConnectorFilter(plan.connectorType);
+      if (plan.networks !== undefined) applyNetworkFilter(plan.networks);
+    }
+    pendingDisplayFiltersRef.current = plan.filters ?? null;
+
+    setPlannerInitialParams(params);
+    setPlannerKey((k) => k + 1);
+    await planRoute(params, options);
+  }
+
+  // Plans one trip leg for the itinerary on its own date, leaving the map and planner alone.
+  async function planTripLeg(leg: TripLeg): Promise<TripLegPlan> {
+    const plan = leg.saved_route.plan_params;
+    const params = planParamsFromSaved(plan);
+    let options: RouteRequestOptions;
+    if (Object.keys(plan).some((key) => !BASIC_PLAN_PARAM_KEYS.has(key))) {
+      options = savedPlanRequestOptions(plan);
+      if (plan.vehicleId !== undefined && !garageVehicles.some((v) => v.id === plan.vehicleId)) delete options.vehicleId;
+    } else {
+      options = routeRequestOptions(params);
+    }
+    const departAt = tripLegDepartAt(leg.date, plan.departAt);
+    options.departAt = departAt ?? undefined;
+    const route = await fetchRoute(params.start, params.end, params.waypoints, params.corridorMiles, params.preference, options);
+    return { route, forecast: departAt !== null };
+  }
+
+  // Shows the route exactly as it was saved; nothing is planned until the user asks to re-plan.
+  async function handleViewSavedRouteSnapshot(id: number) {
+    const [saved, snapshot] = await Promise.all([fetchSavedRoute(id), fetchSavedRouteSnapshot(id)]);
+    pendingDisplayFiltersRef.current = saved.plan_params.filters ?? null;
+    setPlannerInitialParams(planParamsFromSaved(saved.plan_params));
+    setPlannerKey((k) => k + 1);
+    setRouteError(null);
+    setSelectedStationId(null);
+    setRoute(snapshot.response);
+    setViewedSnapshot({ savedRouteId: id, name: saved.name, createdAt: snapshot.created_at });
+    setActiveSavedRouteId(id);
+    replaceUrlSearch(buildSearchFromSavedId(id, 'snapshot'));
+  }
+
+  // Everything needed to plan this route again as it is now, whatever the account settings are later.
+  function currentPlanParams(params: RoutePlanParams): SavedRoutePlanParams {
+    const vehicle = activeVehicleRef.current;
+    const { departAt, ...options } = routeRequestOptions(params);
+    return {
+      version: 1,
+      start: params.start,
+      end: params.end,
+      waypoints: params.waypoints,
+      corridorMiles: params.corridorMiles,
+      preference: params.preference,
+      ...options,
+      autoCorridor: params.autoCorridor,
+      // A garage vehicle is resolved server-side; pin its figures too (request values take precedence).
+      ...(vehicle
+        ? {
+          rangeMiles: vehicle.range_miles,
+          batteryKwh: vehicle.battery_kwh ?? undefined,
+          efficiencyMiPerKwh: vehicle.efficiency_mi_per_kwh ?? undefined,
+          maxChargingSpeedKw: vehicle.max_charging_speed_kw ?? undefined,
+          vehicleProfileId: vehicle.vehicle_id ?? undefined,
+        }
+        : {}),
+      ranking: preferencesRef.current?.ranking ?? null,
+      departAt: departAt ?? null,
+      filters: {
+        truckStopBrands: [...selectedTruckStopBrands],
+        rechargePoiCategories: [...selectedRechargePOICategories],
+        mustStopsOnly: showMustStopsOnly,
+      },
+    };
+  }
+
+  async function handleSaveRoute(params: RoutePlanParams & { name?: string; includeSnapshot?: boolean }) {
     const saved = await createSavedRoute({
       name: params.name,
       start: params.start,
@@ -828,19 +1264,58 @@ function App() {
       waypoints: params.waypoints,
       corridorMiles: params.corridorMiles,
       preference: params.preference,
+      planParams: currentPlanParams(params),
+      snapshot: params.includeSnapshot && route ? route : undefined,
     });
     setSavedRoutes((prev) => [saved, ...prev.filter((r) => r.id !== saved.id)]);
+    setActiveSavedRouteId(saved.id);
     replaceUrlSearch(buildSearchFromSavedId(saved.id));
   }
 
+  // Reuses the route's open-ended link when there is one rather than minting a new token per click.
+  async function handleShareSavedRoute(): Promise<string> {
+    if (activeSavedRouteId === null) throw new Error('Save the route to share it');
+    const shares = await fetchSavedRouteShares(activeSavedRouteId);
+    const share = shares.find((s) => s.status === 'active' && !s.expires_at)
+      ?? await createSavedRouteShare(activeSavedRouteId, null);
+    return shareLinkUrl(share.token);
+  }
+
+  async function handleUpdateSavedRoute(id: number, changes: SavedRouteUpdate) {
+    const saved = await updateSavedRoute(id, changes);
+    setSavedRoutes((prev) => prev.map((r) => (r.id === saved.id ? saved : r)));
+  }
+
+  async function handleDeleteSavedRoute(id: number) {
+    await deleteSavedRoute(id);
+    setSavedRoutes((prev) => prev.filter((r) => r.id !== id));
+    if (viewedSnapshot?.savedRouteId === id) setViewedSnapshot(null);
+    if (activeSavedRouteId === id) setActiveSavedRouteId(null);
+    // Drop a share link that now points at nothing.
+    if (new URLSearchParams(window.location.search).get('saved') === String(id)) {
+      replaceUrlSearch('');
+    }
+  }
+
   async function initializeFromUrl() {
     const qs = new URLSearchParams(window.location.search);
+    const shareToken = qs.get('share');
+    if (shareToken) {
+      try {
+        await handleLoadSharedRoute(shareToken);
+      } catch (err) {
+        setRouteError(err instanceof Error ? err.message : 'Failed to open shared route');
+      }
+      return;
+    }
+
     const savedRaw = qs.get('saved');
     if (savedRaw) {
       const id = Number.parseInt(savedRaw, 10);
       if (Number.isFinite(id) && id > 0) {
         try {
-          await handleLoadSavedRoute(id);
+          if (qs.get('view') === 'snapshot') await handleViewSavedRouteSnapshot(id);
+          else await handleLoadSavedRoute(id);
         } catch (err) {
           setRouteError(err instanceof Error ? err.message : 'Failed to load saved route');
         }
@@ -858,6 +1333,8 @@ function App() {
 
   function handleClearRoute() {
     setRoute(null);
+    setViewedSnapshot(null);
+    setActiveSavedRouteId(null);
     setRouteError(null);
     setSelectedStationId(null);
     setPlannerInitialParams(null);
@@ -869,7 +1346,7 @@ function App() {
     setUser(result.user);
     setPreferences(result.preferences);
     preferencesRef.current = result.preferences;
-    await loadSavedRoutes(result.user);
+    await Promise.all([loadSavedRoutes(result.user), loadGarage(result.user, result.preferences)]);
   }
 
   async function handleSignup(email: string, password: string) {
@@ -877,7 +1354,7 @@ function App() {
     setUser(result.user);
     setPreferences(result.preferences);
     preferencesRef.current = result.preferences;
-    await loadSavedRoutes(result.user);
+    await Promise.all([loadSavedRoutes(result.user), loadGarage(result.user, result.preferences)]);
   }
 
   async function handleLogout() {
@@ -887,12 +1364,15 @@ function App() {
     preferencesRef.current = null;
     setSavedRoutes([]);
     setSavedRoutesError(null);
+    setGarageVehicles([]);
+    selectActiveVehicle(null, null);
   }
 
   async function handleSavePreferences(patch: Parameters<typeof updatePreferences>[0]) {
     const updated = await updatePreferences(patch);
     setPreferences(updated);
     preferencesRef.current = updated;
+    if (!activeVehicleRef.current) applyConnectorFilter(updated.connector_type ?? 'ANY');
   }
 
   return (
@@ -914,6 +1394,13 @@ function App() {
                 <div className="hidden sm:block max-w-[220px] truncate text-slate-300">
                   {user.email}
                 </div>
+                <button
+                  type="button"
+                  onClick={() => setTripsModalOpen(true)}
+                  className="rounded-md border border-slate-600 bg-slate-800 px-2 py-1 text-[11px] text-slate-200 hover:bg-slate-700"
+                >
+                  Trips
+                </button>
                 <button
                   type="button"
                   onClick={() => setAccountModalOpen(true)}
@@ -989,10 +1476,29 @@ function App() {
             onOpenAuth={() => setAuthModalOpen(true)}
             defaultCorridorMiles={preferences?.default_corridor_miles}
             defaultPreference={preferences?.default_preference}
-            rangeMiles={preferences?.range_miles}
+            rangeMiles={activeVehicle?.range_miles ?? preferences?.range_miles}
             minArrivalPercent={preferences?.min_arrival_percent}
+            garageVehicles={user ? garageVehicles : undefined}
+            activeVehicleId={activeVehicleId}
+            onSelectVehicle={handleSelectVehicle}
+            connectorFilter={connectorFilter}
+            onSetConnectorFilter={applyConnectorFilter}
+            stationNetworks={stationNetworks}
+            networkFilter={networkFilter}
+            onSetNetworkFilter={applyNetworkFilter}
+            suggestLocations={fetchGeocodeSuggestions}
+            pendingLocation={pendingLocation}
             onSaveRoute={user ? handleSaveRoute : undefined}
             onLoadSavedRoute={handleLoadSavedRoute}
+            onUpdateSavedRoute={user ? handleUpdateSavedRoute : undefined}
+            onDeleteSavedRoute={user ? handleDeleteSavedRoute : undefined}
+            onViewSnapshot={handleViewSavedRouteSnapshot}
+            onCompareSnapshot={compareSavedRouteSnapshot}
+            viewedSnapshot={viewedSnapshot}
+            onShareSavedRoute={user && savedRoutes.some((r) => r.id === activeSavedRouteId) ? handleShareSavedRoute : undefined}
+            onLoadShares={user ? fetchSavedRouteShares : undefined}
+            onCreateShare={user ? createSavedRouteShare : undefined}
+            onRevokeShare={user ? revokeSavedRouteShare : undefined}
           />
         </div>
         <MapContainer
@@ -1006,6 +1512,48 @@ function App() {
           maxBoundsViscosity={1.0}
         >
           <MapZoomTracker onZoomChange={setMapZoom} />
+          <MapContextMenu onPick={handleMapPick} />
+          {mapPick && (
+            <Popup
+              key={mapPick.id}
+              position={mapPick.position}
+              eventHandlers={{
+                remove: () => setMapPick((prev) => (prev?.id === mapPick.id ? null : prev)),
+              }}
+            >
+              <div className="min-w-[200px]">
+                <h3 className="font-bold text-slate-900">
+                  {mapPick.result ? mapPick.result.label : 'Looking up location…'}
+                </h3>
+                <p className="text-slate-500 text-xs">
+                  {mapPick.position[0].toFixed(5)}, {mapPick.position[1].toFixed(5)}
+                </p>
+                <div className="mt-2 flex gap-1">
+                  <button
+                    type="button"
+                    onClick={() => applyMapPick('start')}
+                    className="rounded bg-green-600 px-2 py-1 text-xs font-semibold text-white hover:bg-green-500"
+                  >
+                    Set as start
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => applyMapPick('waypoint')}
+                    className="rounded bg-slate-600 px-2 py-1 text-xs font-semibold text-white hover:bg-slate-500"
+                  >
+                    Add waypoint
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => applyMapPick('end')}
+                    className="rounded bg-red-600 px-2 py-1 text-xs font-semibold text-white hover:bg-red-500"
+                  >
+                    Set as end
+                  </button>
+                </div>
+              </div>
+            </Popup>
+          )}
           <ZoomControl position="bottomright" />
           <TileLayer
             attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>'
@@ -1144,12 +1692,18 @@ function App() {
                 selected={station.id === selectedStationId}
                 isAutoWaypoint={autoWaypointIds.has(station.id)}
                 isMustStop={mustStopStationIds.has(station.id)}
+                networkLabel={networkLabels.get(station.network) ?? station.network}
                 onSelect={setSelectedStationId}
+                canCheckIn={user !== null}
               />
             ))
           ) : (
-            stations.map((station) => (
-              <Marker key={station.id} position={[station.latitude, station.longitude]}>
+            visibleStations.map((station) => (
+              <Marker
+                key={station.id}
+                position={[station.latitude, station.longitude]}
+                {...(NETWORK_ICONS[station.network] ? { icon: NETWORK_ICONS[station.network] } : {})}
+              >
                 <Popup>
                   <div className="min-w-[200px]">
                     <h3 className="font-bold text-slate-900">{station.station_name}</h3>
@@ -1158,6 +1712,7 @@ function App() {
                       {station.city}, {station.state} {station.zip}
                     </p>
                     <div className="mt-2 text-sm">
+                      <p><strong>Network:</strong> {networkLabels.get(station.network) ?? station.network}</p>
                       <p><strong>Chargers:</strong> {station.ev_dc_fast_num} DC Fast</p>
                       <p><strong>Type:</strong> {station.facility_type}</p>
                     </div>
@@ -1181,11 +1736,34 @@ function App() {
           open={accountModalOpen}
           user={user}
           preferences={preferences}
+          vehicleProfiles={vehicleProfiles}
+          garageVehicles={garageVehicles}
+          onAddGarageVehicle={handleAddGarageVehicle}
+          onUpdateGarageVehicle={handleUpdateGarageVehicle}
+          onDeleteGarageVehicle={handleDeleteGarageVehicle}
           onClose={() => setAccountModalOpen(false)}
           onLogout={handleLogout}
           onSavePreferences={handleSavePreferences}
         />
       )}
+
+      {user && (
+        <TripsModal
+          open={tripsModalOpen}
+          savedRoutes={savedRoutes}
+          onClose={() => setTripsModalOpen(false)}
+          onLoadTrips={fetchTrips}
+          onCreateTrip={createTrip}
+          onRenameTrip={renameTrip}
+          onDeleteTrip={deleteTrip}
+          onAddLeg={addTripLeg}
+          onUpdateLeg={updateTripLeg}
+          onRemoveLeg={removeTripLeg}
+          onReorderLegs={reorderTripLegs}
+          onPlanLeg={planTripLeg}
+          onShowLeg={handleLoadSavedRoute}
+        />
+      )}
     </div>
   );
 }
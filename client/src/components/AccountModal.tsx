@@ -1,10 +1,18 @@
 import { useEffect, useState } from 'react';
+import type { StationRanking, StationRankingTiers, StationRankingWeights } from '../types/route';
 import type { User, UserPreferences } from '../types/user';
+import type { GarageVehicle, VehicleProfile } from '../types/vehicle';
+import type { GarageVehiclePatch } from '../services/api';
 
 type Props = {
   open: boolean;
   user: User;
   preferences: UserPreferences | null;
+  vehicleProfiles: VehicleProfile[];
+  garageVehicles: GarageVehicle[];
+  onAddGarageVehicle: (vehicle: GarageVehiclePatch) => Promise<void>;
+  onUpdateGarageVehicle: (id: number, patch: GarageVehiclePatch) => Promise<void>;
+  onDeleteGarageVehicle: (id: number) => Promise<void>;
   onClose: () => void;
   onLogout: () => Promise<void>;
   onSavePreferences: (patch: {
@@ -18,6 +26,9 @@ type Props = {
     maxDetourFactor?: number;
     maxChargingSpeedKw?: number | null;
     connectorType?: 'CCS' | 'CHADEMO' | 'NACS' | 'J1772' | null;
+    vehicleId?: number | null;
+    vehicleMassKg?: number | null;
+    ranking?: StationRanking | null;
   }) => Promise<void>;
 };
 
@@ -32,21 +43,56 @@ function asConnectorTypeOption(value: string): ConnectorTypeOption {
   return 'ANY';
 }
 
-export default function AccountModal({ open, user, preferences, onClose, onLogout, onSavePreferences }: Props) {
+// Mirrors the server defaults (power-heavy, reliability fully applied, no amenities factor).
+const DEFAULT_RANKING: StationRanking = {
+  weights: { power: 0.5, stalls: 0.35, detour: 0.15, amenities: 0, reliability: 1 },
+  tiers: { a: 85, b: 70, c: 55 },
+};
+
+const rankingFactors: Array<{ key: Exclude<keyof StationRankingWeights, 'reliability'>; label: string }> = [
+  { key: 'power', label: 'Peak power' },
+  { key: 'stalls', label: 'Stall count' },
+  { key: 'detour', label: 'Close to route' },
+  { key: 'amenities', label: 'Amenities nearby' },
+];
+
+const rankingTiers: Array<keyof StationRankingTiers> = ['a', 'b', 'c'];
+
+function vehicleProfileLabel(vehicle: VehicleProfile): string {
+  return [vehicle.model_year, vehicle.make, vehicle.model, vehicle.trim_level].filter(Boolean).join(' ');
+}
+
+export default function AccountModal({
+  open,
+  user,
+  preferences,
+  vehicleProfiles,
+  garageVehicles,
+  onAddGarageVehicle,
+  onUpdateGarageVehicle,
+  onDeleteGarageVehicle,
+  onClose,
+  onLogout,
+  onSavePreferences,
+}: Props) {
+  const [vehicleId, setVehicleId] = useState<number | null>(null);
   const [vehicleName, setVehicleName] = useState('');
   const [rangeMiles, setRangeMiles] = useState<number>(210);
   const [efficiencyMiPerKwh, setEfficiencyMiPerKwh] = useState<string>('');
   const [batteryKwh, setBatteryKwh] = useState<string>('');
   const [maxChargingSpeedKw, setMaxChargingSpeedKw] = useState<string>('');
+  const [vehicleMassKg, setVehicleMassKg] = useState<string>('');
   const [connectorType, setConnectorType] = useState<ConnectorTypeOption>('ANY');
   const [minArrivalPercent, setMinArrivalPercent] = useState<number>(10);
   const [defaultCorridorMiles, setDefaultCorridorMiles] = useState<number>(30);
   const [defaultPreference, setDefaultPreference] = useState<'fastest' | 'charger_optimized'>('charger_optimized');
   const [maxDetourFactor, setMaxDetourFactor] = useState<number>(1.25);
+  const [ranking, setRanking] = useState<StationRanking>(DEFAULT_RANKING);
   const [saving, setSaving] = useState(false);
   const [loggingOut, setLoggingOut] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [garageBusyId, setGarageBusyId] = useState<number | 'new' | null>(null);
 
   useEffect(() => {
     if (!open) return;
@@ -59,16 +105,19 @@ export default function AccountModal({ open, user, preferences, onClose, onLogou
   useEffect(() => {
     if (!open) return;
     if (!preferences) return;
+    setVehicleId(preferences.vehicle_id ?? null);
     setVehicleName(preferences.vehicle_name ?? '');
     setRangeMiles(preferences.range_miles ?? 210);
     setEfficiencyMiPerKwh(preferences.efficiency_mi_per_kwh === null ? '' : String(preferences.efficiency_mi_per_kwh));
     setBatteryKwh(preferences.battery_kwh === null ? '' : String(preferences.battery_kwh));
     setMaxChargingSpeedKw(preferences.max_charging_speed_kw === null ? '' : String(preferences.max_charging_speed_kw));
+    setVehicleMassKg(preferences.vehicle_mass_kg === null ? '' : String(preferences.vehicle_mass_kg));
     setConnectorType(preferences.connector_type ? asConnectorTypeOption(preferences.connector_type) : 'ANY');
     setMinArrivalPercent(preferences.min_arrival_percent ?? 10);
     setDefaultCorridorMiles(preferences.default_corridor_miles ?? 30);
     setDefaultPreference(preferences.default_preference ?? 'charger_optimized');
     setMaxDetourFactor(preferences.max_detour_factor ?? 1.25);
+    setRanking(preferences.ranking ?? DEFAULT_RANKING);
   }, [open, preferences]);
 
   useEffect(() => {
@@ -82,6 +131,61 @@ export default function AccountModal({ open, user, preferences, onClose, onLogou
 
   if (!open) return null;
 
+  function handleSelectVehicleProfile(value: string) {
+    const id = value ? Number.parseInt(value, 10) : null;
+    const vehicle = id === null ? undefined : vehicleProfiles.find((v) => v.id === id);
+    setVehicleId(vehicle ? vehicle.id : null);
+    if (!vehicle) return;
+    setVehicleName(vehicleProfileLabel(vehicle));
+    setRangeMiles(vehicle.range_miles);
+    setEfficiencyMiPerKwh(String(vehicle.efficiency_mi_per_kwh));
+    setBatteryKwh(String(vehicle.usable_battery_kwh));
+    setMaxChargingSpeedKw(String(vehicle.max_charging_speed_kw));
+    setVehicleMassKg(String(vehicle.mass_kg));
+    setConnectorType(vehicle.connector_types[0] ? asConnectorTypeOption(vehicle.connector_types[0]) : 'ANY');
+  }
+
+  const selectedVehicle = vehicleId === null ? undefined : vehicleProfiles.find((v) => v.id === vehicleId);
+
+  function parseOptionalNumber(value: string): number | null {
+    const parsed = value.trim() ? Number.parseFloat(value.trim()) : null;
+    return Number.isFinite(parsed ?? NaN) ? parsed : null;
+  }
+
+  // Garage entries are created/updated from whatever the vehicle fields of this form currently hold.
+  function vehicleFormPatch(): GarageVehiclePatch {
+    return {
+      name: vehicleName.trim() || (selectedVehicle ? vehicleProfileLabel(selectedVehicle) : 'My EV'),
+      vehicleId,
+      rangeMiles,
+      efficiencyMiPerKwh: parseOptionalNumber(efficiencyMiPerKwh),
+      batteryKwh: parseOptionalNumber(batteryKwh),
+      maxChargingSpeedKw: parseOptionalNumber(maxChargingSpeedKw),
+      connectorType: connectorType === 'ANY' ? null : connectorType,
+    };
+  }
+
+  async function runGarageAction(busyId: number | 'new', action: () => Promise<void>) {
+    if (garageBusyId !== null) return;
+    setGarageBusyId(busyId);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update garage');
+    } finally {
+      setGarageBusyId(null);
+    }
+  }
+
+  function setRankingWeight(key: keyof StationRankingWeights, percent: number) {
+    setRanking((prev) => ({ ...prev, weights: { ...prev.weights, [key]: percent / 100 } }));
+  }
+
+  function setRankingTier(key: keyof StationRankingTiers, value: number) {
+    setRanking((prev) => ({ ...prev, tiers: { ...prev.tiers, [key]: value } }));
+  }
+
   async function handleSave() {
     if (saving) return;
     setSaving(true);
@@ -97,16 +201,14 @@ export default function AccountModal({ open, user, preferences, onClose, onLogou
         maxDetourFactor,
       };
 
-      const efficiency = efficiencyMiPerKwh.trim() ? Number.parseFloat(efficiencyMiPerKwh.trim()) : null;
-      patch.efficiencyMiPerKwh = Number.isFinite(efficiency ?? NaN) ? efficiency : null;
-
-      const battery = batteryKwh.trim() ? Number.parseFloat(batteryKwh.trim()) : null;
-      patch.batteryKwh = Number.isFinite(battery ?? NaN) ? battery : null;
-
-      const maxSpeed = maxChargingSpeedKw.trim() ? Number.parseFloat(maxChargingSpeedKw.trim()) : null;
-      patch.maxChargingSpeedKw = Number.isFinite(maxSpeed ?? NaN) ? maxSpeed : null;
+      patch.efficiencyMiPerKwh = parseOptionalNumber(efficiencyMiPerKwh);
+      patch.batteryKwh = parseOptionalNumber(batteryKwh);
+      patch.maxChargingSpeedKw = parseOptionalNumber(maxChargingSpeedKw);
+      patch.vehicleMassKg = parseOptionalNumber(vehicleMassKg);
 
       patch.connectorType = connectorType === 'ANY' ? null : connectorType;
+      patch.vehicleId = vehicleId;
+      patch.ranking = ranking;
 
       await onSavePreferences(patch);
       setSuccess(true);
@@ -133,6 +235,7 @@ export default function AccountModal({ open, user, preferences, onClose, onLogou
   }
 
   const maxDetourPercent = Math.max(0, Math.round((maxDetourFactor - 1) * 100));
+  const rankingWeightTotal = rankingFactors.reduce((sum, { key }) => sum + ranking.weights[key], 0);
 
   return (
     <div className="fixed inset-0 z-[3000] flex items-center justify-center p-4">
@@ -173,6 +276,28 @@ export default function AccountModal({ open, user, preferences, onClose, onLogou
         </div>
 
         <div className="mt-4 grid grid-cols-1 gap-3 sm:grid-cols-2">
+          <label className="block sm:col-span-2">
+            <div className="text-[11px] text-slate-300">Vehicle profile</div>
+            <select
+              value={vehicleId === null ? '' : String(vehicleId)}
+              onChange={(e) => handleSelectVehicleProfile(e.target.value)}
+              className="mt-1 w-full rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none focus:ring-2 focus:ring-sky-500"
+            >
+              <option value="">Custom (enter values below)</option>
+              {vehicleProfiles.map((vehicle) => (
+                <option key={vehicle.id} value={vehicle.id}>
+                  {vehicleProfileLabel(vehicle)}
+                </option>
+              ))}
+            </select>
+            {selectedVehicle && (
+              <div className="mt-1 text-[11px] text-slate-500">
+                {selectedVehicle.usable_battery_kwh} kWh usable • peak {selectedVehicle.max_charging_speed_kw} kW • {selectedVehicle.connector_types.join(', ')}.
+                Route plans use this vehicle&apos;s charging curve.
+              </div>
+            )}
+          </label>
+
           <label className="block sm:col-span-2">
             <div className="text-[11px] text-slate-300">Vehicle name (optional)</div>
             <input
@@ -244,6 +369,20 @@ export default function AccountModal({ open, user, preferences, onClose, onLogou
             />
           </label>
 
+          <label className="block">
+            <div className="text-[11px] text-slate-300">Vehicle mass (kg)</div>
+            <input
+              type="number"
+              value={vehicleMassKg}
+              onChange={(e) => setVehicleMassKg(e.target.value)}
+              className="mt-1 w-full rounded-md border border-slate-700 bg-slate-950 px-3 py-2 text-sm text-slate-100 outline-none focus:ring-2 focus:ring-sky-500"
+              placeholder="optional (climb/regen)"
+              inputMode="numeric"
+              min={500}
+              max={10000}
+            />
+          </label>
+
           <label className="block">
             <div className="text-[11px] text-slate-300">Connector type</div>
             <select
@@ -314,6 +453,146 @@ export default function AccountModal({ open, user, preferences, onClose, onLogou
           </label>
         </div>
 
+        <div className="mt-4 border-t border-slate-700 pt-3">
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <div className="text-xs font-semibold text-slate-200">Station ranking</div>
+              <div className="text-[11px] text-slate-500">What makes a charger rank higher along your route.</div>
+            </div>
+            <button
+              type="button"
+              onClick={() => setRanking(DEFAULT_RANKING)}
+              className="shrink-0 rounded-md border border-slate-600 bg-slate-800 px-2 py-1 text-[11px] text-slate-200 hover:bg-slate-700"
+            >
+              Reset
+            </button>
+          </div>
+          <div className="mt-2 grid grid-cols-1 gap-2 sm:grid-cols-2">
+            {rankingFactors.map(({ key, label }) => (
+              <label key={key} className="block">
+                <div className="flex items-center justify-between text-[11px] text-slate-300">
+                  <span>{label}</span>
+                  <span className="text-slate-500">
+                    {rankingWeightTotal > 0 ? Math.round((ranking.weights[key] / rankingWeightTotal) * 100) : 0}% of score
+                  </span>
+                </div>
+                <input
+                  type="range"
+                  value={Math.round(ranking.weights[key] * 100)}
+                  onChange={(e) => setRankingWeight(key, Number.parseInt(e.target.value, 10))}
+                  className="mt-1 w-full accent-sky-500"
+                  min={0}
+                  max={100}
+                  step={5}
+                />
+              </label>
+            ))}
+            <label className="block">
+              <div className="flex items-center justify-between text-[11px] text-slate-300">
+                <span>Reliability penalty</span>
+                <span className="text-slate-500">{Math.round(ranking.weights.reliability * 100)}%</span>
+              </div>
+              <input
+                type="range"
+                value={Math.round(ranking.weights.reliability * 100)}
+                onChange={(e) => setRankingWeight('reliability', Number.parseInt(e.target.value, 10))}
+                className="mt-1 w-full accent-sky-500"
+                min={0}
+                max={100}
+                step={5}
+              />
+            </label>
+            <div className="block">
+              <div className="text-[11px] text-slate-300">Tier thresholds (A / B / C)</div>
+              <div className="mt-1 flex items-center gap-1">
+                {rankingTiers.map((tier) => (
+                  <input
+                    key={tier}
+                    type="number"
+                    aria-label={`Tier ${tier.toUpperCase()} minimum score`}
+                    value={ranking.tiers[tier]}
+                    onChange={(e) => setRankingTier(tier, Number.parseInt(e.target.value || '0', 10))}
+                    className="w-full rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-sm text-slate-100 outline-none focus:ring-2 focus:ring-sky-500"
+                    min={0}
+                    max={100}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+          {rankingWeightTotal === 0 && (
+            <div className="mt-1 text-[11px] text-amber-300">Set at least one factor above 0.</div>
+          )}
+        </div>
+
+        <div className="mt-4 border-t border-slate-700 pt-3">
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <div className="text-xs font-semibold text-slate-200">Garage</div>
+              <div className="text-[11px] text-slate-500">Saved vehicles you can switch between in the route planner.</div>
+            </div>
+            <button
+              type="button"
+              onClick={() => void runGarageAction('new', () => onAddGarageVehicle(vehicleFormPatch()))}
+              disabled={garageBusyId !== null}
+              className="shrink-0 rounded-md border border-slate-600 bg-slate-800 px-2 py-1 text-[11px] text-slate-200 hover:bg-slate-700 disabled:opacity-60"
+            >
+              {garageBusyId === 'new' ? 'Adding…' : 'Add vehicle above'}
+            </button>
+          </div>
+          {garageVehicles.length > 0 && (
+            <div className="mt-2 max-h-40 overflow-auto divide-y divide-slate-800 rounded-md border border-slate-700">
+              {garageVehicles.map((vehicle) => (
+                <div key={vehicle.id} className="flex items-center justify-between gap-2 px-3 py-2 text-xs">
+                  <div className="min-w-0">
+                    <div className="truncate text-slate-100">
+                      {vehicle.name}
+                      {vehicle.is_default && (
+                        <span className="ml-2 rounded-full border border-emerald-700 bg-emerald-900/40 px-1.5 py-0.5 text-[10px] font-semibold text-emerald-100">
+                          Default
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-[11px] text-slate-400">
+                      {vehicle.range_miles} mi{vehicle.connector_type ? ` • ${vehicle.connector_type}` : ''}
+                      {vehicle.max_charging_speed_kw ? ` • ${vehicle.max_charging_speed_kw} kW` : ''}
+                    </div>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    {!vehicle.is_default && (
+                      <button
+                        type="button"
+                        onClick={() => void runGarageAction(vehicle.id, () => onUpdateGarageVehicle(vehicle.id, { isDefault: true }))}
+                        disabled={garageBusyId !== null}
+                        className="rounded border border-slate-600 px-1.5 py-0.5 text-[10px] text-slate-200 hover:bg-slate-800 disabled:opacity-60"
+                      >
+                        Make default
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => void runGarageAction(vehicle.id, () => onUpdateGarageVehicle(vehicle.id, vehicleFormPatch()))}
+                      disabled={garageBusyId !== null}
+                      title="Replace this vehicle's values with the fields above"
+                      className="rounded border border-slate-600 px-1.5 py-0.5 text-[10px] text-slate-200 hover:bg-slate-800 disabled:opacity-60"
+                    >
+                      Update
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => void runGarageAction(vehicle.id, () => onDeleteGarageVehicle(vehicle.id))}
+                      disabled={garageBusyId !== null}
+                      className="rounded border border-red-800 px-1.5 py-0.5 text-[10px] text-red-200 hover:bg-red-900/40 disabled:opacity-60"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
         {error && (
           <div className="mt-3 rounded-md border border-red-800 bg-red-900/40 px-3 py-2 text-xs text-red-100">
             {error}
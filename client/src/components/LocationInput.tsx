@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import type { GeocodeSuggestion } from '../types/geocode';
+
+const SUGGEST_DEBOUNCE_MS = 250;
+const SUGGEST_MIN_CHARS = 3;
+
+type Props = {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  suggestLocations?: (query: string, signal: AbortSignal) => Promise<GeocodeSuggestion[]>;
+};
+
+function sourceHint(source: GeocodeSuggestion['source']): string | null {
+  switch (source) {
+    case 'cache':
+      return 'recent';
+    case 'coordinates':
+      return 'coordinates';
+    default:
+      return null;
+  }
+}
+
+export default function LocationInput({ id, value, onChange, placeholder, suggestLocations }: Props) {
+  const [focused, setFocused] = useState(false);
+  const [result, setResult] = useState<{ query: string; suggestions: GeocodeSuggestion[] } | null>(null);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  // Query whose suggestions the user already acted on (picked one or pressed Escape).
+  const [dismissedQuery, setDismissedQuery] = useState<string | null>(null);
+
+  const query = value.trim();
+  const wantsSuggestions = Boolean(suggestLocations) && focused && query.length >= SUGGEST_MIN_CHARS && dismissedQuery !== query;
+
+  useEffect(() => {
+    if (!suggestLocations || !wantsSuggestions) return;
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => {
+      suggestLocations(query, controller.signal)
+        .then((suggestions) => {
+          setResult({ query, suggestions });
+          setActiveIndex(-1);
+        })
+        .catch(() => {
+          // Suggestions are best-effort; typing on and planning still work without them.
+        });
+    }, SUGGEST_DEBOUNCE_MS);
+    return () => {
+      window.clearTimeout(timer);
+      controller.abort();
+    };
+  }, [suggestLocations, wantsSuggestions, query]);
+
+  const suggestions = wantsSuggestions && result?.query === query ? result.suggestions : [];
+  const open = suggestions.length > 0;
+
+  const pick = (suggestion: GeocodeSuggestion) => {
+    onChange(suggestion.label);
+    setDismissedQuery(suggestion.label.trim());
+    setActiveIndex(-1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((idx) => (idx + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((idx) => (idx <= 0 ? suggestions.length - 1 : idx - 1));
+    } else if (e.key === 'Enter' && activeIndex >= 0 && activeIndex < suggestions.length) {
+      // Pick the highlighted suggestion instead of submitting the form.
+      e.preventDefault();
+      pick(suggestions[activeIndex]!);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setDismissedQuery(query);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        className="w-full rounded-md bg-slate-800 border border-slate-700 px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-sky-500"
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={open}
+        aria-controls={`${id}-suggestions`}
+        aria-autocomplete="list"
+        aria-activedescendant={open && activeIndex >= 0 ? `${id}-suggestion-${activeIndex}` : undefined}
+      />
+      {open && (
+        <ul
+          id={`${id}-suggestions`}
+          role="listbox"
+          className="absolute z-10 mt-1 w-full max-h-60 overflow-auto rounded-md border border-slate-700 bg-slate-900 py-1 text-sm shadow-lg"
+        >
+          {suggestions.map((suggestion, idx) => {
+            const hint = sourceHint(suggestion.source);
+            return (
+              <li
+                key={`${suggestion.label}-${idx}`}
+                id={`${id}-suggestion-${idx}`}
+                role="option"
+                aria-selected={idx === activeIndex}
+                // mousedown fires before the input's blur, so the pick lands before the list closes.
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  pick(suggestion);
+                }}
+                onMouseEnter={() => setActiveIndex(idx)}
+                className={`flex cursor-pointer items-center gap-2 px-3 py-1.5 ${idx === activeIndex ? 'bg-slate-700 text-white' : 'text-slate-200'}`}
+              >
+                <span className="min-w-0 flex-1 truncate">{suggestion.label}</span>
+                {hint && <span className="shrink-0 text-[10px] uppercase tracking-wide text-slate-500">{hint}</span>}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,28 @@
 import { useEffect, useMemo, useState } from 'react';
-import type { RouteResponse, RouteStation, TruckStopAlongRoute, RechargePOICategory, WeatherPoint } from '../types/route';
-import type { SavedRoute } from '../types/savedRoute';
+import type { ChargingStop, RouteResponse, RouteStation, TruckStopAlongRoute, RechargePOICategory, WeatherPoint } from '../types/route';
+import type { SavedRoute, SavedRouteShare, SavedRouteSnapshotComparison } from '../types/savedRoute';
+import type { ConnectorFilter, GarageVehicle } from '../types/vehicle';
+import type { GeocodeSuggestion } from '../types/geocode';
+import type { StationNetworkId, StationNetworkSummary } from '../types/station';
+import { NETWORK_COLORS } from './networkColors';
 import { WeatherTimeline, WeatherBadge } from './WeatherTimeline';
+import LocationInput from './LocationInput';
+import SavedRouteShares from './SavedRouteShares';
+import SnapshotBanner from './SnapshotBanner';
+import type { SavedRouteUpdate } from '../services/api';
+
+export type PendingLocation = {
+  id: number;
+  target: 'start' | 'end' | 'waypoint';
+  value: string;
+};
+
+// A saved route's stored result on screen in place of a freshly planned one.
+export type ViewedSnapshot = {
+  savedRouteId: number;
+  name: string | null;
+  createdAt: string;
+};
 
 type Props = {
   route: RouteResponse | null;
@@ -31,6 +52,18 @@ type Props = {
   defaultPreference?: 'fastest' | 'charger_optimized';
   rangeMiles?: number;
   minArrivalPercent?: number;
+  garageVehicles?: GarageVehicle[];
+  activeVehicleId?: number | null;
+  onSelectVehicle?: (vehicleId: number | null) => void;
+  connectorFilter?: ConnectorFilter;
+  onSetConnectorFilter?: (connectorFilter: ConnectorFilter) => void;
+  stationNetworks?: StationNetworkSummary[];
+  // null = every network.
+  networkFilter?: StationNetworkId[] | null;
+  onSetNetworkFilter?: (networks: StationNetworkId[] | null) => void;
+  suggestLocations?: (query: string, signal: AbortSignal) => Promise<GeocodeSuggestion[]>;
+  // Location picked on the map; applied once per id.
+  pendingLocation?: PendingLocation | null;
   initialParams?: {
     start: string;
     end: string;
@@ -38,6 +71,7 @@ type Props = {
     corridorMiles: number;
     autoCorridor: boolean;
     preference: 'fastest' | 'charger_optimized';
+    departAt?: string | null;
   } | null;
   savedRoutes?: SavedRoute[];
   savedRoutesLoading?: boolean;
@@ -49,6 +83,7 @@ type Props = {
     corridorMiles: number;
     autoCorridor: boolean;
     preference: 'fastest' | 'charger_optimized';
+    departAt?: string | null;
   }) => Promise<void>;
   onClearRoute: () => void;
   onSelectStation?: (stationId: number) => void;
@@ -60,8 +95,21 @@ type Props = {
     corridorMiles: number;
     autoCorridor: boolean;
     preference: 'fastest' | 'charger_optimized';
+    departAt?: string | null;
+    includeSnapshot?: boolean;
   }) => Promise<void>;
   onLoadSavedRoute?: (id: number) => Promise<void>;
+  // Omitted when signed out.
+  onUpdateSavedRoute?: (id: number, changes: SavedRouteUpdate) => Promise<void>;
+  onDeleteSavedRoute?: (id: number) => Promise<void>;
+  onViewSnapshot?: (id: number) => Promise<void>;
+  onCompareSnapshot?: (id: number) => Promise<SavedRouteSnapshotComparison>;
+  viewedSnapshot?: ViewedSnapshot | null;
+  // Set while one of the user's saved routes is on screen; resolves to a share link for it.
+  onShareSavedRoute?: () => Promise<string>;
+  onLoadShares?: (id: number) => Promise<SavedRouteShare[]>;
+  onCreateShare?: (id: number, expiresInDays: number | null) => Promise<SavedRouteShare>;
+  onRevokeShare?: (id: number, shareId: number) => Promise<void>;
 };
 
 function formatDistanceMiles(meters: number): string {
@@ -78,6 +126,27 @@ function formatDuration(durationSeconds: number): string {
   return `${hours}h ${minutes}m`;
 }
 
+function formatClockTime(iso: string): string {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return '—';
+  return date.toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' });
+}
+
+// `<input type="datetime-local">` works in local wall-clock time without a zone.
+function toDateTimeLocalValue(iso: string | null | undefined): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return '';
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function fromDateTimeLocalValue(value: string): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
 function formatElevationSummary(gainFeet?: number, lossFeet?: number): string {
   const gain = typeof gainFeet === 'number' && Number.isFinite(gainFeet) ? Math.round(gainFeet) : null;
   const loss = typeof lossFeet === 'number' && Number.isFinite(lossFeet) ? Math.round(lossFeet) : null;
@@ -312,6 +381,16 @@ export default function RoutePlanner({
   defaultPreference,
   rangeMiles,
   minArrivalPercent,
+  garageVehicles,
+  activeVehicleId,
+  onSelectVehicle,
+  connectorFilter,
+  onSetConnectorFilter,
+  stationNetworks,
+  networkFilter,
+  onSetNetworkFilter,
+  suggestLocations,
+  pendingLocation,
   initialParams,
   savedRoutes,
   savedRoutesLoading,
@@ -321,6 +400,15 @@ export default function RoutePlanner({
   onSelectStation,
   onSaveRoute,
   onLoadSavedRoute,
+  onUpdateSavedRoute,
+  onDeleteSavedRoute,
+  onViewSnapshot,
+  onCompareSnapshot,
+  viewedSnapshot,
+  onShareSavedRoute,
+  onLoadShares,
+  onCreateShare,
+  onRevokeShare,
 }: Props) {
   const initialAutoCorridor = initialParams?.autoCorridor ?? true;
   const [start, setStart] = useState(initialParams?.start ?? '');
@@ -331,15 +419,51 @@ export default function RoutePlanner({
     initialAutoCorridor ? 5 : (initialParams?.corridorMiles ?? defaultCorridorMiles ?? 30)
   ));
   const [preference, setPreference] = useState<'fastest' | 'charger_optimized'>(initialParams?.preference ?? defaultPreference ?? 'charger_optimized');
+  const [departLocal, setDepartLocal] = useState(() => toDateTimeLocalValue(initialParams?.departAt));
   const [saveName, setSaveName] = useState('');
   const [saving, setSaving] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
   const [saveSuccess, setSaveSuccess] = useState(false);
+  const [includeSnapshot, setIncludeSnapshot] = useState(false);
   const [copied, setCopied] = useState(false);
   const [showSavedRoutes, setShowSavedRoutes] = useState(false);
+  const [editingRouteId, setEditingRouteId] = useState<number | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [confirmDeleteRouteId, setConfirmDeleteRouteId] = useState<number | null>(null);
+  const [savedRouteBusyId, setSavedRouteBusyId] = useState<number | null>(null);
+  // A remount (e.g. loading a saved route) must not re-apply the last map pick.
+  const [appliedLocationId, setAppliedLocationId] = useState<number | null>(pendingLocation?.id ?? null);
+
+  if (pendingLocation && pendingLocation.id !== appliedLocationId) {
+    setAppliedLocationId(pendingLocation.id);
+    if (pendingLocation.target === 'start') {
+      setStart(pendingLocation.value);
+    } else if (pendingLocation.target === 'end') {
+      setEnd(pendingLocation.value);
+    } else {
+      // Fill the first blank waypoint row before adding a new one.
+      const blank = waypoints.findIndex((w) => !w.trim());
+      setWaypoints(blank === -1
+        ? [...waypoints, pendingLocation.value]
+        : waypoints.map((w, i) => (i === blank ? pendingLocation.value : w)));
+    }
+  }
 
   const routeStations = useMemo(() => route?.stations ?? [], [route]);
+  const loadedNetworks = useMemo(() => (stationNetworks ?? []).filter((n) => n.station_count > 0), [stationNetworks]);
+  const incompatibleCount = useMemo(() => routeStations.filter((s) => s.incompatible).length, [routeStations]);
   const mustStopCount = useMemo(() => mustStopStationIds?.size ?? 0, [mustStopStationIds]);
+  const chargingPlan = route?.charging_plan;
+  const overRangeLegs = useMemo(
+    () => route?.range_adjustment?.legs.filter((leg) => !leg.within_range) ?? [],
+    [route]
+  );
+  const chargingStopsById = useMemo(() => {
+    const map = new Map<number, ChargingStop>();
+    if (!chargingPlan?.feasible) return map;
+    for (const stop of chargingPlan.stops) map.set(stop.station_id, stop);
+    return map;
+  }, [chargingPlan]);
 
   // Find the closest weather point for a given station based on distance along route
   const getStationWeather = useMemo(() => {
@@ -361,10 +485,14 @@ export default function RoutePlanner({
 
   const gapAlert = useMemo(() => {
     if (!route || typeof route.max_gap_miles !== 'number' || !Number.isFinite(route.max_gap_miles)) return null;
-    const effectiveRange = typeof rangeMiles === 'number' && Number.isFinite(rangeMiles) ? Math.max(0, rangeMiles) : 210;
+    const nominalRange = typeof rangeMiles === 'number' && Number.isFinite(rangeMiles) ? Math.max(0, rangeMiles) : 210;
+    const weatherAdjusted = Boolean(route.range_adjustment && route.range_adjustment.effective_range_miles < nominalRange);
+    const effectiveRange = weatherAdjusted ? route.range_adjustment!.effective_range_miles : nominalRange;
     if (effectiveRange <= 0) return null;
+    const rangeLabel = `${weatherAdjusted ? 'weather-adjusted ' : ''}${Math.round(effectiveRange)} mi range`;
 
-    const maxGap = route.max_gap_miles;
+    // Climbs make a gap cost more than its distance; judge it by the energy-equivalent miles when available.
+    const maxGap = route.max_gap_energy_miles ?? route.max_gap_miles;
     const bufferMiles = effectiveRange - maxGap;
     const configuredMinArrivalPercent = typeof minArrivalPercent === 'number' && Number.isFinite(minArrivalPercent)
       ? Math.max(0, Math.min(100, minArrivalPercent))
@@ -374,7 +502,7 @@ export default function RoutePlanner({
     if (maxGap > effectiveRange) {
       return {
         level: 'danger' as const,
-        message: `No viable EA-only path for your ${Math.round(effectiveRange)} mi range (max gap ${Math.round(maxGap)} mi). Increase corridor miles, add waypoints, or use another network.`,
+        message: `No viable path on ${route.networks ? 'the selected networks' : 'any network'} for your ${rangeLabel} (max gap ${Math.round(maxGap)} mi). Increase corridor miles, add waypoints${route.networks ? ', or allow more networks' : ''}.`,
       };
     }
 
@@ -421,6 +549,8 @@ export default function RoutePlanner({
     return start.trim().length > 0 && end.trim().length > 0 && !loading;
   }, [start, end, loading]);
 
+  const departAt = fromDateTimeLocalValue(departLocal);
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     if (!canSubmit) return;
@@ -431,6 +561,7 @@ export default function RoutePlanner({
       corridorMiles,
       autoCorridor,
       preference,
+      departAt,
     });
   }
 
@@ -439,7 +570,9 @@ export default function RoutePlanner({
       let url = window.location.href;
       const startTrimmed = start.trim();
       const endTrimmed = end.trim();
-      if (startTrimmed && endTrimmed) {
+      if (onShareSavedRoute) {
+        url = await onShareSavedRoute();
+      } else if (startTrimmed && endTrimmed) {
         const next = new URLSearchParams();
         next.set('start', startTrimmed);
         next.set('end', endTrimmed);
@@ -449,6 +582,7 @@ export default function RoutePlanner({
         next.set('corridor', String(corridorMiles));
         if (autoCorridor) next.set('auto', '1');
         next.set('pref', preference);
+        if (departAt) next.set('depart', departAt);
         url = `${window.location.origin}${window.location.pathname}?${next.toString()}`;
       }
 
@@ -477,6 +611,8 @@ export default function RoutePlanner({
         corridorMiles,
         autoCorridor,
         preference,
+        departAt,
+        includeSnapshot: includeSnapshot && Boolean(route),
       });
       setSaveSuccess(true);
       window.setTimeout(() => setSaveSuccess(false), 2000);
@@ -498,6 +634,55 @@ export default function RoutePlanner({
     }
   }
 
+  async function handleViewSnapshot(id: number) {
+    if (!onViewSnapshot) return;
+    setSaveError(null);
+    try {
+      await onViewSnapshot(id);
+      setShowSavedRoutes(false);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to load saved result');
+    }
+  }
+
+  function startEditingSavedRoute(saved: SavedRoute) {
+    setEditingRouteId(saved.id);
+    setEditingName(saved.name ?? '');
+    setConfirmDeleteRouteId(null);
+  }
+
+  async function handleUpdateSavedRoute(id: number, changes: SavedRouteUpdate) {
+    if (!onUpdateSavedRoute) return;
+    setSavedRouteBusyId(id);
+    setSaveError(null);
+    try {
+      await onUpdateSavedRoute(id, changes);
+      setEditingRouteId(null);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to update saved route');
+    } finally {
+      setSavedRouteBusyId(null);
+    }
+  }
+
+  async function handleDeleteSavedRoute(id: number) {
+    if (!onDeleteSavedRoute) return;
+    if (confirmDeleteRouteId !== id) {
+      setConfirmDeleteRouteId(id);
+      return;
+    }
+    setSavedRouteBusyId(id);
+    setSaveError(null);
+    try {
+      await onDeleteSavedRoute(id);
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to delete saved route');
+    } finally {
+      setConfirmDeleteRouteId(null);
+      setSavedRouteBusyId(null);
+    }
+  }
+
   function addWaypoint() {
     setWaypoints((prev) => [...prev, '']);
   }
@@ -520,6 +705,9 @@ export default function RoutePlanner({
     const totalMiles = (routeData.summary.distance_meters / 1609.344).toFixed(0);
     const totalHours = Math.floor(routeData.summary.duration_seconds / 3600);
     const totalMins = Math.round((routeData.summary.duration_seconds % 3600) / 60);
+    const scheduleLine = routeData.depart_at && routeData.arrive_at
+      ? `<div class="subtitle">Depart ${formatClockTime(routeData.depart_at)} • Arrive ${formatClockTime(routeData.arrive_at)}</div>`
+      : '';
 
     const stationRows = stations
       .map((s, idx) => {
@@ -538,6 +726,7 @@ export default function RoutePlanner({
               <span style="color: #666; font-size: 12px;">${s.street_address}<br>${s.city}, ${s.state} ${s.zip}</span>
             </td>
             <td style="padding: 8px; text-align: center;">${formatMiles(s.distance_along_route_miles)}</td>
+            <td style="padding: 8px; text-align: center;">${s.eta_iso ? formatClockTime(s.eta_iso) : '—'}</td>
             <td style="padding: 8px; text-align: center;">+${formatMiles(s.distance_from_prev_miles)}</td>
             <td style="padding: 8px; text-align: center;">${s.ev_dc_fast_num} DC</td>
             <td style="padding: 8px; text-align: center;">${s.max_power_kw ?? '—'} kW</td>
@@ -562,7 +751,7 @@ export default function RoutePlanner({
           .summary-label { font-size: 12px; color: #666; }
           table { width: 100%; border-collapse: collapse; margin-top: 20px; }
           th { background: #333; color: white; padding: 10px; text-align: left; }
-          th:nth-child(1), th:nth-child(3), th:nth-child(4), th:nth-child(5), th:nth-child(6) { text-align: center; }
+          th:nth-child(1), th:nth-child(3), th:nth-child(4), th:nth-child(5), th:nth-child(6), th:nth-child(7) { text-align: center; }
           tr:nth-child(even) { background: #f9f9f9; }
           .footer { margin-top: 30px; padding-top: 20px; border-top: 1px solid #ddd; font-size: 12px; color: #666; }
           @media print {
@@ -574,6 +763,7 @@ export default function RoutePlanner({
       <body>
         <h1>EV Route Summary</h1>
         <div class="subtitle">${startLabel} → ${endLabel}</div>
+        ${scheduleLine}
 
         <div class="summary">
           <div class="summary-grid">
@@ -603,6 +793,7 @@ export default function RoutePlanner({
               <th style="width: 40px;">#</th>
               <th>Station</th>
               <th style="width: 80px;">Mile</th>
+              <th style="width: 90px;">ETA</th>
               <th style="width: 80px;">Gap</th>
               <th style="width: 70px;">Chargers</th>
               <th style="width: 70px;">Power</th>
@@ -652,13 +843,12 @@ export default function RoutePlanner({
       <form onSubmit={handleSubmit} className="mt-3 space-y-3">
         <div>
           <label className="block text-xs text-slate-300 mb-1" htmlFor="route-start">Start</label>
-          <input
+          <LocationInput
             id="route-start"
             value={start}
-            onChange={(e) => setStart(e.target.value)}
+            onChange={setStart}
             placeholder="e.g. Austin, TX"
-            className="w-full rounded-md bg-slate-800 border border-slate-700 px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-sky-500"
-            autoComplete="off"
+            suggestLocations={suggestLocations}
           />
         </div>
 
@@ -670,13 +860,12 @@ export default function RoutePlanner({
                   <label className="block text-xs text-slate-300 mb-1" htmlFor={`route-waypoint-${idx}`}>
                     Waypoint {idx + 1}
                   </label>
-                  <input
+                  <LocationInput
                     id={`route-waypoint-${idx}`}
                     value={value}
-                    onChange={(e) => updateWaypoint(idx, e.target.value)}
+                    onChange={(next) => updateWaypoint(idx, next)}
                     placeholder="Optional stop"
-                    className="w-full rounded-md bg-slate-800 border border-slate-700 px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-sky-500"
-                    autoComplete="off"
+                    suggestLocations={suggestLocations}
                   />
                 </div>
                 <div className="pt-6">
@@ -722,6 +911,110 @@ export default function RoutePlanner({
           </p>
         </div>
 
+        <div>
+          <div className="flex items-center justify-between mb-1">
+            <label className="block text-xs text-slate-300" htmlFor="route-depart">
+              Departure
+            </label>
+            {departLocal && (
+              <button
+                type="button"
+                onClick={() => setDepartLocal('')}
+                className="text-xs text-slate-300 hover:text-white underline"
+              >
+                Leave now
+              </button>
+            )}
+          </div>
+          <input
+            id="route-depart"
+            type="datetime-local"
+            value={departLocal}
+            onChange={(e) => setDepartLocal(e.target.value)}
+            className="w-full rounded-md bg-slate-800 border border-slate-700 px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-sky-500"
+          />
+          <p className="mt-1 text-[11px] text-slate-400">
+            {departLocal ? 'ETAs and forecasts are for this departure.' : 'Leaving now. Pick a time up to 14 days ahead.'}
+          </p>
+        </div>
+
+        {((garageVehicles && garageVehicles.length > 0 && onSelectVehicle) || onSetConnectorFilter) && (
+          <div className="grid grid-cols-2 gap-2">
+            {garageVehicles && garageVehicles.length > 0 && onSelectVehicle && (
+              <div>
+                <label className="block text-xs text-slate-300 mb-1" htmlFor="route-vehicle">
+                  Vehicle
+                </label>
+                <select
+                  id="route-vehicle"
+                  value={activeVehicleId === null || activeVehicleId === undefined ? '' : String(activeVehicleId)}
+                  onChange={(e) => onSelectVehicle(e.target.value ? Number.parseInt(e.target.value, 10) : null)}
+                  className="w-full rounded-md bg-slate-800 border border-slate-700 px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-sky-500"
+                >
+                  <option value="">Account preferences</option>
+                  {garageVehicles.map((vehicle) => (
+                    <option key={vehicle.id} value={vehicle.id}>
+                      {vehicle.name} ({vehicle.range_miles} mi)
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {onSetConnectorFilter && (
+              <div>
+                <label className="block text-xs text-slate-300 mb-1" htmlFor="route-connector">
+                  Connector
+                </label>
+                <select
+                  id="route-connector"
+                  value={connectorFilter ?? 'ANY'}
+                  onChange={(e) => onSetConnectorFilter(e.target.value as ConnectorFilter)}
+                  className="w-full rounded-md bg-slate-800 border border-slate-700 px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-sky-500"
+                >
+                  <option value="ANY">Any</option>
+                  <option value="CCS">CCS1</option>
+                  <option value="NACS">NACS (J3400)</option>
+                  <option value="CHADEMO">CHAdeMO</option>
+                  <option value="J1772">J1772</option>
+                </select>
+              </div>
+            )}
+          </div>
+        )}
+
+        {onSetNetworkFilter && loadedNetworks.length > 1 && (
+          <div>
+            <div className="block text-xs text-slate-300 mb-1">Networks</div>
+            <div className="flex flex-wrap gap-x-3 gap-y-1">
+              {loadedNetworks.map((network) => {
+                const checked = !networkFilter || networkFilter.includes(network.id);
+                const selectedCount = networkFilter ? networkFilter.length : loadedNetworks.length;
+                return (
+                  <label key={network.id} className="inline-flex items-center gap-1.5 text-[11px] text-slate-200">
+                    <input
+                      type="checkbox"
+                      checked={checked}
+                      // Keep at least one network selected.
+                      disabled={checked && selectedCount <= 1}
+                      onChange={() => {
+                        const current = networkFilter ?? loadedNetworks.map((n) => n.id);
+                        const next = checked ? current.filter((id) => id !== network.id) : [...current, network.id];
+                        onSetNetworkFilter(loadedNetworks.every((n) => next.includes(n.id)) ? null : next);
+                      }}
+                      className="h-3.5 w-3.5 accent-sky-500"
+                    />
+                    <span
+                      className="inline-block h-2.5 w-2.5 rounded-full"
+                      style={{ backgroundColor: NETWORK_COLORS[network.id]?.fill }}
+                    />
+                    {network.label}
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         <div>
           <div className="flex items-center justify-between gap-3 mb-1">
             <label className="block text-xs text-slate-300" htmlFor="route-corridor">
@@ -757,19 +1050,18 @@ export default function RoutePlanner({
           <p className="mt-1 text-[11px] text-slate-400">
             {autoCorridor
               ? 'Starts narrow and widens only if needed to keep max gaps within your range.'
-              : 'Includes EA stations within this distance of the route.'}
+              : 'Includes stations within this distance of the route.'}
           </p>
         </div>
 
         <div>
           <label className="block text-xs text-slate-300 mb-1" htmlFor="route-end">End</label>
-          <input
+          <LocationInput
             id="route-end"
             value={end}
-            onChange={(e) => setEnd(e.target.value)}
+            onChange={setEnd}
             placeholder="e.g. Dallas, TX"
-            className="w-full rounded-md bg-slate-800 border border-slate-700 px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-sky-500"
-            autoComplete="off"
+            suggestLocations={suggestLocations}
           />
         </div>
 
@@ -779,6 +1071,17 @@ export default function RoutePlanner({
           </div>
         )}
 
+        {route && viewedSnapshot && (
+          <SnapshotBanner
+            key={`${viewedSnapshot.savedRouteId}:${viewedSnapshot.createdAt}`}
+            savedRouteId={viewedSnapshot.savedRouteId}
+            name={viewedSnapshot.name}
+            createdAt={viewedSnapshot.createdAt}
+            onCompare={onCompareSnapshot}
+            onReplan={onLoadSavedRoute}
+          />
+        )}
+
         {route && (
           <div className="text-xs text-slate-200 bg-slate-800/60 border border-slate-700 rounded-md px-3 py-2">
             <div className="flex justify-between">
@@ -789,6 +1092,14 @@ export default function RoutePlanner({
               <span className="text-slate-300">Duration</span>
               <span className="font-medium">{formatDuration(route.summary.duration_seconds)}</span>
             </div>
+            {route.depart_at && route.arrive_at && (
+              <div className="flex justify-between mt-1">
+                <span className="text-slate-300">Depart → arrive</span>
+                <span className="font-medium">
+                  {formatClockTime(route.depart_at)} → {formatClockTime(route.arrive_at)}
+                </span>
+              </div>
+            )}
             {(typeof route.summary.elevation_gain_ft === 'number' || typeof route.summary.elevation_loss_ft === 'number') && (
               <div className="flex justify-between mt-1">
                 <span className="text-slate-300">Elevation</span>
@@ -805,7 +1116,10 @@ export default function RoutePlanner({
             </div>
             <div className="flex justify-between mt-1">
               <span className="text-slate-300">Stations (≤ {route.corridor_miles ?? 15} mi)</span>
-              <span className="font-medium">{routeStations.length}</span>
+              <span className="font-medium">
+                {routeStations.length}
+                {incompatibleCount > 0 ? ` (${incompatibleCount} incompatible)` : ''}
+              </span>
             </div>
             {mustStopStationIds && (
               <div className="flex justify-between mt-1">
@@ -816,9 +1130,67 @@ export default function RoutePlanner({
             {typeof route.max_gap_miles === 'number' && (
               <div className="flex justify-between mt-1">
                 <span className="text-slate-300">Max gap</span>
-                <span className="font-medium">{formatMiles(route.max_gap_miles)}</span>
+                <span className="font-medium">
+                  {formatMiles(route.max_gap_miles)}
+                  {typeof route.max_gap_energy_miles === 'number' && route.max_gap_energy_miles > route.max_gap_miles * 1.05 && (
+                    <span className="text-slate-400" title="Energy of the hardest gap expressed as flat-road miles">
+                      {' '}(≈{formatMiles(route.max_gap_energy_miles)} w/ climbs)
+                    </span>
+                  )}
+                </span>
+              </div>
+            )}
+            {route.range_adjustment && (
+              <div className="flex justify-between mt-1">
+                <span className="text-slate-300">Range (weather)</span>
+                <span
+                  className={[
+                    'font-medium',
+                    route.range_adjustment.effective_range_miles < route.range_adjustment.nominal_range_miles ? 'text-amber-200' : '',
+                  ].join(' ')}
+                  title="Lowest range anywhere on the route after cold and headwind adjustments"
+                >
+                  {route.range_adjustment.effective_range_miles} mi
+                  {' '}
+                  <span className="text-slate-400">(nominal {route.range_adjustment.nominal_range_miles} mi)</span>
+                </span>
+              </div>
+            )}
+            {overRangeLegs.length > 0 && (
+              <div className="mt-1 space-y-0.5 text-[11px] text-red-200">
+                {overRangeLegs.map((leg) => (
+                  <div key={`${leg.from_miles}-${leg.to_miles}`}>
+                    mi {formatMiles(leg.from_miles)}–{formatMiles(leg.to_miles)}: {formatMiles(leg.distance_miles)} mi leg vs {leg.adjusted_range_miles} mi adjusted range
+                    {leg.min_temperature_f !== null ? ` • ${leg.min_temperature_f}°F` : ''}
+                    {leg.max_headwind_mph !== null && leg.max_headwind_mph > 0 ? ` • ${leg.max_headwind_mph} mph headwind` : ''}
+                  </div>
+                ))}
               </div>
             )}
+            {route.soc_timeline && (
+              <div className="flex justify-between mt-1">
+                <span className="text-slate-300">Arrive at destination</span>
+                <span className={['font-medium', route.soc_timeline.reachable ? '' : 'text-red-300'].join(' ')}>
+                  {route.soc_timeline.destination_arrival_soc_percent}%
+                  {' '}
+                  <span className="text-slate-400">(start {route.soc_timeline.start_soc_percent}%)</span>
+                </span>
+              </div>
+            )}
+            {chargingPlan?.feasible && (
+              <>
+                <div className="flex justify-between mt-1">
+                  <span className="text-slate-300">Charging</span>
+                  <span className="font-medium">
+                    {chargingPlan.stops.length} stop{chargingPlan.stops.length === 1 ? '' : 's'} • {formatDuration(chargingPlan.total_charge_minutes * 60)}
+                  </span>
+                </div>
+                <div className="flex justify-between mt-1">
+                  <span className="text-slate-300">Trip time</span>
+                  <span className="font-medium">{formatDuration(chargingPlan.total_trip_minutes * 60)}</span>
+                </div>
+              </>
+            )}
           </div>
         )}
 
@@ -844,6 +1216,12 @@ export default function RoutePlanner({
           </div>
         )}
 
+        {chargingPlan && !chargingPlan.feasible && chargingPlan.message && (
+          <div className="text-xs text-red-100 bg-red-900/50 border border-red-800 rounded-md px-3 py-2">
+            {chargingPlan.message}
+          </div>
+        )}
+
         {gapAlert && (
           <div
             className={[
@@ -873,7 +1251,7 @@ export default function RoutePlanner({
                   onClick={handleCopyLink}
                   className="rounded-md border border-slate-600 bg-slate-800 px-2 py-1 text-[11px] text-slate-200 hover:bg-slate-700"
                 >
-                  {copied ? 'Copied' : 'Copy link'}
+                  {copied ? 'Copied' : onShareSavedRoute ? 'Copy share link' : 'Copy link'}
                 </button>
                 <button
                   type="button"
@@ -892,6 +1270,7 @@ export default function RoutePlanner({
             </div>
 
             {onSaveRoute ? (
+              <>
               <div className="mt-2 flex gap-2">
                 <input
                   value={saveName}
@@ -909,6 +1288,18 @@ export default function RoutePlanner({
                   {saving ? 'Saving…' : saveSuccess ? 'Saved' : 'Save'}
                 </button>
               </div>
+              {route && (
+                <label className="mt-1 flex items-center gap-2 text-[11px] text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={includeSnapshot}
+                    onChange={(e) => setIncludeSnapshot(e.target.checked)}
+                    className="h-3.5 w-3.5 accent-sky-500"
+                  />
+                  Include planned result (reopens without re-planning)
+                </label>
+              )}
+              </>
             ) : (
               <div className="mt-2 flex items-center justify-between gap-2 text-[11px] text-slate-400">
                 <div>Sign in to save routes.</div>
@@ -951,23 +1342,135 @@ export default function RoutePlanner({
                   <div className="max-h-40 overflow-auto divide-y divide-slate-700">
                     {(savedRoutes ?? []).map((r) => (
                       <div key={r.id} className="py-2">
-                        <div className="flex items-center justify-between gap-2">
-                          <div className="min-w-0">
-                            <div className="truncate text-[11px] text-slate-100 font-medium">
-                              {r.name ?? `${r.start_query} → ${r.end_query}`}
+                        {editingRouteId === r.id ? (
+                          <div className="space-y-1">
+                            <input
+                              value={editingName}
+                              onChange={(e) => setEditingName(e.target.value)}
+                              placeholder={`${r.start_query} → ${r.end_query}`}
+                              className="w-full rounded-md bg-slate-900 border border-slate-700 px-2 py-1 text-[11px] outline-none focus:ring-2 focus:ring-sky-500"
+                              autoComplete="off"
+                            />
+                            <div className="flex flex-wrap gap-1">
+                              <button
+                                type="button"
+                                onClick={() => void handleUpdateSavedRoute(r.id, { name: editingName.trim() || null })}
+                                disabled={savedRouteBusyId === r.id}
+                                className="rounded-md bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-700 disabled:text-slate-400 px-2 py-1 text-[11px] font-semibold"
+                              >
+                                Rename
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => void handleUpdateSavedRoute(r.id, {
+                                  name: editingName.trim() || null,
+                                  start: start.trim(),
+                                  end: end.trim(),
+                                  waypoints: waypoints.map((w) => w.trim()).filter(Boolean),
+                                  corridorMiles,
+                                  preference,
+                                })}
+                                disabled={savedRouteBusyId === r.id || !start.trim() || !end.trim()}
+                                title="Replace this saved route's stops and settings with the ones in the form"
+                                className="rounded-md border border-slate-600 bg-slate-800 px-2 py-1 text-[11px] text-slate-200 hover:bg-slate-700 disabled:text-slate-500"
+                              >
+                                Use current form
+                              </button>
+                              {route && !viewedSnapshot && (
+                                <button
+                                  type="button"
+                                  onClick={() => void handleUpdateSavedRoute(r.id, { snapshot: route })}
+                                  disabled={savedRouteBusyId === r.id}
+                                  title="Store the route shown now so it reopens without re-planning"
+                                  className="rounded-md border border-slate-600 bg-slate-800 px-2 py-1 text-[11px] text-slate-200 hover:bg-slate-700 disabled:text-slate-500"
+                                >
+                                  Save result
+                                </button>
+                              )}
+                              {r.snapshot_at && (
+                                <button
+                                  type="button"
+                                  onClick={() => void handleUpdateSavedRoute(r.id, { snapshot: null })}
+                                  disabled={savedRouteBusyId === r.id}
+                                  className="rounded-md border border-slate-600 bg-slate-800 px-2 py-1 text-[11px] text-slate-200 hover:bg-slate-700 disabled:text-slate-500"
+                                >
+                                  Remove result
+                                </button>
+                              )}
+                              <button
+                                type="button"
+                                onClick={() => setEditingRouteId(null)}
+                                className="px-2 py-1 text-[11px] text-slate-300 hover:text-white underline"
+                              >
+                                Cancel
+                              </button>
+                            </div>
+                            {onLoadShares && onCreateShare && onRevokeShare && (
+                              <SavedRouteShares
+                                savedRouteId={r.id}
+                                onLoad={onLoadShares}
+                                onCreate={onCreateShare}
+                                onRevoke={onRevokeShare}
+                              />
+                            )}
+                          </div>
+                        ) : (
+                          <div className="flex items-center justify-between gap-2">
+                            <div className="min-w-0">
+                              <div className="truncate text-[11px] text-slate-100 font-medium">
+                                {r.name ?? `${r.start_query} → ${r.end_query}`}
+                              </div>
+                              <div className="truncate text-[11px] text-slate-400">
+                                {r.preference === 'charger_optimized' ? 'DC optimized' : 'Fastest'} • {r.corridor_miles} mi
+                                {r.snapshot_at ? ' • result saved' : ''}
+                              </div>
                             </div>
-                            <div className="truncate text-[11px] text-slate-400">
-                              {r.preference === 'charger_optimized' ? 'DC optimized' : 'Fastest'} • {r.corridor_miles} mi
+                            <div className="flex shrink-0 gap-1">
+                              <button
+                                type="button"
+                                onClick={() => handleLoadSavedRoute(r.id)}
+                                className="rounded-md border border-slate-600 bg-slate-800 px-2 py-1 text-[11px] text-slate-200 hover:bg-slate-700"
+                              >
+                                Load
+                              </button>
+                              {r.snapshot_at && onViewSnapshot && (
+                                <button
+                                  type="button"
+                                  onClick={() => void handleViewSnapshot(r.id)}
+                                  title={`Open the result saved ${new Date(r.snapshot_at).toLocaleString()}`}
+                                  className="rounded-md border border-slate-600 bg-slate-800 px-2 py-1 text-[11px] text-slate-200 hover:bg-slate-700"
+                                >
+                                  View
+                                </button>
+                              )}
+                              {onUpdateSavedRoute && (
+                                <button
+                                  type="button"
+                                  onClick={() => startEditingSavedRoute(r)}
+                                  className="rounded-md border border-slate-600 bg-slate-800 px-2 py-1 text-[11px] text-slate-200 hover:bg-slate-700"
+                                >
+                                  Edit
+                                </button>
+                              )}
+                              {onDeleteSavedRoute && (
+                                <button
+                                  type="button"
+                                  onClick={() => void handleDeleteSavedRoute(r.id)}
+                                  onBlur={() => setConfirmDeleteRouteId((id) => (id === r.id ? null : id))}
+                                  disabled={savedRouteBusyId === r.id}
+                                  className={[
+                                    'rounded-md border px-2 py-1 text-[11px]',
+                                    confirmDeleteRouteId === r.id
+                                      ? 'border-red-700 bg-red-900/60 text-red-100 hover:bg-red-800'
+                                      : 'border-slate-600 bg-slate-800 text-slate-200 hover:bg-slate-700',
+                                  ].join(' ')}
+                                >
+                                  {confirmDeleteRouteId === r.id ? 'Confirm' : 'Delete'}
+                                </button>
+                              )}
                             </div>
                           </div>
-                          <button
-                            type="button"
-                            onClick={() => handleLoadSavedRoute(r.id)}
-                            className="shrink-0 rounded-md border border-slate-600 bg-slate-800 px-2 py-1 text-[11px] text-slate-200 hover:bg-slate-700"
-                          >
-                            Load
-                          </button>
-                        </div>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -1125,7 +1628,7 @@ export default function RoutePlanner({
             </div>
             {routeStations.length === 0 ? (
               <div className="px-3 py-2 text-slate-300">
-                No EA stations found within {route.corridor_miles ?? 15} miles of this route.
+                No stations found within {route.corridor_miles ?? 15} miles of this route.
               </div>
             ) : (
               <div className="max-h-56 overflow-auto divide-y divide-slate-700">
@@ -1139,6 +1642,7 @@ export default function RoutePlanner({
                       'w-full text-left px-3 py-2 transition-colors',
                       onSelectStation ? 'hover:bg-slate-700/40' : 'cursor-default',
                       station.id === selectedStationId ? 'bg-slate-700/50' : '',
+                      station.incompatible ? 'opacity-50' : '',
                     ].join(' ')}
                   >
                     <div className="flex justify-between gap-3">
@@ -1146,9 +1650,13 @@ export default function RoutePlanner({
                         <span
                           className={[
                             'inline-block w-2 h-2 rounded-full shrink-0',
-                            station.status_code === 'E' ? 'bg-emerald-500' : 'bg-red-500',
+                            station.status_code !== 'E'
+                              ? 'bg-red-500'
+                              : station.checkin_summary?.reported_down ? 'bg-amber-500' : 'bg-emerald-500',
                           ].join(' ')}
-                          title={station.status_code === 'E' ? 'Operational' : 'Temporarily unavailable'}
+                          title={station.status_code !== 'E'
+                            ? 'Temporarily unavailable'
+                            : station.checkin_summary?.reported_down ? 'Reported not working by drivers' : 'Operational'}
                         />
                         {idx + 1}. {station.station_name}
                       </div>
@@ -1158,6 +1666,14 @@ export default function RoutePlanner({
                             OFFLINE
                           </span>
                         )}
+                        {station.incompatible && (
+                          <span
+                            className="inline-flex items-center rounded-full border border-slate-600 bg-slate-800 px-2 py-0.5 text-[10px] font-semibold text-slate-300"
+                            title={`Connectors: ${station.ev_connector_types?.join(', ') || 'unknown'}`}
+                          >
+                            INCOMPATIBLE
+                          </span>
+                        )}
                         {mustStopStationIds?.has(station.id) && (
                           <span className="inline-flex items-center rounded-full border border-amber-700 bg-amber-900/40 px-2 py-0.5 text-[10px] font-semibold text-amber-100">
                             MUST STOP
@@ -1169,7 +1685,9 @@ export default function RoutePlanner({
                               'inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-[10px] font-semibold',
                               rankBadgeClasses(station.rank_tier),
                             ].join(' ')}
-                            title={typeof station.rank_score === 'number' ? `Score ${station.rank_score}/100` : undefined}
+                            title={typeof station.rank_score === 'number'
+                              ? `Score ${station.rank_score}/100${typeof station.reliability_percent === 'number' ? ` • ${station.reliability_percent}% reliable` : ''}`
+                              : undefined}
                           >
                             {station.rank_tier} #{station.rank}
                           </span>
@@ -1179,6 +1697,10 @@ export default function RoutePlanner({
                           {typeof station.elevation_from_prev_ft === 'number' && Number.isFinite(station.elevation_from_prev_ft)
                             ? ` • ${formatElevationFeet(station.elevation_from_prev_ft)}`
                             : ''}
+                          {typeof station.arrival_soc_percent === 'number' ? ` • arrive ${station.arrival_soc_percent}%` : ''}
+                          {chargingStopsById.has(station.id)
+                            ? ` → ${chargingStopsById.get(station.id)!.departure_soc_percent}% (${chargingStopsById.get(station.id)!.charge_minutes} min)`
+                            : ''}
                         </span>
                       </div>
                     </div>
@@ -1188,6 +1710,7 @@ export default function RoutePlanner({
                         <WeatherBadge weather={getStationWeather(station.distance_along_route_miles)} />
                       </div>
                       <div className="shrink-0">
+                        {station.eta_iso ? `${formatClockTime(station.eta_iso)} • ` : ''}
                         mi {formatMiles(station.distance_along_route_miles)} • off-route {formatMiles(station.distance_to_route_miles)}
                       </div>
                     </div>
@@ -0,0 +1,140 @@
+import { useEffect, useState } from 'react';
+import type { SavedRouteShare } from '../types/savedRoute';
+import { shareLinkUrl } from './shareLinks';
+
+type Props = {
+  savedRouteId: number;
+  onLoad: (id: number) => Promise<SavedRouteShare[]>;
+  onCreate: (id: number, expiresInDays: number | null) => Promise<SavedRouteShare>;
+  onRevoke: (id: number, shareId: number) => Promise<void>;
+};
+
+const EXPIRY_OPTIONS: Array<{ label: string; days: number | null }> = [
+  { label: 'Never expires', days: null },
+  { label: 'Expires in 1 day', days: 1 },
+  { label: 'Expires in 7 days', days: 7 },
+  { label: 'Expires in 30 days', days: 30 },
+];
+
+function formatExpiry(share: SavedRouteShare): string {
+  if (share.status === 'expired') return 'Expired';
+  if (!share.expires_at) return 'No expiry';
+  return `Until ${new Date(share.expires_at).toLocaleDateString([], { month: 'short', day: 'numeric' })}`;
+}
+
+export default function SavedRouteShares({ savedRouteId, onLoad, onCreate, onRevoke }: Props) {
+  const [shares, setShares] = useState<SavedRouteShare[] | null>(null);
+  const [expiryDays, setExpiryDays] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [copiedId, setCopiedId] = useState<number | null>(null);
+  const [shareError, setShareError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    onLoad(savedRouteId)
+      .then((result) => {
+        if (!cancelled) setShares(result);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setShareError(err instanceof Error ? err.message : 'Failed to load share links');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [savedRouteId, onLoad]);
+
+  async function copyShare(share: SavedRouteShare) {
+    try {
+      await navigator.clipboard.writeText(shareLinkUrl(share.token));
+      setCopiedId(share.id);
+      window.setTimeout(() => setCopiedId((id) => (id === share.id ? null : id)), 1500);
+    } catch (err) {
+      setShareError(err instanceof Error ? err.message : 'Failed to copy');
+    }
+  }
+
+  async function handleCreate() {
+    if (busy) return;
+    setBusy(true);
+    setShareError(null);
+    try {
+      const share = await onCreate(savedRouteId, expiryDays);
+      setShares((prev) => [share, ...(prev ?? [])]);
+      await copyShare(share);
+    } catch (err) {
+      setShareError(err instanceof Error ? err.message : 'Failed to create share link');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleRevoke(shareId: number) {
+    if (busy) return;
+    setBusy(true);
+    setShareError(null);
+    try {
+      await onRevoke(savedRouteId, shareId);
+      setShares((prev) => (prev ?? []).filter((share) => share.id !== shareId));
+    } catch (err) {
+      setShareError(err instanceof Error ? err.message : 'Failed to revoke share link');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="mt-1 border-t border-slate-700 pt-1 space-y-1">
+      <div className="text-[11px] text-slate-300">Share links (view only)</div>
+      {!shares && !shareError && <div className="text-[11px] text-slate-500">Loading…</div>}
+      {shares && shares.length === 0 && <div className="text-[11px] text-slate-500">No share links.</div>}
+      {shares?.map((share) => (
+        <div key={share.id} className="flex items-center justify-between gap-2 text-[11px]">
+          <span className={share.status === 'expired' ? 'text-slate-500' : 'text-slate-300'}>
+            {new Date(share.created_at).toLocaleDateString([], { month: 'short', day: 'numeric' })} • {formatExpiry(share)}
+          </span>
+          <span className="flex shrink-0 gap-1">
+            {share.status === 'active' && (
+              <button
+                type="button"
+                onClick={() => void copyShare(share)}
+                className="px-1 text-sky-300 hover:text-sky-200 underline"
+              >
+                {copiedId === share.id ? 'Copied' : 'Copy'}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => void handleRevoke(share.id)}
+              disabled={busy}
+              className="px-1 text-red-300 hover:text-red-200 underline disabled:text-slate-500"
+            >
+              Revoke
+            </button>
+          </span>
+        </div>
+      ))}
+      <div className="flex gap-1">
+        <select
+          value={expiryDays === null ? '' : String(expiryDays)}
+          onChange={(e) => setExpiryDays(e.target.value ? Number.parseInt(e.target.value, 10) : null)}
+          className="flex-1 rounded-md bg-slate-900 border border-slate-700 px-1 py-1 text-[11px] outline-none focus:ring-2 focus:ring-sky-500"
+        >
+          {EXPIRY_OPTIONS.map((option) => (
+            <option key={option.label} value={option.days === null ? '' : String(option.days)}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => void handleCreate()}
+          disabled={busy}
+          className="rounded-md border border-slate-600 bg-slate-800 px-2 py-1 text-[11px] text-slate-200 hover:bg-slate-700 disabled:text-slate-500"
+        >
+          New link
+        </button>
+      </div>
+      {shareError && <div className="text-[11px] text-red-200">{shareError}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import type { SavedRouteSnapshotComparison, SnapshotStationChange } from '../types/savedRoute';
+
+type Props = {
+  savedRouteId: number;
+  name: string | null;
+  createdAt: string;
+  onCompare?: (id: number) => Promise<SavedRouteSnapshotComparison>;
+  onReplan?: (id: number) => Promise<void>;
+};
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+function formatStatus(code: string | null): string {
+  if (code === 'E') return 'Operational';
+  if (code === 'T') return 'Temporarily unavailable';
+  if (code === 'P') return 'Planned';
+  return code ?? 'Unknown';
+}
+
+function describeChange(change: SnapshotStationChange): string {
+  if (change.change === 'removed' || !change.after) return 'No longer listed';
+  const { before, after } = change;
+  const parts: string[] = [];
+  if (before.status_code !== after.status_code) {
+    parts.push(`${formatStatus(before.status_code)} → ${formatStatus(after.status_code)}`);
+  }
+  if (before.max_power_kw !== after.max_power_kw) {
+    parts.push(`${before.max_power_kw ?? '?'} → ${after.max_power_kw ?? '?'} kW`);
+  }
+  if (before.ev_dc_fast_num !== after.ev_dc_fast_num) {
+    parts.push(`${before.ev_dc_fast_num ?? '?'} → ${after.ev_dc_fast_num ?? '?'} stalls`);
+  }
+  return parts.join(' • ');
+}
+
+export default function SnapshotBanner({ savedRouteId, name, createdAt, onCompare, onReplan }: Props) {
+  const [comparison, setComparison] = useState<SavedRouteSnapshotComparison | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [replanning, setReplanning] = useState(false);
+  const [bannerError, setBannerError] = useState<string | null>(null);
+
+  async function handleCompare() {
+    if (!onCompare || comparing) return;
+    setComparing(true);
+    setBannerError(null);
+    try {
+      setComparison(await onCompare(savedRouteId));
+    } catch (err) {
+      setBannerError(err instanceof Error ? err.message : 'Failed to compare with current data');
+    } finally {
+      setComparing(false);
+    }
+  }
+
+  async function handleReplan() {
+    if (!onReplan || replanning) return;
+    setReplanning(true);
+    setBannerError(null);
+    try {
+      await onReplan(savedRouteId);
+    } catch (err) {
+      setBannerError(err instanceof Error ? err.message : 'Failed to re-plan route');
+      setReplanning(false);
+    }
+  }
+
+  return (
+    <div className="text-xs text-sky-100 bg-sky-900/40 border border-sky-800 rounded-md px-3 py-2">
+      <div className="font-medium">
+        Saved result{name ? ` for “${name}”` : ''} from {formatDateTime(createdAt)}
+      </div>
+      <div className="text-[11px] text-sky-200/80">
+        Station status, weather and ETAs are as they were then.
+      </div>
+      <div className="mt-2 flex flex-wrap gap-1">
+        {onCompare && (
+          <button
+            type="button"
+            onClick={() => void handleCompare()}
+            disabled={comparing}
+            className="rounded-md border border-slate-600 bg-slate-800 px-2 py-1 text-[11px] text-slate-200 hover:bg-slate-700 disabled:text-slate-500"
+          >
+            {comparing ? 'Comparing…' : 'Compare with current data'}
+          </button>
+        )}
+        {onReplan && (
+          <button
+            type="button"
+            onClick={() => void handleReplan()}
+            disabled={replanning}
+            className="rounded-md bg-sky-600 hover:bg-sky-500 disabled:bg-slate-700 disabled:text-slate-400 px-2 py-1 text-[11px] font-semibold"
+          >
+            {replanning ? 'Planning…' : 'Re-plan now'}
+          </button>
+        )}
+      </div>
+      {bannerError && <div className="mt-2 text-[11px] text-red-200">{bannerError}</div>}
+      {comparison && (
+        <div className="mt-2 border-t border-sky-800 pt-2 text-[11px]">
+          {comparison.changes.length === 0 ? (
+            <div className="text-sky-200">
+              No changes to the {comparison.stations_checked} station{comparison.stations_checked === 1 ? '' : 's'} on this route.
+            </div>
+          ) : (
+            <>
+              <div className="text-sky-200">
+                {comparison.changes.length} of {comparison.stations_checked} stations changed since saving
+              </div>
+              <ul className="mt-1 max-h-32 overflow-auto space-y-1">
+                {comparison.changes.map((change) => (
+                  <li key={change.station_id}>
+                    <span className={change.change === 'updated' ? 'text-slate-100' : 'text-amber-200'}>
+                      {change.station_name}
+                    </span>
+                    {typeof change.distance_along_route_miles === 'number' && (
+                      <span className="text-slate-400"> • mile {Math.round(change.distance_along_route_miles)}</span>
+                    )}
+                    <div className="text-slate-300">
+                      {describeChange(change)}
+                      {change.changed_at ? ` (updated ${formatDateTime(change.changed_at)})` : ''}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import { useEffect, useState } from 'react';
+import type { StationCheckin, StationCheckinOutcome, StationCheckinsResponse } from '../types/station';
+import type { StationCheckinInput } from '../services/api';
+
+type Props = {
+  stationId: number;
+  stalls: number;
+  onLoad: (stationId: number) => Promise<StationCheckinsResponse>;
+  // Omitted when signed out.
+  onCheckIn?: (stationId: number, checkin: StationCheckinInput) => Promise<StationCheckin>;
+};
+
+const OUTCOME_LABELS: Record<StationCheckinOutcome, string> = {
+  charged_ok: 'Charged OK',
+  partial: 'Partial',
+  failed: 'Failed',
+  iced: "ICE'd",
+};
+
+const OUTCOME_CLASSES: Record<StationCheckinOutcome, string> = {
+  charged_ok: 'bg-emerald-100 text-emerald-800',
+  partial: 'bg-amber-100 text-amber-900',
+  failed: 'bg-red-100 text-red-800',
+  iced: 'bg-slate-200 text-slate-800',
+};
+
+const outcomeOptions: StationCheckinOutcome[] = ['charged_ok', 'partial', 'failed', 'iced'];
+
+// Shown in the popup; the full list is available from the API.
+const MAX_LISTED = 5;
+
+function formatAge(iso: string): string {
+  const minutes = Math.max(0, Math.round((Date.now() - new Date(iso).getTime()) / 60_000));
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours}h ago`;
+  return `${Math.round(hours / 24)}d ago`;
+}
+
+export default function StationCheckins({ stationId, stalls, onLoad, onCheckIn }: Props) {
+  const [data, setData] = useState<StationCheckinsResponse | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [outcome, setOutcome] = useState<StationCheckinOutcome | null>(null);
+  const [workingStalls, setWorkingStalls] = useState('');
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    onLoad(stationId)
+      .then((result) => {
+        if (!cancelled) setData(result);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : 'Failed to load check-ins');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [stationId, onLoad]);
+
+  async function handleSubmit() {
+    if (!onCheckIn || !outcome || submitting) return;
+    setSubmitting(true);
+    setSubmitError(null);
+    try {
+      const parsedStalls = workingStalls.trim() ? Number.parseInt(workingStalls.trim(), 10) : null;
+      await onCheckIn(stationId, {
+        outcome,
+        workingStalls: Number.isFinite(parsedStalls ?? NaN) ? parsedStalls : null,
+        comment: comment.trim() || null,
+      });
+      setOutcome(null);
+      setWorkingStalls('');
+      setComment('');
+      setData(await onLoad(stationId));
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Failed to save check-in');
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  const listed = data?.checkins.slice(0, MAX_LISTED) ?? [];
+
+  return (
+    <div className="mt-2 border-t border-slate-200 pt-2 text-sm">
+      <div className="flex items-center justify-between">
+        <strong>Check-ins</strong>
+        {data && data.summary.recent_checkins > 0 && (
+          <span className="text-[11px] text-slate-500">
+            {data.summary.recent_checkins} in last {data.window_hours}h
+          </span>
+        )}
+      </div>
+      {data?.summary.reported_down && (
+        <p className="text-xs font-semibold text-red-600">Recently reported not working</p>
+      )}
+      {loadError && <p className="text-xs text-red-600">{loadError}</p>}
+      {!data && !loadError && <p className="text-xs text-slate-500">Loading…</p>}
+      {data && listed.length === 0 && <p className="text-xs text-slate-500">No check-ins yet.</p>}
+      {listed.length > 0 && (
+        <ul className="mt-1 space-y-1">
+          {listed.map((checkin) => (
+            <li key={checkin.id} className="text-xs text-slate-700">
+              <span className={`rounded px-1.5 py-0.5 text-[10px] font-semibold ${OUTCOME_CLASSES[checkin.outcome]}`}>
+                {OUTCOME_LABELS[checkin.outcome]}
+              </span>
+              {' '}
+              {formatAge(checkin.created_at)}
+              {typeof checkin.working_stalls === 'number' ? ` • ${checkin.working_stalls} stall${checkin.working_stalls === 1 ? '' : 's'} working` : ''}
+              {checkin.mine ? ' • you' : ''}
+              {checkin.comment && <div className="text-slate-500">“{checkin.comment}”</div>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {onCheckIn ? (
+        <div className="mt-2 space-y-1">
+          <div className="flex flex-wrap gap-1">
+            {outcomeOptions.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setOutcome(option)}
+                className={[
+                  'rounded border px-1.5 py-0.5 text-[11px]',
+                  outcome === option ? 'border-slate-900 bg-slate-900 text-white' : 'border-slate-300 text-slate-700 hover:bg-slate-100',
+                ].join(' ')}
+              >
+                {OUTCOME_LABELS[option]}
+              </button>
+            ))}
+          </div>
+          {outcome && (
+            <>
+              <input
+                type="number"
+                value={workingStalls}
+                onChange={(e) => setWorkingStalls(e.target.value)}
+                placeholder={stalls > 0 ? `Working stalls (of ${stalls})` : 'Working stalls'}
+                className="w-full rounded border border-slate-300 px-2 py-1 text-xs"
+                min={0}
+                max={stalls > 0 ? stalls : 100}
+              />
+              <input
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="Comment (optional)"
+                maxLength={500}
+                className="w-full rounded border border-slate-300 px-2 py-1 text-xs"
+              />
+              <button
+                type="button"
+                onClick={() => void handleSubmit()}
+                disabled={submitting}
+                className="rounded bg-emerald-600 px-2 py-1 text-xs font-semibold text-white hover:bg-emerald-500 disabled:bg-slate-400"
+              >
+                {submitting ? 'Saving…' : 'Check in'}
+              </button>
+            </>
+          )}
+          {submitError && <p className="text-xs text-red-600">{submitError}</p>}
+        </div>
+      ) : (
+        <p className="mt-1 text-[11px] text-slate-500">Sign in to check in.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,474 @@
+import { useEffect, useState } from 'react';
+import type { RouteResponse } from '../types/route';
+import type { SavedRoute } from '../types/savedRoute';
+import type { Trip, TripLeg } from '../types/trip';
+import type { TripLegInput } from '../services/api';
+
+// A leg planned for the itinerary; `forecast` is false when its date is outside the forecast window.
+export type TripLegPlan = {
+  route: RouteResponse;
+  forecast: boolean;
+};
+
+type Props = {
+  open: boolean;
+  savedRoutes: SavedRoute[];
+  onClose: () => void;
+  onLoadTrips: () => Promise<Trip[]>;
+  onCreateTrip: (trip: { name: string }) => Promise<Trip>;
+  onRenameTrip: (id: number, name: string) => Promise<Trip>;
+  onDeleteTrip: (id: number) => Promise<void>;
+  onAddLeg: (tripId: number, leg: TripLegInput) => Promise<Trip>;
+  onUpdateLeg: (tripId: number, legId: number, changes: Partial<TripLegInput>) => Promise<Trip>;
+  onRemoveLeg: (tripId: number, legId: number) => Promise<Trip>;
+  onReorderLegs: (tripId: number, legIds: number[]) => Promise<Trip>;
+  onPlanLeg: (leg: TripLeg) => Promise<TripLegPlan>;
+  onShowLeg: (savedRouteId: number) => Promise<void>;
+};
+
+type LegItinerary = { plan: TripLegPlan } | { error: string };
+
+function formatMiles(meters: number): string {
+  return `${Math.round(meters / 1609.344).toLocaleString()} mi`;
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+function formatClock(iso: string): string {
+  return new Date(iso).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+}
+
+function formatLegDate(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+// Today (or the day after the last leg) as YYYY-MM-DD in local time.
+function nextLegDate(trip: Trip | null): string {
+  const last = trip?.legs[trip.legs.length - 1]?.date;
+  const base = last ? (() => {
+    const [year, month, day] = last.split('-').map(Number);
+    return new Date(year, month - 1, day + 1);
+  })() : new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${base.getFullYear()}-${pad(base.getMonth() + 1)}-${pad(base.getDate())}`;
+}
+
+function routeLabel(route: { name: string | null; start_query: string; end_query: string }): string {
+  return route.name ?? `${route.start_query} → ${route.end_query}`;
+}
+
+function weatherSummary(route: RouteResponse): string | null {
+  const points = route.weather ?? [];
+  if (points.length === 0) return null;
+  const temps = points.map((p) => p.temperature_f);
+  const conditions = [...new Set(points.map((p) => p.condition))].slice(0, 3).join(', ');
+  const maxPrecip = Math.max(...points.map((p) => p.precip_prob));
+  const parts = [`${Math.round(Math.min(...temps))}–${Math.round(Math.max(...temps))}°F`, conditions];
+  if (maxPrecip >= 30) parts.push(`${Math.round(maxPrecip)}% chance of precipitation`);
+  return parts.join(' • ');
+}
+
+export default function TripsModal({
+  open,
+  savedRoutes,
+  onClose,
+  onLoadTrips,
+  onCreateTrip,
+  onRenameTrip,
+  onDeleteTrip,
+  onAddLeg,
+  onUpdateLeg,
+  onRemoveLeg,
+  onReorderLegs,
+  onPlanLeg,
+  onShowLeg,
+}: Props) {
+  const [trips, setTrips] = useState<Trip[] | null>(null);
+  const [selectedTripId, setSelectedTripId] = useState<number | null>(null);
+  const [newTripName, setNewTripName] = useState('');
+  const [tripName, setTripName] = useState('');
+  const [legRouteId, setLegRouteId] = useState('');
+  const [legDate, setLegDate] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [tripError, setTripError] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [itinerary, setItinerary] = useState<Record<number, LegItinerary> | null>(null);
+  const [planning, setPlanning] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setTripError(null);
+    onLoadTrips()
+      .then((result) => {
+        if (!cancelled) setTrips(result);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setTripError(err instanceof Error ? err.message : 'Failed to load trips');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, onLoadTrips]);
+
+  useEffect(() => {
+    if (!open) return;
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape') onClose();
+    }
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [open, onClose]);
+
+  if (!open) return null;
+
+  const selectedTrip = trips?.find((trip) => trip.id === selectedTripId) ?? null;
+
+  function selectTrip(trip: Trip | null) {
+    setSelectedTripId(trip?.id ?? null);
+    setTripName(trip?.name ?? '');
+    setLegDate(nextLegDate(trip));
+    setLegRouteId('');
+    setConfirmDelete(false);
+    setItinerary(null);
+  }
+
+  // Every leg change returns the whole trip; the itinerary is planned again on request.
+  function replaceTrip(trip: Trip) {
+    setTrips((prev) => (prev ?? []).map((t) => (t.id === trip.id ? trip : t)));
+    setLegDate(nextLegDate(trip));
+    setItinerary(null);
+  }
+
+  async function run(action: () => Promise<void>, fallbackError: string) {
+    if (busy) return;
+    setBusy(true);
+    setTripError(null);
+    try {
+      await action();
+    } catch (err) {
+      setTripError(err instanceof Error ? err.message : fallbackError);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function handleCreateTrip() {
+    const name = newTripName.trim();
+    if (!name) return;
+    void run(async () => {
+      const trip = await onCreateTrip({ name });
+      setTrips((prev) => [trip, ...(prev ?? [])]);
+      setNewTripName('');
+      selectTrip(trip);
+    }, 'Failed to create trip');
+  }
+
+  function handleDeleteTrip(trip: Trip) {
+    if (!confirmDelete) {
+      setConfirmDelete(true);
+      return;
+    }
+    void run(async () => {
+      await onDeleteTrip(trip.id);
+      setTrips((prev) => (prev ?? []).filter((t) => t.id !== trip.id));
+      selectTrip(null);
+    }, 'Failed to delete trip');
+  }
+
+  function moveLeg(trip: Trip, index: number, offset: -1 | 1) {
+    const legIds = trip.legs.map((leg) => leg.id);
+    const target = index + offset;
+    if (target < 0 || target >= legIds.length) return;
+    [legIds[index], legIds[target]] = [legIds[target]!, legIds[index]!];
+    void run(async () => replaceTrip(await onReorderLegs(trip.id, legIds)), 'Failed to reorder legs');
+  }
+
+  async function handleBuildItinerary(trip: Trip) {
+    if (planning) return;
+    setPlanning(true);
+    setItinerary({});
+    // One leg at a time: each is a full route plan with a weather lookup.
+    for (const leg of trip.legs) {
+      let result: LegItinerary;
+      try {
+        result = { plan: await onPlanLeg(leg) };
+      } catch (err) {
+        result = { error: err instanceof Error ? err.message : 'Failed to plan leg' };
+      }
+      setItinerary((prev) => ({ ...(prev ?? {}), [leg.id]: result }));
+    }
+    setPlanning(false);
+  }
+
+  return (
+    <div className="fixed inset-0 z-[3000] flex items-center justify-center p-4">
+      <button
+        type="button"
+        aria-label="Close"
+        onClick={onClose}
+        className="absolute inset-0 bg-black/60"
+      />
+      <div className="relative flex max-h-[90vh] w-full max-w-2xl flex-col rounded-lg border border-slate-700 bg-slate-900 p-4 shadow-xl">
+        <div className="flex items-center justify-between">
+          <div className="text-sm font-semibold text-slate-100">Trips</div>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-md border border-slate-600 bg-slate-800 px-2 py-1 text-[11px] text-slate-200 hover:bg-slate-700"
+          >
+            Close
+          </button>
+        </div>
+
+        {tripError && (
+          <div className="mt-2 text-[11px] text-red-200 bg-red-900/40 border border-red-800 rounded-md px-2 py-1">
+            {tripError}
+          </div>
+        )}
+
+        <div className="mt-3 grid min-h-0 flex-1 grid-cols-1 gap-3 overflow-auto sm:grid-cols-[180px_1fr]">
+          <div className="space-y-2">
+            <div className="flex gap-1">
+              <input
+                value={newTripName}
+                onChange={(e) => setNewTripName(e.target.value)}
+                placeholder="New trip name"
+                className="min-w-0 flex-1 rounded-md bg-slate-950 border border-slate-700 px-2 py-1 text-[11px] text-slate-100 outline-none focus:ring-2 focus:ring-sky-500"
+                autoComplete="off"
+              />
+              <button
+                type="button"
+                onClick={handleCreateTrip}
+                disabled={busy || !newTripName.trim()}
+                className="rounded-md bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-700 disabled:text-slate-400 px-2 py-1 text-[11px] font-semibold text-white"
+              >
+                Add
+              </button>
+            </div>
+            {!trips && !tripError && <div className="text-[11px] text-slate-400">Loading trips…</div>}
+            {trips && trips.length === 0 && <div className="text-[11px] text-slate-400">No trips yet.</div>}
+            {trips?.map((trip) => (
+              <button
+                key={trip.id}
+                type="button"
+                onClick={() => selectTrip(trip)}
+                className={[
+                  'block w-full rounded-md border px-2 py-1 text-left text-[11px]',
+                  trip.id === selectedTripId
+                    ? 'border-sky-600 bg-sky-900/40 text-slate-100'
+                    : 'border-slate-700 bg-slate-800 text-slate-200 hover:bg-slate-700',
+                ].join(' ')}
+              >
+                <div className="truncate font-medium">{trip.name}</div>
+                <div className="text-slate-400">
+                  {trip.legs.length === 0
+                    ? 'No legs'
+                    : `${trip.legs.length} leg${trip.legs.length === 1 ? '' : 's'} • from ${formatLegDate(trip.legs[0]!.date)}`}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          {selectedTrip ? (
+            <div className="min-w-0 space-y-3">
+              <div className="flex gap-1">
+                <input
+                  value={tripName}
+                  onChange={(e) => setTripName(e.target.value)}
+                  className="min-w-0 flex-1 rounded-md bg-slate-950 border border-slate-700 px-2 py-1 text-xs text-slate-100 outline-none focus:ring-2 focus:ring-sky-500"
+                  autoComplete="off"
+                />
+                <button
+                  type="button"
+                  onClick={() => void run(async () => replaceTrip(await onRenameTrip(selectedTrip.id, tripName.trim())), 'Failed to rename trip')}
+                  disabled={busy || !tripName.trim() || tripName.trim() === selectedTrip.name}
+                  className="rounded-md border border-slate-600 bg-slate-800 px-2 py-1 text-[11px] text-slate-200 hover:bg-slate-700 disabled:text-slate-500"
+                >
+                  Rename
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDeleteTrip(selectedTrip)}
+                  onBlur={() => setConfirmDelete(false)}
+                  disabled={busy}
+                  className={[
+                    'rounded-md border px-2 py-1 text-[11px]',
+                    confirmDelete
+                      ? 'border-red-700 bg-red-900/60 text-red-100 hover:bg-red-800'
+                      : 'border-slate-600 bg-slate-800 text-slate-200 hover:bg-slate-700',
+                  ].join(' ')}
+                >
+                  {confirmDelete ? 'Confirm' : 'Delete'}
+                </button>
+              </div>
+
+              <div className="divide-y divide-slate-700 rounded-md border border-slate-700">
+                {selectedTrip.legs.length === 0 && (
+                  <div className="px-2 py-2 text-[11px] text-slate-400">Add a saved route for each day of the trip.</div>
+                )}
+                {selectedTrip.legs.map((leg, index) => (
+                  <div key={leg.id} className="flex items-center gap-2 px-2 py-1.5 text-[11px]">
+                    <span className="w-10 shrink-0 text-slate-400">Day {index + 1}</span>
+                    <input
+                      type="date"
+                      value={leg.date}
+                      onChange={(e) => {
+                        const date = e.target.value;
+                        if (!date) return;
+                        void run(async () => replaceTrip(await onUpdateLeg(selectedTrip.id, leg.id, { date })), 'Failed to change date');
+                      }}
+                      className="shrink-0 rounded-md bg-slate-950 border border-slate-700 px-1 py-0.5 text-[11px] text-slate-100"
+                    />
+                    <span className="min-w-0 flex-1 truncate text-slate-100">{routeLabel(leg.saved_route)}</span>
+                    <span className="flex shrink-0 gap-1">
+                      <button
+                        type="button"
+                        onClick={() => moveLeg(selectedTrip, index, -1)}
+                        disabled={busy || index === 0}
+                        aria-label="Move earlier"
+                        className="px-1 text-slate-300 hover:text-white disabled:text-slate-600"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveLeg(selectedTrip, index, 1)}
+                        disabled={busy || index === selectedTrip.legs.length - 1}
+                        aria-label="Move later"
+                        className="px-1 text-slate-300 hover:text-white disabled:text-slate-600"
+                      >
+                        ↓
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => void run(async () => replaceTrip(await onRemoveLeg(selectedTrip.id, leg.id)), 'Failed to remove leg')}
+                        disabled={busy}
+                        className="px-1 text-red-300 hover:text-red-200 underline disabled:text-slate-500"
+                      >
+                        Remove
+                      </button>
+                    </span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex gap-1">
+                <select
+                  value={legRouteId}
+                  onChange={(e) => setLegRouteId(e.target.value)}
+                  className="min-w-0 flex-1 rounded-md bg-slate-950 border border-slate-700 px-1 py-1 text-[11px] text-slate-100"
+                >
+                  <option value="">{savedRoutes.length === 0 ? 'Save a route first' : 'Saved route…'}</option>
+                  {savedRoutes.map((route) => (
+                    <option key={route.id} value={route.id}>
+                      {routeLabel(route)}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="date"
+                  value={legDate}
+                  onChange={(e) => setLegDate(e.target.value)}
+                  className="shrink-0 rounded-md bg-slate-950 border border-slate-700 px-1 py-1 text-[11px] text-slate-100"
+                />
+                <button
+                  type="button"
+                  onClick={() => void run(async () => {
+                    replaceTrip(await onAddLeg(selectedTrip.id, { savedRouteId: Number.parseInt(legRouteId, 10), date: legDate }));
+                    setLegRouteId('');
+                  }, 'Failed to add leg')}
+                  disabled={busy || !legRouteId || !legDate}
+                  className="rounded-md border border-slate-600 bg-slate-800 px-2 py-1 text-[11px] text-slate-200 hover:bg-slate-700 disabled:text-slate-500"
+                >
+                  Add leg
+                </button>
+              </div>
+
+              {selectedTrip.legs.length > 0 && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="text-xs font-medium text-slate-100">Itinerary</div>
+                    <button
+                      type="button"
+                      onClick={() => void handleBuildItinerary(selectedTrip)}
+                      disabled={planning}
+                      className="rounded-md bg-sky-600 hover:bg-sky-500 disabled:bg-slate-700 disabled:text-slate-400 px-2 py-1 text-[11px] font-semibold text-white"
+                    >
+                      {planning ? 'Planning…' : itinerary ? 'Re-plan all days' : 'Plan all days'}
+                    </button>
+                  </div>
+                  {itinerary && selectedTrip.legs.map((leg, index) => {
+                    const entry = itinerary[leg.id];
+                    const route = entry && 'plan' in entry ? entry.plan.route : null;
+                    const stops = route?.charging_plan?.stops ?? [];
+                    const weather = route && entry && 'plan' in entry && entry.plan.forecast ? weatherSummary(route) : null;
+                    return (
+                      <div key={leg.id} className="rounded-md border border-slate-700 bg-slate-800/60 px-3 py-2 text-[11px] text-slate-200">
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="min-w-0">
+                            <span className="font-medium text-slate-100">Day {index + 1} • {formatLegDate(leg.date)}</span>
+                            <span className="text-slate-400"> • {routeLabel(leg.saved_route)}</span>
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => void onShowLeg(leg.saved_route.id).then(onClose)}
+                            className="shrink-0 px-1 text-sky-300 hover:text-sky-200 underline"
+                          >
+                            Show on map
+                          </button>
+                        </div>
+                        {!entry && <div className="text-slate-400">Waiting…</div>}
+                        {entry && 'error' in entry && <div className="text-red-300">{entry.error}</div>}
+                        {route && (
+                          <>
+                            <div className="text-slate-300">
+                              {formatMiles(route.summary.distance_meters)} • {formatDuration(route.summary.duration_seconds)} driving
+                              {route.charging_plan ? ` • ${route.charging_plan.total_charge_minutes} min charging` : ''}
+                              {entry && 'plan' in entry && entry.plan.forecast && route.depart_at && route.arrive_at
+                                ? ` • ${formatClock(route.depart_at)} → ${formatClock(route.arrive_at)}`
+                                : ''}
+                            </div>
+                            {stops.length > 0 ? (
+                              <ul className="mt-1 space-y-0.5">
+                                {stops.map((stop) => (
+                                  <li key={`${stop.station_id}-${stop.distance_along_route_miles}`} className="text-slate-300">
+                                    ⚡ {stop.station_name}
+                                    <span className="text-slate-400">
+                                      {' '}• mile {Math.round(stop.distance_along_route_miles)} • {Math.round(stop.charge_minutes)} min
+                                      {stop.arrival_iso && entry && 'plan' in entry && entry.plan.forecast ? ` • ${formatClock(stop.arrival_iso)}` : ''}
+                                    </span>
+                                  </li>
+                                ))}
+                              </ul>
+                            ) : (
+                              <div className="text-slate-400">No charging stops needed.</div>
+                            )}
+                            <div className="mt-1 text-slate-400">
+                              {weather ?? (entry && 'plan' in entry && !entry.plan.forecast
+                                ? 'Weather and times show within 14 days of the date.'
+                                : 'No weather data.')}
+                            </div>
+                          </>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="text-[11px] text-slate-400">
+              Pick a trip, or add one, to set its days and see the itinerary.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
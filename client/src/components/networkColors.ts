@@ -0,0 +1,11 @@
+import type { StationNetworkId } from '../types/station';
+
+// Pin colours per charging network; chosen to stay clear of the start/end, truck stop and POI pins.
+export const NETWORK_COLORS: Record<StationNetworkId, { fill: string; stroke: string }> = {
+  electrify_america: { fill: '#2563eb', stroke: '#1e3a8a' },
+  evgo: { fill: '#06b6d4', stroke: '#155e75' },
+  chargepoint: { fill: '#ec4899', stroke: '#9d174d' },
+  tesla: { fill: '#475569', stroke: '#0f172a' },
+  ionna: { fill: '#8b5cf6', stroke: '#4c1d95' },
+  blink: { fill: '#84cc16', stroke: '#3f6212' },
+};
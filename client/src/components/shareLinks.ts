@@ -0,0 +1,6 @@
+// Share links open the app with `?share=<token>`; the token is all a viewer needs.
+export function shareLinkUrl(token: string): string {
+  const qs = new URLSearchParams();
+  qs.set('share', token);
+  return `${window.location.origin}${window.location.pathname}?${qs.toString()}`;
+}
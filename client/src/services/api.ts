@@ -1,7 +1,24 @@
-import type { Station } from '../types/station';
-import type { RouteResponse } from '../types/route';
-import type { SavedRoute } from '../types/savedRoute';
+import type { GeocodeSuggestion, ReverseGeocodeResult } from '../types/geocode';
+import type {
+  Station,
+  StationCheckin,
+  StationCheckinOutcome,
+  StationCheckinsResponse,
+  StationNetworkId,
+  StationNetworkSummary,
+} from '../types/station';
+import type { RouteResponse, StationRanking } from '../types/route';
+import type {
+  SavedRoute,
+  SavedRoutePlanParams,
+  SavedRouteShare,
+  SavedRouteSnapshot,
+  SavedRouteSnapshotComparison,
+  SharedRoute,
+} from '../types/savedRoute';
+import type { Trip } from '../types/trip';
 import type { MeResponse, User, UserPreferences } from '../types/user';
+import type { ConnectorFilter, GarageVehicle, VehicleProfile } from '../types/vehicle';
 
 const API_BASE = '/api';
 
@@ -27,13 +44,33 @@ async function getApiErrorMessage(response: Response, fallback: string): Promise
   return message;
 }
 
+export type RouteRequestOptions = {
+  rangeMiles?: number;
+  maxDetourFactor?: number;
+  minArrivalPercent?: number;
+  autoCorridor?: boolean;
+  startSocPercent?: number;
+  batteryKwh?: number;
+  efficiencyMiPerKwh?: number;
+  maxChargingSpeedKw?: number;
+  vehicleProfileId?: number;
+  vehicleId?: number;
+  vehicleMassKg?: number;
+  connectorType?: ConnectorFilter;
+  networks?: StationNetworkId[] | null;
+  // ISO 8601; omitted means leaving now.
+  departAt?: string;
+  // Omitted = the signed-in user's saved ranking; null = the defaults.
+  ranking?: StationRanking | null;
+};
+
 export async function fetchRoute(
   start: string,
   end: string,
   waypoints: string[] = [],
   corridorMiles: number = 15,
   preference: 'fastest' | 'charger_optimized' = 'fastest',
-  options?: { rangeMiles?: number; maxDetourFactor?: number; minArrivalPercent?: number; autoCorridor?: boolean }
+  options?: RouteRequestOptions
 ): Promise<RouteResponse> {
   const response = await fetch(`${API_BASE}/route`, {
     method: 'POST',
@@ -52,6 +89,17 @@ export async function fetchRoute(
       rangeMiles: options?.rangeMiles,
       minArrivalPercent: options?.minArrivalPercent,
       maxDetourFactor: options?.maxDetourFactor,
+      startSocPercent: options?.startSocPercent,
+      batteryKwh: options?.batteryKwh,
+      efficiencyMiPerKwh: options?.efficiencyMiPerKwh,
+      maxChargingSpeedKw: options?.maxChargingSpeedKw,
+      vehicleProfileId: options?.vehicleProfileId,
+      vehicleId: options?.vehicleId,
+      vehicleMassKg: options?.vehicleMassKg,
+      connectorType: options?.connectorType,
+      networks: options?.networks,
+      departAt: options?.departAt,
+      ranking: options?.ranking,
     }),
   });
 
@@ -62,6 +110,33 @@ export async function fetchRoute(
   return response.json();
 }
 
+export async function fetchGeocodeSuggestions(query: string, signal?: AbortSignal): Promise<GeocodeSuggestion[]> {
+  const response = await fetch(`${API_BASE}/geocode/suggest?q=${encodeURIComponent(query)}`, {
+    credentials: 'include',
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, 'Failed to fetch suggestions'));
+  }
+
+  const data = (await response.json()) as { suggestions?: GeocodeSuggestion[] };
+  return data.suggestions ?? [];
+}
+
+export async function reverseGeocode(lat: number, lng: number): Promise<ReverseGeocodeResult> {
+  const params = new URLSearchParams({ lat: String(lat), lng: String(lng) });
+  const response = await fetch(`${API_BASE}/geocode/reverse?${params.toString()}`, {
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, 'Failed to look up location'));
+  }
+
+  return (await response.json()) as ReverseGeocodeResult;
+}
+
 export async function fetchStations(state?: string): Promise<Station[]> {
   const url = state
     ? `${API_BASE}/stations?state=${encodeURIComponent(state)}`
@@ -86,6 +161,39 @@ export async function fetchStation(id: number): Promise<Station> {
   return response.json();
 }
 
+export async function fetchStationCheckins(id: number): Promise<StationCheckinsResponse> {
+  const response = await fetch(`${API_BASE}/stations/${id}/checkins`, { credentials: 'include' });
+
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, `Failed to fetch check-ins: ${response.statusText}`));
+  }
+
+  return response.json();
+}
+
+export type StationCheckinInput = {
+  outcome: StationCheckinOutcome;
+  workingStalls?: number | null;
+  comment?: string | null;
+};
+
+export async function createStationCheckin(id: number, checkin: StationCheckinInput): Promise<StationCheckin> {
+  const response = await fetch(`${API_BASE}/stations/${id}/checkins`, {
+    method: 'POST',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(checkin),
+  });
+
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, `Failed to save check-in: ${response.statusText}`));
+  }
+
+  return response.json();
+}
+
 export async function fetchNearbyStations(
   lat: number,
   lng: number,
@@ -114,6 +222,16 @@ export async function fetchStationCount(): Promise<{ total: number }> {
   return response.json();
 }
 
+export async function fetchStationNetworks(): Promise<StationNetworkSummary[]> {
+  const response = await fetch(`${API_BASE}/stations/networks`, { credentials: 'include' });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch station networks: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
 export async function fetchSavedRoutes(): Promise<SavedRoute[]> {
   const response = await fetch(`${API_BASE}/saved-routes`, { credentials: 'include' });
 
@@ -141,6 +259,9 @@ export async function createSavedRoute(params: {
   waypoints: string[];
   corridorMiles: number;
   preference: 'fastest' | 'charger_optimized';
+  planParams?: SavedRoutePlanParams;
+  // The route as planned, stored so it can be reopened without re-planning.
+  snapshot?: RouteResponse;
 }): Promise<SavedRoute> {
   const response = await fetch(`${API_BASE}/saved-routes`, {
     method: 'POST',
@@ -155,6 +276,8 @@ export async function createSavedRoute(params: {
       waypoints: params.waypoints,
       corridorMiles: params.corridorMiles,
       preference: params.preference,
+      planParams: params.planParams,
+      snapshot: params.snapshot,
     }),
   });
 
@@ -165,6 +288,116 @@ export async function createSavedRoute(params: {
   return response.json();
 }
 
+// Only the fields present change; `name: null` clears the name.
+export type SavedRouteUpdate = {
+  name?: string | null;
+  start?: string;
+  end?: string;
+  waypoints?: string[];
+  corridorMiles?: number;
+  preference?: 'fastest' | 'charger_optimized';
+  planParams?: SavedRoutePlanParams;
+  // null removes the stored snapshot.
+  snapshot?: RouteResponse | null;
+};
+
+export async function updateSavedRoute(id: number, changes: SavedRouteUpdate): Promise<SavedRoute> {
+  const response = await fetch(`${API_BASE}/saved-routes/${id}`, {
+    method: 'PATCH',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(changes),
+  });
+
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, `Failed to update saved route: ${response.statusText}`));
+  }
+
+  return response.json();
+}
+
+export async function fetchSavedRouteSnapshot(id: number): Promise<SavedRouteSnapshot> {
+  const response = await fetch(`${API_BASE}/saved-routes/${id}/snapshot`, { credentials: 'include' });
+
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, `Failed to fetch route snapshot: ${response.statusText}`));
+  }
+
+  return response.json();
+}
+
+export async function compareSavedRouteSnapshot(id: number): Promise<SavedRouteSnapshotComparison> {
+  const response = await fetch(`${API_BASE}/saved-routes/${id}/snapshot/compare`, { credentials: 'include' });
+
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, `Failed to compare route snapshot: ${response.statusText}`));
+  }
+
+  return response.json();
+}
+
+export async function deleteSavedRoute(id: number): Promise<void> {
+  const response = await fetch(`${API_BASE}/saved-routes/${id}`, {
+    method: 'DELETE',
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, `Failed to delete saved route: ${response.statusText}`));
+  }
+}
+
+export async function fetchSavedRouteShares(id: number): Promise<SavedRouteShare[]> {
+  const response = await fetch(`${API_BASE}/saved-routes/${id}/shares`, { credentials: 'include' });
+
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, `Failed to fetch share links: ${response.statusText}`));
+  }
+
+  return response.json();
+}
+
+// expiresInDays: null for a link that never expires.
+export async function createSavedRouteShare(id: number, expiresInDays: number | null): Promise<SavedRouteShare> {
+  const response = await fetch(`${API_BASE}/saved-routes/${id}/shares`, {
+    method: 'POST',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ expiresInDays }),
+  });
+
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, `Failed to create share link: ${response.statusText}`));
+  }
+
+  return response.json();
+}
+
+export async function revokeSavedRouteShare(id: number, shareId: number): Promise<void> {
+  const response = await fetch(`${API_BASE}/saved-routes/${id}/shares/${shareId}`, {
+    method: 'DELETE',
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, `Failed to revoke share link: ${response.statusText}`));
+  }
+}
+
+export async function fetchSharedRoute(token: string): Promise<SharedRoute> {
+  const response = await fetch(`${API_BASE}/shared/${encodeURIComponent(token)}`);
+
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, `Failed to open shared route: ${response.statusText}`));
+  }
+
+  return response.json();
+}
+
 export async function fetchMe(): Promise<MeResponse> {
   const response = await fetch(`${API_BASE}/auth/me`, { credentials: 'include' });
   if (!response.ok) {
@@ -229,6 +462,9 @@ export async function updatePreferences(patch: Partial<{
   maxDetourFactor: number;
   maxChargingSpeedKw: number | null;
   connectorType: 'CCS' | 'CHADEMO' | 'NACS' | 'J1772' | null;
+  vehicleId: number | null;
+  vehicleMassKg: number | null;
+  ranking: StationRanking | null;
 }>): Promise<UserPreferences> {
   const response = await fetch(`${API_BASE}/auth/preferences`, {
     method: 'PATCH',
@@ -245,3 +481,214 @@ export async function updatePreferences(patch: Partial<{
 
   return response.json();
 }
+
+export async function fetchVehicles(): Promise<VehicleProfile[]> {
+  const response = await fetch(`${API_BASE}/vehicles`, { credentials: 'include' });
+
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, `Failed to fetch vehicles: ${response.statusText}`));
+  }
+
+  return response.json();
+}
+
+export async function fetchVehicle(id: number): Promise<VehicleProfile> {
+  const response = await fetch(`${API_BASE}/vehicles/${id}`, { credentials: 'include' });
+
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, `Failed to fetch vehicle: ${response.statusText}`));
+  }
+
+  return response.json();
+}
+
+export type GarageVehiclePatch = Partial<{
+  vehicleId: number | null;
+  name: string;
+  rangeMiles: number;
+  efficiencyMiPerKwh: number | null;
+  batteryKwh: number | null;
+  maxChargingSpeedKw: number | null;
+  connectorType: 'CCS' | 'CHADEMO' | 'NACS' | 'J1772' | null;
+  isDefault: boolean;
+}>;
+
+export async function fetchGarageVehicles(): Promise<GarageVehicle[]> {
+  const response = await fetch(`${API_BASE}/garage`, { credentials: 'include' });
+
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, `Failed to fetch vehicles: ${response.statusText}`));
+  }
+
+  return response.json();
+}
+
+export async function createGarageVehicle(vehicle: GarageVehiclePatch): Promise<GarageVehicle> {
+  const response = await fetch(`${API_BASE}/garage`, {
+    method: 'POST',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(vehicle),
+  });
+
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, `Failed to add vehicle: ${response.statusText}`));
+  }
+
+  return response.json();
+}
+
+export async function updateGarageVehicle(id: number, patch: GarageVehiclePatch): Promise<GarageVehicle> {
+  const response = await fetch(`${API_BASE}/garage/${id}`, {
+    method: 'PATCH',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(patch),
+  });
+
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, `Failed to update vehicle: ${response.statusText}`));
+  }
+
+  return response.json();
+}
+
+export async function deleteGarageVehicle(id: number): Promise<void> {
+  const response = await fetch(`${API_BASE}/garage/${id}`, {
+    method: 'DELETE',
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, `Failed to delete vehicle: ${response.statusText}`));
+  }
+}
+
+export type TripLegInput = {
+  savedRouteId: number;
+  // YYYY-MM-DD
+  date: string;
+};
+
+export async function fetchTrips(): Promise<Trip[]> {
+  const response = await fetch(`${API_BASE}/trips`, { credentials: 'include' });
+
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, `Failed to fetch trips: ${response.statusText}`));
+  }
+
+  return response.json();
+}
+
+export async function createTrip(trip: { name: string; legs?: TripLegInput[] }): Promise<Trip> {
+  const response = await fetch(`${API_BASE}/trips`, {
+    method: 'POST',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(trip),
+  });
+
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, `Failed to create trip: ${response.statusText}`));
+  }
+
+  return response.json();
+}
+
+export async function renameTrip(id: number, name: string): Promise<Trip> {
+  const response = await fetch(`${API_BASE}/trips/${id}`, {
+    method: 'PATCH',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ name }),
+  });
+
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, `Failed to rename trip: ${response.statusText}`));
+  }
+
+  return response.json();
+}
+
+export async function deleteTrip(id: number): Promise<void> {
+  const response = await fetch(`${API_BASE}/trips/${id}`, {
+    method: 'DELETE',
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, `Failed to delete trip: ${response.statusText}`));
+  }
+}
+
+export async function addTripLeg(tripId: number, leg: TripLegInput): Promise<Trip> {
+  const response = await fetch(`${API_BASE}/trips/${tripId}/legs`, {
+    method: 'POST',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(leg),
+  });
+
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, `Failed to add trip leg: ${response.statusText}`));
+  }
+
+  return response.json();
+}
+
+export async function updateTripLeg(tripId: number, legId: number, changes: Partial<TripLegInput>): Promise<Trip> {
+  const response = await fetch(`${API_BASE}/trips/${tripId}/legs/${legId}`, {
+    method: 'PATCH',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(changes),
+  });
+
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, `Failed to update trip leg: ${response.statusText}`));
+  }
+
+  return response.json();
+}
+
+export async function removeTripLeg(tripId: number, legId: number): Promise<Trip> {
+  const response = await fetch(`${API_BASE}/trips/${tripId}/legs/${legId}`, {
+    method: 'DELETE',
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, `Failed to remove trip leg: ${response.statusText}`));
+  }
+
+  return response.json();
+}
+
+export async function reorderTripLegs(tripId: number, legIds: number[]): Promise<Trip> {
+  const response = await fetch(`${API_BASE}/trips/${tripId}/legs/order`, {
+    method: 'PUT',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ legIds }),
+  });
+
+  if (!response.ok) {
+    throw new Error(await getApiErrorMessage(response, `Failed to reorder trip legs: ${response.statusText}`));
+  }
+
+  return response.json();
+}
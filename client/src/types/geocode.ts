@@ -0,0 +1,13 @@
+export type GeocodeSource = 'coordinates' | 'cache' | 'gazetteer' | 'ors';
+
+export type GeocodeSuggestion = {
+  label: string;
+  lat: number;
+  lng: number;
+  source: GeocodeSource;
+};
+
+export type ReverseGeocodeResult = GeocodeSuggestion & {
+  // Planner input text ("label @ lat,lng") that plans from exactly this point.
+  query: string;
+};
@@ -1,10 +1,13 @@
-import type { Station } from './station';
+import type { GeocodeSource } from './geocode';
+import type { Station, StationCheckinSummary, StationNetworkId } from './station';
+import type { VehicleConnectorType } from './vehicle';
 
 export type RoutePoint = {
   query: string;
   label: string;
   lat: number;
   lng: number;
+  source?: GeocodeSource;
 };
 
 export type RouteSummary = {
@@ -21,9 +24,66 @@ export type RouteStation = Station & {
   distance_to_next_miles: number;
   elevation_from_prev_ft?: number;
   elevation_to_next_ft?: number;
+  energy_from_prev_kwh?: number;
+  energy_to_next_kwh?: number;
   rank_score?: number;
   rank?: number;
   rank_tier?: 'A' | 'B' | 'C' | 'D';
+  // Share of recent data imports the station was operational in; null until there is enough history.
+  reliability_percent?: number | null;
+  reliability_runs?: number;
+  // Truck stops, food stops and big-box hosts within walking distance.
+  amenities_nearby?: number;
+  // Recent user check-ins; absent when there are none.
+  checkin_summary?: StationCheckinSummary;
+  // Arrival time from the trip's departure, including earlier charging stops.
+  eta_iso?: string;
+  arrival_soc_percent?: number;
+  departure_soc_percent?: number;
+  incompatible?: boolean;
+};
+
+// Relative 0-1 weights for the station rank score; `reliability` is how strongly reliability scales it.
+export type StationRankingWeights = {
+  power: number;
+  stalls: number;
+  detour: number;
+  amenities: number;
+  reliability: number;
+};
+
+// Minimum rank score for tiers A, B and C.
+export type StationRankingTiers = {
+  a: number;
+  b: number;
+  c: number;
+};
+
+export type StationRanking = {
+  weights: StationRankingWeights;
+  tiers: StationRankingTiers;
+};
+
+export type SocStationEntry = {
+  station_id: number;
+  distance_along_route_miles: number;
+  leg_energy_kwh: number;
+  arrival_soc_percent: number;
+  departure_soc_percent: number;
+  charges: boolean;
+};
+
+export type SocTimeline = {
+  battery_kwh: number;
+  efficiency_mi_per_kwh: number;
+  start_soc_percent: number;
+  min_arrival_percent: number;
+  charge_to_percent: number;
+  stations: SocStationEntry[];
+  destination_leg_energy_kwh: number;
+  destination_arrival_soc_percent: number;
+  lowest_arrival_soc_percent: number;
+  reachable: boolean;
 };
 
 export type AutoWaypoint = {
@@ -85,6 +145,70 @@ export type WeatherPoint = {
   location_name?: string;
 };
 
+export type ChargingCurvePoint = {
+  soc_percent: number;
+  power_kw: number;
+};
+
+export type ChargingStop = {
+  station_id: number;
+  station_name: string;
+  city: string | null;
+  state: string | null;
+  distance_along_route_miles: number;
+  station_max_power_kw: number | null;
+  arrival_soc_percent: number;
+  departure_soc_percent: number;
+  energy_added_kwh: number;
+  charge_minutes: number;
+  average_power_kw: number;
+  detour_minutes: number;
+  arrival_iso?: string;
+  departure_iso?: string;
+};
+
+export type ChargingPlan = {
+  feasible: boolean;
+  stops: ChargingStop[];
+  start_soc_percent: number;
+  min_arrival_percent: number;
+  destination_arrival_soc_percent: number | null;
+  max_charging_speed_kw: number;
+  charging_curve: ChargingCurvePoint[];
+  total_charge_minutes: number;
+  total_stop_minutes: number;
+  driving_minutes: number;
+  total_trip_minutes: number;
+  message?: string;
+};
+
+export type WeatherConditionsAtMile = {
+  distance_along_route_miles: number;
+  temperature_f: number;
+  headwind_mph: number;
+  consumption_factor: number;
+};
+
+export type RangeLeg = {
+  from_miles: number;
+  to_miles: number;
+  distance_miles: number;
+  nominal_range_miles: number;
+  adjusted_range_miles: number;
+  consumption_factor: number;
+  min_temperature_f: number | null;
+  max_headwind_mph: number | null;
+  within_range: boolean;
+};
+
+export type RangeAdjustment = {
+  nominal_range_miles: number;
+  effective_range_miles: number;
+  consumption_factor: number;
+  samples: WeatherConditionsAtMile[];
+  legs: RangeLeg[];
+};
+
 export type RouteResponse = {
   points: RoutePoint[];
   summary: RouteSummary;
@@ -99,5 +223,15 @@ export type RouteResponse = {
   requested_preference?: 'fastest' | 'charger_optimized';
   candidates_evaluated?: number;
   max_gap_miles?: number;
+  max_gap_energy_miles?: number;
+  connector_type?: VehicleConnectorType | null;
+  networks?: StationNetworkId[] | null;
+  ranking?: StationRanking;
+  depart_at?: string;
+  arrive_at?: string;
+  routing_provider?: 'ors' | 'osrm' | 'valhalla';
+  soc_timeline?: SocTimeline;
+  charging_plan?: ChargingPlan;
+  range_adjustment?: RangeAdjustment;
   warning?: string;
 };
@@ -1,3 +1,39 @@
+import type { RechargePOICategory, RouteResponse, StationRanking } from './route';
+import type { StationNetworkId } from './station';
+import type { ConnectorFilter } from './vehicle';
+
+// The POST /api/route body a saved route was planned with, plus map display filters.
+export type SavedRoutePlanParams = {
+  version: 1;
+  start: string;
+  end: string;
+  waypoints: string[];
+  corridorMiles: number;
+  autoCorridor: boolean;
+  preference: 'fastest' | 'charger_optimized';
+  includeStations?: boolean;
+  rangeMiles?: number;
+  minArrivalPercent?: number;
+  maxDetourFactor?: number;
+  startSocPercent?: number;
+  batteryKwh?: number;
+  efficiencyMiPerKwh?: number;
+  maxChargingSpeedKw?: number;
+  vehicleProfileId?: number;
+  vehicleId?: number;
+  vehicleMassKg?: number;
+  connectorType?: ConnectorFilter;
+  networks?: StationNetworkId[] | null;
+  // null = default ranking; omitted = the owner's saved ranking when planned.
+  ranking?: StationRanking | null;
+  departAt?: string | null;
+  filters?: {
+    truckStopBrands: string[];
+    rechargePoiCategories: RechargePOICategory[];
+    mustStopsOnly: boolean;
+  };
+};
+
 export type SavedRoute = {
   id: number;
   name: string | null;
@@ -6,6 +42,57 @@ export type SavedRoute = {
   waypoints: string[];
   corridor_miles: number;
   preference: 'fastest' | 'charger_optimized';
+  plan_params: SavedRoutePlanParams;
   created_at: string;
+  // When the route response snapshot was saved; null without one.
+  snapshot_at: string | null;
+};
+
+export type SavedRouteSnapshot = {
+  saved_route_id: number;
+  created_at: string;
+  response: RouteResponse;
+};
+
+type SnapshotStationState = {
+  status_code: string | null;
+  max_power_kw: number | null;
+  ev_dc_fast_num: number | null;
 };
 
+export type SnapshotStationChange = {
+  station_id: number;
+  station_name: string;
+  distance_along_route_miles: number | null;
+  change: 'removed' | 'status_changed' | 'updated';
+  before: SnapshotStationState;
+  // null when removed.
+  after: SnapshotStationState | null;
+  // Latest station data update since the snapshot, when known.
+  changed_at: string | null;
+};
+
+export type SavedRouteSnapshotComparison = {
+  saved_route_id: number;
+  snapshot_at: string;
+  stations_checked: number;
+  unchanged: number;
+  changes: SnapshotStationChange[];
+};
+
+export type SavedRouteShare = {
+  id: number;
+  saved_route_id: number;
+  token: string;
+  created_at: string;
+  // null never expires.
+  expires_at: string | null;
+  revoked_at: string | null;
+  status: 'active' | 'expired' | 'revoked';
+};
+
+// A saved route opened through a share link: read-only, without its owner or id.
+export type SharedRoute = Omit<SavedRoute, 'id'> & {
+  shared_at: string;
+  expires_at: string | null;
+};
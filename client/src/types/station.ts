@@ -1,3 +1,20 @@
+export type StationNetworkId = 'electrify_america' | 'evgo' | 'chargepoint' | 'tesla' | 'ionna' | 'blink';
+
+export type StationNetworkSummary = {
+  id: StationNetworkId;
+  label: string;
+  station_count: number;
+};
+
+export type StationSource = 'ocm' | 'afdc' | 'csv';
+
+export type StationSourceLink = {
+  source: StationSource;
+  source_id: string;
+  match_distance_meters: number;
+  last_seen_at: string;
+};
+
 export interface Station {
   id: number;
   station_name: string;
@@ -14,5 +31,38 @@ export interface Station {
   ev_pricing: string | null;
   access_days_time: string | null;
   max_power_kw: number | null;
+  network: StationNetworkId;
+  source: StationSource;
+  // Only on GET /api/stations/:id.
+  sources?: StationSourceLink[];
   distance_miles?: number;
 }
+
+export type StationCheckinOutcome = 'charged_ok' | 'partial' | 'failed' | 'iced';
+
+export type StationCheckin = {
+  id: number;
+  station_id: number;
+  outcome: StationCheckinOutcome;
+  working_stalls: number | null;
+  comment: string | null;
+  created_at: string;
+  // Posted by the signed-in user.
+  mine: boolean;
+};
+
+export type StationCheckinSummary = {
+  recent_checkins: number;
+  recent_failures: number;
+  last_outcome: StationCheckinOutcome | null;
+  last_checkin_at: string | null;
+  // The latest check-in in the window says charging failed or no stall worked.
+  reported_down: boolean;
+};
+
+export type StationCheckinsResponse = {
+  station_id: number;
+  window_hours: number;
+  summary: StationCheckinSummary;
+  checkins: StationCheckin[];
+};
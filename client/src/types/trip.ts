@@ -0,0 +1,21 @@
+import type { SavedRoute } from './savedRoute';
+
+export type TripLeg = {
+  id: number;
+  // 0-based order within the trip.
+  position: number;
+  // Calendar date, YYYY-MM-DD.
+  date: string;
+  saved_route: Pick<
+    SavedRoute,
+    'id' | 'name' | 'start_query' | 'end_query' | 'waypoints' | 'corridor_miles' | 'preference' | 'plan_params' | 'snapshot_at'
+  >;
+};
+
+export type Trip = {
+  id: number;
+  name: string;
+  created_at: string;
+  updated_at: string;
+  legs: TripLeg[];
+};
@@ -1,3 +1,5 @@
+import type { StationRanking } from './route';
+
 export type User = {
   id: number;
   email: string;
@@ -15,6 +17,10 @@ export type UserPreferences = {
   max_detour_factor: number;
   max_charging_speed_kw: number | null;
   connector_type: 'CCS' | 'CHADEMO' | 'NACS' | 'J1772' | null;
+  vehicle_id: number | null;
+  vehicle_mass_kg: number | null;
+  // null = default ranking.
+  ranking: StationRanking | null;
   created_at: string;
   updated_at: string;
 };
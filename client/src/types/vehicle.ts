@@ -0,0 +1,38 @@
+import type { ChargingCurvePoint } from './route';
+
+export type VehicleConnectorType = 'CCS' | 'CHADEMO' | 'NACS' | 'J1772';
+
+export type VehicleProfile = {
+  id: number;
+  slug: string;
+  make: string;
+  model: string;
+  trim_level: string | null;
+  model_year: number | null;
+  usable_battery_kwh: number;
+  range_miles: number;
+  efficiency_mi_per_kwh: number;
+  mass_kg: number;
+  max_charging_speed_kw: number;
+  charging_curve: ChargingCurvePoint[];
+  connector_types: VehicleConnectorType[];
+  created_at: string;
+  updated_at: string;
+};
+
+export type GarageVehicle = {
+  id: number;
+  user_id: number;
+  vehicle_id: number | null;
+  name: string;
+  range_miles: number;
+  efficiency_mi_per_kwh: number | null;
+  battery_kwh: number | null;
+  max_charging_speed_kw: number | null;
+  connector_type: VehicleConnectorType | null;
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type ConnectorFilter = VehicleConnectorType | 'ANY';
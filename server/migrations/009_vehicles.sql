@@ -0,0 +1,96 @@
+CREATE TABLE IF NOT EXISTS vehicles (
+  id SERIAL PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE,
+  make TEXT NOT NULL,
+  model TEXT NOT NULL,
+  trim_level TEXT,
+  model_year INTEGER,
+  usable_battery_kwh DOUBLE PRECISION NOT NULL,
+  range_miles INTEGER NOT NULL,
+  efficiency_mi_per_kwh DOUBLE PRECISION NOT NULL,
+  mass_kg INTEGER NOT NULL,
+  max_charging_speed_kw INTEGER NOT NULL,
+  charging_curve JSONB NOT NULL,
+  connector_types TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT vehicles_usable_battery_kwh_check CHECK (usable_battery_kwh > 0),
+  CONSTRAINT vehicles_efficiency_check CHECK (efficiency_mi_per_kwh > 0),
+  CONSTRAINT vehicles_charging_curve_array_check CHECK (jsonb_typeof(charging_curve) = 'array')
+);
+
+CREATE INDEX IF NOT EXISTS vehicles_make_model_idx ON vehicles (make, model);
+
+ALTER TABLE user_preferences
+  ADD COLUMN IF NOT EXISTS vehicle_id INTEGER REFERENCES vehicles(id) ON DELETE SET NULL;
+
+-- Seed profiles: usable capacity, highway efficiency and DC fast-charge curves (kW at SoC %) are
+-- representative published/tested figures, not manufacturer guarantees.
+INSERT INTO vehicles (
+  slug, make, model, trim_level, model_year, usable_battery_kwh, range_miles, efficiency_mi_per_kwh,
+  mass_kg, max_charging_speed_kw, charging_curve, connector_types
+)
+VALUES
+  (
+    'tesla-model-3-long-range-awd', 'Tesla', 'Model 3', 'Long Range AWD', 2024, 75, 341, 4.1, 1830, 250,
+    '[{"soc_percent":0,"power_kw":170},{"soc_percent":10,"power_kw":250},{"soc_percent":25,"power_kw":240},{"soc_percent":40,"power_kw":190},{"soc_percent":50,"power_kw":160},{"soc_percent":60,"power_kw":130},{"soc_percent":70,"power_kw":100},{"soc_percent":80,"power_kw":70},{"soc_percent":90,"power_kw":40},{"soc_percent":100,"power_kw":10}]',
+    ARRAY['NACS']
+  ),
+  (
+    'tesla-model-y-long-range-awd', 'Tesla', 'Model Y', 'Long Range AWD', 2024, 75, 310, 3.7, 2000, 250,
+    '[{"soc_percent":0,"power_kw":170},{"soc_percent":10,"power_kw":250},{"soc_percent":25,"power_kw":235},{"soc_percent":40,"power_kw":185},{"soc_percent":50,"power_kw":155},{"soc_percent":60,"power_kw":125},{"soc_percent":70,"power_kw":95},{"soc_percent":80,"power_kw":65},{"soc_percent":90,"power_kw":38},{"soc_percent":100,"power_kw":10}]',
+    ARRAY['NACS']
+  ),
+  (
+    'hyundai-ioniq-5-long-range-rwd', 'Hyundai', 'Ioniq 5', 'Long Range RWD', 2024, 74, 303, 3.5, 1990, 235,
+    '[{"soc_percent":0,"power_kw":180},{"soc_percent":10,"power_kw":230},{"soc_percent":40,"power_kw":225},{"soc_percent":50,"power_kw":215},{"soc_percent":60,"power_kw":180},{"soc_percent":70,"power_kw":150},{"soc_percent":80,"power_kw":95},{"soc_percent":85,"power_kw":70},{"soc_percent":90,"power_kw":35},{"soc_percent":100,"power_kw":10}]',
+    ARRAY['CCS']
+  ),
+  (
+    'kia-ev6-long-range-rwd', 'Kia', 'EV6', 'Long Range RWD', 2024, 74, 310, 3.6, 1960, 235,
+    '[{"soc_percent":0,"power_kw":180},{"soc_percent":10,"power_kw":230},{"soc_percent":40,"power_kw":225},{"soc_percent":50,"power_kw":215},{"soc_percent":60,"power_kw":180},{"soc_percent":70,"power_kw":150},{"soc_percent":80,"power_kw":95},{"soc_percent":85,"power_kw":70},{"soc_percent":90,"power_kw":35},{"soc_percent":100,"power_kw":10}]',
+    ARRAY['CCS']
+  ),
+  (
+    'ford-mustang-mach-e-extended-range-awd', 'Ford', 'Mustang Mach-E', 'Extended Range AWD', 2024, 88, 280, 3.1, 2230, 150,
+    '[{"soc_percent":0,"power_kw":120},{"soc_percent":10,"power_kw":150},{"soc_percent":30,"power_kw":145},{"soc_percent":45,"power_kw":120},{"soc_percent":60,"power_kw":95},{"soc_percent":70,"power_kw":80},{"soc_percent":80,"power_kw":60},{"soc_percent":90,"power_kw":30},{"soc_percent":100,"power_kw":10}]',
+    ARRAY['CCS']
+  ),
+  (
+    'chevrolet-bolt-euv', 'Chevrolet', 'Bolt EUV', NULL, 2023, 65, 247, 3.8, 1670, 55,
+    '[{"soc_percent":0,"power_kw":50},{"soc_percent":10,"power_kw":55},{"soc_percent":50,"power_kw":55},{"soc_percent":60,"power_kw":40},{"soc_percent":70,"power_kw":30},{"soc_percent":80,"power_kw":22},{"soc_percent":90,"power_kw":11},{"soc_percent":100,"power_kw":5}]',
+    ARRAY['CCS', 'J1772']
+  ),
+  (
+    'volkswagen-id4-pro-s', 'Volkswagen', 'ID.4', 'Pro S', 2024, 77, 291, 3.4, 2120, 175,
+    '[{"soc_percent":0,"power_kw":140},{"soc_percent":10,"power_kw":175},{"soc_percent":30,"power_kw":165},{"soc_percent":50,"power_kw":120},{"soc_percent":60,"power_kw":100},{"soc_percent":70,"power_kw":85},{"soc_percent":80,"power_kw":60},{"soc_percent":90,"power_kw":30},{"soc_percent":100,"power_kw":10}]',
+    ARRAY['CCS', 'J1772']
+  ),
+  (
+    'rivian-r1t-large-pack', 'Rivian', 'R1T', 'Dual Motor Large Pack', 2024, 128, 328, 2.5, 3150, 220,
+    '[{"soc_percent":0,"power_kw":180},{"soc_percent":10,"power_kw":220},{"soc_percent":30,"power_kw":200},{"soc_percent":50,"power_kw":160},{"soc_percent":60,"power_kw":130},{"soc_percent":70,"power_kw":110},{"soc_percent":80,"power_kw":80},{"soc_percent":90,"power_kw":40},{"soc_percent":100,"power_kw":10}]',
+    ARRAY['CCS', 'J1772']
+  ),
+  (
+    'bmw-i4-edrive40', 'BMW', 'i4', 'eDrive40', 2024, 81, 301, 3.6, 2120, 205,
+    '[{"soc_percent":0,"power_kw":160},{"soc_percent":10,"power_kw":205},{"soc_percent":30,"power_kw":190},{"soc_percent":50,"power_kw":140},{"soc_percent":60,"power_kw":115},{"soc_percent":70,"power_kw":95},{"soc_percent":80,"power_kw":65},{"soc_percent":90,"power_kw":35},{"soc_percent":100,"power_kw":10}]',
+    ARRAY['CCS', 'J1772']
+  ),
+  (
+    'nissan-leaf-plus', 'Nissan', 'Leaf', 'SV Plus', 2023, 59, 212, 3.6, 1750, 100,
+    '[{"soc_percent":0,"power_kw":70},{"soc_percent":10,"power_kw":100},{"soc_percent":30,"power_kw":90},{"soc_percent":50,"power_kw":70},{"soc_percent":60,"power_kw":55},{"soc_percent":70,"power_kw":45},{"soc_percent":80,"power_kw":32},{"soc_percent":90,"power_kw":18},{"soc_percent":100,"power_kw":5}]',
+    ARRAY['CHADEMO', 'J1772']
+  )
+ON CONFLICT (slug) DO UPDATE SET
+  make = EXCLUDED.make,
+  model = EXCLUDED.model,
+  trim_level = EXCLUDED.trim_level,
+  model_year = EXCLUDED.model_year,
+  usable_battery_kwh = EXCLUDED.usable_battery_kwh,
+  range_miles = EXCLUDED.range_miles,
+  efficiency_mi_per_kwh = EXCLUDED.efficiency_mi_per_kwh,
+  mass_kg = EXCLUDED.mass_kg,
+  max_charging_speed_kw = EXCLUDED.max_charging_speed_kw,
+  charging_curve = EXCLUDED.charging_curve,
+  connector_types = EXCLUDED.connector_types,
+  updated_at = NOW();
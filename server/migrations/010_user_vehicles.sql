@@ -0,0 +1,24 @@
+CREATE TABLE IF NOT EXISTS user_vehicles (
+  id BIGSERIAL PRIMARY KEY,
+  user_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  vehicle_id INTEGER REFERENCES vehicles(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  range_miles INTEGER NOT NULL DEFAULT 210,
+  efficiency_mi_per_kwh DOUBLE PRECISION,
+  battery_kwh DOUBLE PRECISION,
+  max_charging_speed_kw INTEGER,
+  connector_type TEXT,
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT user_vehicles_range_miles_check CHECK (range_miles BETWEEN 0 AND 2000),
+  CONSTRAINT user_vehicles_efficiency_check CHECK (efficiency_mi_per_kwh IS NULL OR (efficiency_mi_per_kwh > 0 AND efficiency_mi_per_kwh <= 20)),
+  CONSTRAINT user_vehicles_battery_kwh_check CHECK (battery_kwh IS NULL OR (battery_kwh > 0 AND battery_kwh <= 250)),
+  CONSTRAINT user_vehicles_max_charging_speed_kw_check CHECK (max_charging_speed_kw IS NULL OR max_charging_speed_kw BETWEEN 0 AND 1000),
+  CONSTRAINT user_vehicles_connector_type_check CHECK (connector_type IS NULL OR connector_type IN ('CCS', 'CHADEMO', 'NACS', 'J1772'))
+);
+
+CREATE INDEX IF NOT EXISTS user_vehicles_user_id_idx ON user_vehicles (user_id, created_at);
+
+-- At most one default vehicle per user.
+CREATE UNIQUE INDEX IF NOT EXISTS user_vehicles_one_default_idx ON user_vehicles (user_id) WHERE is_default;
@@ -0,0 +1,15 @@
+ALTER TABLE user_preferences
+  ADD COLUMN IF NOT EXISTS vehicle_mass_kg INTEGER;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'user_preferences_vehicle_mass_kg_check'
+  ) THEN
+    ALTER TABLE user_preferences
+      ADD CONSTRAINT user_preferences_vehicle_mass_kg_check
+      CHECK (vehicle_mass_kg IS NULL OR vehicle_mass_kg BETWEEN 500 AND 10000);
+  END IF;
+END $$;
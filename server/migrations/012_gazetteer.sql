@@ -0,0 +1,16 @@
+-- Local place-name lookup (US cities and ZIP codes) so common queries geocode without a remote API.
+-- Loaded by `npm run load:gazetteer`; see server/src/scripts/load-gazetteer.ts.
+CREATE TABLE IF NOT EXISTS gazetteer (
+  id BIGSERIAL PRIMARY KEY,
+  kind TEXT NOT NULL,
+  name TEXT NOT NULL,
+  state TEXT,
+  search_name TEXT NOT NULL,
+  lat DOUBLE PRECISION NOT NULL,
+  lng DOUBLE PRECISION NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT gazetteer_kind_check CHECK (kind IN ('city', 'zip'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS gazetteer_lookup_idx ON gazetteer (kind, search_name, (COALESCE(state, '')));
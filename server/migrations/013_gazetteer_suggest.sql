@@ -0,0 +1,5 @@
+-- Prefix search for geocode suggestions, ranked by land area (a rough prominence proxy; Census
+-- gazetteer files carry no population).
+ALTER TABLE gazetteer ADD COLUMN IF NOT EXISTS land_area_sq_mi DOUBLE PRECISION;
+
+CREATE INDEX IF NOT EXISTS gazetteer_search_prefix_idx ON gazetteer (kind, search_name text_pattern_ops);
@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS reverse_geocode_cache (
+  cache_key TEXT PRIMARY KEY,
+  lat DOUBLE PRECISION NOT NULL,
+  lng DOUBLE PRECISION NOT NULL,
+  label TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS reverse_geocode_cache_expires_at_idx ON reverse_geocode_cache (expires_at);
+
+-- Nearest-town lookups for reverse geocoding scan a small lat/lng box.
+CREATE INDEX IF NOT EXISTS gazetteer_city_lat_idx ON gazetteer (kind, lat);
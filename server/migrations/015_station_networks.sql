@@ -0,0 +1,8 @@
+ALTER TABLE stations ADD COLUMN IF NOT EXISTS network TEXT;
+
+-- Everything ingested before networks were configurable came from the Electrify America operator.
+UPDATE stations SET network = 'electrify_america' WHERE network IS NULL;
+
+ALTER TABLE stations ALTER COLUMN network SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stations_network ON stations(network);
@@ -0,0 +1,20 @@
+-- Which data source owns each station row (its fields come from that source).
+ALTER TABLE stations ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'ocm';
+ALTER TABLE stations ALTER COLUMN source DROP DEFAULT;
+
+-- Every source record backing a station: the owning record plus duplicates reconciled onto it.
+CREATE TABLE IF NOT EXISTS station_sources (
+  source TEXT NOT NULL,
+  source_id TEXT NOT NULL,
+  station_id INTEGER NOT NULL REFERENCES stations(id) ON DELETE CASCADE,
+  match_distance_meters DOUBLE PRECISION NOT NULL DEFAULT 0,
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (source, source_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_station_sources_station_id ON station_sources(station_id);
+CREATE INDEX IF NOT EXISTS idx_stations_source ON stations(source);
+
+INSERT INTO station_sources (source, source_id, station_id)
+SELECT 'ocm', id::text, id FROM stations
+ON CONFLICT (source, source_id) DO NOTHING;
@@ -0,0 +1,29 @@
+-- One row per station import (fetch:stations, fetch:stations:afdc), with what it changed.
+CREATE TABLE IF NOT EXISTS station_ingest_runs (
+  id BIGSERIAL PRIMARY KEY,
+  source TEXT NOT NULL,
+  input TEXT NOT NULL,                      -- 'api' or the --from-file path
+  status TEXT NOT NULL DEFAULT 'running',   -- running | succeeded | failed
+  stations_seen INTEGER NOT NULL DEFAULT 0,
+  stations_added INTEGER NOT NULL DEFAULT 0,
+  stations_updated INTEGER NOT NULL DEFAULT 0,
+  stations_removed INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_station_ingest_runs_started_at ON station_ingest_runs(started_at DESC);
+
+-- Field-level changes per station and run. No foreign key to stations: history outlives removed stations.
+CREATE TABLE IF NOT EXISTS station_history (
+  id BIGSERIAL PRIMARY KEY,
+  station_id INTEGER NOT NULL,
+  run_id BIGINT REFERENCES station_ingest_runs(id) ON DELETE SET NULL,
+  change_type TEXT NOT NULL,                -- added | updated | removed
+  changes JSONB NOT NULL,                   -- { "<column>": { "from": ..., "to": ... } }
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_station_history_station_id ON station_history(station_id, recorded_at DESC);
+CREATE INDEX IF NOT EXISTS idx_station_history_run_id ON station_history(run_id);
@@ -0,0 +1,3 @@
+-- Station ranking weights and tier thresholds; NULL means the built-in defaults.
+ALTER TABLE user_preferences
+  ADD COLUMN IF NOT EXISTS ranking JSONB;
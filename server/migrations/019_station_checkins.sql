@@ -0,0 +1,14 @@
+-- User check-ins: how charging went at a station. No foreign key to stations, so check-ins survive a
+-- station dropping out of an import and coming back.
+CREATE TABLE IF NOT EXISTS station_checkins (
+  id BIGSERIAL PRIMARY KEY,
+  station_id INTEGER NOT NULL,
+  user_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  outcome TEXT NOT NULL CHECK (outcome IN ('charged_ok', 'partial', 'failed', 'iced')),
+  working_stalls INTEGER CHECK (working_stalls IS NULL OR working_stalls >= 0),
+  comment TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_station_checkins_station_id ON station_checkins(station_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_station_checkins_user_id ON station_checkins(user_id);
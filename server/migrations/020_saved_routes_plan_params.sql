@@ -0,0 +1,19 @@
+-- Full POST /api/route parameters for each saved route (see src/planParams.ts). The legacy columns stay
+-- as a summary for listing; existing rows get version 1 params built from them.
+ALTER TABLE saved_routes
+  ADD COLUMN IF NOT EXISTS plan_params JSONB;
+
+UPDATE saved_routes
+SET plan_params = jsonb_build_object(
+  'version', 1,
+  'start', start_query,
+  'end', end_query,
+  'waypoints', to_jsonb(COALESCE(waypoints, '{}')),
+  'corridorMiles', corridor_miles,
+  'autoCorridor', FALSE,
+  'preference', preference
+)
+WHERE plan_params IS NULL;
+
+ALTER TABLE saved_routes
+  ALTER COLUMN plan_params SET NOT NULL;
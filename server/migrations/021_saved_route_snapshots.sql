@@ -0,0 +1,7 @@
+-- Optional POST /api/route response captured when a route is saved, so it can be reopened without
+-- re-planning and compared with current station data. One per saved route; removed with it.
+CREATE TABLE IF NOT EXISTS saved_route_snapshots (
+  saved_route_id BIGINT PRIMARY KEY REFERENCES saved_routes(id) ON DELETE CASCADE,
+  response JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
@@ -0,0 +1,12 @@
+-- Share links for saved routes: an unguessable token gives read-only access to one route until it is
+-- revoked or expires. Revoked links are kept so they can answer "revoked" rather than "not found".
+CREATE TABLE IF NOT EXISTS saved_route_shares (
+  id BIGSERIAL PRIMARY KEY,
+  saved_route_id BIGINT NOT NULL REFERENCES saved_routes(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_route_shares_saved_route_id ON saved_route_shares(saved_route_id, created_at DESC);
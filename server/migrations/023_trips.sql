@@ -0,0 +1,24 @@
+-- Trips: multi-day road trips made of ordered legs, each one of the owner's saved routes on a given date.
+-- Positions are renumbered on reorder; the unique check is deferred so a reorder can swap them in one
+-- transaction. Deleting a saved route drops the legs that used it.
+CREATE TABLE IF NOT EXISTS trips (
+  id BIGSERIAL PRIMARY KEY,
+  user_id BIGINT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trips_user_id ON trips(user_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS trip_legs (
+  id BIGSERIAL PRIMARY KEY,
+  trip_id BIGINT NOT NULL REFERENCES trips(id) ON DELETE CASCADE,
+  saved_route_id BIGINT NOT NULL REFERENCES saved_routes(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  leg_date DATE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT trip_legs_trip_position_key UNIQUE (trip_id, position) DEFERRABLE INITIALLY DEFERRED
+);
+
+CREATE INDEX IF NOT EXISTS idx_trip_legs_saved_route_id ON trip_legs(saved_route_id);
@@ -0,0 +1,8 @@
+-- Legacy saved routes without an owner were readable by anyone through their sequential id. Each one gets a
+-- share link instead (a random UUID without its dashes is 32 characters, which fits the share token format),
+-- and the id endpoints stop serving them.
+INSERT INTO saved_route_shares (saved_route_id, token)
+SELECT r.id, replace(gen_random_uuid()::text, '-', '')
+FROM saved_routes r
+WHERE r.user_id IS NULL
+  AND NOT EXISTS (SELECT 1 FROM saved_route_shares sh WHERE sh.saved_route_id = r.id);
@@ -1,5 +1,7 @@
 import crypto from 'node:crypto';
 import { pool } from './db.js';
+import type { StationRanking } from './planning/ranking.js';
+import type { RoutingProviderName } from './routing/types.js';
 
 type CachedGeocode = {
   label: string;
@@ -25,13 +27,22 @@ export function makeGeocodeCacheKey(query: string): string {
   return sha256Hex(`geocode:v1:${normalizeQueryText(query).toLowerCase()}`);
 }
 
+// ~11 m grid: clicks on the same spot share an entry.
+export function makeReverseGeocodeCacheKey(lat: number, lng: number): string {
+  return sha256Hex(`reverse-geocode:v1:${lat.toFixed(4)},${lng.toFixed(4)}`);
+}
+
 export function makeDirectionsCacheKey(options: {
+  provider: RoutingProviderName;
   coordinates: [number, number][];
   includeAlternatives: boolean;
 }): string {
   const coords = serializeCoordinates(options.coordinates);
   const alt = options.includeAlternatives ? '1' : '0';
-  return sha256Hex(`ors-directions:v3:profile=driving-car:alt=${alt}:elev=1:coords=${coords}`);
+  if (options.provider === 'ors') {
+    return sha256Hex(`ors-directions:v3:profile=driving-car:alt=${alt}:elev=1:coords=${coords}`);
+  }
+  return sha256Hex(`${options.provider}-directions:v1:alt=${alt}:coords=${coords}`);
 }
 
 export function makeRouteResponseCacheKey(options: {
@@ -45,12 +56,26 @@ export function makeRouteResponseCacheKey(options: {
   rangeMiles: number;
   minArrivalPercent: number;
   maxDetourFactor: number;
+  startSocPercent: number;
+  batteryKwh: number | null;
+  efficiencyMiPerKwh: number | null;
+  maxChargingSpeedKw: number | null;
+  vehicleProfileId: number | null;
+  massKg: number | null;
+  connectorType: string | null;
+  networks: string[] | null;
+  ranking: StationRanking;
+  // Minute-precision ISO departure, or null for "now".
+  departAt: string | null;
+  routingProvider: RoutingProviderName;
 }): string {
   const corridor = (Math.round(options.corridorMiles * 100) / 100).toFixed(2);
   const detour = (Math.round(options.maxDetourFactor * 1000) / 1000).toFixed(3);
   const queries = [options.start, ...options.waypoints, options.end].map(normalizeQueryText);
+  const battery = options.batteryKwh === null ? 'na' : (Math.round(options.batteryKwh * 10) / 10).toFixed(1);
+  const efficiency = options.efficiencyMiPerKwh === null ? 'na' : (Math.round(options.efficiencyMiPerKwh * 100) / 100).toFixed(2);
   const payload = [
-    'route:v8',
+    'route:v19',
     `pref=${options.preference}`,
     `autoCorr=${options.autoCorridor ? 1 : 0}`,
     `stations=${options.includeStations ? 1 : 0}`,
@@ -58,6 +83,17 @@ export function makeRouteResponseCacheKey(options: {
     `range=${Math.round(options.rangeMiles)}`,
     `minArr=${Math.round(options.minArrivalPercent)}`,
     `detour=${detour}`,
+    `soc=${Math.round(options.startSocPercent)}`,
+    `batt=${battery}`,
+    `eff=${efficiency}`,
+    `chg=${options.maxChargingSpeedKw === null ? 'na' : Math.round(options.maxChargingSpeedKw)}`,
+    `vehicle=${options.vehicleProfileId ?? 'na'}`,
+    `mass=${options.massKg === null ? 'na' : Math.round(options.massKg)}`,
+    `conn=${options.connectorType ?? 'any'}`,
+    `net=${options.networks ? [...options.networks].sort().join(',') : 'all'}`,
+    `rank=${JSON.stringify(options.ranking)}`,
+    `depart=${options.departAt ?? 'now'}`,
+    `routing=${options.routingProvider}`,
     `q=${queries.join('|')}`,
   ].join(':');
   return sha256Hex(payload);
@@ -70,10 +106,11 @@ function warnOnce(key: string, error: unknown): void {
   console.warn(`[cache] disabled for ${key}:`, error);
 }
 
-type CacheTable = 'geocode_cache' | 'ors_directions_cache' | 'route_response_cache';
+type CacheTable = 'geocode_cache' | 'reverse_geocode_cache' | 'ors_directions_cache' | 'route_response_cache';
 
 const lastCleanup: Record<CacheTable, number> = {
   geocode_cache: 0,
+  reverse_geocode_cache: 0,
   ors_directions_cache: 0,
   route_response_cache: 0,
 };
@@ -88,6 +125,9 @@ async function maybeCleanup(table: CacheTable): Promise<void> {
       case 'geocode_cache':
         await pool.query('DELETE FROM geocode_cache WHERE expires_at < NOW()');
         break;
+      case 'reverse_geocode_cache':
+        await pool.query('DELETE FROM reverse_geocode_cache WHERE expires_at < NOW()');
+        break;
       case 'ors_directions_cache':
         await pool.query('DELETE FROM ors_directions_cache WHERE expires_at < NOW()');
         break;
@@ -127,6 +167,32 @@ export async function getCachedGeocode(cacheKey: string): Promise<CachedGeocode
   }
 }
 
+/** Unexpired cache entries whose label or original query starts with `prefix`, most recently used first. */
+export async function searchCachedGeocodes(prefix: string, limit: number): Promise<CachedGeocode[]> {
+  const pattern = `${normalizeQueryText(prefix).toLowerCase().replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+  try {
+    const result = await pool.query<CachedGeocode>(
+      `
+        SELECT label, lat, lng
+        FROM (
+          SELECT DISTINCT ON (lower(label)) label, lat, lng, updated_at
+          FROM geocode_cache
+          WHERE expires_at > NOW()
+            AND (lower(label) LIKE $1 OR lower(query_text) LIKE $1)
+          ORDER BY lower(label), updated_at DESC
+        ) matches
+        ORDER BY updated_at DESC
+        LIMIT $2
+      `,
+      [pattern, limit]
+    );
+    return result.rows.filter((row) => typeof row.label === 'string' && Number.isFinite(row.lat) && Number.isFinite(row.lng));
+  } catch (error) {
+    warnOnce('geocode_cache', error);
+    return [];
+  }
+}
+
 export async function setCachedGeocode(options: {
   cacheKey: string;
   queryText: string;
@@ -164,6 +230,57 @@ export async function setCachedGeocode(options: {
   }
 }
 
+export async function getCachedReverseGeocode(cacheKey: string): Promise<CachedGeocode | null> {
+  try {
+    const result = await pool.query<CachedGeocode>(
+      `
+        SELECT label, lat, lng
+        FROM reverse_geocode_cache
+        WHERE cache_key = $1
+          AND expires_at > NOW()
+        LIMIT 1
+      `,
+      [cacheKey]
+    );
+    const row = result.rows[0];
+    if (!row) return null;
+    if (typeof row.label !== 'string') return null;
+    if (!Number.isFinite(row.lat) || !Number.isFinite(row.lng)) return null;
+    return row;
+  } catch (error) {
+    warnOnce('reverse_geocode_cache', error);
+    return null;
+  }
+}
+
+export async function setCachedReverseGeocode(options: {
+  cacheKey: string;
+  lat: number;
+  lng: number;
+  label: string;
+  ttlDays: number;
+}): Promise<void> {
+  if (!Number.isFinite(options.ttlDays) || options.ttlDays <= 0) return;
+  try {
+    await maybeCleanup('reverse_geocode_cache');
+    await pool.query(
+      `
+        INSERT INTO reverse_geocode_cache (cache_key, lat, lng, label, expires_at)
+        VALUES ($1, $2, $3, $4, NOW() + ($5 * INTERVAL '1 day'))
+        ON CONFLICT (cache_key) DO UPDATE SET
+          lat = EXCLUDED.lat,
+          lng = EXCLUDED.lng,
+          label = EXCLUDED.label,
+          updated_at = NOW(),
+          expires_at = EXCLUDED.expires_at
+      `,
+      [options.cacheKey, options.lat, options.lng, options.label, Math.floor(options.ttlDays)]
+    );
+  } catch (error) {
+    warnOnce('reverse_geocode_cache', error);
+  }
+}
+
 export async function getCachedDirections(cacheKey: string): Promise<unknown | null> {
   try {
     const result = await pool.query<{ routes_json: unknown }>(
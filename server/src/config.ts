@@ -1,6 +1,9 @@
 import dotenv from 'dotenv';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { GEOCODER_NAMES, type GeocoderName } from './geocoding/types.js';
+import { ROUTING_PROVIDER_NAMES, type RoutingProviderName } from './routing/types.js';
+import { STATION_NETWORK_IDS, getStationNetwork, parseStationNetworkId, type StationNetworkId } from './networks.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 dotenv.config({ path: path.resolve(__dirname, '../..', '.env') });
@@ -15,6 +18,14 @@ function readIntEnv(name: string, fallback: number): number {
   return value;
 }
 
+function readPercentEnv(name: string, fallback: number): number {
+  const value = readIntEnv(name, fallback);
+  if (value < 0 || value > 100) {
+    throw new Error(`Invalid percentage for ${name}: "${process.env[name]}" (must be 0-100)`);
+  }
+  return value;
+}
+
 function requireEnv(name: string): string {
   const value = process.env[name];
   if (!value) {
@@ -30,6 +41,57 @@ function readSslMode(): 'verify' | 'no-verify' {
   throw new Error(`Invalid DB_SSL_MODE: "${raw}" (must be 'verify' or 'no-verify')`);
 }
 
+function readRoutingProvider(): RoutingProviderName {
+  const raw = process.env.ROUTING_PROVIDER;
+  if (!raw) return 'ors';
+  const value = raw.trim().toLowerCase();
+  const match = ROUTING_PROVIDER_NAMES.find((name) => name === value);
+  if (match) return match;
+  throw new Error(`Invalid ROUTING_PROVIDER: "${raw}" (must be ${ROUTING_PROVIDER_NAMES.map((n) => `'${n}'`).join(', ')})`);
+}
+
+function readGeocoderChain(): GeocoderName[] {
+  const raw = process.env.GEOCODER_CHAIN;
+  if (!raw) return ['cache', 'gazetteer', 'ors'];
+  const chain: GeocoderName[] = [];
+  for (const entry of raw.split(',')) {
+    const value = entry.trim().toLowerCase();
+    if (!value) continue;
+    const match = GEOCODER_NAMES.find((name) => name === value);
+    if (!match) {
+      throw new Error(`Invalid GEOCODER_CHAIN entry: "${entry.trim()}" (must be ${GEOCODER_NAMES.map((n) => `'${n}'`).join(', ')})`);
+    }
+    if (!chain.includes(match)) chain.push(match);
+  }
+  if (chain.length === 0) throw new Error('GEOCODER_CHAIN must name at least one geocoder');
+  return chain;
+}
+
+// Entries are network IDs, optionally with OpenChargeMap operator IDs: "electrify_america,evgo,ionna=1234,tesla=23+3534".
+function readStationNetworks(): { id: StationNetworkId; ocmOperatorIds: number[] }[] {
+  const raw = process.env.STATION_NETWORKS;
+  if (!raw) return [{ id: 'electrify_america', ocmOperatorIds: getStationNetwork('electrify_america').ocmOperatorIds }];
+  const networks: { id: StationNetworkId; ocmOperatorIds: number[] }[] = [];
+  for (const entry of raw.split(',')) {
+    const [name = '', operatorIdsText] = entry.split('=');
+    if (!name.trim()) continue;
+    const id = parseStationNetworkId(name);
+    if (!id) {
+      throw new Error(`Invalid STATION_NETWORKS entry: "${entry.trim()}" (must be ${STATION_NETWORK_IDS.map((n) => `'${n}'`).join(', ')})`);
+    }
+    let ocmOperatorIds = getStationNetwork(id).ocmOperatorIds;
+    if (operatorIdsText !== undefined) {
+      ocmOperatorIds = operatorIdsText.split('+').map((part) => Number.parseInt(part.trim(), 10));
+      if (ocmOperatorIds.some((n) => !Number.isInteger(n) || n <= 0)) {
+        throw new Error(`Invalid STATION_NETWORKS operator IDs for ${id}: "${operatorIdsText}"`);
+      }
+    }
+    if (!networks.some((n) => n.id === id)) networks.push({ id, ocmOperatorIds });
+  }
+  if (networks.length === 0) throw new Error('STATION_NETWORKS must name at least one network');
+  return networks;
+}
+
 export const config = {
   nodeEnv: process.env.NODE_ENV ?? 'development',
   port: readIntEnv('PORT', 3001),
@@ -56,6 +118,32 @@ export const config = {
     poolConnectionTimeoutMs: readIntEnv('DB_POOL_CONNECTION_TIMEOUT_MS', 5000),
     poolIdleTimeoutMs: readIntEnv('DB_POOL_IDLE_TIMEOUT_MS', 30000),
   },
+  geocoding: {
+    chain: readGeocoderChain(),
+  },
+  routing: {
+    provider: readRoutingProvider(),
+    orsBaseUrl: process.env.ORS_BASE_URL ?? 'https://api.openrouteservice.org',
+    osrmBaseUrl: process.env.OSRM_BASE_URL ?? 'http://localhost:5000',
+    osrmProfile: process.env.OSRM_PROFILE ?? 'driving',
+    valhallaBaseUrl: process.env.VALHALLA_BASE_URL ?? 'http://localhost:8002',
+  },
+  stations: {
+    // Networks fetch-stations ingests from OpenChargeMap (default: Electrify America only).
+    networks: readStationNetworks(),
+    // Station imports abort (unless --force) when they would remove / change more than this share of the
+    // stations the source already owns.
+    maxRemovedPercent: readPercentEnv('STATION_INGEST_MAX_REMOVED_PERCENT', 10),
+    maxUpdatedPercent: readPercentEnv('STATION_INGEST_MAX_UPDATED_PERCENT', 50),
+    // Recent ingest runs per source that station reliability is measured over.
+    reliabilityRuns: readIntEnv('STATION_RELIABILITY_RUNS', 30),
+    // How far back user check-ins count towards a station's "reported not working" signal.
+    checkinWindowHours: readIntEnv('STATION_CHECKIN_WINDOW_HOURS', 48),
+  },
+  savedRoutes: {
+    // Request body limit for /api/saved-routes, which may carry a full route response snapshot.
+    snapshotMaxKb: readIntEnv('SAVED_ROUTE_SNAPSHOT_MAX_KB', 5 * 1024),
+  },
   apiKeys: {
     nrel: process.env.NREL_API_KEY,
     openChargeMap: process.env.OPENCHARMAP_API_KEY,
@@ -0,0 +1,35 @@
+import type { GeocodedPoint } from './types.js';
+
+const LAT_LNG_PATTERN = /^\s*\(?\s*(-?\d{1,3}(?:\.\d+)?)\s*,\s*(-?\d{1,3}(?:\.\d+)?)\s*\)?\s*$/;
+
+function formatLatLng(lat: number, lng: number): string {
+  return `${lat.toFixed(5)},${lng.toFixed(5)}`;
+}
+
+/**
+ * Accept raw `lat,lng` input (optionally parenthesised) as-is; no lookup needed. A leading label
+ * separated by `@` ("Exit 387, Gainesville, FL @ 29.65160,-82.32480") is kept as the point's label.
+ */
+export function parseLatLngQuery(query: string): GeocodedPoint | null {
+  const at = query.lastIndexOf('@');
+  const labelText = at === -1 ? '' : query.slice(0, at).trim();
+  const match = LAT_LNG_PATTERN.exec(at === -1 ? query : query.slice(at + 1));
+  if (!match) return null;
+  const lat = Number(match[1]);
+  const lng = Number(match[2]);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  if (lat < -90 || lat > 90 || lng < -180 || lng > 180) return null;
+  return {
+    query,
+    label: labelText || `${lat.toFixed(5)}, ${lng.toFixed(5)}`,
+    lat,
+    lng,
+    source: 'coordinates',
+  };
+}
+
+/** Planner input text that shows `label` but geocodes back to exactly this point (see parseLatLngQuery). */
+export function formatPinnedQuery(label: string, lat: number, lng: number): string {
+  const cleanLabel = label.replace(/@/g, ' ').replace(/\s+/g, ' ').trim();
+  return cleanLabel ? `${cleanLabel} @ ${formatLatLng(lat, lng)}` : formatLatLng(lat, lng);
+}
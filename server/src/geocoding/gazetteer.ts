@@ -0,0 +1,236 @@
+import { pool } from '../db.js';
+import { normalizeQueryText } from '../cache.js';
+import type { GeocodedPoint, Geocoder } from './types.js';
+
+const US_STATES: Record<string, string> = {
+  AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California', CO: 'Colorado',
+  CT: 'Connecticut', DE: 'Delaware', DC: 'District of Columbia', FL: 'Florida', GA: 'Georgia',
+  HI: 'Hawaii', ID: 'Idaho', IL: 'Illinois', IN: 'Indiana', IA: 'Iowa', KS: 'Kansas', KY: 'Kentucky',
+  LA: 'Louisiana', ME: 'Maine', MD: 'Maryland', MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota',
+  MS: 'Mississippi', MO: 'Missouri', MT: 'Montana', NE: 'Nebraska', NV: 'Nevada', NH: 'New Hampshire',
+  NJ: 'New Jersey', NM: 'New Mexico', NY: 'New York', NC: 'North Carolina', ND: 'North Dakota',
+  OH: 'Ohio', OK: 'Oklahoma', OR: 'Oregon', PA: 'Pennsylvania', PR: 'Puerto Rico', RI: 'Rhode Island',
+  SC: 'South Carolina', SD: 'South Dakota', TN: 'Tennessee', TX: 'Texas', UT: 'Utah', VT: 'Vermont',
+  VA: 'Virginia', WA: 'Washington', WV: 'West Virginia', WI: 'Wisconsin', WY: 'Wyoming',
+};
+
+const STATE_BY_NAME = new Map(Object.entries(US_STATES).map(([abbr, name]) => [name.toLowerCase(), abbr]));
+
+const ZIP_PATTERN = /^(\d{5})(?:-\d{4})?$/;
+const COUNTRY_SUFFIX_PATTERN = /,?\s*(usa|us|u\.s\.a?\.?|united states(?: of america)?)$/i;
+
+type GazetteerQuery =
+  | { kind: 'zip'; zip: string }
+  | { kind: 'city'; searchName: string; state: string; zip: string | null };
+
+type GazetteerRow = {
+  kind: 'city' | 'zip';
+  name: string;
+  state: string | null;
+  lat: number;
+  lng: number;
+};
+
+/** Lowercased, punctuation-free place name with common abbreviations expanded ("St. Louis" → "saint louis"). */
+export function gazetteerSearchName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[.'’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/^st /, 'saint ')
+    .replace(/^ste /, 'sainte ')
+    .replace(/^ft /, 'fort ')
+    .replace(/^mt /, 'mount ')
+    .replace(/\s+/g, ' ');
+}
+
+/** Two-letter USPS code for an abbreviation or full state name, or null. */
+export function parseUsState(value: string): string | null {
+  const trimmed = value.trim().replace(/\./g, '');
+  const upper = trimmed.toUpperCase();
+  if (upper.length === 2 && US_STATES[upper]) return upper;
+  return STATE_BY_NAME.get(trimmed.toLowerCase()) ?? null;
+}
+
+/**
+ * Only queries the gazetteer can answer precisely: a ZIP, or "City, ST" / "City ST" / "City, State"
+ * (optionally followed by a ZIP). Bare city names and street addresses are left to the next provider.
+ */
+function parseGazetteerQuery(query: string): GazetteerQuery | null {
+  const text = normalizeQueryText(query).replace(COUNTRY_SUFFIX_PATTERN, '').trim();
+  const zipOnly = ZIP_PATTERN.exec(text);
+  if (zipOnly) return { kind: 'zip', zip: zipOnly[1]! };
+
+  const parts = text.split(',').map((p) => p.trim()).filter((p) => p.length > 0);
+  let city: string;
+  let stateText: string;
+  if (parts.length === 2) {
+    [city, stateText] = parts as [string, string];
+  } else if (parts.length === 1) {
+    // "Austin TX" or "Austin Texas": peel the state off the end.
+    const words = parts[0]!.split(' ');
+    let split = -1;
+    for (let i = 1; i < words.length && split === -1; i += 1) {
+      if (parseUsState(words.slice(i).filter((w) => !ZIP_PATTERN.test(w)).join(' '))) split = i;
+    }
+    if (split === -1) return null;
+    city = words.slice(0, split).join(' ');
+    stateText = words.slice(split).join(' ');
+  } else {
+    return null;
+  }
+
+  const stateWords = stateText.split(' ');
+  const zipMatch = ZIP_PATTERN.exec(stateWords[stateWords.length - 1] ?? '');
+  const state = parseUsState(zipMatch ? stateWords.slice(0, -1).join(' ') : stateText);
+  if (!state || /\d/.test(city)) return null;
+
+  const searchName = gazetteerSearchName(city);
+  if (!searchName) return null;
+  return { kind: 'city', searchName, state, zip: zipMatch ? zipMatch[1]! : null };
+}
+
+/** Partial input for suggestions: a ZIP prefix, or a city-name prefix with an optional trailing state. */
+function parseSuggestQuery(query: string): { kind: 'zip' | 'city'; prefix: string; state: string | null } | null {
+  const text = normalizeQueryText(query).replace(COUNTRY_SUFFIX_PATTERN, '').trim();
+  if (/^\d{3,5}$/.test(text)) return { kind: 'zip', prefix: text, state: null };
+
+  let city = text;
+  let state: string | null = null;
+  const comma = text.lastIndexOf(',');
+  if (comma !== -1) {
+    city = text.slice(0, comma);
+    state = parseUsState(text.slice(comma + 1).replace(/\s*\d{5}(?:-\d{4})?$/, ''));
+  } else {
+    const words = text.split(' ');
+    const last = words[words.length - 1] ?? '';
+    if (words.length > 1 && last.length === 2 && parseUsState(last)) {
+      city = words.slice(0, -1).join(' ');
+      state = parseUsState(last);
+    }
+  }
+  if (/\d/.test(city)) return null;
+
+  const prefix = gazetteerSearchName(city);
+  return prefix.length >= 2 ? { kind: 'city', prefix, state } : null;
+}
+
+function labelFor(row: GazetteerRow): string {
+  return row.state ? `${row.name}, ${row.state}` : row.name;
+}
+
+let warnedUnavailable = false;
+function warnUnavailable(error: unknown): void {
+  if (warnedUnavailable) return;
+  warnedUnavailable = true;
+  console.warn('[geocode] gazetteer unavailable:', error);
+}
+
+async function lookup(kind: 'city' | 'zip', searchName: string, state: string | null): Promise<GazetteerRow | null> {
+  try {
+    const result = await pool.query<GazetteerRow>(
+      `
+        SELECT kind, name, state, lat, lng
+        FROM gazetteer
+        WHERE kind = $1
+          AND search_name = $2
+          AND ($3::text IS NULL OR state = $3)
+        LIMIT 1
+      `,
+      [kind, searchName, state]
+    );
+    return result.rows[0] ?? null;
+  } catch (error) {
+    warnUnavailable(error);
+    return null;
+  }
+}
+
+async function searchPrefix(options: { kind: 'city' | 'zip'; prefix: string; state: string | null; limit: number }): Promise<GazetteerRow[]> {
+  try {
+    const result = await pool.query<GazetteerRow>(
+      `
+        SELECT kind, name, state, lat, lng
+        FROM gazetteer
+        WHERE kind = $1
+          AND search_name LIKE $2 || '%'
+          AND ($3::text IS NULL OR state = $3)
+        ORDER BY (search_name = $2) DESC, land_area_sq_mi DESC NULLS LAST, search_name
+        LIMIT $4
+      `,
+      [options.kind, options.prefix, options.state, options.limit]
+    );
+    return result.rows;
+  } catch (error) {
+    warnUnavailable(error);
+    return [];
+  }
+}
+
+const REVERSE_MAX_DISTANCE_MILES = 25;
+const REVERSE_AT_TOWN_MILES = 2;
+const MILES_PER_DEGREE_LAT = 69.05;
+
+async function nearestCity(lat: number, lng: number): Promise<(GazetteerRow & { distanceMiles: number }) | null> {
+  const latSpan = REVERSE_MAX_DISTANCE_MILES / MILES_PER_DEGREE_LAT;
+  const lngScale = Math.max(0.01, Math.cos((lat * Math.PI) / 180));
+  const lngSpan = latSpan / lngScale;
+  try {
+    const result = await pool.query<GazetteerRow>(
+      `
+        SELECT kind, name, state, lat, lng
+        FROM gazetteer
+        WHERE kind = 'city'
+          AND lat BETWEEN $1::float8 - $3::float8 AND $1::float8 + $3::float8
+          AND lng BETWEEN $2::float8 - $4::float8 AND $2::float8 + $4::float8
+        ORDER BY power(lat - $1::float8, 2) + power((lng - $2::float8) * $5::float8, 2)
+        LIMIT 1
+      `,
+      [lat, lng, latSpan, lngSpan, lngScale]
+    );
+    const row = result.rows[0];
+    if (!row) return null;
+    const distanceMiles = Math.hypot(row.lat - lat, (row.lng - lng) * lngScale) * MILES_PER_DEGREE_LAT;
+    return distanceMiles <= REVERSE_MAX_DISTANCE_MILES ? { ...row, distanceMiles } : null;
+  } catch (error) {
+    warnUnavailable(error);
+    return null;
+  }
+}
+
+export function createGazetteerGeocoder(): Geocoder {
+  async function geocode(query: string): Promise<GeocodedPoint | null> {
+    const parsed = parseGazetteerQuery(query);
+    if (!parsed) return null;
+
+    let row: GazetteerRow | null;
+    if (parsed.kind === 'zip') {
+      row = await lookup('zip', parsed.zip, null);
+    } else {
+      row = await lookup('city', parsed.searchName, parsed.state);
+      if (!row && parsed.zip) row = await lookup('zip', parsed.zip, null);
+    }
+    if (!row) return null;
+
+    return { query, label: labelFor(row), lat: row.lat, lng: row.lng, source: 'gazetteer' };
+  }
+
+  async function suggest(query: string, limit: number): Promise<GeocodedPoint[]> {
+    const parsed = parseSuggestQuery(query);
+    if (!parsed) return [];
+    const rows = await searchPrefix({ ...parsed, limit });
+    return rows.map((row) => ({ query, label: labelFor(row), lat: row.lat, lng: row.lng, source: 'gazetteer' as const }));
+  }
+
+  // Only town centroids are known, so far-out clicks are labelled relative to the nearest town.
+  async function reverse(lat: number, lng: number): Promise<GeocodedPoint | null> {
+    const city = await nearestCity(lat, lng);
+    if (!city) return null;
+    const town = labelFor(city);
+    const label = city.distanceMiles <= REVERSE_AT_TOWN_MILES ? town : `${Math.round(city.distanceMiles)} mi from ${town}`;
+    return { query: `${lat},${lng}`, label, lat, lng, source: 'gazetteer' };
+  }
+
+  return { name: 'gazetteer', cacheable: false, geocode, suggest, reverse };
+}
@@ -0,0 +1,225 @@
+import { config } from '../config.js';
+import {
+  getCachedGeocode,
+  getCachedReverseGeocode,
+  makeGeocodeCacheKey,
+  makeReverseGeocodeCacheKey,
+  normalizeQueryText,
+  searchCachedGeocodes,
+  setCachedGeocode,
+  setCachedReverseGeocode,
+} from '../cache.js';
+import { formatPinnedQuery, parseLatLngQuery } from './coordinates.js';
+import { createGazetteerGeocoder } from './gazetteer.js';
+import { createOrsGeocoder } from './ors.js';
+import type { GeocodedPoint, Geocoder, GeocoderName } from './types.js';
+
+export type { GeocodedPoint, Geocoder, GeocoderName, GeocodeSource } from './types.js';
+export { formatPinnedQuery } from './coordinates.js';
+
+function createCacheGeocoder(): Geocoder {
+  async function geocode(query: string): Promise<GeocodedPoint | null> {
+    if (config.cache.geocodeTtlDays <= 0) return null;
+    const cached = await getCachedGeocode(makeGeocodeCacheKey(query));
+    if (!cached) return null;
+    return { query, label: cached.label, lat: cached.lat, lng: cached.lng, source: 'cache' };
+  }
+
+  async function suggest(query: string, limit: number): Promise<GeocodedPoint[]> {
+    if (config.cache.geocodeTtlDays <= 0) return [];
+    const rows = await searchCachedGeocodes(query, limit);
+    return rows.map((row) => ({ query, label: row.label, lat: row.lat, lng: row.lng, source: 'cache' as const }));
+  }
+
+  return { name: 'cache', cacheable: false, geocode, suggest };
+}
+
+function createGeocoder(name: GeocoderName): Geocoder {
+  switch (name) {
+    case 'cache':
+      return createCacheGeocoder();
+    case 'gazetteer':
+      return createGazetteerGeocoder();
+    case 'ors':
+      return createOrsGeocoder({ apiKey: config.apiKeys.openRouteService });
+  }
+}
+
+async function writeToCache(query: string, point: GeocodedPoint): Promise<void> {
+  await setCachedGeocode({
+    cacheKey: makeGeocodeCacheKey(query),
+    queryText: query,
+    label: point.label,
+    lat: point.lat,
+    lng: point.lng,
+    ttlDays: config.cache.geocodeTtlDays,
+  });
+}
+
+// Remote suggestions, remembered briefly in memory so planning with a picked one resolves to exactly that
+// point. Only labels that are then geocoded reach `geocode_cache`; partial-query results never do.
+const SUGGESTION_TTL_MS = 10 * 60 * 1000;
+const SUGGESTION_MAX_ENTRIES = 1000;
+const recentSuggestions = new Map<string, { point: GeocodedPoint; expiresAt: number }>();
+
+function rememberSuggestion(point: GeocodedPoint): void {
+  const key = makeGeocodeCacheKey(point.label);
+  recentSuggestions.delete(key);
+  recentSuggestions.set(key, { point, expiresAt: Date.now() + SUGGESTION_TTL_MS });
+  // Map iteration is insertion order, so the first key is the oldest.
+  if (recentSuggestions.size > SUGGESTION_MAX_ENTRIES) {
+    recentSuggestions.delete(recentSuggestions.keys().next().value!);
+  }
+}
+
+function recallSuggestion(query: string): GeocodedPoint | null {
+  const key = makeGeocodeCacheKey(query);
+  const entry = recentSuggestions.get(key);
+  if (!entry) return null;
+  if (entry.expiresAt <= Date.now()) {
+    recentSuggestions.delete(key);
+    return null;
+  }
+  return { ...entry.point, query };
+}
+
+function isCacheEnabled(geocoders: Geocoder[]): boolean {
+  return geocoders.some((g) => g.name === 'cache') && config.cache.geocodeTtlDays > 0;
+}
+
+let chain: Geocoder[] | null = null;
+
+/** Geocoders in `GEOCODER_CHAIN` order (default: cache, gazetteer, ors). */
+export function getGeocoderChain(): Geocoder[] {
+  if (!chain) chain = config.geocoding.chain.map(createGeocoder);
+  return chain;
+}
+
+/**
+ * Resolve a free-text location. Raw `lat,lng` is used directly, then a recent remote suggestion with that
+ * label; otherwise each geocoder in the chain is tried in turn and the first hit wins. Hits from remote
+ * providers (and picked suggestions) are written back to the cache when the cache is part of the chain.
+ */
+export async function geocode(query: string): Promise<GeocodedPoint | null> {
+  const coordinates = parseLatLngQuery(query);
+  if (coordinates) return coordinates;
+
+  const geocoders = getGeocoderChain();
+  const cacheEnabled = isCacheEnabled(geocoders);
+
+  const suggested = recallSuggestion(query);
+  if (suggested) {
+    if (cacheEnabled) await writeToCache(query, suggested);
+    return suggested;
+  }
+
+  for (const geocoder of geocoders) {
+    const result = await geocoder.geocode(query);
+    if (!result) continue;
+
+    if (geocoder.cacheable && cacheEnabled) {
+      await writeToCache(query, result);
+    }
+    return result;
+  }
+
+  return null;
+}
+
+function suggestionRank(point: GeocodedPoint, normalizedQuery: string): number {
+  const label = normalizeQueryText(point.label).toLowerCase();
+  if (label === normalizedQuery) return 0;
+  if (label.startsWith(normalizedQuery)) return 1;
+  return 2;
+}
+
+/**
+ * Ranked candidates for partial input. Local geocoders (cache, gazetteer) are asked first; remote ones only
+ * when the local results don't fill `limit`. Exact and prefix label matches rank ahead of the rest, then
+ * chain order. Remote suggestions are remembered briefly under their label (see rememberSuggestion), so
+ * planning with a picked suggestion resolves to exactly the suggested point.
+ */
+export async function suggest(query: string, limit: number): Promise<GeocodedPoint[]> {
+  // Coordinates are already unambiguous; nothing to suggest.
+  if (parseLatLngQuery(query)) return [];
+
+  const geocoders = getGeocoderChain();
+  const normalizedQuery = normalizeQueryText(query).toLowerCase();
+  const seen = new Set<string>();
+  const candidates: GeocodedPoint[] = [];
+
+  for (const geocoder of geocoders) {
+    if (!geocoder.suggest) continue;
+    if (geocoder.cacheable && candidates.length >= limit) continue;
+
+    let results: GeocodedPoint[];
+    try {
+      results = await geocoder.suggest(query, limit);
+    } catch (error) {
+      // Autocomplete is best-effort: keep whatever the other geocoders found.
+      console.warn(`[geocode] ${geocoder.name} suggestions failed:`, error);
+      continue;
+    }
+    for (const result of results) {
+      // Same label, or effectively the same spot (~100 m) under a different label, counts as a duplicate.
+      const labelKey = normalizeQueryText(result.label).toLowerCase();
+      const pointKey = `${result.lat.toFixed(3)},${result.lng.toFixed(3)}`;
+      if (seen.has(labelKey) || seen.has(pointKey)) continue;
+      seen.add(labelKey);
+      seen.add(pointKey);
+      candidates.push(result);
+      if (geocoder.cacheable) rememberSuggestion(result);
+    }
+  }
+
+  return candidates
+    .map((point, index) => ({ point, index, rank: suggestionRank(point, normalizedQuery) }))
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .slice(0, limit)
+    .map((entry) => entry.point);
+}
+
+/**
+ * Label for a clicked map point. Remote geocoders (street-level) are asked before the gazetteer (town
+ * centroids only); with no answer the label is the coordinates themselves. `query` is planner input text
+ * that resolves back to exactly this point.
+ */
+export async function reverseGeocode(lat: number, lng: number): Promise<GeocodedPoint> {
+  const geocoders = getGeocoderChain();
+  const cacheEnabled = isCacheEnabled(geocoders);
+  const cacheKey = makeReverseGeocodeCacheKey(lat, lng);
+
+  const pinned = (label: string, source: GeocodedPoint['source']): GeocodedPoint => ({
+    query: formatPinnedQuery(label, lat, lng),
+    label,
+    lat,
+    lng,
+    source,
+  });
+
+  if (cacheEnabled) {
+    const cached = await getCachedReverseGeocode(cacheKey);
+    if (cached) return pinned(cached.label, 'cache');
+  }
+
+  const reversers = [...geocoders.filter((g) => g.cacheable), ...geocoders.filter((g) => !g.cacheable)];
+  for (const geocoder of reversers) {
+    if (!geocoder.reverse) continue;
+
+    let result: GeocodedPoint | null;
+    try {
+      result = await geocoder.reverse(lat, lng);
+    } catch (error) {
+      console.warn(`[geocode] ${geocoder.name} reverse lookup failed:`, error);
+      continue;
+    }
+    if (!result) continue;
+
+    if (geocoder.cacheable && cacheEnabled) {
+      await setCachedReverseGeocode({ cacheKey, lat, lng, label: result.label, ttlDays: config.cache.geocodeTtlDays });
+    }
+    return pinned(result.label, result.source);
+  }
+
+  return pinned(`${lat.toFixed(5)}, ${lng.toFixed(5)}`, 'coordinates');
+}
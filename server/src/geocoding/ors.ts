@@ -0,0 +1,106 @@
+import { ORS_PUBLIC_BASE_URL } from '../routing/ors.js';
+import type { GeocodedPoint, Geocoder } from './types.js';
+
+function parseFeatures(data: unknown, query: string): GeocodedPoint[] {
+  if (!data || typeof data !== 'object') return [];
+
+  const features = (data as { features?: unknown }).features;
+  if (!Array.isArray(features)) return [];
+
+  const points: GeocodedPoint[] = [];
+  for (const feature of features) {
+    const f = feature as {
+      geometry?: { coordinates?: unknown };
+      properties?: { label?: unknown };
+    } | null;
+
+    const coords = f?.geometry?.coordinates;
+    if (!Array.isArray(coords) || coords.length < 2) continue;
+    const [lng, lat] = coords;
+    if (typeof lat !== 'number' || typeof lng !== 'number') continue;
+
+    const label = typeof f?.properties?.label === 'string' ? f.properties.label : query;
+    points.push({ query, label, lat, lng, source: 'ors' });
+  }
+  return points;
+}
+
+/** OpenRouteService (Pelias) search. Without an API key it answers nothing, so the chain can run keyless. */
+export function createOrsGeocoder(options: { apiKey: string | undefined }): Geocoder {
+  async function geocode(query: string): Promise<GeocodedPoint | null> {
+    const apiKey = options.apiKey;
+    if (!apiKey) return null;
+
+    const url = new URL(`${ORS_PUBLIC_BASE_URL}/geocode/search`);
+    url.searchParams.set('text', query);
+    url.searchParams.set('size', '1');
+
+    const response = await fetch(url.toString(), {
+      headers: {
+        Accept: 'application/json',
+        Authorization: apiKey,
+      },
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`OpenRouteService geocoding error: ${response.status} ${response.statusText}\n${text}`);
+    }
+
+    const data = (await response.json()) as unknown;
+    return parseFeatures(data, query)[0] ?? null;
+  }
+
+  async function suggest(query: string, limit: number): Promise<GeocodedPoint[]> {
+    const apiKey = options.apiKey;
+    if (!apiKey) return [];
+
+    const url = new URL(`${ORS_PUBLIC_BASE_URL}/geocode/autocomplete`);
+    url.searchParams.set('text', query);
+    url.searchParams.set('size', String(limit));
+
+    const response = await fetch(url.toString(), {
+      headers: {
+        Accept: 'application/json',
+        Authorization: apiKey,
+      },
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`OpenRouteService autocomplete error: ${response.status} ${response.statusText}\n${text}`);
+    }
+
+    const data = (await response.json()) as unknown;
+    return parseFeatures(data, query).slice(0, limit);
+  }
+
+  async function reverse(lat: number, lng: number): Promise<GeocodedPoint | null> {
+    const apiKey = options.apiKey;
+    if (!apiKey) return null;
+
+    const url = new URL(`${ORS_PUBLIC_BASE_URL}/geocode/reverse`);
+    url.searchParams.set('point.lat', String(lat));
+    url.searchParams.set('point.lon', String(lng));
+    url.searchParams.set('size', '1');
+
+    const response = await fetch(url.toString(), {
+      headers: {
+        Accept: 'application/json',
+        Authorization: apiKey,
+      },
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`OpenRouteService reverse geocoding error: ${response.status} ${response.statusText}\n${text}`);
+    }
+
+    const data = (await response.json()) as unknown;
+    const first = parseFeatures(data, `${lat},${lng}`)[0];
+    // Keep the clicked point; the feature's own coordinates are the matched address/POI.
+    return first ? { ...first, lat, lng } : null;
+  }
+
+  return { name: 'ors', cacheable: true, geocode, suggest, reverse };
+}
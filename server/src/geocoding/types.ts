@@ -0,0 +1,25 @@
+export type GeocoderName = 'cache' | 'gazetteer' | 'ors';
+
+export const GEOCODER_NAMES: GeocoderName[] = ['cache', 'gazetteer', 'ors'];
+
+export type GeocodeSource = GeocoderName | 'coordinates';
+
+export type GeocodedPoint = {
+  query: string;
+  label: string;
+  lat: number;
+  lng: number;
+  source: GeocodeSource;
+};
+
+export type Geocoder = {
+  name: GeocoderName;
+  // Whether hits are worth writing to the geocode cache (remote lookups only).
+  cacheable: boolean;
+  // Resolves to null when this provider has no answer, so the chain moves on. Throws on provider errors.
+  geocode: (query: string) => Promise<GeocodedPoint | null>;
+  // Candidates for partial input (autocomplete), best first. Optional: not every provider can do prefixes.
+  suggest?: (query: string, limit: number) => Promise<GeocodedPoint[]>;
+  // Label for a coordinate (reverse geocoding); null when the provider knows nothing nearby.
+  reverse?: (lat: number, lng: number) => Promise<GeocodedPoint | null>;
+};
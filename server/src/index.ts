@@ -7,7 +7,12 @@ import { runMigrations } from './migrations.js';
 import stationsRouter from './routes/stations.js';
 import routeRouter from './routes/route.js';
 import savedRoutesRouter from './routes/savedRoutes.js';
+import sharedRouter from './routes/shared.js';
 import authRouter from './routes/auth.js';
+import vehiclesRouter from './routes/vehicles.js';
+import garageRouter from './routes/garage.js';
+import tripsRouter from './routes/trips.js';
+import geocodeRouter from './routes/geocode.js';
 import { attachAuth } from './middleware/auth.js';
 import { logger } from './logger.js';
 
@@ -60,6 +65,8 @@ app.use(cors({
   origin: config.corsOrigin,
   credentials: true,
 }));
+// Saved routes may include a route response snapshot; parsed here first, the general limit then skips them.
+app.use('/api/saved-routes', express.json({ limit: `${config.savedRoutes.snapshotMaxKb}kb` }));
 // JSON-only API; explicit limit (matches Express default, here for visibility)
 app.use(express.json({ limit: '100kb' }));
 app.use(attachAuth);
@@ -68,7 +75,12 @@ app.use(attachAuth);
 app.use('/api/stations', stationsRouter);
 app.use('/api/route', routeRouter);
 app.use('/api/saved-routes', savedRoutesRouter);
+app.use('/api/shared', sharedRouter);
 app.use('/api/auth', authRouter);
+app.use('/api/vehicles', vehiclesRouter);
+app.use('/api/garage', garageRouter);
+app.use('/api/trips', tripsRouter);
+app.use('/api/geocode', geocodeRouter);
 
 // Health check
 app.get('/api/health', (_req, res) => {
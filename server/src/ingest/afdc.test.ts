@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { afdcStationRows, asAfdcStationRow, parseAfdcResponse, type AfdcStation } from './afdc.js';
+import { readStationFile } from './files.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const AFDC_JSON_FIXTURE = path.join(__dirname, '../../fixtures/afdc/fuel-stations.json');
+
+async function loadFixtureStations(): Promise<AfdcStation[]> {
+  const file = await readStationFile(AFDC_JSON_FIXTURE);
+  assert.equal(file.format, 'afdc-json');
+  return file.format === 'afdc-json' ? file.stations : [];
+}
+
+function fixtureStation(stations: AfdcStation[], id: number): AfdcStation {
+  const station = stations.find((s) => s.id === id);
+  assert.ok(station, `fixture station ${id}`);
+  return station;
+}
+
+describe('parseAfdcResponse', () => {
+  it('reads the fuel_stations array of a recorded response', async () => {
+    const stations = await loadFixtureStations();
+    assert.deepEqual(stations.map((s) => s.id), [152087, 201544, 318830, 324417, 88231, 173902]);
+  });
+
+  it('rejects a response without fuel_stations', () => {
+    assert.throws(() => parseAfdcResponse({ errors: ['API_KEY_INVALID'] }), /fuel_stations/);
+    assert.throws(() => parseAfdcResponse(null), /fuel_stations/);
+  });
+});
+
+describe('asAfdcStationRow', () => {
+  it('maps an open DC fast site to a station row under the negated AFDC id', async () => {
+    const row = asAfdcStationRow(fixtureStation(await loadFixtureStations(), 152087));
+    assert.deepEqual(row, {
+      id: -152087,
+      station_name: 'Walmart 5131 - Electrify America',
+      street_address: '4500 Black Horse Pike',
+      city: 'Mays Landing',
+      state: 'NJ',
+      zip: '08330',
+      latitude: 39.4505,
+      longitude: -74.6402,
+      ev_dc_fast_num: 4,
+      ev_connector_types: ['CCS', 'CHADEMO'],
+      facility_type: 'WALMART',
+      status_code: 'E',
+      ev_pricing: '$0.48 per kWh',
+      access_days_time: '24 hours daily',
+      max_power_kw: null,
+      network: 'electrify_america',
+      source: 'afdc',
+      source_id: '152087',
+    });
+  });
+
+  it('keeps only DC plugs, as the planner names them', async () => {
+    const row = asAfdcStationRow(fixtureStation(await loadFixtureStations(), 318830));
+    assert.equal(row?.network, 'ionna');
+    assert.deepEqual(row?.ev_connector_types, ['CCS', 'NACS']);
+  });
+
+  it('drops planned, Level 2 only and untracked-network sites', async () => {
+    const stations = await loadFixtureStations();
+    assert.equal(asAfdcStationRow(fixtureStation(stations, 324417)), null);
+    assert.equal(asAfdcStationRow(fixtureStation(stations, 88231)), null);
+    assert.equal(asAfdcStationRow(fixtureStation(stations, 173902)), null);
+  });
+
+  it('drops records without usable coordinates', () => {
+    assert.equal(asAfdcStationRow({ id: 1, status_code: 'E', ev_network: 'Electrify America', ev_dc_fast_num: 2, latitude: null, longitude: -80 }), null);
+  });
+});
+
+describe('afdcStationRows', () => {
+  it('returns rows for the requested networks only', async () => {
+    const stations = await loadFixtureStations();
+    assert.deepEqual(afdcStationRows(stations, ['electrify_america']).map((row) => row.id), [-152087, -201544]);
+    assert.deepEqual(afdcStationRows(stations, ['ionna', 'tesla']).map((row) => row.id), [-318830]);
+  });
+});
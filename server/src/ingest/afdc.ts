@@ -0,0 +1,132 @@
+import { config } from '../config.js';
+import { getStationNetwork, stationNetworkForAfdc, type StationNetworkId } from '../networks.js';
+import { inferFacilityType, type StationRow } from './stationRow.js';
+
+const AFDC_BASE_URL = 'https://developer.nrel.gov/api/alt-fuel-stations/v1.json';
+
+// AFDC plugs as stored in `ev_connector_types`; Level 1/2 plugs (J1772, NEMA*) are not DC fast.
+const AFDC_DC_CONNECTOR_TYPES: Record<string, string> = {
+  J1772COMBO: 'CCS',
+  CHADEMO: 'CHADEMO',
+  TESLA: 'NACS',
+};
+
+export type AfdcStation = {
+  id: number;
+  station_name?: string | null;
+  street_address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  zip?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  status_code?: string | null;
+  ev_network?: string | null;
+  ev_dc_fast_num?: number | null;
+  ev_connector_types?: string[] | null;
+  ev_pricing?: string | null;
+  access_days_time?: string | null;
+};
+
+/**
+ * AFDC station IDs overlap OCM POI IDs, so AFDC-only stations are stored under the negated AFDC ID;
+ * `source_id` keeps the original.
+ */
+export function afdcStationId(afdcId: number): number {
+  return -afdcId;
+}
+
+/** Map an AFDC record to a station row; null for planned sites, non-DC sites and untracked networks. */
+export function asAfdcStationRow(station: AfdcStation): StationRow | null {
+  const { latitude, longitude } = station;
+  if (typeof station.id !== 'number' || !Number.isInteger(station.id) || station.id <= 0) return null;
+  if (typeof latitude !== 'number' || !Number.isFinite(latitude)) return null;
+  if (typeof longitude !== 'number' || !Number.isFinite(longitude)) return null;
+  // P = planned; only open (E) and temporarily unavailable (T) sites are useful to the planner.
+  if (station.status_code !== 'E' && station.status_code !== 'T') return null;
+
+  const network = station.ev_network ? stationNetworkForAfdc(station.ev_network) : null;
+  if (!network) return null;
+
+  const dcFastNum = typeof station.ev_dc_fast_num === 'number' && station.ev_dc_fast_num > 0 ? station.ev_dc_fast_num : 0;
+  if (dcFastNum === 0) return null;
+
+  const stationName = station.station_name?.trim() || `Station ${station.id}`;
+  const connectorTypes = Array.from(new Set(
+    (station.ev_connector_types ?? [])
+      .map((type) => AFDC_DC_CONNECTOR_TYPES[type.toUpperCase()])
+      .filter((t): t is string => Boolean(t))
+  )).sort();
+
+  return {
+    id: afdcStationId(station.id),
+    station_name: stationName,
+    street_address: station.street_address?.trim() || null,
+    city: station.city?.trim() || null,
+    state: station.state?.trim() || null,
+    zip: station.zip?.trim() || null,
+    latitude,
+    longitude,
+    ev_dc_fast_num: dcFastNum,
+    ev_connector_types: connectorTypes,
+    facility_type: inferFacilityType(stationName),
+    status_code: station.status_code,
+    ev_pricing: station.ev_pricing?.trim() || null,
+    access_days_time: station.access_days_time?.trim() || null,
+    // AFDC records carry no charger power; a matched OCM station supplies it.
+    max_power_kw: null,
+    network,
+    source: 'afdc',
+    source_id: String(station.id),
+  };
+}
+
+/** Rows for the given networks, dropping records `asAfdcStationRow` rejects and those without a state. */
+export function afdcStationRows(stations: AfdcStation[], networks: StationNetworkId[]): StationRow[] {
+  const wanted = new Set(networks);
+  return stations
+    .map(asAfdcStationRow)
+    .filter((row): row is StationRow => row !== null)
+    .filter((row) => wanted.has(row.network))
+    .filter((row) => row.state !== null && row.state.length > 0);
+}
+
+/** Station list from an AFDC v1 JSON response (`{ fuel_stations: [...] }`). */
+export function parseAfdcResponse(data: unknown): AfdcStation[] {
+  const stations = data && typeof data === 'object' ? (data as { fuel_stations?: unknown }).fuel_stations : undefined;
+  if (!Array.isArray(stations)) {
+    throw new Error('Unexpected AFDC response: expected a fuel_stations array');
+  }
+  return stations as AfdcStation[];
+}
+
+export async function fetchStationsFromAfdc(networks: StationNetworkId[]): Promise<AfdcStation[]> {
+  const apiKey = config.apiKeys.nrel;
+  if (!apiKey) {
+    throw new Error('NREL_API_KEY not set in environment');
+  }
+
+  const evNetworks = networks.flatMap((id) => getStationNetwork(id).afdcNetworks);
+  const params = new URLSearchParams({
+    api_key: apiKey,
+    fuel_type: 'ELEC',
+    ev_charging_level: 'dc_fast',
+    status: 'E,T',
+    access: 'public',
+    country: 'US',
+    ev_network: evNetworks.join(','),
+    limit: 'all',
+  });
+
+  const url = `${AFDC_BASE_URL}?${params.toString()}`;
+  console.log(`Fetching ${networks.map((id) => getStationNetwork(id).label).join(', ')} stations from NREL AFDC...`);
+  console.log('Request URL:', url.replace(apiKey, '[REDACTED]'));
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`NREL AFDC API error: ${response.status} ${response.statusText}\n${text}`);
+  }
+
+  return parseAfdcResponse(await response.json());
+}
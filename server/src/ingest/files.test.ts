@@ -0,0 +1,91 @@
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { STATION_NETWORKS } from '../networks.js';
+import { csvStationId, readStationFile } from './files.js';
+import { asStationRow, ocmOperatorId } from './ocm.js';
+import type { StationRow } from './stationRow.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const FIXTURES_DIR = path.join(__dirname, '../../fixtures');
+
+async function loadCsvRows(filePath: string): Promise<{ rows: StationRow[]; skipped: number }> {
+  const file = await readStationFile(filePath);
+  assert.equal(file.format, 'csv');
+  return file.format === 'csv' ? file : { rows: [], skipped: 0 };
+}
+
+async function loadOcmRows(): Promise<StationRow[]> {
+  const file = await readStationFile(path.join(FIXTURES_DIR, 'ocm/poi-export.json'));
+  assert.equal(file.format, 'ocm-json');
+  if (file.format !== 'ocm-json') return [];
+  return file.pois.flatMap((poi) => {
+    const operatorId = ocmOperatorId(poi);
+    const network = STATION_NETWORKS.find((n) => operatorId !== null && n.ocmOperatorIds.includes(operatorId));
+    const row = network ? asStationRow(poi, network.id) : null;
+    return row ? [row] : [];
+  });
+}
+
+describe('csvStationId', () => {
+  it('offsets CSV ids past the OCM and AFDC id ranges', () => {
+    assert.equal(csvStationId(900001), 1_000_900_001);
+    assert.equal(csvStationId(-152087), 999_847_913);
+  });
+
+  it('rejects ids that would not fit stations.id', () => {
+    assert.equal(csvStationId(1_000_000_000), null);
+    assert.equal(csvStationId(-1_000_000_000), null);
+    assert.equal(csvStationId(1.5), null);
+  });
+});
+
+describe('generic station CSV', () => {
+  it('stores the fixture rows under offset ids and keeps the CSV id as source_id', async () => {
+    const { rows, skipped } = await loadCsvRows(path.join(FIXTURES_DIR, 'stations.csv'));
+    assert.equal(skipped, 1, 'the row without coordinates');
+    assert.deepEqual(
+      rows.map((row) => [row.id, row.source, row.source_id]),
+      [
+        [1_000_900_001, 'csv', '900001'],
+        [1_000_900_002, 'csv', '900002'],
+        [1_000_900_003, 'csv', '900003'],
+      ]
+    );
+  });
+
+  describe('loaded next to OCM stations', () => {
+    let dir: string;
+    let csvPath: string;
+
+    before(async () => {
+      // A CSV exported from `stations`: one row reuses an OCM POI ID, another a negated AFDC ID.
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'stations-csv-'));
+      csvPath = path.join(dir, 'stations.csv');
+      await fs.writeFile(csvPath, [
+        'id,station_name,latitude,longitude,network',
+        '123456,Exported OCM Station,39.4512,-74.6426,electrify_america',
+        '-152087,Exported AFDC Station,39.4512,-74.6426,electrify_america',
+      ].join('\n'));
+    });
+
+    after(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it("doesn't reuse an OCM station id, so the upsert can't take the OCM row over", async () => {
+      const ocmRows = await loadOcmRows();
+      assert.ok(ocmRows.some((row) => row.id === 123456), 'OCM fixture POI 123456');
+
+      const { rows } = await loadCsvRows(csvPath);
+      const ocmIds = new Set(ocmRows.map((row) => row.id));
+      assert.equal(rows.length, 2);
+      assert.deepEqual(rows.filter((row) => ocmIds.has(row.id)), []);
+      assert.deepEqual(rows.map((row) => row.source_id), ['123456', '-152087']);
+      assert.ok(rows.every((row) => row.id !== -152087), 'AFDC-only stations keep their id space too');
+    });
+  });
+});
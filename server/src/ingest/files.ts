@@ -0,0 +1,218 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { parseStationNetworkId } from '../networks.js';
+import { parseAfdcResponse, type AfdcStation } from './afdc.js';
+import type { OcmPoi } from './ocm.js';
+import { inferFacilityType, normalizeConnectorType, type StationRow } from './stationRow.js';
+
+/**
+ * A station dump on disk:
+ * - `ocm-json`: OpenChargeMap POI export (the `/v3/poi` response array)
+ * - `afdc-json`: AFDC v1 JSON response (`{ "fuel_stations": [...] }`)
+ * - `afdc-csv`: AFDC station locator CSV download
+ * - `csv`: generic CSV with `stations` columns (`id,station_name,latitude,longitude,network,...`)
+ */
+export type StationFile =
+  | { format: 'ocm-json'; pois: OcmPoi[] }
+  | { format: 'afdc-json' | 'afdc-csv'; stations: AfdcStation[] }
+  | { format: 'csv'; rows: StationRow[]; skipped: number };
+
+/** Path given with `--from-file <path>`, or null when the flag is absent. */
+export function readFromFileArg(argv: string[]): string | null {
+  const index = argv.indexOf('--from-file');
+  if (index === -1) return null;
+  const filePath = argv[index + 1];
+  if (!filePath || filePath.startsWith('--')) {
+    throw new Error('--from-file requires a path');
+  }
+  return filePath;
+}
+
+function parseCsvLine(line: string): string[] {
+  const out: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i += 1) {
+    const ch = line[i]!;
+    if (inQuotes) {
+      if (ch === '"') {
+        if (line[i + 1] === '"') {
+          current += '"';
+          i += 1;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        current += ch;
+      }
+      continue;
+    }
+
+    if (ch === ',') {
+      out.push(current);
+      current = '';
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+      continue;
+    }
+
+    current += ch;
+  }
+
+  out.push(current);
+  return out;
+}
+
+// "EV DC Fast Count" → "ev_dc_fast_count", so AFDC's title-case headers line up with its JSON field names.
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+function cell(record: Map<string, string>, ...names: string[]): string | null {
+  for (const name of names) {
+    const value = record.get(name)?.trim();
+    if (value) return value;
+  }
+  return null;
+}
+
+function numberCell(record: Map<string, string>, ...names: string[]): number | null {
+  const value = cell(record, ...names);
+  if (value === null) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+// Connector lists: space-separated in AFDC CSVs; `;`, `|` or a Postgres array literal (`{CCS,CHADEMO}`) otherwise.
+function listCell(record: Map<string, string>, name: string): string[] {
+  const value = cell(record, name);
+  if (!value) return [];
+  return value.replace(/^\{|\}$/g, '').split(/[\s,;|]+/).filter(Boolean);
+}
+
+function asAfdcCsvStation(record: Map<string, string>): AfdcStation | null {
+  // The locator download covers every fuel, private sites and Canada; the API import asks for none of those.
+  const fuelType = cell(record, 'fuel_type_code');
+  if (fuelType && fuelType !== 'ELEC') return null;
+  const access = cell(record, 'access_code');
+  if (access && access.toLowerCase() !== 'public') return null;
+  const country = cell(record, 'country');
+  if (country && country !== 'US') return null;
+
+  const id = numberCell(record, 'id');
+  if (id === null) return null;
+  return {
+    id,
+    station_name: cell(record, 'station_name'),
+    street_address: cell(record, 'street_address'),
+    city: cell(record, 'city'),
+    state: cell(record, 'state'),
+    zip: cell(record, 'zip'),
+    latitude: numberCell(record, 'latitude'),
+    longitude: numberCell(record, 'longitude'),
+    status_code: cell(record, 'status_code'),
+    ev_network: cell(record, 'ev_network'),
+    ev_dc_fast_num: numberCell(record, 'ev_dc_fast_count', 'ev_dc_fast_num'),
+    ev_connector_types: listCell(record, 'ev_connector_types'),
+    ev_pricing: cell(record, 'ev_pricing'),
+    access_days_time: cell(record, 'access_days_time'),
+  };
+}
+
+const CSV_STATION_ID_OFFSET = 1_000_000_000;
+
+/**
+ * CSV ids are whatever the file says, so they can collide with OCM POI IDs (positive) or AFDC-only stations
+ * (negated AFDC IDs). CSV stations are stored above those, at the offset plus the CSV id; `source_id` keeps
+ * the original. Null for ids that don't fit `stations.id` that way.
+ */
+export function csvStationId(csvId: number): number | null {
+  if (!Number.isInteger(csvId) || Math.abs(csvId) >= CSV_STATION_ID_OFFSET) return null;
+  return CSV_STATION_ID_OFFSET + csvId;
+}
+
+/** A generic CSV row, normalised like the API importers; null when id, coordinates or network are unusable. */
+function asCsvStationRow(record: Map<string, string>): StationRow | null {
+  const csvId = numberCell(record, 'id');
+  const id = csvId === null ? null : csvStationId(csvId);
+  const latitude = numberCell(record, 'latitude', 'lat');
+  const longitude = numberCell(record, 'longitude', 'lng', 'lon');
+  const networkValue = cell(record, 'network');
+  const network = networkValue ? parseStationNetworkId(networkValue) : null;
+  if (csvId === null || id === null || latitude === null || longitude === null || !network) return null;
+
+  const stationName = cell(record, 'station_name', 'name') ?? `Station ${csvId}`;
+  const connectorTypes = Array.from(new Set(
+    listCell(record, 'ev_connector_types')
+      .map((type) => normalizeConnectorType(type))
+      .filter((t): t is string => Boolean(t))
+  )).sort();
+  const dcFastNum = numberCell(record, 'ev_dc_fast_num');
+  const maxPowerKw = numberCell(record, 'max_power_kw');
+
+  return {
+    id,
+    station_name: stationName,
+    street_address: cell(record, 'street_address', 'address'),
+    city: cell(record, 'city'),
+    state: cell(record, 'state'),
+    zip: cell(record, 'zip'),
+    latitude,
+    longitude,
+    ev_dc_fast_num: dcFastNum !== null && dcFastNum > 0 ? Math.round(dcFastNum) : 0,
+    ev_connector_types: connectorTypes,
+    facility_type: cell(record, 'facility_type')?.toUpperCase() ?? inferFacilityType(stationName),
+    status_code: cell(record, 'status_code')?.toUpperCase() ?? 'E',
+    ev_pricing: cell(record, 'ev_pricing'),
+    access_days_time: cell(record, 'access_days_time'),
+    // `stations.max_power_kw` is an INTEGER column; a fractional value would fail the whole upsert.
+    max_power_kw: maxPowerKw !== null && maxPowerKw > 0 ? Math.round(maxPowerKw) : null,
+    network,
+    source: 'csv',
+    source_id: String(csvId),
+  };
+}
+
+function parseStationCsv(text: string, fileName: string): StationFile {
+  const [headerLine, ...lines] = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter((line) => line.trim().length > 0);
+  if (!headerLine) throw new Error(`Empty station file: ${fileName}`);
+
+  const headers = parseCsvLine(headerLine).map(normalizeHeader);
+  const records = lines.map((line) => {
+    const cols = parseCsvLine(line);
+    return new Map(headers.map((header, i) => [header, cols[i] ?? '']));
+  });
+
+  if (headers.includes('ev_network') && headers.includes('fuel_type_code')) {
+    return {
+      format: 'afdc-csv',
+      stations: records.map(asAfdcCsvStation).filter((s): s is AfdcStation => s !== null),
+    };
+  }
+
+  if (headers.includes('id') && headers.includes('network') && (headers.includes('latitude') || headers.includes('lat'))) {
+    const rows = records.map(asCsvStationRow).filter((row): row is StationRow => row !== null);
+    return { format: 'csv', rows, skipped: records.length - rows.length };
+  }
+
+  throw new Error(`Unrecognised station file format: ${fileName}`);
+}
+
+/** Read a station dump, detecting its format from the content. */
+export async function readStationFile(filePath: string): Promise<StationFile> {
+  const text = await fs.readFile(filePath, 'utf8');
+  const fileName = path.basename(filePath);
+  const trimmed = text.trimStart();
+
+  if (trimmed.startsWith('[')) {
+    return { format: 'ocm-json', pois: JSON.parse(trimmed) as OcmPoi[] };
+  }
+  if (trimmed.startsWith('{')) {
+    return { format: 'afdc-json', stations: parseAfdcResponse(JSON.parse(trimmed) as unknown) };
+  }
+  return parseStationCsv(text, fileName);
+}
@@ -0,0 +1,246 @@
+import type { PoolClient } from 'pg';
+import { config } from '../config.js';
+import { pool } from '../db.js';
+import type { StationRow, StationSource } from './stationRow.js';
+
+// Every stored column except the key; `source_id` lives in station_sources.
+export const TRACKED_STATION_FIELDS = [
+  'station_name',
+  'street_address',
+  'city',
+  'state',
+  'zip',
+  'latitude',
+  'longitude',
+  'ev_dc_fast_num',
+  'ev_connector_types',
+  'facility_type',
+  'status_code',
+  'ev_pricing',
+  'access_days_time',
+  'max_power_kw',
+  'network',
+  'source',
+] as const;
+
+export type TrackedStationField = (typeof TRACKED_STATION_FIELDS)[number];
+
+/** A station's tracked columns as stored (or about to be). */
+export type StationSnapshot = Pick<StationRow, 'id' | TrackedStationField>;
+
+export type StationChangeType = 'added' | 'updated' | 'removed';
+
+export type StationFieldChanges = Partial<Record<TrackedStationField, { from: unknown; to: unknown }>>;
+
+export type StationHistoryEntry = {
+  station_id: number;
+  // For logs and --dry-run output; not stored.
+  station_name: string;
+  change_type: StationChangeType;
+  changes: StationFieldChanges;
+};
+
+export type IngestCounts = {
+  seen: number;
+  added: number;
+  updated: number;
+  removed: number;
+};
+
+function comparable(value: unknown): string | number | null {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) return [...value].map(String).sort().join(',');
+  if (typeof value === 'number') return value;
+  return String(value);
+}
+
+/** Field-level diff; `null` on either side for stations that are new or gone. */
+export function diffStation(before: StationSnapshot | null, after: StationSnapshot | null): StationFieldChanges {
+  const changes: StationFieldChanges = {};
+  for (const field of TRACKED_STATION_FIELDS) {
+    const from = before ? before[field] ?? null : null;
+    const to = after ? after[field] ?? null : null;
+    if (comparable(from) !== comparable(to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+/** Compare what an upsert is about to write with what was there; unchanged stations produce no entry. */
+export function historyForUpserts(rows: StationRow[], before: Map<number, StationSnapshot>): StationHistoryEntry[] {
+  const entries: StationHistoryEntry[] = [];
+  for (const row of rows) {
+    const previous = before.get(row.id) ?? null;
+    const changes = diffStation(previous, row);
+    if (Object.keys(changes).length === 0) continue;
+    entries.push({ station_id: row.id, station_name: row.station_name, change_type: previous ? 'updated' : 'added', changes });
+  }
+  return entries;
+}
+
+export function historyForRemovals(removed: StationSnapshot[]): StationHistoryEntry[] {
+  return removed.map((station) => ({
+    station_id: station.id,
+    station_name: station.station_name,
+    change_type: 'removed',
+    changes: diffStation(station, null),
+  }));
+}
+
+export function countHistory(seen: number, entries: StationHistoryEntry[]): IngestCounts {
+  const count = (type: StationChangeType) => entries.filter((entry) => entry.change_type === type).length;
+  return { seen, added: count('added'), updated: count('updated'), removed: count('removed') };
+}
+
+export async function recordStationHistory(client: PoolClient, runId: number, entries: StationHistoryEntry[]): Promise<void> {
+  const batchSize = 500;
+  for (let i = 0; i < entries.length; i += batchSize) {
+    const batch = entries.slice(i, i + batchSize);
+    const values: unknown[] = [];
+    const placeholders = batch.map((entry, idx) => {
+      const offset = idx * 4;
+      values.push(entry.station_id, runId, entry.change_type, JSON.stringify(entry.changes));
+      return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}::jsonb)`;
+    });
+
+    await client.query(
+      `INSERT INTO station_history (station_id, run_id, change_type, changes) VALUES ${placeholders.join(', ')}`,
+      values
+    );
+  }
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '∅';
+  if (Array.isArray(value)) return `[${value.join(', ')}]`;
+  return JSON.stringify(value);
+}
+
+/** One line per station: `+` added, `~` updated (with the changed fields), `-` removed. */
+export function printStationDiff(entries: StationHistoryEntry[]): void {
+  const marks: Record<StationChangeType, string> = { added: '+', updated: '~', removed: '-' };
+  for (const entry of entries) {
+    const label = `${marks[entry.change_type]} ${entry.station_id} ${entry.station_name}`;
+    if (entry.change_type !== 'updated') {
+      console.log(label);
+      continue;
+    }
+    const fields = Object.entries(entry.changes).map(([field, change]) => `${field} ${formatValue(change.from)} → ${formatValue(change.to)}`);
+    console.log(`${label}: ${fields.join('; ')}`);
+  }
+}
+
+/** Refuse runs that would remove or change more of a source's stations than configured (a bad upstream response). */
+function checkIngestThresholds(source: StationSource, ownedBefore: number, counts: IngestCounts): string | null {
+  // Nothing to protect on a source's first import.
+  if (ownedBefore === 0) return null;
+  const percent = (n: number) => Math.round((n / ownedBefore) * 1000) / 10;
+
+  const removedPercent = percent(counts.removed);
+  if (removedPercent > config.stations.maxRemovedPercent) {
+    return `${removedPercent}% of ${source} stations (${counts.removed}/${ownedBefore}) would be removed (limit ${config.stations.maxRemovedPercent}%, STATION_INGEST_MAX_REMOVED_PERCENT)`;
+  }
+  const updatedPercent = percent(counts.updated);
+  if (updatedPercent > config.stations.maxUpdatedPercent) {
+    return `${updatedPercent}% of ${source} stations (${counts.updated}/${ownedBefore}) would change (limit ${config.stations.maxUpdatedPercent}%, STATION_INGEST_MAX_UPDATED_PERCENT)`;
+  }
+  return null;
+}
+
+export type IngestOptions = {
+  source: StationSource;
+  // 'api' or the --from-file path.
+  input: string;
+  // Compute and print the diff, then roll everything back.
+  dryRun: boolean;
+  // Apply even when the removal / change thresholds are exceeded.
+  force: boolean;
+};
+
+export type IngestResult = {
+  seen: number;
+  history: StationHistoryEntry[];
+};
+
+/** `--dry-run` / `--force` from the command line. */
+export function readIngestFlags(argv: string[]): Pick<IngestOptions, 'dryRun' | 'force'> {
+  return { dryRun: argv.includes('--dry-run'), force: argv.includes('--force') };
+}
+
+/**
+ * Run one import: `load` fetches or reads the source data, then `apply` writes it inside a single transaction,
+ * together with its station_history entries and ingest-run log row. The transaction is rolled back on any error,
+ * when the result crosses the configured thresholds (unless `force`), and always in `dryRun` mode, so a failed
+ * or refused run leaves the previous data intact. Failed and refused runs are still logged (dry runs are not).
+ */
+export async function runIngest<T>(
+  options: IngestOptions,
+  load: () => Promise<T>,
+  apply: (client: PoolClient, data: T) => Promise<IngestResult>
+): Promise<IngestCounts> {
+  const { source, input, dryRun, force } = options;
+  const startedAt = new Date();
+  let client: PoolClient | null = null;
+
+  try {
+    const data = await load();
+
+    client = await pool.connect();
+    await client.query('BEGIN');
+    const owned = await client.query<{ total: string }>('SELECT COUNT(*) AS total FROM stations WHERE source = $1', [source]);
+    const ownedBefore = Number.parseInt(owned.rows[0]?.total ?? '0', 10);
+
+    const result = await apply(client, data);
+    const counts = countHistory(result.seen, result.history);
+    const summary = `${counts.seen} seen, ${counts.added} added, ${counts.updated} updated, ${counts.removed} removed`;
+
+    if (dryRun) {
+      printStationDiff(result.history);
+      await client.query('ROLLBACK');
+      console.log(`\nDry run (${source}): ${summary}. Nothing was written.`);
+      const refusal = checkIngestThresholds(source, ownedBefore, counts);
+      if (refusal) console.warn(`A real run would abort: ${refusal}`);
+      return counts;
+    }
+
+    const refusal = force ? null : checkIngestThresholds(source, ownedBefore, counts);
+    if (refusal) {
+      throw new Error(`Aborting ${source} import: ${refusal}. Nothing was written; inspect with --dry-run, or re-run with --force to apply.`);
+    }
+
+    const run = await client.query<{ id: string }>(
+      `
+        INSERT INTO station_ingest_runs (
+          source, input, status, stations_seen, stations_added, stations_updated, stations_removed, started_at, finished_at
+        )
+        VALUES ($1, $2, 'succeeded', $3, $4, $5, $6, $7, NOW())
+        RETURNING id
+      `,
+      [source, input, counts.seen, counts.added, counts.updated, counts.removed, startedAt]
+    );
+    const runId = Number(run.rows[0]!.id);
+    await recordStationHistory(client, runId, result.history);
+    await client.query('COMMIT');
+
+    console.log(`Ingest run ${runId} (${source}): ${summary}`);
+    return counts;
+  } catch (error) {
+    if (client) {
+      try {
+        await client.query('ROLLBACK');
+      } catch {
+        // ignore rollback errors
+      }
+    }
+    if (!dryRun) {
+      await pool.query(
+        "INSERT INTO station_ingest_runs (source, input, status, error, started_at, finished_at) VALUES ($1, $2, 'failed', $3, $4, NOW())",
+        [source, input, error instanceof Error ? error.message : String(error), startedAt]
+      );
+    }
+    throw error;
+  } finally {
+    client?.release();
+  }
+}
@@ -0,0 +1,136 @@
+import { config } from '../config.js';
+import { getStationNetwork, type StationNetworkId } from '../networks.js';
+import { inferFacilityType, normalizeConnectorType, type StationRow } from './stationRow.js';
+
+const OPEN_CHARGE_MAP_BASE_URL = 'https://api.openchargemap.io/v3/poi';
+const OPEN_CHARGE_MAP_MAX_RESULTS = 5000;
+const OPEN_CHARGE_MAP_DC_FAST_LEVEL_ID = '3';
+
+type OcmConnection = {
+  ConnectionType?: { Title?: string | null } | null;
+  Level?: { IsFastChargeCapable?: boolean | null } | null;
+  PowerKW?: number | null;
+  Quantity?: number | null;
+};
+
+export type OcmPoi = {
+  ID: number;
+  OperatorID?: number | null;
+  OperatorInfo?: { ID?: number | null } | null;
+  AddressInfo?: {
+    Title?: string | null;
+    AddressLine1?: string | null;
+    Town?: string | null;
+    StateOrProvince?: string | null;
+    Postcode?: string | null;
+    Latitude?: number | null;
+    Longitude?: number | null;
+    AccessComments?: string | null;
+  } | null;
+  Connections?: OcmConnection[] | null;
+  StatusType?: { IsOperational?: boolean | null } | null;
+  UsageCost?: string | null;
+};
+
+function isDcFastConnection(conn: OcmConnection): boolean {
+  if (conn.Level?.IsFastChargeCapable === true) return true;
+  if (typeof conn.PowerKW === 'number' && conn.PowerKW >= 50) return true;
+  return false;
+}
+
+function sumQuantities(connections: OcmConnection[]): number {
+  return connections.reduce((sum, conn) => sum + (conn.Quantity && conn.Quantity > 0 ? conn.Quantity : 1), 0);
+}
+
+function maxPowerKw(connections: OcmConnection[]): number | null {
+  const values = connections
+    .map((conn) => conn.PowerKW)
+    .filter((kw): kw is number => typeof kw === 'number' && Number.isFinite(kw));
+  if (values.length === 0) return null;
+  // Stored as INTEGER; OCM reports fractional ratings such as 62.5 kW.
+  return Math.round(Math.max(...values));
+}
+
+export function asStationRow(poi: OcmPoi, network: StationNetworkId): StationRow | null {
+  const address = poi.AddressInfo ?? null;
+  const latitude = address?.Latitude;
+  const longitude = address?.Longitude;
+
+  if (typeof poi.ID !== 'number' || !Number.isFinite(poi.ID)) return null;
+  if (typeof latitude !== 'number' || !Number.isFinite(latitude)) return null;
+  if (typeof longitude !== 'number' || !Number.isFinite(longitude)) return null;
+
+  const stationName = address?.Title?.trim() || `Station ${poi.ID}`;
+  const connections = (poi.Connections ?? []).filter(Boolean);
+  const dcConnections = connections.filter(isDcFastConnection);
+
+  const connectorTypes = Array.from(new Set(
+    dcConnections
+      .map((conn) => normalizeConnectorType(conn.ConnectionType?.Title))
+      .filter((t): t is string => Boolean(t))
+  )).sort();
+
+  return {
+    id: poi.ID,
+    station_name: stationName,
+    street_address: address?.AddressLine1?.trim() || null,
+    city: address?.Town?.trim() || null,
+    state: address?.StateOrProvince?.trim() || null,
+    zip: address?.Postcode?.trim() || null,
+    latitude,
+    longitude,
+    ev_dc_fast_num: dcConnections.length === 0 ? 0 : sumQuantities(dcConnections),
+    ev_connector_types: connectorTypes,
+    facility_type: inferFacilityType(stationName),
+    status_code: poi.StatusType?.IsOperational === false ? 'T' : 'E',
+    ev_pricing: poi.UsageCost?.trim() || null,
+    access_days_time: address?.AccessComments?.trim() || null,
+    max_power_kw: maxPowerKw(dcConnections),
+    network,
+    source: 'ocm',
+    source_id: String(poi.ID),
+  };
+}
+
+/** Operator of an OCM POI; exports carry `OperatorID`, verbose (non-compact) ones `OperatorInfo` as well. */
+export function ocmOperatorId(poi: OcmPoi): number | null {
+  const id = poi.OperatorID ?? poi.OperatorInfo?.ID;
+  return typeof id === 'number' && Number.isFinite(id) ? id : null;
+}
+
+export async function fetchNetworkStationsFromOpenChargeMap(network: { id: StationNetworkId; ocmOperatorIds: number[] }): Promise<OcmPoi[]> {
+  const apiKey = config.apiKeys.openChargeMap;
+  if (!apiKey) {
+    throw new Error('OPENCHARMAP_API_KEY not set in environment');
+  }
+
+  const { label, dcFastOnly } = getStationNetwork(network.id);
+  const params = new URLSearchParams({
+    key: apiKey,
+    operatorid: network.ocmOperatorIds.join(','),
+    countrycode: 'US',
+    maxresults: String(OPEN_CHARGE_MAP_MAX_RESULTS),
+  });
+  if (dcFastOnly) params.set('levelid', OPEN_CHARGE_MAP_DC_FAST_LEVEL_ID);
+
+  const url = `${OPEN_CHARGE_MAP_BASE_URL}/?${params.toString()}`;
+  console.log(`Fetching ${label} stations from OpenChargeMap...`);
+  console.log('Request URL:', url.replace(apiKey, '[REDACTED]'));
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`OpenChargeMap API error: ${response.status} ${response.statusText}\n${text}`);
+  }
+
+  const data = (await response.json()) as unknown;
+  if (!Array.isArray(data)) {
+    throw new Error('Unexpected OpenChargeMap response: expected an array');
+  }
+
+  if (data.length >= OPEN_CHARGE_MAP_MAX_RESULTS) {
+    console.warn(`${label}: OpenChargeMap returned the maximum ${OPEN_CHARGE_MAP_MAX_RESULTS} results; the list may be truncated.`);
+  }
+
+  return data as OcmPoi[];
+}
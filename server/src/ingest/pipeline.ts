@@ -0,0 +1,92 @@
+import type { PoolClient } from 'pg';
+import {
+  diffStation,
+  historyForRemovals,
+  historyForUpserts,
+  type IngestResult,
+  type StationHistoryEntry,
+} from './history.js';
+import { reconcileStations } from './reconcile.js';
+import type { StationRow, StationSource } from './stationRow.js';
+import {
+  fillMissingStationFields,
+  getStationSnapshots,
+  getStationsNotFromSource,
+  getStationsWithDuplicates,
+  keepFilledFields,
+  pruneMissingStationSources,
+  pruneMissingStations,
+  upsertStationSources,
+  upsertStations,
+} from './store.js';
+
+/**
+ * Replace the stations `source` owns with `rows`: upsert them, link each to its own record and prune the
+ * stations and links the source no longer returns. Returns the field-level changes made.
+ */
+export async function importOwnedStations(client: PoolClient, source: StationSource, rows: StationRow[]): Promise<IngestResult> {
+  const ids = rows.map((row) => row.id);
+  const before = await getStationSnapshots(client, ids);
+  const withDuplicates = await getStationsWithDuplicates(client, source, ids);
+  const merged = rows.map((row) => {
+    const previous = before.get(row.id);
+    return previous && withDuplicates.has(row.id) ? keepFilledFields(row, previous) : row;
+  });
+
+  await upsertStations(client, merged);
+  await upsertStationSources(client, merged.map((row) => ({
+    source,
+    source_id: row.source_id,
+    station_id: row.id,
+    match_distance_meters: 0,
+  })));
+  const removed = await pruneMissingStations(client, source, ids);
+  await pruneMissingStationSources(client, source, merged.map((row) => row.source_id));
+
+  return { seen: rows.length, history: [...historyForUpserts(merged, before), ...historyForRemovals(removed)] };
+}
+
+/**
+ * Reconcile AFDC rows against the stations other sources own. Matched records fill gaps in the existing
+ * station; the rest are added as AFDC-owned stations.
+ */
+export async function importAfdcStations(client: PoolClient, rows: StationRow[]): Promise<IngestResult> {
+  const existing = await getStationsNotFromSource(client, 'afdc');
+  const { matches, unmatched } = reconcileStations(rows, existing);
+  console.log(`Matched ${matches.length} to existing stations; ${unmatched.length} AFDC-only`);
+
+  const history: StationHistoryEntry[] = [];
+  const matchedBefore = await getStationSnapshots(client, matches.map((match) => match.stationId));
+  for (const match of matches) {
+    const after = await fillMissingStationFields(client, match.stationId, match.row);
+    const previous = matchedBefore.get(match.stationId);
+    if (!after || !previous) continue;
+    const changes = diffStation(previous, after);
+    if (Object.keys(changes).length > 0) {
+      history.push({ station_id: match.stationId, station_name: after.station_name, change_type: 'updated', changes });
+    }
+  }
+
+  const unmatchedBefore = await getStationSnapshots(client, unmatched.map((row) => row.id));
+  await upsertStations(client, unmatched);
+  await upsertStationSources(client, [
+    ...matches.map((match) => ({
+      source: 'afdc' as const,
+      source_id: match.row.source_id,
+      station_id: match.stationId,
+      match_distance_meters: match.distanceMeters,
+    })),
+    ...unmatched.map((row) => ({
+      source: 'afdc' as const,
+      source_id: row.source_id,
+      station_id: row.id,
+      match_distance_meters: 0,
+    })),
+  ]);
+  // An AFDC-only station that now matches another source's station is dropped in favour of it.
+  const removed = await pruneMissingStations(client, 'afdc', unmatched.map((row) => row.id));
+  await pruneMissingStationSources(client, 'afdc', rows.map((row) => row.source_id));
+
+  history.push(...historyForUpserts(unmatched, unmatchedBefore), ...historyForRemovals(removed));
+  return { seen: rows.length, history };
+}
@@ -0,0 +1,108 @@
+import assert from 'node:assert/strict';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { STATION_NETWORKS, STATION_NETWORK_IDS } from '../networks.js';
+import { afdcStationRows } from './afdc.js';
+import { readStationFile } from './files.js';
+import { asStationRow, ocmOperatorId } from './ocm.js';
+import { reconcileStations, stationNameSimilarity, type ReconcileCandidate } from './reconcile.js';
+import type { StationRow } from './stationRow.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const FIXTURES_DIR = path.join(__dirname, '../../fixtures');
+
+async function loadAfdcRows(): Promise<StationRow[]> {
+  const file = await readStationFile(path.join(FIXTURES_DIR, 'afdc/fuel-stations.json'));
+  assert.equal(file.format, 'afdc-json');
+  return file.format === 'afdc-json' ? afdcStationRows(file.stations, STATION_NETWORK_IDS) : [];
+}
+
+/** OCM export POIs of a tracked operator, as the stations they become. */
+async function loadOcmCandidates(): Promise<ReconcileCandidate[]> {
+  const file = await readStationFile(path.join(FIXTURES_DIR, 'ocm/poi-export.json'));
+  assert.equal(file.format, 'ocm-json');
+  if (file.format !== 'ocm-json') return [];
+  return file.pois.flatMap((poi) => {
+    const operatorId = ocmOperatorId(poi);
+    const network = STATION_NETWORKS.find((n) => operatorId !== null && n.ocmOperatorIds.includes(operatorId));
+    const row = network ? asStationRow(poi, network.id) : null;
+    return row ? [row] : [];
+  });
+}
+
+// Moves a point due north; 1° of latitude is ~111.2 km.
+function northOf(station: ReconcileCandidate, meters: number): Pick<ReconcileCandidate, 'latitude' | 'longitude'> {
+  return { latitude: station.latitude + meters / 111_195, longitude: station.longitude };
+}
+
+function findRow(rows: StationRow[], id: number): StationRow {
+  const row = rows.find((r) => r.id === id);
+  assert.ok(row, `fixture row ${id}`);
+  return row;
+}
+
+describe('stationNameSimilarity', () => {
+  it('ignores network names and punctuation', () => {
+    assert.equal(stationNameSimilarity('Sheetz #612', 'Sheetz 612'), 1);
+    assert.equal(stationNameSimilarity('Walmart 5131 - Electrify America', 'Walmart 5131'), 1);
+  });
+
+  it('scores unrelated names low', () => {
+    assert.equal(stationNameSimilarity('Sheetz #612', 'Main Street Library'), 0);
+    assert.equal(stationNameSimilarity('Electrify America', 'Walmart'), 0);
+  });
+});
+
+describe('reconcileStations', () => {
+  it('pairs the recorded AFDC and OCM records of the same sites', async () => {
+    const rows = await loadAfdcRows();
+    const candidates = await loadOcmCandidates();
+    const { matches, unmatched } = reconcileStations(rows, candidates);
+
+    const byRow = new Map(matches.map((match) => [match.row.id, match]));
+    // ~40 m apart: the same site on proximity alone.
+    assert.equal(byRow.get(-152087)?.stationId, 123456);
+    assert.ok(byRow.get(-152087)!.distanceMeters <= 75);
+    // ~245 m apart, beyond the same-network radius, but the names agree.
+    assert.equal(byRow.get(-201544)?.stationId, 187220);
+    assert.ok(byRow.get(-201544)!.distanceMeters > 200);
+    // Nothing near the IONNA site in the OCM export.
+    assert.deepEqual(unmatched.map((row) => row.id), [-318830]);
+  });
+
+  it('needs a similar name or the same network beyond the same-site radius', async () => {
+    const rows = await loadAfdcRows();
+    const [walmart] = (await loadOcmCandidates()).filter((c) => c.id === 123456);
+    const row = findRow(rows, -152087);
+
+    const at = { ...row, ...northOf(walmart!, 0) };
+    const otherSite = { ...walmart!, station_name: 'Main Street Library', network: 'evgo' as const };
+    assert.equal(reconcileStations([at], [{ ...otherSite, ...northOf(walmart!, 60) }]).matches.length, 1, 'within 75 m');
+    assert.equal(reconcileStations([at], [{ ...otherSite, ...northOf(walmart!, 150) }]).matches.length, 0);
+
+    const sameNetwork = { ...otherSite, network: row.network };
+    assert.equal(reconcileStations([at], [{ ...sameNetwork, ...northOf(walmart!, 150) }]).matches.length, 1, 'same network within 200 m');
+    assert.equal(reconcileStations([at], [{ ...sameNetwork, ...northOf(walmart!, 300) }]).matches.length, 0);
+
+    const sameName = { ...otherSite, station_name: 'Walmart #5131' };
+    assert.equal(reconcileStations([at], [{ ...sameName, ...northOf(walmart!, 350) }]).matches.length, 1, 'similar name within 400 m');
+    assert.equal(reconcileStations([at], [{ ...sameName, ...northOf(walmart!, 450) }]).matches.length, 0);
+  });
+
+  it('matches the closest station, and each station only once', async () => {
+    const rows = await loadAfdcRows();
+    const [walmart] = (await loadOcmCandidates()).filter((c) => c.id === 123456);
+    const row = findRow(rows, -152087);
+    const far = { ...walmart!, id: 1, ...northOf(walmart!, 60) };
+    const near = { ...walmart!, id: 2, ...northOf(walmart!, 20) };
+    const at = { ...row, ...northOf(walmart!, 0) };
+
+    const closest = reconcileStations([at], [far, near]);
+    assert.deepEqual(closest.matches.map((m) => m.stationId), [2]);
+
+    const { matches, unmatched } = reconcileStations([at, { ...at, id: -1 }], [near]);
+    assert.deepEqual(matches.map((m) => [m.row.id, m.stationId]), [[-152087, 2]]);
+    assert.deepEqual(unmatched.map((r) => r.id), [-1]);
+  });
+});
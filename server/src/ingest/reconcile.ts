@@ -0,0 +1,118 @@
+import type { StationNetworkId } from '../networks.js';
+import type { StationRow } from './stationRow.js';
+
+export type ReconcileCandidate = {
+  id: number;
+  station_name: string;
+  latitude: number;
+  longitude: number;
+  network: StationNetworkId;
+};
+
+export type ReconcileMatch = {
+  row: StationRow;
+  stationId: number;
+  distanceMeters: number;
+};
+
+// Same site, whatever the names say (sources disagree on where in the lot to drop the pin).
+const SAME_SITE_METERS = 75;
+// Farther apart than this it's never the same site.
+const MAX_MATCH_METERS = 400;
+// Between the two, names must agree this well (token overlap) — or the network must, within half the range.
+const MIN_NAME_SIMILARITY = 0.5;
+
+const EARTH_RADIUS_METERS = 6_371_000;
+const GRID_DEGREES = 0.01;
+// Network names and generic words say nothing about which site it is.
+const NAME_STOPWORDS = new Set([
+  'electrify', 'america', 'evgo', 'chargepoint', 'tesla', 'supercharger', 'ionna', 'blink',
+  'station', 'charging', 'charger', 'ev', 'dc', 'fast', 'the', 'at', 'and', 'of',
+]);
+
+function haversineMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+function nameTokens(name: string): Set<string> {
+  return new Set(
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, ' ')
+      .split(' ')
+      .filter((token) => token.length > 0 && !NAME_STOPWORDS.has(token))
+  );
+}
+
+/** Share of the smaller name's tokens that appear in the other (1 = one name contains the other). */
+export function stationNameSimilarity(a: string, b: string): number {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+  let shared = 0;
+  for (const token of tokensA) {
+    if (tokensB.has(token)) shared += 1;
+  }
+  return shared / Math.min(tokensA.size, tokensB.size);
+}
+
+function gridKey(lat: number, lng: number): string {
+  return `${Math.floor(lat / GRID_DEGREES)}:${Math.floor(lng / GRID_DEGREES)}`;
+}
+
+/**
+ * Pair incoming rows with existing stations from another source. A row matches the closest candidate that is
+ * within SAME_SITE_METERS, or within MAX_MATCH_METERS with a similar name (or the same network within half
+ * that). Each existing station absorbs at most one incoming row; the rest come back as `unmatched`.
+ */
+export function reconcileStations(
+  rows: StationRow[],
+  existing: ReconcileCandidate[]
+): { matches: ReconcileMatch[]; unmatched: StationRow[] } {
+  const grid = new Map<string, ReconcileCandidate[]>();
+  for (const station of existing) {
+    const key = gridKey(station.latitude, station.longitude);
+    const cell = grid.get(key);
+    if (cell) cell.push(station);
+    else grid.set(key, [station]);
+  }
+
+  const claimed = new Set<number>();
+  const matches: ReconcileMatch[] = [];
+  const unmatched: StationRow[] = [];
+
+  for (const row of rows) {
+    const cellLat = Math.floor(row.latitude / GRID_DEGREES);
+    const cellLng = Math.floor(row.longitude / GRID_DEGREES);
+    let best: { station: ReconcileCandidate; distance: number } | null = null;
+
+    // 0.01° is ≥ 400 m of latitude and of longitude up to ~65°N, so the 3×3 neighbourhood covers the radius.
+    for (let dLat = -1; dLat <= 1; dLat += 1) {
+      for (let dLng = -1; dLng <= 1; dLng += 1) {
+        for (const station of grid.get(`${cellLat + dLat}:${cellLng + dLng}`) ?? []) {
+          if (claimed.has(station.id)) continue;
+          const distance = haversineMeters(row.latitude, row.longitude, station.latitude, station.longitude);
+          if (distance > MAX_MATCH_METERS) continue;
+          const sameSite = distance <= SAME_SITE_METERS
+            || stationNameSimilarity(row.station_name, station.station_name) >= MIN_NAME_SIMILARITY
+            || (station.network === row.network && distance <= MAX_MATCH_METERS / 2);
+          if (!sameSite) continue;
+          if (!best || distance < best.distance) best = { station, distance };
+        }
+      }
+    }
+
+    if (best) {
+      claimed.add(best.station.id);
+      matches.push({ row, stationId: best.station.id, distanceMeters: Math.round(best.distance) });
+    } else {
+      unmatched.push(row);
+    }
+  }
+
+  return { matches, unmatched };
+}
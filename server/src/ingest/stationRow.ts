@@ -0,0 +1,47 @@
+import type { StationNetworkId } from '../networks.js';
+
+// 'csv' = a generic station CSV loaded with `fetch:stations -- --from-file`.
+export type StationSource = 'ocm' | 'afdc' | 'csv';
+
+/** One row of the `stations` table, whichever data source it came from. */
+export type StationRow = {
+  id: number;
+  station_name: string;
+  street_address: string | null;
+  city: string | null;
+  state: string | null;
+  zip: string | null;
+  latitude: number;
+  longitude: number;
+  ev_dc_fast_num: number;
+  ev_connector_types: string[];
+  facility_type: string;
+  status_code: string;
+  ev_pricing: string | null;
+  access_days_time: string | null;
+  max_power_kw: number | null;
+  network: StationNetworkId;
+  source: StationSource;
+  // The record's ID in its source (OCM POI ID, AFDC station ID, CSV `id`).
+  source_id: string;
+};
+
+export function normalizeConnectorType(title: string | null | undefined): string | null {
+  if (!title) return null;
+  const upper = title.toUpperCase();
+  if (upper.includes('CCS')) return 'CCS';
+  if (upper.includes('CHADEMO')) return 'CHADEMO';
+  if (upper.includes('NACS') || upper.includes('TESLA')) return 'NACS';
+  if (upper.includes('J1772')) return 'J1772';
+  return upper.trim().replace(/\s+/g, '_');
+}
+
+export function inferFacilityType(stationName: string): string {
+  const upper = stationName.toUpperCase();
+  if (upper.includes('WALMART')) return 'WALMART';
+  if (upper.includes('TARGET')) return 'TARGET';
+  if (upper.includes('COSTCO')) return 'COSTCO';
+  if (upper.includes('MALL')) return 'MALL';
+  if (upper.includes("SAM'S CLUB") || upper.includes('SAMS CLUB')) return 'SAMS_CLUB';
+  return 'OTHER';
+}
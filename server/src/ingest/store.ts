@@ -0,0 +1,184 @@
+import type { PoolClient } from 'pg';
+import { TRACKED_STATION_FIELDS, type StationSnapshot } from './history.js';
+import type { ReconcileCandidate } from './reconcile.js';
+import type { StationRow, StationSource } from './stationRow.js';
+
+const STATION_COLUMNS = [
+  'id',
+  'station_name',
+  'street_address',
+  'city',
+  'state',
+  'zip',
+  'latitude',
+  'longitude',
+  'ev_dc_fast_num',
+  'ev_connector_types',
+  'facility_type',
+  'status_code',
+  'ev_pricing',
+  'access_days_time',
+  'max_power_kw',
+  'network',
+  'source',
+] as const;
+
+const SNAPSHOT_COLUMNS = ['id', ...TRACKED_STATION_FIELDS].join(', ');
+
+export type StationSourceLink = {
+  source: StationSource;
+  source_id: string;
+  station_id: number;
+  // 0 for the source that owns the station row; the match distance for reconciled duplicates.
+  match_distance_meters: number;
+};
+
+export async function upsertStations(client: PoolClient, stations: StationRow[]): Promise<void> {
+  console.log(`Upserting ${stations.length} stations into database...`);
+
+  const batchSize = 200;
+  let processed = 0;
+
+  for (let i = 0; i < stations.length; i += batchSize) {
+    const batch = stations.slice(i, i + batchSize);
+
+    const values: unknown[] = [];
+    const placeholders: string[] = [];
+
+    batch.forEach((station, idx) => {
+      const offset = idx * STATION_COLUMNS.length;
+      placeholders.push(`(${STATION_COLUMNS.map((_, col) => `$${offset + col + 1}`).join(', ')})`);
+      values.push(...STATION_COLUMNS.map((column) => station[column]));
+    });
+
+    const query = `
+      INSERT INTO stations (${STATION_COLUMNS.join(', ')})
+      VALUES ${placeholders.join(', ')}
+      ON CONFLICT (id) DO UPDATE SET
+        ${STATION_COLUMNS.filter((column) => column !== 'id').map((column) => `${column} = EXCLUDED.${column}`).join(',\n        ')},
+        updated_at = CURRENT_TIMESTAMP
+    `;
+
+    await client.query(query, values);
+    processed += batch.length;
+    console.log(`Upserted ${processed}/${stations.length}`);
+  }
+}
+
+/** Record which source records back each station (provenance). */
+export async function upsertStationSources(client: PoolClient, links: StationSourceLink[]): Promise<void> {
+  const batchSize = 500;
+  for (let i = 0; i < links.length; i += batchSize) {
+    const batch = links.slice(i, i + batchSize);
+    const values: unknown[] = [];
+    const placeholders = batch.map((link, idx) => {
+      const offset = idx * 4;
+      values.push(link.source, link.source_id, link.station_id, link.match_distance_meters);
+      return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, NOW())`;
+    });
+
+    await client.query(
+      `
+        INSERT INTO station_sources (source, source_id, station_id, match_distance_meters, last_seen_at)
+        VALUES ${placeholders.join(', ')}
+        ON CONFLICT (source, source_id) DO UPDATE SET
+          station_id = EXCLUDED.station_id,
+          match_distance_meters = EXCLUDED.match_distance_meters,
+          last_seen_at = EXCLUDED.last_seen_at
+      `,
+      values
+    );
+  }
+}
+
+/** Stations among `ids` that a record from another source has been reconciled onto. */
+export async function getStationsWithDuplicates(client: PoolClient, source: StationSource, ids: number[]): Promise<Set<number>> {
+  const result = await client.query<{ station_id: number }>(
+    'SELECT DISTINCT station_id FROM station_sources WHERE source <> $1 AND station_id = ANY($2::int[])',
+    [source, ids]
+  );
+  return new Set(result.rows.map((row) => row.station_id));
+}
+
+/** Current stored values for the given station IDs (missing IDs are simply absent). */
+export async function getStationSnapshots(client: PoolClient, ids: number[]): Promise<Map<number, StationSnapshot>> {
+  const result = await client.query<StationSnapshot>(
+    `SELECT ${SNAPSHOT_COLUMNS} FROM stations WHERE id = ANY($1::int[])`,
+    [ids]
+  );
+  return new Map(result.rows.map((row) => [row.id, row]));
+}
+
+/** Delete stations owned by `source` that the latest fetch no longer returned; returns what was deleted. */
+export async function pruneMissingStations(client: PoolClient, source: StationSource, keepIds: number[]): Promise<StationSnapshot[]> {
+  console.log(`Pruning ${source} stations no longer returned...`);
+  const result = await client.query<StationSnapshot>(
+    `DELETE FROM stations WHERE source = $1 AND NOT (id = ANY($2::int[])) RETURNING ${SNAPSHOT_COLUMNS}`,
+    [source, keepIds]
+  );
+  return result.rows;
+}
+
+/** Drop provenance links from `source` records that the latest fetch no longer returned. */
+export async function pruneMissingStationSources(client: PoolClient, source: StationSource, keepSourceIds: string[]): Promise<void> {
+  await client.query('DELETE FROM station_sources WHERE source = $1 AND NOT (source_id = ANY($2::text[]))', [source, keepSourceIds]);
+}
+
+/** Stations owned by other sources, as candidates to reconcile `source` records against. */
+export async function getStationsNotFromSource(client: PoolClient, source: StationSource): Promise<ReconcileCandidate[]> {
+  const result = await client.query<ReconcileCandidate>(
+    'SELECT id, station_name, latitude, longitude, network FROM stations WHERE source <> $1',
+    [source]
+  );
+  return result.rows;
+}
+
+/**
+ * `row` with any field `fillMissingStationFields` can fill taken from `before` when the row leaves it empty, so
+ * a re-import by the owning source doesn't undo the fill (and log it as a change) every run.
+ */
+export function keepFilledFields(row: StationRow, before: StationSnapshot): StationRow {
+  return {
+    ...row,
+    street_address: row.street_address ?? before.street_address,
+    zip: row.zip ?? before.zip,
+    ev_connector_types: row.ev_connector_types.length > 0 ? row.ev_connector_types : before.ev_connector_types ?? [],
+    ev_pricing: row.ev_pricing ?? before.ev_pricing,
+    access_days_time: row.access_days_time ?? before.access_days_time,
+    max_power_kw: row.max_power_kw ?? before.max_power_kw,
+  };
+}
+
+/**
+ * Fill fields the owning source left empty from a matched duplicate. The owning source's values always win;
+ * its own runs keep these fills while the duplicate link exists (see `keepFilledFields`). Returns the station's
+ * values afterwards (null if it is gone).
+ */
+export async function fillMissingStationFields(client: PoolClient, stationId: number, duplicate: StationRow): Promise<StationSnapshot | null> {
+  const result = await client.query<StationSnapshot>(
+    `
+      UPDATE stations SET
+        street_address = COALESCE(street_address, $2),
+        zip = COALESCE(zip, $3),
+        ev_connector_types = CASE
+          WHEN ev_connector_types IS NULL OR cardinality(ev_connector_types) = 0 THEN $4::text[]
+          ELSE ev_connector_types
+        END,
+        ev_pricing = COALESCE(ev_pricing, $5),
+        access_days_time = COALESCE(access_days_time, $6),
+        max_power_kw = COALESCE(max_power_kw, $7)
+      WHERE id = $1
+      RETURNING ${SNAPSHOT_COLUMNS}
+    `,
+    [
+      stationId,
+      duplicate.street_address,
+      duplicate.zip,
+      duplicate.ev_connector_types,
+      duplicate.ev_pricing,
+      duplicate.access_days_time,
+      duplicate.max_power_kw,
+    ]
+  );
+  return result.rows[0] ?? null;
+}
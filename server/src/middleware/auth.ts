@@ -38,8 +38,9 @@ export async function attachAuth(req: Request, _res: Response, next: NextFunctio
     const row = result.rows[0];
     if (!row) return next();
 
-    req.user = { id: row.user_id, email: row.email };
-    req.session = { id: row.session_id };
+    // pg returns BIGINT ids as strings; `req.user.id` is a number everywhere it's compared.
+    req.user = { id: Number(row.user_id), email: row.email };
+    req.session = { id: Number(row.session_id) };
 
     void pool.query('UPDATE user_sessions SET last_seen_at = NOW() WHERE id = $1', [row.session_id]).catch(() => {
       // ignore last-seen update failures
@@ -49,3 +49,23 @@ export const routeLimiter = rateLimit({
   standardHeaders: true,
   legacyHeaders: false,
 });
+
+// Geocoding rate limit: 60 requests per minute per IP
+// Autocomplete fires as the user types (debounced client-side) and may reach OpenRouteService
+export const geocodeLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 60,
+  message: { error: 'Too many geocoding requests, please try again later' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+// Check-in rate limit: 10 requests per 15 minutes per IP
+// Check-ins feed station ranking, so a burst from one client shouldn't be able to flip stations
+export const checkinLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10,
+  message: { error: 'Too many check-ins, please try again later' },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
@@ -0,0 +1,58 @@
+export type StationNetworkId = 'electrify_america' | 'evgo' | 'chargepoint' | 'tesla' | 'ionna' | 'blink';
+
+export type StationNetwork = {
+  id: StationNetworkId;
+  label: string;
+  // OpenChargeMap operator IDs that make up this network.
+  ocmOperatorIds: number[];
+  // NREL AFDC `ev_network` values for this network.
+  afdcNetworks: string[];
+  // Mostly-Level-2 networks are fetched DC fast only; the planner ignores Level 2 sites anyway.
+  dcFastOnly: boolean;
+};
+
+export const STATION_NETWORKS: StationNetwork[] = [
+  { id: 'electrify_america', label: 'Electrify America', ocmOperatorIds: [3318], afdcNetworks: ['Electrify America'], dcFastOnly: false },
+  { id: 'evgo', label: 'EVgo', ocmOperatorIds: [15], afdcNetworks: ['eVgo Network'], dcFastOnly: false },
+  { id: 'chargepoint', label: 'ChargePoint', ocmOperatorIds: [5], afdcNetworks: ['ChargePoint Network'], dcFastOnly: true },
+  // 23 = Tesla-only Superchargers, 3534 = Superchargers open to other makes.
+  { id: 'tesla', label: 'Tesla Supercharger', ocmOperatorIds: [23, 3534], afdcNetworks: ['Tesla'], dcFastOnly: false },
+  // No stable OpenChargeMap operator ID yet (AFDC only); supply one with STATION_NETWORKS=ionna=<id>.
+  { id: 'ionna', label: 'IONNA', ocmOperatorIds: [], afdcNetworks: ['IONNA'], dcFastOnly: false },
+  { id: 'blink', label: 'Blink', ocmOperatorIds: [9], afdcNetworks: ['Blink Network'], dcFastOnly: true },
+];
+
+export const STATION_NETWORK_IDS: StationNetworkId[] = STATION_NETWORKS.map((n) => n.id);
+
+export function parseStationNetworkId(value: string): StationNetworkId | null {
+  const normalized = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return STATION_NETWORK_IDS.find((id) => id === normalized) ?? null;
+}
+
+/** Network for an AFDC `ev_network` value, or null for networks we don't track. */
+export function stationNetworkForAfdc(evNetwork: string): StationNetworkId | null {
+  return STATION_NETWORKS.find((n) => n.afdcNetworks.includes(evNetwork))?.id ?? null;
+}
+
+export function getStationNetwork(id: StationNetworkId): StationNetwork {
+  return STATION_NETWORKS.find((n) => n.id === id)!;
+}
+
+/**
+ * Network filter from a request: an array of IDs or a comma-separated string. Returns `undefined` when
+ * any entry is unknown (so callers can 400), otherwise the deduped, sorted list.
+ */
+export function parseStationNetworkList(value: unknown): StationNetworkId[] | undefined {
+  const entries = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : null;
+  if (!entries) return undefined;
+
+  const networks = new Set<StationNetworkId>();
+  for (const entry of entries) {
+    if (typeof entry !== 'string') return undefined;
+    if (!entry.trim()) continue;
+    const id = parseStationNetworkId(entry);
+    if (!id) return undefined;
+    networks.add(id);
+  }
+  return [...networks].sort();
+}
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parsePlanParams, storedPlanParams, type SavedPlanParams } from './planParams.js';
+import { toUserVehicle, type UserVehicleRow } from './vehicles.js';
+
+const LEGACY_COLUMNS = {
+  start_query: 'Raleigh, NC',
+  end_query: 'Atlanta, GA',
+  waypoints: [],
+  corridor_miles: 30,
+  preference: 'fastest' as const,
+};
+
+// A `user_vehicles` row as pg returns it: BIGINT columns arrive as strings.
+const GARAGE_ROW = {
+  id: '42',
+  user_id: '7',
+  vehicle_id: 3,
+  name: 'Ioniq 5',
+  range_miles: 260,
+  efficiency_mi_per_kwh: 3.4,
+  battery_kwh: 74,
+  max_charging_speed_kw: 235,
+  connector_type: 'CCS',
+  is_default: true,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+} as unknown as UserVehicleRow;
+
+function parsed(raw: unknown): SavedPlanParams {
+  const result = parsePlanParams(raw);
+  assert.ok('params' in result, 'error' in result ? result.error : '');
+  return result.params;
+}
+
+describe('plan params with a garage vehicle', () => {
+  it('round-trips the vehicle id the garage API returns', () => {
+    // What the planner sends while that vehicle is active (see routeRequestOptions in the client).
+    const vehicle = toUserVehicle(GARAGE_ROW);
+    const saved = parsed({
+      version: 1,
+      start: 'Raleigh, NC',
+      end: 'Atlanta, GA',
+      corridorMiles: 30,
+      preference: 'fastest',
+      vehicleId: vehicle.id,
+      batteryKwh: vehicle.battery_kwh,
+      efficiencyMiPerKwh: vehicle.efficiency_mi_per_kwh,
+      connectorType: vehicle.connector_type,
+    });
+
+    // Stored as JSONB, then read back when the route is loaded.
+    const loaded = storedPlanParams(JSON.parse(JSON.stringify(saved)) as unknown, LEGACY_COLUMNS);
+    assert.equal(loaded.vehicleId, 42);
+    assert.equal(loaded.vehicleId, vehicle.id);
+    assert.equal(loaded.batteryKwh, 74);
+    assert.equal(loaded.connectorType, 'CCS');
+  });
+
+  it('rejects a vehicle id that is not a number', () => {
+    const result = parsePlanParams({ start: 'Raleigh, NC', end: 'Atlanta, GA', vehicleId: GARAGE_ROW.id });
+    assert.deepEqual(result, { error: 'planParams.vehicleId must be a number' });
+  });
+
+  it('falls back to the legacy columns for params it cannot read', () => {
+    const loaded = storedPlanParams({ version: 1, start: 'Raleigh, NC', end: 'Atlanta, GA', vehicleId: '42' }, LEGACY_COLUMNS);
+    assert.equal(loaded.vehicleId, undefined);
+    assert.equal(loaded.start, 'Raleigh, NC');
+  });
+});
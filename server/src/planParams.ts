@@ -0,0 +1,232 @@
+// Saved route planning parameters.
+//
+// `saved_routes.plan_params` keeps the `POST /api/route` body a route was planned with, so loading it plans
+// the same route again, plus the map's display filters. It carries a `version`; rows written by older
+// releases (or before the column existed) are upgraded on read, and anything a newer release wrote that
+// this one doesn't understand falls back to the row's legacy columns.
+
+import { parseStationNetworkList, type StationNetworkId } from './networks.js';
+import { DEFAULT_STATION_RANKING, parseStationRanking, type StationRanking } from './planning/ranking.js';
+
+export const PLAN_PARAMS_VERSION = 1;
+
+const CONNECTOR_FILTERS = ['CCS', 'CHADEMO', 'NACS', 'J1772', 'ANY'] as const;
+
+// Numeric `POST /api/route` fields, stored as sent.
+const NUMBER_FIELDS = [
+  'rangeMiles',
+  'minArrivalPercent',
+  'maxDetourFactor',
+  'startSocPercent',
+  'batteryKwh',
+  'efficiencyMiPerKwh',
+  'maxChargingSpeedKw',
+  'vehicleProfileId',
+  'vehicleId',
+  'vehicleMassKg',
+] as const;
+
+type NumberField = (typeof NUMBER_FIELDS)[number];
+
+export type PlanDisplayFilters = {
+  truckStopBrands: string[];
+  rechargePoiCategories: string[];
+  mustStopsOnly: boolean;
+};
+
+export type SavedPlanParams = {
+  version: typeof PLAN_PARAMS_VERSION;
+  start: string;
+  end: string;
+  waypoints: string[];
+  corridorMiles: number;
+  autoCorridor: boolean;
+  preference: 'fastest' | 'charger_optimized';
+  includeStations?: boolean;
+  connectorType?: (typeof CONNECTOR_FILTERS)[number];
+  networks?: StationNetworkId[] | null;
+  // A full ranking, or null for the defaults; omitted means the owner's saved ranking at plan time.
+  ranking?: StationRanking | null;
+  departAt?: string | null;
+  // Map filters applied after planning; not sent to the planner.
+  filters?: PlanDisplayFilters;
+} & Partial<Record<NumberField, number>>;
+
+const KNOWN_KEYS = new Set<string>([
+  'version',
+  'start',
+  'end',
+  'waypoints',
+  'corridorMiles',
+  'autoCorridor',
+  'preference',
+  'includeStations',
+  'connectorType',
+  'networks',
+  'ranking',
+  'departAt',
+  'filters',
+  ...NUMBER_FIELDS,
+]);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function trimmedString(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed ? trimmed : null;
+}
+
+function parseStringList(value: unknown, max: number): string[] | null {
+  if (!Array.isArray(value) || value.length > max) return null;
+  const items: string[] = [];
+  for (const entry of value) {
+    if (typeof entry !== 'string') return null;
+    if (entry.trim()) items.push(entry.trim());
+  }
+  return items;
+}
+
+/**
+ * Validate plan parameters from a create/update body. The route planner validates values again when the
+ * route is planned; this checks shape and types so a saved route can always be replayed.
+ */
+export function parsePlanParams(raw: unknown): { params: SavedPlanParams } | { error: string } {
+  if (!isPlainObject(raw)) return { error: 'planParams must be an object' };
+
+  const unknownKey = Object.keys(raw).find((key) => !KNOWN_KEYS.has(key));
+  if (unknownKey) return { error: `Unknown planParams field "${unknownKey}"` };
+
+  if (raw.version !== undefined && raw.version !== PLAN_PARAMS_VERSION) {
+    return { error: `planParams.version must be ${PLAN_PARAMS_VERSION}` };
+  }
+
+  const start = trimmedString(raw.start);
+  const end = trimmedString(raw.end);
+  if (!start || !end) return { error: 'planParams.start and planParams.end are required' };
+
+  const waypoints = raw.waypoints === undefined ? [] : parseStringList(raw.waypoints, 10);
+  if (!waypoints) return { error: 'planParams.waypoints must be an array of up to 10 strings' };
+
+  const corridorMiles = raw.corridorMiles === undefined ? 30 : raw.corridorMiles;
+  if (typeof corridorMiles !== 'number' || !Number.isFinite(corridorMiles) || corridorMiles < 0) {
+    return { error: 'planParams.corridorMiles must be a non-negative number' };
+  }
+
+  if (raw.autoCorridor !== undefined && typeof raw.autoCorridor !== 'boolean') {
+    return { error: 'planParams.autoCorridor must be a boolean' };
+  }
+  if (raw.includeStations !== undefined && typeof raw.includeStations !== 'boolean') {
+    return { error: 'planParams.includeStations must be a boolean' };
+  }
+
+  const preference = raw.preference === undefined ? 'fastest' : raw.preference;
+  if (preference !== 'fastest' && preference !== 'charger_optimized') {
+    return { error: 'planParams.preference must be "fastest" or "charger_optimized"' };
+  }
+
+  const params: SavedPlanParams = {
+    version: PLAN_PARAMS_VERSION,
+    start,
+    end,
+    waypoints,
+    corridorMiles,
+    autoCorridor: raw.autoCorridor === true,
+    preference,
+  };
+  if (raw.includeStations !== undefined) params.includeStations = raw.includeStations as boolean;
+
+  for (const field of NUMBER_FIELDS) {
+    const value = raw[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return { error: `planParams.${field} must be a number` };
+    }
+    params[field] = value;
+  }
+
+  if (raw.connectorType !== undefined && raw.connectorType !== null) {
+    const connector = typeof raw.connectorType === 'string' ? raw.connectorType.trim().toUpperCase() : '';
+    const match = CONNECTOR_FILTERS.find((type) => type === connector);
+    if (!match) return { error: `planParams.connectorType must be one of ${CONNECTOR_FILTERS.join(', ')}` };
+    params.connectorType = match;
+  }
+
+  if (raw.networks !== undefined) {
+    if (raw.networks === null) {
+      params.networks = null;
+    } else {
+      const networks = parseStationNetworkList(raw.networks);
+      if (!networks) return { error: 'planParams.networks must be an array of network IDs' };
+      params.networks = networks.length > 0 ? networks : null;
+    }
+  }
+
+  if (raw.ranking !== undefined) {
+    if (raw.ranking === null) {
+      params.ranking = null;
+    } else {
+      const parsed = parseStationRanking(raw.ranking, DEFAULT_STATION_RANKING);
+      if ('error' in parsed) return { error: `planParams.${parsed.error}` };
+      params.ranking = parsed.ranking;
+    }
+  }
+
+  if (raw.departAt !== undefined && raw.departAt !== null) {
+    const departAt = typeof raw.departAt === 'string' ? new Date(raw.departAt) : null;
+    if (!departAt || Number.isNaN(departAt.getTime())) {
+      return { error: 'planParams.departAt must be an ISO 8601 date-time' };
+    }
+    params.departAt = departAt.toISOString();
+  } else if (raw.departAt === null) {
+    params.departAt = null;
+  }
+
+  if (raw.filters !== undefined) {
+    if (!isPlainObject(raw.filters)) return { error: 'planParams.filters must be an object' };
+    const truckStopBrands = parseStringList(raw.filters.truckStopBrands ?? [], 100);
+    const rechargePoiCategories = parseStringList(raw.filters.rechargePoiCategories ?? [], 100);
+    if (!truckStopBrands || !rechargePoiCategories) {
+      return { error: 'planParams.filters lists must be arrays of strings' };
+    }
+    params.filters = {
+      truckStopBrands,
+      rechargePoiCategories,
+      mustStopsOnly: raw.filters.mustStopsOnly === true,
+    };
+  }
+
+  return { params };
+}
+
+type LegacySavedRouteColumns = {
+  start_query: string;
+  end_query: string;
+  waypoints: string[] | null;
+  corridor_miles: number;
+  preference: 'fastest' | 'charger_optimized';
+};
+
+/** Plan parameters for a row from its legacy columns (routes saved before `plan_params`). */
+export function legacyPlanParams(row: LegacySavedRouteColumns): SavedPlanParams {
+  return {
+    version: PLAN_PARAMS_VERSION,
+    start: row.start_query,
+    end: row.end_query,
+    waypoints: row.waypoints ?? [],
+    corridorMiles: row.corridor_miles,
+    autoCorridor: false,
+    preference: row.preference,
+  };
+}
+
+/** A stored `plan_params` value brought up to the current version. */
+export function storedPlanParams(stored: unknown, row: LegacySavedRouteColumns): SavedPlanParams {
+  if (!isPlainObject(stored)) return legacyPlanParams(row);
+  // Version 1 is the first; later versions add an upgrade step here.
+  if (stored.version !== PLAN_PARAMS_VERSION) return legacyPlanParams(row);
+  const parsed = parsePlanParams(stored);
+  return 'params' in parsed ? parsed.params : legacyPlanParams(row);
+}
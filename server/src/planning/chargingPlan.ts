@@ -0,0 +1,355 @@
+// Charging-stop planner.
+//
+// Picks which corridor stations to stop at and how far to charge at each so that every leg arrives
+// above the user's minimum SoC while minimising total time spent charging + detouring. Stations are
+// visited in route order, so the search is a forward DP over (station, arrival SoC %) states.
+//
+// The planner runs synchronously inside the route request. With N candidates, at most R of them within
+// one battery's range of a station and D <= 101 distinct departure SoCs, each station costs
+// O(101 * D + D * R): every departure is charged to once from the cheapest arrival, then relaxed along
+// each reachable leg. Candidates are thinned to MAX_CHARGING_CANDIDATES, so a plan stays under
+// 200 * (101 * 101 + 101 * 200) ≈ 6M steps even on long, dense corridors.
+
+import { estimateLegEnergyKwh, type BatteryModel, type ElevationChange } from './stateOfCharge.js';
+
+export const DEFAULT_MAX_CHARGING_SPEED_KW = 150;
+const DEFAULT_STATION_POWER_KW = 150;
+export const STOP_OVERHEAD_MINUTES = 5;
+const DETOUR_SPEED_MPH = 30;
+export const MAX_CHARGING_CANDIDATES = 200;
+
+export type ChargingCurvePoint = {
+  soc_percent: number;
+  power_kw: number;
+};
+
+// Typical 400V pack taper, expressed as a fraction of the vehicle's peak charging power.
+const GENERIC_CURVE_SHAPE: Array<[number, number]> = [
+  [0, 0.6],
+  [10, 0.95],
+  [20, 1],
+  [50, 0.85],
+  [60, 0.7],
+  [70, 0.55],
+  [80, 0.4],
+  [90, 0.2],
+  [100, 0.1],
+];
+
+export type ChargingCandidate = {
+  id: number;
+  name: string;
+  city: string | null;
+  state: string | null;
+  distanceAlongRouteMiles: number;
+  distanceToRouteMiles: number;
+  maxPowerKw: number | null;
+};
+
+export type ChargingStop = {
+  station_id: number;
+  station_name: string;
+  city: string | null;
+  state: string | null;
+  distance_along_route_miles: number;
+  station_max_power_kw: number | null;
+  arrival_soc_percent: number;
+  departure_soc_percent: number;
+  energy_added_kwh: number;
+  charge_minutes: number;
+  average_power_kw: number;
+  detour_minutes: number;
+  // Clock times from the trip's departure time (set by the route handler).
+  arrival_iso?: string;
+  departure_iso?: string;
+};
+
+export type ChargingPlan = {
+  feasible: boolean;
+  stops: ChargingStop[];
+  start_soc_percent: number;
+  min_arrival_percent: number;
+  destination_arrival_soc_percent: number | null;
+  max_charging_speed_kw: number;
+  charging_curve: ChargingCurvePoint[];
+  total_charge_minutes: number;
+  total_stop_minutes: number;
+  driving_minutes: number;
+  total_trip_minutes: number;
+  message?: string;
+};
+
+export function genericChargingCurve(maxChargingSpeedKw: number): ChargingCurvePoint[] {
+  return GENERIC_CURVE_SHAPE.map(([soc, fraction]) => ({
+    soc_percent: soc,
+    power_kw: Math.round(maxChargingSpeedKw * fraction),
+  }));
+}
+
+function curvePowerAt(curve: ChargingCurvePoint[], socPercent: number): number {
+  if (curve.length === 0) return 0;
+  if (socPercent <= curve[0]!.soc_percent) return curve[0]!.power_kw;
+  for (let i = 1; i < curve.length; i += 1) {
+    const p1 = curve[i]!;
+    if (socPercent <= p1.soc_percent) {
+      const p0 = curve[i - 1]!;
+      const span = p1.soc_percent - p0.soc_percent;
+      const t = span > 0 ? (socPercent - p0.soc_percent) / span : 0;
+      return p0.power_kw + (p1.power_kw - p0.power_kw) * t;
+    }
+  }
+  return curve[curve.length - 1]!.power_kw;
+}
+
+/**
+ * Cumulative minutes to charge from 0% to each integer SoC, so the time for any a→b session
+ * is `table[b] - table[a]`.
+ */
+function buildChargeTimeTable(curve: ChargingCurvePoint[], batteryKwh: number, stationPowerKw: number): number[] {
+  const table = [0];
+  const kwhPerPercent = batteryKwh / 100;
+  for (let soc = 0; soc < 100; soc += 1) {
+    const power = Math.min(curvePowerAt(curve, soc + 0.5), stationPowerKw);
+    const minutes = power > 0 ? (kwhPerPercent / power) * 60 : Infinity;
+    table.push(table[soc]! + minutes);
+  }
+  return table;
+}
+
+function effectiveStationPowerKw(candidate: ChargingCandidate): number {
+  return candidate.maxPowerKw && candidate.maxPowerKw > 0 ? candidate.maxPowerKw : DEFAULT_STATION_POWER_KW;
+}
+
+/**
+ * Keep at most `limit` candidates, spread evenly along the route: the route is cut into `limit` equal
+ * windows and each keeps its fastest station (nearest to the route on a tie). Input is in route order.
+ */
+function thinCandidates(candidates: ChargingCandidate[], totalMiles: number, limit: number): ChargingCandidate[] {
+  if (candidates.length <= limit) return candidates;
+  const windowMiles = totalMiles / limit;
+  const best = new Map<number, ChargingCandidate>();
+  for (const candidate of candidates) {
+    const window = Math.min(limit - 1, Math.floor(Math.max(0, candidate.distanceAlongRouteMiles) / windowMiles));
+    const current = best.get(window);
+    if (
+      !current
+      || effectiveStationPowerKw(candidate) > effectiveStationPowerKw(current)
+      || (effectiveStationPowerKw(candidate) === effectiveStationPowerKw(current)
+        && candidate.distanceToRouteMiles < current.distanceToRouteMiles)
+    ) {
+      best.set(window, candidate);
+    }
+  }
+  return [...best.values()].sort((a, b) => a.distanceAlongRouteMiles - b.distanceAlongRouteMiles);
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+type Label = {
+  cost: number;
+  prevNode: number;
+  prevArrival: number;
+  departure: number;
+};
+
+export function planChargingStops(options: {
+  model: BatteryModel;
+  candidates: ChargingCandidate[];
+  totalMiles: number;
+  drivingMinutes: number;
+  startSocPercent: number;
+  minArrivalPercent: number;
+  maxChargingSpeedKw?: number | null;
+  chargingCurve?: ChargingCurvePoint[] | null;
+  elevationBetween: (fromMiles: number, toMiles: number) => ElevationChange | null;
+  consumptionFactorBetween?: (fromMiles: number, toMiles: number) => number;
+}): ChargingPlan {
+  const { model } = options;
+  const maxChargingSpeedKw = options.maxChargingSpeedKw && options.maxChargingSpeedKw > 0
+    ? options.maxChargingSpeedKw
+    : DEFAULT_MAX_CHARGING_SPEED_KW;
+  const curve = options.chargingCurve && options.chargingCurve.length > 0
+    ? options.chargingCurve
+    : genericChargingCurve(maxChargingSpeedKw);
+  const minArrival = Math.max(0, Math.min(100, Math.round(options.minArrivalPercent)));
+  const startSoc = Math.max(0, Math.min(100, Math.round(options.startSocPercent)));
+
+  const stations = thinCandidates(
+    options.candidates
+      .filter((c) => Number.isFinite(c.distanceAlongRouteMiles) && c.distanceAlongRouteMiles < options.totalMiles)
+      .sort((a, b) => a.distanceAlongRouteMiles - b.distanceAlongRouteMiles),
+    options.totalMiles,
+    MAX_CHARGING_CANDIDATES
+  );
+
+  // Node 0 is the origin, 1..n are stations, n+1 is the destination.
+  const markers = [0, ...stations.map((s) => Math.max(0, s.distanceAlongRouteMiles)), options.totalMiles];
+  const nodeCount = markers.length;
+  const destination = nodeCount - 1;
+
+  // Gain/loss and weather-weighted miles are additive along the route, so cumulative sums let any
+  // i→j leg be computed in O(1).
+  const cumulativeGain = [0];
+  const cumulativeLoss = [0];
+  const cumulativeWeightedMiles = [0];
+  let lowestFactor = 1;
+  for (let i = 1; i < nodeCount; i += 1) {
+    const change = options.elevationBetween(markers[i - 1]!, markers[i]!);
+    const factor = options.consumptionFactorBetween?.(markers[i - 1]!, markers[i]!) ?? 1;
+    lowestFactor = Math.min(lowestFactor, factor);
+    cumulativeGain.push(cumulativeGain[i - 1]! + (change?.gain_meters ?? 0));
+    cumulativeLoss.push(cumulativeLoss[i - 1]! + (change?.loss_meters ?? 0));
+    cumulativeWeightedMiles.push(cumulativeWeightedMiles[i - 1]! + (markers[i]! - markers[i - 1]!) * factor);
+  }
+  const legPercent = (from: number, to: number): number => {
+    const energy = estimateLegEnergyKwh(model, cumulativeWeightedMiles[to]! - cumulativeWeightedMiles[from]!, {
+      gain_meters: cumulativeGain[to]! - cumulativeGain[from]!,
+      loss_meters: cumulativeLoss[to]! - cumulativeLoss[from]!,
+    });
+    return (energy / model.batteryKwh) * 100;
+  };
+  // A tailwind can stretch a full battery past its rated miles; never prune a leg it could cover.
+  const maxLegMiles = (model.batteryKwh * model.efficiencyMiPerKwh) / Math.max(0.1, lowestFactor);
+
+  const detourMinutes = stations.map((s) => ((Math.max(0, s.distanceToRouteMiles) * 2) / DETOUR_SPEED_MPH) * 60);
+  // A vehicle-specific curve can still be capped by the user's own max charging speed.
+  const chargeTables = stations.map((s) => buildChargeTimeTable(
+    curve,
+    model.batteryKwh,
+    Math.min(effectiveStationPowerKw(s), maxChargingSpeedKw)
+  ));
+
+  // labels[node][arrivalSoc] = cheapest way to arrive there.
+  const labels: Array<Map<number, Label>> = Array.from({ length: nodeCount }, () => new Map());
+  const relax = (node: number, arrival: number, label: Label) => {
+    const existing = labels[node]!.get(arrival);
+    if (!existing || label.cost < existing.cost) labels[node]!.set(arrival, label);
+  };
+
+  const reachableFrom = (from: number): number[] => {
+    const out: number[] = [];
+    for (let to = from + 1; to < nodeCount; to += 1) {
+      if (markers[to]! - markers[from]! > maxLegMiles) break;
+      out.push(to);
+    }
+    return out;
+  };
+
+  for (const to of reachableFrom(0)) {
+    const arrival = Math.floor(startSoc - legPercent(0, to));
+    if (arrival < minArrival) continue;
+    const stationCost = to === destination ? 0 : STOP_OVERHEAD_MINUTES + detourMinutes[to - 1]!;
+    relax(to, arrival, { cost: stationCost, prevNode: 0, prevArrival: startSoc, departure: startSoc });
+  }
+
+  for (let node = 1; node < destination; node += 1) {
+    if (labels[node]!.size === 0) continue;
+    const table = chargeTables[node - 1]!;
+    const nextNodes = reachableFrom(node);
+    const legs = nextNodes.map((to) => legPercent(node, to));
+    // Only "just enough to reach node j" departures can be optimal; anything in between wastes time here.
+    const departures = [...new Set(legs.map((leg) => Math.ceil(leg + minArrival)))].filter((d) => d <= 100);
+
+    // Where the car leaves doesn't depend on how it arrived, so each departure only needs its cheapest arrival.
+    for (const departure of departures) {
+      let bestCost = Infinity;
+      let bestArrival = -1;
+      for (const [arrival, label] of labels[node]!) {
+        if (departure <= arrival) continue;
+        const cost = label.cost + table[departure]! - table[arrival]!;
+        if (cost < bestCost) {
+          bestCost = cost;
+          bestArrival = arrival;
+        }
+      }
+      if (!Number.isFinite(bestCost)) continue;
+      for (let k = 0; k < nextNodes.length; k += 1) {
+        const to = nextNodes[k]!;
+        const nextArrival = Math.floor(departure - legs[k]!);
+        if (nextArrival < minArrival) continue;
+        const stationCost = to === destination ? 0 : STOP_OVERHEAD_MINUTES + detourMinutes[to - 1]!;
+        relax(to, nextArrival, {
+          cost: bestCost + stationCost,
+          prevNode: node,
+          prevArrival: bestArrival,
+          departure,
+        });
+      }
+    }
+  }
+
+  const drivingMinutes = Math.round(options.drivingMinutes);
+  let bestArrival: number | null = null;
+  let bestLabel: Label | null = null;
+  for (const [arrival, label] of labels[destination]!) {
+    if (!bestLabel || label.cost < bestLabel.cost || (label.cost === bestLabel.cost && arrival > bestArrival!)) {
+      bestArrival = arrival;
+      bestLabel = label;
+    }
+  }
+
+  if (!bestLabel || bestArrival === null) {
+    return {
+      feasible: false,
+      stops: [],
+      start_soc_percent: startSoc,
+      min_arrival_percent: minArrival,
+      destination_arrival_soc_percent: null,
+      max_charging_speed_kw: maxChargingSpeedKw,
+      charging_curve: curve,
+      total_charge_minutes: 0,
+      total_stop_minutes: 0,
+      driving_minutes: drivingMinutes,
+      total_trip_minutes: drivingMinutes,
+      message: `No charging plan keeps every leg above ${minArrival}% with the stations in this corridor.`,
+    };
+  }
+
+  const stops: ChargingStop[] = [];
+  let node = bestLabel.prevNode;
+  let label: Label = bestLabel;
+  while (node !== 0) {
+    const station = stations[node - 1]!;
+    const arrival = label.prevArrival;
+    const departure = label.departure;
+    const chargeMinutes = chargeTables[node - 1]![departure]! - chargeTables[node - 1]![arrival]!;
+    const energyAdded = ((departure - arrival) / 100) * model.batteryKwh;
+    stops.push({
+      station_id: station.id,
+      station_name: station.name,
+      city: station.city,
+      state: station.state,
+      distance_along_route_miles: station.distanceAlongRouteMiles,
+      station_max_power_kw: station.maxPowerKw,
+      arrival_soc_percent: arrival,
+      departure_soc_percent: departure,
+      energy_added_kwh: round1(energyAdded),
+      charge_minutes: Math.round(chargeMinutes),
+      average_power_kw: chargeMinutes > 0 ? Math.round(energyAdded / (chargeMinutes / 60)) : 0,
+      detour_minutes: Math.round(detourMinutes[node - 1]!),
+    });
+    const previous = labels[node]!.get(arrival)!;
+    node = previous.prevNode;
+    label = previous;
+  }
+  stops.reverse();
+
+  const totalChargeMinutes = stops.reduce((sum, s) => sum + s.charge_minutes, 0);
+  const totalStopMinutes = Math.round(bestLabel.cost);
+
+  return {
+    feasible: true,
+    stops,
+    start_soc_percent: startSoc,
+    min_arrival_percent: minArrival,
+    destination_arrival_soc_percent: bestArrival,
+    max_charging_speed_kw: maxChargingSpeedKw,
+    charging_curve: curve,
+    total_charge_minutes: totalChargeMinutes,
+    total_stop_minutes: totalStopMinutes,
+    driving_minutes: drivingMinutes,
+    total_trip_minutes: drivingMinutes + totalStopMinutes,
+  };
+}
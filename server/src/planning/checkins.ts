@@ -0,0 +1,48 @@
+// User check-ins as a live status signal.
+//
+// Station status otherwise only changes when the daily import catches up with the upstream source. A
+// recent check-in saying charging failed (or that no stall worked) marks the station reported down until
+// someone checks in again with a better outcome or the report ages out of the window; the ranking then
+// treats it like a non-operational station.
+
+export const CHECKIN_OUTCOMES = ['charged_ok', 'partial', 'failed', 'iced'] as const;
+
+export type StationCheckinOutcome = (typeof CHECKIN_OUTCOMES)[number];
+
+export type StationCheckin = {
+  outcome: StationCheckinOutcome;
+  working_stalls: number | null;
+  created_at: Date | string;
+};
+
+export type StationCheckinSummary = {
+  // Check-ins inside the window, and how many of them failed.
+  recent_checkins: number;
+  recent_failures: number;
+  last_outcome: StationCheckinOutcome | null;
+  last_checkin_at: Date | string | null;
+  // The latest check-in in the window reports the station not working.
+  reported_down: boolean;
+};
+
+export function parseCheckinOutcome(value: unknown): StationCheckinOutcome | null {
+  if (typeof value !== 'string') return null;
+  const normalized = value.trim().toLowerCase();
+  return (CHECKIN_OUTCOMES as readonly string[]).includes(normalized) ? (normalized as StationCheckinOutcome) : null;
+}
+
+function isFailure(checkin: StationCheckin): boolean {
+  return checkin.outcome === 'failed' || checkin.working_stalls === 0;
+}
+
+/** Summarise a station's check-ins from inside the window, newest first. */
+export function summarizeCheckins(checkins: StationCheckin[]): StationCheckinSummary {
+  const latest = checkins[0] ?? null;
+  return {
+    recent_checkins: checkins.length,
+    recent_failures: checkins.filter(isFailure).length,
+    last_outcome: latest?.outcome ?? null,
+    last_checkin_at: latest?.created_at ?? null,
+    reported_down: latest ? isFailure(latest) : false,
+  };
+}
@@ -0,0 +1,45 @@
+// Clock-time ETAs along a route.
+//
+// Driving time is spread evenly over the route's miles (the same average-speed assumption the weather
+// sampling uses), and every charging stop before a point adds its charge, detour and stop overhead time.
+
+import { STOP_OVERHEAD_MINUTES, type ChargingPlan } from './chargingPlan.js';
+
+export type EtaTimeline = {
+  departAt: Date;
+  totalMiles: number;
+  drivingMinutes: number;
+  // Charging stops in route order with the minutes spent off the road at each.
+  stops: Array<{ distanceAlongRouteMiles: number; dwellMinutes: number }>;
+};
+
+export function etaTimeline(options: {
+  departAt: Date;
+  totalMiles: number;
+  drivingMinutes: number;
+  plan?: ChargingPlan;
+}): EtaTimeline {
+  const stops = options.plan?.feasible
+    ? options.plan.stops.map((stop) => ({
+      distanceAlongRouteMiles: stop.distance_along_route_miles,
+      dwellMinutes: stop.charge_minutes + stop.detour_minutes + STOP_OVERHEAD_MINUTES,
+    }))
+    : [];
+  return { departAt: options.departAt, totalMiles: options.totalMiles, drivingMinutes: options.drivingMinutes, stops };
+}
+
+/** Arrival time at `miles` along the route; a charging stop at exactly `miles` is not included. */
+export function etaAtMiles(timeline: EtaTimeline, miles: number): Date {
+  const fraction = timeline.totalMiles > 0 ? Math.max(0, Math.min(1, miles / timeline.totalMiles)) : 0;
+  let minutes = timeline.drivingMinutes * fraction;
+  for (const stop of timeline.stops) {
+    if (stop.distanceAlongRouteMiles < miles) minutes += stop.dwellMinutes;
+  }
+  return new Date(timeline.departAt.getTime() + minutes * 60_000);
+}
+
+/** Arrival time at the destination, after every charging stop. */
+export function etaAtDestination(timeline: EtaTimeline): Date {
+  const dwellMinutes = timeline.stops.reduce((sum, stop) => sum + stop.dwellMinutes, 0);
+  return new Date(timeline.departAt.getTime() + (timeline.drivingMinutes + dwellMinutes) * 60_000);
+}
@@ -0,0 +1,161 @@
+// Station rank scores and tiers.
+//
+// A station's score (0-100) is a weighted mix of 0-1 factor scores — peak power, stall count, how close it
+// sits to the route and amenities nearby — scaled down for non-operational and unreliable sites. The
+// weights and tier thresholds come from the request's `ranking`, the user's saved preferences, or the
+// defaults below (in that order); the defaults reproduce the original fixed formula.
+
+export type RankTier = 'A' | 'B' | 'C' | 'D';
+
+export type StationRankingWeights = {
+  // Relative 0-1 weights; they're normalised by their sum, so only the ratios matter.
+  power: number;
+  stalls: number;
+  detour: number;
+  amenities: number;
+  // 0-1: how strongly reliability scales the score (1 = fully, 0 = ignored, including the tier cap).
+  reliability: number;
+};
+
+// Minimum score for each tier; anything below `c` is D.
+export type StationRankingTiers = {
+  a: number;
+  b: number;
+  c: number;
+};
+
+export type StationRanking = {
+  weights: StationRankingWeights;
+  tiers: StationRankingTiers;
+};
+
+export const DEFAULT_STATION_RANKING: StationRanking = {
+  weights: { power: 0.5, stalls: 0.35, detour: 0.15, amenities: 0, reliability: 1 },
+  tiers: { a: 85, b: 70, c: 55 },
+};
+
+const WEIGHT_KEYS = ['power', 'stalls', 'detour', 'amenities', 'reliability'] as const;
+const TIER_KEYS = ['a', 'b', 'c'] as const;
+
+export type StationRankFactors = {
+  // 0-1 factor scores.
+  power: number;
+  stalls: number;
+  detour: number;
+  amenities: number;
+  operational: boolean;
+  // 0-1, or null when there isn't enough history to say.
+  reliability: number | null;
+};
+
+function clamp01(value: number): number {
+  if (!Number.isFinite(value)) return 0;
+  return Math.max(0, Math.min(1, value));
+}
+
+export function scoreStation(factors: StationRankFactors, ranking: StationRanking): number {
+  const { weights } = ranking;
+  const total = weights.power + weights.stalls + weights.detour + weights.amenities;
+  const weighted = total > 0
+    ? (
+      (factors.power * weights.power)
+      + (factors.stalls * weights.stalls)
+      + (factors.detour * weights.detour)
+      + (factors.amenities * weights.amenities)
+    ) / total
+    : 0;
+  const statusMultiplier = factors.operational ? 1 : 0.4;
+  const reliabilityMultiplier = factors.reliability === null ? 1 : 1 - weights.reliability * (1 - clamp01(factors.reliability));
+
+  const score = Math.round(clamp01(weighted) * 100 * statusMultiplier * reliabilityMultiplier);
+  return Math.max(0, Math.min(100, score));
+}
+
+export function stationRankTier(score: number, tiers: StationRankingTiers): RankTier {
+  if (!Number.isFinite(score)) return 'D';
+  if (score >= tiers.a) return 'A';
+  if (score >= tiers.b) return 'B';
+  if (score >= tiers.c) return 'C';
+  return 'D';
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function asNumber(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim()) {
+    const parsed = Number(value.trim());
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+/**
+ * Overlay a (possibly partial) `{ weights, tiers }` object from a request or PATCH body onto `base`.
+ * Returns the error message for a 400 when a key is unknown or a value is out of range.
+ */
+export function parseStationRanking(raw: unknown, base: StationRanking): { ranking: StationRanking } | { error: string } {
+  if (!isPlainObject(raw)) return { error: 'ranking must be an object with optional "weights" and "tiers"' };
+
+  const unknownKey = Object.keys(raw).find((key) => key !== 'weights' && key !== 'tiers');
+  if (unknownKey) return { error: `Unknown ranking field "${unknownKey}"` };
+
+  const weights = { ...base.weights };
+  if (raw.weights !== undefined) {
+    if (!isPlainObject(raw.weights)) return { error: 'ranking.weights must be an object' };
+    for (const [key, value] of Object.entries(raw.weights)) {
+      if (!(WEIGHT_KEYS as readonly string[]).includes(key)) {
+        return { error: `ranking.weights.${key} is not a ranking factor (${WEIGHT_KEYS.join(', ')})` };
+      }
+      const weight = asNumber(value);
+      if (weight === null || weight < 0 || weight > 1) {
+        return { error: `ranking.weights.${key} must be between 0 and 1` };
+      }
+      weights[key as keyof StationRankingWeights] = weight;
+    }
+  }
+  if (weights.power + weights.stalls + weights.detour + weights.amenities <= 0) {
+    return { error: 'ranking.weights needs at least one of power, stalls, detour or amenities above 0' };
+  }
+
+  const tiers = { ...base.tiers };
+  if (raw.tiers !== undefined) {
+    if (!isPlainObject(raw.tiers)) return { error: 'ranking.tiers must be an object' };
+    for (const [key, value] of Object.entries(raw.tiers)) {
+      if (!(TIER_KEYS as readonly string[]).includes(key)) {
+        return { error: `ranking.tiers.${key} is not a tier (${TIER_KEYS.join(', ')})` };
+      }
+      const threshold = asNumber(value);
+      if (threshold === null || threshold < 0 || threshold > 100) {
+        return { error: `ranking.tiers.${key} must be between 0 and 100` };
+      }
+      tiers[key as keyof StationRankingTiers] = Math.round(threshold);
+    }
+  }
+  if (!(tiers.a >= tiers.b && tiers.b >= tiers.c)) {
+    return { error: 'ranking.tiers must satisfy a >= b >= c' };
+  }
+
+  // Rebuilt in a fixed key order so equal rankings serialise (and cache) identically.
+  return {
+    ranking: {
+      weights: {
+        power: weights.power,
+        stalls: weights.stalls,
+        detour: weights.detour,
+        amenities: weights.amenities,
+        reliability: weights.reliability,
+      },
+      tiers: { a: tiers.a, b: tiers.b, c: tiers.c },
+    },
+  };
+}
+
+/** A saved `user_preferences.ranking` value over the defaults; anything unusable falls back to the defaults. */
+export function storedStationRanking(stored: unknown): StationRanking {
+  if (stored === null || stored === undefined) return DEFAULT_STATION_RANKING;
+  const parsed = parseStationRanking(stored, DEFAULT_STATION_RANKING);
+  return 'ranking' in parsed ? parsed.ranking : DEFAULT_STATION_RANKING;
+}
@@ -0,0 +1,85 @@
+// Station reliability from ingest history.
+//
+// Each ingest run is a sample of whether a station was operational. station_history only records
+// changes, so the status at each of a source's last N runs is replayed from the station's status
+// changes: whatever the latest change at or before a run set it to. Reliability is the share of
+// those runs the station was operational ('E') in. It feeds the rank score as a multiplier and caps
+// the tier, so a site that flaps between operational and down can't rank A on power alone.
+
+// Fewer observed runs than this and there's no verdict yet (the station is ranked as if reliable).
+export const MIN_RELIABILITY_RUNS = 5;
+
+// [minimum reliability, best tier allowed].
+const TIER_CAPS: Array<[number, 'A' | 'B' | 'C' | 'D']> = [
+  [0.95, 'A'],
+  [0.8, 'B'],
+  [0.5, 'C'],
+  [0, 'D'],
+];
+
+export type StationStatusEvent = {
+  run_id: number;
+  change_type: 'added' | 'updated' | 'removed';
+  // Status before / after this run; null when the change didn't touch status_code.
+  status_from: string | null;
+  status_to: string | null;
+};
+
+export type StationReliability = {
+  // 0-1 share of observed runs the station was operational in.
+  reliability: number;
+  runs_observed: number;
+  runs_down: number;
+};
+
+/**
+ * Replay `events` (the station's history, oldest first) across `runIds` (the owning source's recent
+ * successful runs, oldest first). Runs before the station was added or after it was removed don't
+ * count. Stations that predate history tracking start from the `from` of their first status change,
+ * or their current status when it has never changed.
+ */
+export function computeStationReliability(
+  currentStatus: string | null,
+  runIds: number[],
+  events: StationStatusEvent[]
+): StationReliability | null {
+  if (runIds.length === 0) return null;
+
+  const firstStatusEvent = events.find((event) => event.status_from !== null || event.status_to !== null);
+  let status: string | null;
+  if (!firstStatusEvent) {
+    status = currentStatus;
+  } else if (firstStatusEvent.change_type === 'added') {
+    status = null;
+  } else {
+    status = firstStatusEvent.status_from;
+  }
+
+  let eventIndex = 0;
+  let observed = 0;
+  let down = 0;
+
+  for (const runId of runIds) {
+    while (eventIndex < events.length && events[eventIndex]!.run_id <= runId) {
+      const event = events[eventIndex]!;
+      if (event.change_type === 'removed') status = null;
+      else if (event.status_to !== null) status = event.status_to;
+      eventIndex += 1;
+    }
+    if (status === null) continue;
+    observed += 1;
+    if (status !== 'E') down += 1;
+  }
+
+  if (observed < MIN_RELIABILITY_RUNS) return null;
+  return { reliability: (observed - down) / observed, runs_observed: observed, runs_down: down };
+}
+
+/** Best tier a station with this reliability may get (`null` = unknown, no cap). */
+export function reliabilityTierCap(reliability: number | null): 'A' | 'B' | 'C' | 'D' {
+  if (reliability === null) return 'A';
+  for (const [minimum, tier] of TIER_CAPS) {
+    if (reliability >= minimum) return tier;
+  }
+  return 'D';
+}
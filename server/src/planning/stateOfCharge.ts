@@ -0,0 +1,193 @@
+// Battery state-of-charge simulation along a planned route.
+//
+// Energy per leg = flat-road consumption (from mi/kWh) + climbing cost - regen credit on descent.
+// Elevation is supplied by the caller as total gain/loss between two mile markers so this module
+// stays independent of how the route geometry/profile is stored. An optional weather multiplier
+// scales the flat-road part only (see weatherAdjustment.ts).
+
+const GRAVITY_M_PER_S2 = 9.81;
+const JOULES_PER_KWH = 3_600_000;
+const DEFAULT_VEHICLE_MASS_KG = 2100;
+const DEFAULT_EFFICIENCY_MI_PER_KWH = 3.5;
+const DRIVETRAIN_EFFICIENCY = 0.9;
+const REGEN_EFFICIENCY = 0.6;
+
+export const DEFAULT_START_SOC_PERCENT = 100;
+export const DEFAULT_CHARGE_TO_PERCENT = 80;
+
+export type ElevationChange = {
+  gain_meters: number;
+  loss_meters: number;
+};
+
+export type BatteryModel = {
+  batteryKwh: number;
+  efficiencyMiPerKwh: number;
+  massKg: number;
+};
+
+export type SocStop = {
+  id: number;
+  distanceAlongRouteMiles: number;
+};
+
+export type SocStationEntry = {
+  station_id: number;
+  distance_along_route_miles: number;
+  leg_energy_kwh: number;
+  arrival_soc_percent: number;
+  departure_soc_percent: number;
+  charges: boolean;
+};
+
+export type SocTimeline = {
+  battery_kwh: number;
+  efficiency_mi_per_kwh: number;
+  start_soc_percent: number;
+  min_arrival_percent: number;
+  charge_to_percent: number;
+  stations: SocStationEntry[];
+  destination_leg_energy_kwh: number;
+  destination_arrival_soc_percent: number;
+  lowest_arrival_soc_percent: number;
+  reachable: boolean;
+};
+
+function positiveOrNull(value: number | null | undefined): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Fill in whichever of battery size / efficiency the user did not provide so that
+ * `batteryKwh * efficiencyMiPerKwh` matches their stated range.
+ */
+export function resolveBatteryModel(options: {
+  rangeMiles: number;
+  batteryKwh?: number | null;
+  efficiencyMiPerKwh?: number | null;
+  massKg?: number | null;
+}): BatteryModel | null {
+  const range = positiveOrNull(options.rangeMiles);
+  let batteryKwh = positiveOrNull(options.batteryKwh);
+  let efficiency = positiveOrNull(options.efficiencyMiPerKwh);
+
+  if (batteryKwh === null && efficiency === null) {
+    if (range === null) return null;
+    efficiency = DEFAULT_EFFICIENCY_MI_PER_KWH;
+    batteryKwh = range / efficiency;
+  } else if (batteryKwh === null) {
+    if (range === null) return null;
+    batteryKwh = range / efficiency!;
+  } else if (efficiency === null) {
+    efficiency = range !== null ? range / batteryKwh : DEFAULT_EFFICIENCY_MI_PER_KWH;
+  }
+
+  return {
+    batteryKwh: batteryKwh!,
+    efficiencyMiPerKwh: efficiency!,
+    massKg: positiveOrNull(options.massKg) ?? DEFAULT_VEHICLE_MASS_KG,
+  };
+}
+
+export function estimateLegEnergyKwh(model: BatteryModel, distanceMiles: number, elevation: ElevationChange | null): number {
+  const flatKwh = Math.max(0, distanceMiles) / model.efficiencyMiPerKwh;
+  if (!elevation) return flatKwh;
+
+  const joulesPerMeter = model.massKg * GRAVITY_M_PER_S2;
+  const climbKwh = (Math.max(0, elevation.gain_meters) * joulesPerMeter) / DRIVETRAIN_EFFICIENCY / JOULES_PER_KWH;
+  const regenKwh = (Math.max(0, elevation.loss_meters) * joulesPerMeter * REGEN_EFFICIENCY) / JOULES_PER_KWH;
+
+  // Regen can offset climbing and rolling losses but never turns a leg net-positive.
+  return Math.max(0, flatKwh + climbKwh - regenKwh);
+}
+
+/**
+ * Walk the route from start to destination, charging only where the next leg would otherwise
+ * drop below `minArrivalPercent`. Charging targets `chargeToPercent`, or more when the next leg needs it.
+ * When `plannedDepartures` (station id -> departure SoC %) is given, charging happens only at those stations.
+ */
+export function simulateStateOfCharge(options: {
+  model: BatteryModel;
+  stops: SocStop[];
+  totalMiles: number;
+  startSocPercent: number;
+  minArrivalPercent: number;
+  chargeToPercent?: number;
+  plannedDepartures?: Map<number, number>;
+  elevationBetween: (fromMiles: number, toMiles: number) => ElevationChange | null;
+  consumptionFactorBetween?: (fromMiles: number, toMiles: number) => number;
+}): SocTimeline {
+  const { model } = options;
+  const chargeToPercent = options.chargeToPercent ?? DEFAULT_CHARGE_TO_PERCENT;
+  const ordered = [...options.stops].sort((a, b) => a.distanceAlongRouteMiles - b.distanceAlongRouteMiles);
+
+  const legPercents: number[] = [];
+  const legEnergies: number[] = [];
+  let prevMiles = 0;
+  for (const marker of [...ordered.map((s) => s.distanceAlongRouteMiles), options.totalMiles]) {
+    const fromMiles = prevMiles;
+    const toMiles = Math.max(fromMiles, marker);
+    const factor = options.consumptionFactorBetween?.(fromMiles, toMiles) ?? 1;
+    const energy = estimateLegEnergyKwh(model, (toMiles - fromMiles) * factor, options.elevationBetween(fromMiles, toMiles));
+    legEnergies.push(energy);
+    legPercents.push((energy / model.batteryKwh) * 100);
+    prevMiles = toMiles;
+  }
+
+  const stations: SocStationEntry[] = [];
+  let soc = options.startSocPercent;
+  let lowest = Infinity;
+  let reachable = true;
+
+  for (let i = 0; i < ordered.length; i += 1) {
+    const arrival = soc - legPercents[i]!;
+    if (arrival < 0) reachable = false;
+    lowest = Math.min(lowest, arrival);
+
+    let departure = Math.max(0, arrival);
+    let charges: boolean;
+    if (options.plannedDepartures) {
+      const planned = options.plannedDepartures.get(ordered[i]!.id);
+      charges = planned !== undefined && planned > departure;
+      if (charges) departure = Math.min(100, planned!);
+    } else {
+      const nextLegPercent = legPercents[i + 1]!;
+      charges = departure - nextLegPercent < options.minArrivalPercent;
+      if (charges) {
+        const needed = nextLegPercent + options.minArrivalPercent;
+        departure = Math.min(100, Math.max(departure, chargeToPercent, needed));
+      }
+    }
+
+    stations.push({
+      station_id: ordered[i]!.id,
+      distance_along_route_miles: ordered[i]!.distanceAlongRouteMiles,
+      leg_energy_kwh: round1(legEnergies[i]!),
+      arrival_soc_percent: Math.round(Math.max(0, arrival)),
+      departure_soc_percent: Math.round(departure),
+      charges,
+    });
+    soc = departure;
+  }
+
+  const destinationArrival = soc - legPercents[legPercents.length - 1]!;
+  if (destinationArrival < 0) reachable = false;
+  lowest = Math.min(lowest, destinationArrival);
+
+  return {
+    battery_kwh: round1(model.batteryKwh),
+    efficiency_mi_per_kwh: Math.round(model.efficiencyMiPerKwh * 100) / 100,
+    start_soc_percent: Math.round(options.startSocPercent),
+    min_arrival_percent: Math.round(options.minArrivalPercent),
+    charge_to_percent: Math.round(chargeToPercent),
+    stations,
+    destination_leg_energy_kwh: round1(legEnergies[legEnergies.length - 1]!),
+    destination_arrival_soc_percent: Math.round(Math.max(0, destinationArrival)),
+    lowest_arrival_soc_percent: Math.round(Math.max(0, lowest)),
+    reachable,
+  };
+}
@@ -0,0 +1,192 @@
+// Weather-adjusted consumption model.
+//
+// Rated range assumes mild temperatures and still air. Cold raises consumption (cabin/battery heating,
+// denser air, less efficient cells) and a headwind raises aerodynamic drag, which dominates at highway
+// speed. Both are expressed as a multiplier on flat-road consumption: 1.25 means 25% more kWh per mile,
+// i.e. range divided by 1.25.
+
+const HIGHWAY_SPEED_MPH = 65;
+// Share of highway consumption that is aerodynamic drag (scales with airspeed squared).
+const AERO_SHARE = 0.6;
+const MAX_CONSUMPTION_FACTOR = 2;
+
+// [temperature °F, consumption multiplier]; interpolated, flat beyond the ends.
+const TEMPERATURE_CURVE: Array<[number, number]> = [
+  [-10, 1.55],
+  [0, 1.45],
+  [20, 1.3],
+  [32, 1.2],
+  [50, 1.08],
+  [65, 1],
+  [80, 1],
+  [95, 1.08],
+  [110, 1.15],
+];
+
+export type WeatherSample = {
+  distanceAlongRouteMiles: number;
+  temperatureF: number;
+  windSpeedMph: number;
+  // Meteorological convention: the direction the wind blows *from*, degrees clockwise from north.
+  windDirectionDeg: number;
+};
+
+export type ConditionsAtMile = {
+  distance_along_route_miles: number;
+  temperature_f: number;
+  headwind_mph: number;
+  consumption_factor: number;
+};
+
+export type RangeLeg = {
+  from_miles: number;
+  to_miles: number;
+  distance_miles: number;
+  nominal_range_miles: number;
+  adjusted_range_miles: number;
+  consumption_factor: number;
+  min_temperature_f: number | null;
+  max_headwind_mph: number | null;
+  // Whether the leg fits in the adjusted range while keeping the minimum arrival buffer.
+  within_range: boolean;
+};
+
+export type RangeAdjustment = {
+  nominal_range_miles: number;
+  effective_range_miles: number;
+  consumption_factor: number;
+  samples: ConditionsAtMile[];
+  legs: RangeLeg[];
+};
+
+export type ConsumptionProfile = {
+  samples: ConditionsAtMile[];
+  // Worst (highest) multiplier anywhere on the route, never below 1; used for route-wide thresholds.
+  worstFactor: number;
+  factorBetween: (fromMiles: number, toMiles: number) => number;
+};
+
+function interpolate(curve: Array<[number, number]>, x: number): number {
+  if (x <= curve[0]![0]) return curve[0]![1];
+  for (let i = 1; i < curve.length; i += 1) {
+    const [x1, y1] = curve[i]!;
+    if (x <= x1) {
+      const [x0, y0] = curve[i - 1]!;
+      const t = x1 > x0 ? (x - x0) / (x1 - x0) : 0;
+      return y0 + (y1 - y0) * t;
+    }
+  }
+  return curve[curve.length - 1]![1];
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/** Positive = wind against the direction of travel, negative = tailwind. */
+export function headwindComponentMph(windSpeedMph: number, windFromDeg: number, travelBearingDeg: number): number {
+  if (!Number.isFinite(windSpeedMph) || !Number.isFinite(windFromDeg) || !Number.isFinite(travelBearingDeg)) return 0;
+  const angle = ((windFromDeg - travelBearingDeg) * Math.PI) / 180;
+  return Math.max(0, windSpeedMph) * Math.cos(angle);
+}
+
+export function consumptionFactorForConditions(temperatureF: number, headwindMph: number): number {
+  const temperatureFactor = Number.isFinite(temperatureF) ? interpolate(TEMPERATURE_CURVE, temperatureF) : 1;
+  const clampedWind = Math.max(-HIGHWAY_SPEED_MPH / 2, Math.min(HIGHWAY_SPEED_MPH, Number.isFinite(headwindMph) ? headwindMph : 0));
+  const airspeedRatio = (HIGHWAY_SPEED_MPH + clampedWind) / HIGHWAY_SPEED_MPH;
+  const windFactor = (1 - AERO_SHARE) + AERO_SHARE * airspeedRatio * airspeedRatio;
+  return Math.min(MAX_CONSUMPTION_FACTOR, temperatureFactor * windFactor);
+}
+
+/**
+ * Turn weather samples into a piecewise-constant consumption multiplier along the route: each mile
+ * uses the nearest sample. `bearingAt` gives the direction of travel (degrees from north) at a mile marker.
+ */
+export function buildConsumptionProfile(options: {
+  samples: WeatherSample[];
+  bearingAt: (miles: number) => number | null;
+}): ConsumptionProfile {
+  const samples: ConditionsAtMile[] = options.samples
+    .filter((s) => Number.isFinite(s.distanceAlongRouteMiles))
+    .sort((a, b) => a.distanceAlongRouteMiles - b.distanceAlongRouteMiles)
+    .map((s) => {
+      const bearing = options.bearingAt(s.distanceAlongRouteMiles);
+      const headwind = bearing === null ? 0 : headwindComponentMph(s.windSpeedMph, s.windDirectionDeg, bearing);
+      return {
+        distance_along_route_miles: round1(s.distanceAlongRouteMiles),
+        temperature_f: Math.round(s.temperatureF),
+        headwind_mph: Math.round(headwind) || 0,
+        consumption_factor: Math.round(consumptionFactorForConditions(s.temperatureF, headwind) * 1000) / 1000,
+      };
+    });
+
+  if (samples.length === 0) {
+    return { samples, worstFactor: 1, factorBetween: () => 1 };
+  }
+
+  // Sample i covers the stretch between the midpoints to its neighbours.
+  const boundaries = samples.slice(1).map((s, i) => (samples[i]!.distance_along_route_miles + s.distance_along_route_miles) / 2);
+
+  const factorBetween = (fromMiles: number, toMiles: number): number => {
+    const start = Math.min(fromMiles, toMiles);
+    const end = Math.max(fromMiles, toMiles);
+    if (end - start <= 0) {
+      const index = boundaries.findIndex((b) => start < b);
+      return samples[index === -1 ? samples.length - 1 : index]!.consumption_factor;
+    }
+    let weighted = 0;
+    for (let i = 0; i < samples.length; i += 1) {
+      const lo = Math.max(start, i === 0 ? -Infinity : boundaries[i - 1]!);
+      const hi = Math.min(end, i === samples.length - 1 ? Infinity : boundaries[i]!);
+      if (hi > lo) weighted += (hi - lo) * samples[i]!.consumption_factor;
+    }
+    return weighted / (end - start);
+  };
+
+  return {
+    samples,
+    worstFactor: Math.max(1, ...samples.map((s) => s.consumption_factor)),
+    factorBetween,
+  };
+}
+
+/** Adjusted vs nominal range for each leg between consecutive stop markers (origin and destination included). */
+export function summarizeRangeAdjustment(options: {
+  profile: ConsumptionProfile;
+  rangeMiles: number;
+  minArrivalPercent: number;
+  stopMiles: number[];
+  totalMiles: number;
+}): RangeAdjustment {
+  const { profile, rangeMiles } = options;
+  const usableFraction = Math.max(0, 1 - Math.max(0, Math.min(100, options.minArrivalPercent)) / 100);
+  const markers = [0, ...options.stopMiles.filter((m) => m > 0 && m < options.totalMiles).sort((a, b) => a - b), options.totalMiles];
+
+  const legs: RangeLeg[] = [];
+  for (let i = 1; i < markers.length; i += 1) {
+    const from = markers[i - 1]!;
+    const to = markers[i]!;
+    const factor = profile.factorBetween(from, to);
+    const inLeg = profile.samples.filter((s) => s.distance_along_route_miles >= from && s.distance_along_route_miles <= to);
+    const adjustedRange = rangeMiles / factor;
+    legs.push({
+      from_miles: round1(from),
+      to_miles: round1(to),
+      distance_miles: round1(to - from),
+      nominal_range_miles: Math.round(rangeMiles),
+      adjusted_range_miles: Math.round(adjustedRange),
+      consumption_factor: Math.round(factor * 1000) / 1000,
+      min_temperature_f: inLeg.length > 0 ? Math.min(...inLeg.map((s) => s.temperature_f)) : null,
+      max_headwind_mph: inLeg.length > 0 ? Math.max(...inLeg.map((s) => s.headwind_mph)) : null,
+      within_range: to - from <= adjustedRange * usableFraction,
+    });
+  }
+
+  return {
+    nominal_range_miles: Math.round(rangeMiles),
+    effective_range_miles: Math.round(rangeMiles / profile.worstFactor),
+    consumption_factor: Math.round(profile.worstFactor * 1000) / 1000,
+    samples: profile.samples,
+    legs,
+  };
+}
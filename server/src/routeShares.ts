@@ -0,0 +1,47 @@
+// Saved route share links.
+//
+// A share token is a random, unguessable string that gives anyone holding it read-only access to one saved
+// route through `GET /api/shared/:token`, unlike the sequential route id. The owner can list, create and
+// revoke tokens per route; a token can also carry an expiry. Tokens are stored as issued so the owner can
+// copy an existing link again; they grant nothing beyond viewing that one route.
+
+import crypto from 'node:crypto';
+
+export const MAX_SHARE_EXPIRY_DAYS = 365;
+
+// 24 random bytes, base64url-encoded.
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{32}$/;
+
+export type SavedRouteShareRow = {
+  id: number;
+  saved_route_id: number;
+  token: string;
+  created_at: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+};
+
+export type ShareStatus = 'active' | 'expired' | 'revoked';
+
+export function createShareToken(): string {
+  return crypto.randomBytes(24).toString('base64url');
+}
+
+export function isShareToken(value: string): boolean {
+  return TOKEN_PATTERN.test(value);
+}
+
+/** `expiresInDays` from a create body: omitted or null for a link that never expires. */
+export function parseShareExpiresInDays(raw: unknown): { days: number | null } | { error: string } {
+  if (raw === undefined || raw === null) return { days: null };
+  if (typeof raw !== 'number' || !Number.isInteger(raw) || raw < 1 || raw > MAX_SHARE_EXPIRY_DAYS) {
+    return { error: `expiresInDays must be a whole number of days from 1 to ${MAX_SHARE_EXPIRY_DAYS}, or null` };
+  }
+  return { days: raw };
+}
+
+export function shareStatus(share: Pick<SavedRouteShareRow, 'expires_at' | 'revoked_at'>, now: Date = new Date()): ShareStatus {
+  if (share.revoked_at) return 'revoked';
+  if (share.expires_at && new Date(share.expires_at).getTime() <= now.getTime()) return 'expired';
+  return 'active';
+}
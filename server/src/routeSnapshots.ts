@@ -0,0 +1,126 @@
+// Saved route response snapshots.
+//
+// A snapshot is the `POST /api/route` response as the user saw it when saving, stored verbatim so the route
+// reopens without geocoding, routing or station queries. Comparing it with the current `stations` table
+// shows what the daily refresh has changed since: stations that went down (or came back), changed power or
+// stall count, or disappeared.
+
+export type SnapshotStation = {
+  id: number;
+  station_name: string;
+  distance_along_route_miles: number | null;
+  status_code: string | null;
+  max_power_kw: number | null;
+  ev_dc_fast_num: number | null;
+};
+
+export type CurrentStationRow = {
+  id: number;
+  station_name: string;
+  status_code: string | null;
+  max_power_kw: number | null;
+  ev_dc_fast_num: number | null;
+};
+
+type StationState = {
+  status_code: string | null;
+  max_power_kw: number | null;
+  ev_dc_fast_num: number | null;
+};
+
+export type SnapshotStationChange = {
+  station_id: number;
+  station_name: string;
+  distance_along_route_miles: number | null;
+  // `status_changed` wins over `updated` when both apply.
+  change: 'removed' | 'status_changed' | 'updated';
+  before: StationState;
+  after: StationState | null;
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function numberOrNull(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+/** Check a snapshot from a create/update body looks like a route response; the contents are stored as sent. */
+export function parseRouteSnapshot(raw: unknown): { snapshot: Record<string, unknown> } | { error: string } {
+  if (!isPlainObject(raw)) return { error: 'snapshot must be a route response object' };
+  if (!Array.isArray(raw.points) || !Array.isArray(raw.geometry) || !isPlainObject(raw.summary)) {
+    return { error: 'snapshot must include the route response points, geometry and summary' };
+  }
+  if (raw.stations !== undefined) {
+    if (!Array.isArray(raw.stations) || raw.stations.some((station) => !isPlainObject(station) || !Number.isInteger(station.id))) {
+      return { error: 'snapshot.stations must be an array of stations with numeric ids' };
+    }
+  }
+  return { snapshot: raw };
+}
+
+/** The stations a snapshot listed, reduced to the fields compared. */
+export function snapshotStations(snapshot: unknown): SnapshotStation[] {
+  if (!isPlainObject(snapshot) || !Array.isArray(snapshot.stations)) return [];
+  const stations: SnapshotStation[] = [];
+  for (const station of snapshot.stations) {
+    if (!isPlainObject(station) || !Number.isInteger(station.id)) continue;
+    stations.push({
+      id: station.id as number,
+      station_name: typeof station.station_name === 'string' ? station.station_name : `Station ${station.id}`,
+      distance_along_route_miles: numberOrNull(station.distance_along_route_miles),
+      status_code: typeof station.status_code === 'string' ? station.status_code : null,
+      max_power_kw: numberOrNull(station.max_power_kw),
+      ev_dc_fast_num: numberOrNull(station.ev_dc_fast_num),
+    });
+  }
+  return stations;
+}
+
+/** Changes between the snapshot's stations and their current rows, in route order. */
+export function compareSnapshotStations(
+  saved: SnapshotStation[],
+  current: Map<number, CurrentStationRow>
+): SnapshotStationChange[] {
+  const changes: SnapshotStationChange[] = [];
+  for (const station of saved) {
+    const before: StationState = {
+      status_code: station.status_code,
+      max_power_kw: station.max_power_kw,
+      ev_dc_fast_num: station.ev_dc_fast_num,
+    };
+    const row = current.get(station.id);
+    if (!row) {
+      changes.push({
+        station_id: station.id,
+        station_name: station.station_name,
+        distance_along_route_miles: station.distance_along_route_miles,
+        change: 'removed',
+        before,
+        after: null,
+      });
+      continue;
+    }
+
+    const after: StationState = {
+      status_code: row.status_code,
+      max_power_kw: row.max_power_kw,
+      ev_dc_fast_num: row.ev_dc_fast_num,
+    };
+    let change: SnapshotStationChange['change'] | null = null;
+    if (before.status_code !== after.status_code) change = 'status_changed';
+    else if (before.max_power_kw !== after.max_power_kw || before.ev_dc_fast_num !== after.ev_dc_fast_num) change = 'updated';
+    if (!change) continue;
+
+    changes.push({
+      station_id: station.id,
+      station_name: row.station_name,
+      distance_along_route_miles: station.distance_along_route_miles,
+      change,
+      before,
+      after,
+    });
+  }
+  return changes;
+}
@@ -6,6 +6,8 @@ import { config } from '../config.js';
 import { requireAuth } from '../middleware/auth.js';
 import { loginLimiter, signupLimiter } from '../middleware/rateLimiter.js';
 import { createLogger } from '../logger.js';
+import { getVehicleById } from '../vehicles.js';
+import { DEFAULT_STATION_RANKING, parseStationRanking, storedStationRanking, type StationRanking } from '../planning/ranking.js';
 
 const router = Router();
 const fallbackLog = createLogger('auth');
@@ -65,6 +67,10 @@ type PreferencesRow = {
   max_detour_factor: number;
   max_charging_speed_kw: number | null;
   connector_type: ConnectorType | null;
+  vehicle_id: number | null;
+  vehicle_mass_kg: number | null;
+  // null = default ranking weights and tiers.
+  ranking: StationRanking | null;
   created_at: string;
   updated_at: string;
 };
@@ -130,7 +136,7 @@ router.post('/signup', signupLimiter, async (req, res) => {
     const token = await createSession(created.id);
     setSessionCookie(res, token);
 
-    return res.status(201).json({ user: { id: created.id, email: created.email }, preferences });
+    return res.status(201).json({ user: { id: Number(created.id), email: created.email }, preferences });
   } catch (error) {
     getLog(req).error({ err: error }, 'Signup error');
     return res.status(500).json({ error: 'Failed to create account' });
@@ -162,7 +168,7 @@ router.post('/login', loginLimiter, async (req, res) => {
     const token = await createSession(user.id);
     setSessionCookie(res, token);
 
-    return res.json({ user: { id: user.id, email: user.email }, preferences });
+    return res.json({ user: { id: Number(user.id), email: user.email }, preferences });
   } catch (error) {
     getLog(req).error({ err: error }, 'Login error');
     return res.status(500).json({ error: 'Failed to log in' });
@@ -200,6 +206,9 @@ router.patch('/preferences', requireAuth, async (req, res) => {
     const rawMaxDetourFactor = hasOwn(body, 'maxDetourFactor') ? body.maxDetourFactor : hasOwn(body, 'max_detour_factor') ? body.max_detour_factor : undefined;
     const rawMaxChargingSpeedKw = hasOwn(body, 'maxChargingSpeedKw') ? body.maxChargingSpeedKw : hasOwn(body, 'max_charging_speed_kw') ? body.max_charging_speed_kw : undefined;
     const rawConnectorType = hasOwn(body, 'connectorType') ? body.connectorType : hasOwn(body, 'connector_type') ? body.connector_type : undefined;
+    const rawVehicleId = hasOwn(body, 'vehicleId') ? body.vehicleId : hasOwn(body, 'vehicle_id') ? body.vehicle_id : undefined;
+    const rawVehicleMassKg = hasOwn(body, 'vehicleMassKg') ? body.vehicleMassKg : hasOwn(body, 'vehicle_mass_kg') ? body.vehicle_mass_kg : undefined;
+    const rawRanking = hasOwn(body, 'ranking') ? body.ranking : undefined;
 
     const next: Omit<PreferencesRow, 'created_at' | 'updated_at'> = {
       user_id: userId,
@@ -213,6 +222,9 @@ router.patch('/preferences', requireAuth, async (req, res) => {
       max_detour_factor: existing.max_detour_factor,
       max_charging_speed_kw: existing.max_charging_speed_kw,
       connector_type: existing.connector_type,
+      vehicle_id: existing.vehicle_id,
+      vehicle_mass_kg: existing.vehicle_mass_kg,
+      ranking: existing.ranking,
     };
 
     if (hasOwn(body, 'vehicleName') || hasOwn(body, 'vehicle_name')) {
@@ -330,6 +342,43 @@ router.patch('/preferences', requireAuth, async (req, res) => {
       }
     }
 
+    if (rawVehicleId === null) {
+      next.vehicle_id = null;
+    } else {
+      const vehicleId = ensureNumber(rawVehicleId);
+      if (vehicleId !== null) {
+        const vehicle = Number.isInteger(vehicleId) && vehicleId > 0 ? await getVehicleById(vehicleId) : null;
+        if (!vehicle) {
+          return res.status(400).json({ error: 'vehicleId must reference a known vehicle profile or be null' });
+        }
+        next.vehicle_id = vehicle.id;
+      }
+    }
+
+    if (rawVehicleMassKg === null) {
+      next.vehicle_mass_kg = null;
+    } else {
+      const vehicleMassKg = ensureNumber(rawVehicleMassKg);
+      if (vehicleMassKg !== null) {
+        const rounded = Math.round(vehicleMassKg);
+        if (rounded < 500 || rounded > 10000) {
+          return res.status(400).json({ error: 'vehicleMassKg must be between 500 and 10000' });
+        }
+        next.vehicle_mass_kg = rounded;
+      }
+    }
+
+    // Partial updates apply over the saved ranking; null goes back to the defaults.
+    if (rawRanking === null) {
+      next.ranking = null;
+    } else if (rawRanking !== undefined) {
+      const parsed = parseStationRanking(rawRanking, storedStationRanking(existing.ranking));
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      next.ranking = JSON.stringify(parsed.ranking) === JSON.stringify(DEFAULT_STATION_RANKING) ? null : parsed.ranking;
+    }
+
     const updated = await pool.query<PreferencesRow>(
       `
         INSERT INTO user_preferences (
@@ -344,9 +393,12 @@ router.patch('/preferences', requireAuth, async (req, res) => {
           max_detour_factor,
           max_charging_speed_kw,
           connector_type,
+          vehicle_id,
+          vehicle_mass_kg,
+          ranking,
           updated_at
         )
-        VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11, NOW())
+        VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14, NOW())
         ON CONFLICT (user_id) DO UPDATE SET
           vehicle_name = EXCLUDED.vehicle_name,
           range_miles = EXCLUDED.range_miles,
@@ -358,6 +410,9 @@ router.patch('/preferences', requireAuth, async (req, res) => {
           max_detour_factor = EXCLUDED.max_detour_factor,
           max_charging_speed_kw = EXCLUDED.max_charging_speed_kw,
           connector_type = EXCLUDED.connector_type,
+          vehicle_id = EXCLUDED.vehicle_id,
+          vehicle_mass_kg = EXCLUDED.vehicle_mass_kg,
+          ranking = EXCLUDED.ranking,
           updated_at = NOW()
         RETURNING *
       `,
@@ -373,6 +428,9 @@ router.patch('/preferences', requireAuth, async (req, res) => {
         next.max_detour_factor,
         next.max_charging_speed_kw,
         next.connector_type,
+        next.vehicle_id,
+        next.vehicle_mass_kg,
+        next.ranking === null ? null : JSON.stringify(next.ranking),
       ]
     );
 
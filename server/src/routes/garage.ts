@@ -0,0 +1,380 @@
+import { Router } from 'express';
+import type { PoolClient } from 'pg';
+import { pool } from '../db.js';
+import { requireAuth } from '../middleware/auth.js';
+import { getUserVehicle, getVehicleById, toUserVehicle, type UserVehicleRow, type VehicleConnectorType } from '../vehicles.js';
+
+const router = Router();
+
+function ensureString(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  return trimmed;
+}
+
+function ensureNumber(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (!trimmed) return null;
+    const parsed = Number.parseFloat(trimmed);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function hasOwn(obj: Record<string, unknown>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(obj, key);
+}
+
+function pick(body: Record<string, unknown>, camel: string, snake: string): unknown {
+  return hasOwn(body, camel) ? body[camel] : hasOwn(body, snake) ? body[snake] : undefined;
+}
+
+function parseId(raw: string): number | null {
+  const id = Number.parseInt(raw, 10);
+  return Number.isFinite(id) && id > 0 ? id : null;
+}
+
+type VehicleFields = Pick<
+  UserVehicleRow,
+  'vehicle_id' | 'name' | 'range_miles' | 'efficiency_mi_per_kwh' | 'battery_kwh' | 'max_charging_speed_kw' | 'connector_type'
+>;
+
+/**
+ * Apply a camelCase/snake_case request body onto `base`. Linking a vehicle profile fills in
+ * every field the body does not set explicitly.
+ */
+async function applyVehicleFields(body: Record<string, unknown>, base: VehicleFields): Promise<VehicleFields | { error: string }> {
+  const next: VehicleFields = { ...base };
+
+  const rawVehicleId = pick(body, 'vehicleId', 'vehicle_id');
+  if (rawVehicleId === null) {
+    next.vehicle_id = null;
+  } else if (rawVehicleId !== undefined) {
+    const vehicleId = ensureNumber(rawVehicleId);
+    const profile = vehicleId !== null && Number.isInteger(vehicleId) && vehicleId > 0 ? await getVehicleById(vehicleId) : null;
+    if (!profile) return { error: 'vehicleId must reference a known vehicle profile or be null' };
+    next.vehicle_id = profile.id;
+    next.name = [profile.make, profile.model, profile.trim_level].filter(Boolean).join(' ');
+    next.range_miles = profile.range_miles;
+    next.efficiency_mi_per_kwh = profile.efficiency_mi_per_kwh;
+    next.battery_kwh = profile.usable_battery_kwh;
+    next.max_charging_speed_kw = profile.max_charging_speed_kw;
+    next.connector_type = profile.connector_types[0] ?? null;
+  }
+
+  if (body.name !== undefined) {
+    const name = ensureString(body.name);
+    if (!name) return { error: 'name must be a non-empty string' };
+    next.name = name;
+  }
+
+  const rawRangeMiles = pick(body, 'rangeMiles', 'range_miles');
+  const rangeMiles = ensureNumber(rawRangeMiles);
+  if (rangeMiles !== null) {
+    const rounded = Math.round(rangeMiles);
+    if (rounded < 0 || rounded > 2000) return { error: 'rangeMiles must be between 0 and 2000' };
+    next.range_miles = rounded;
+  } else if (rawRangeMiles === null) {
+    return { error: 'rangeMiles cannot be null' };
+  }
+
+  const rawEfficiency = pick(body, 'efficiencyMiPerKwh', 'efficiency_mi_per_kwh');
+  if (rawEfficiency === null) {
+    next.efficiency_mi_per_kwh = null;
+  } else {
+    const efficiency = ensureNumber(rawEfficiency);
+    if (efficiency !== null) {
+      if (efficiency <= 0 || efficiency > 20) return { error: 'efficiencyMiPerKwh must be between 0 and 20' };
+      next.efficiency_mi_per_kwh = efficiency;
+    }
+  }
+
+  const rawBatteryKwh = pick(body, 'batteryKwh', 'battery_kwh');
+  if (rawBatteryKwh === null) {
+    next.battery_kwh = null;
+  } else {
+    const batteryKwh = ensureNumber(rawBatteryKwh);
+    if (batteryKwh !== null) {
+      if (batteryKwh <= 0 || batteryKwh > 250) return { error: 'batteryKwh must be between 0 and 250' };
+      next.battery_kwh = batteryKwh;
+    }
+  }
+
+  const rawMaxChargingSpeedKw = pick(body, 'maxChargingSpeedKw', 'max_charging_speed_kw');
+  if (rawMaxChargingSpeedKw === null) {
+    next.max_charging_speed_kw = null;
+  } else {
+    const maxChargingSpeedKw = ensureNumber(rawMaxChargingSpeedKw);
+    if (maxChargingSpeedKw !== null) {
+      const rounded = Math.round(maxChargingSpeedKw);
+      if (rounded < 0 || rounded > 1000) return { error: 'maxChargingSpeedKw must be between 0 and 1000' };
+      next.max_charging_speed_kw = rounded;
+    }
+  }
+
+  const rawConnectorType = pick(body, 'connectorType', 'connector_type');
+  if (rawConnectorType === null) {
+    next.connector_type = null;
+  } else {
+    const connectorTypeRaw = ensureString(rawConnectorType);
+    if (connectorTypeRaw) {
+      const normalized = connectorTypeRaw.toUpperCase();
+      if (normalized !== 'CCS' && normalized !== 'CHADEMO' && normalized !== 'NACS' && normalized !== 'J1772') {
+        return { error: 'connectorType must be "CCS", "CHADEMO", "NACS", "J1772", or null' };
+      }
+      next.connector_type = normalized as VehicleConnectorType;
+    }
+  }
+
+  return next;
+}
+
+async function clearOtherDefaults(client: PoolClient, userId: number, keepId: number): Promise<void> {
+  await client.query(
+    'UPDATE user_vehicles SET is_default = FALSE, updated_at = NOW() WHERE user_id = $1 AND id <> $2 AND is_default',
+    [userId, keepId]
+  );
+}
+
+router.get('/', requireAuth, async (req, res) => {
+  try {
+    const result = await pool.query<UserVehicleRow>(
+      `
+        SELECT *
+        FROM user_vehicles
+        WHERE user_id = $1
+        ORDER BY is_default DESC, created_at ASC
+      `,
+      [req.user!.id]
+    );
+    return res.json(result.rows.map(toUserVehicle));
+  } catch (error) {
+    console.error('Error listing garage vehicles:', error);
+    return res.status(500).json({ error: 'Failed to list vehicles' });
+  }
+});
+
+router.get('/:id', requireAuth, async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid vehicle id' });
+    }
+
+    const vehicle = await getUserVehicle(req.user!.id, id);
+    if (!vehicle) {
+      return res.status(404).json({ error: 'Vehicle not found' });
+    }
+
+    return res.json(vehicle);
+  } catch (error) {
+    console.error('Error fetching garage vehicle:', error);
+    return res.status(500).json({ error: 'Failed to fetch vehicle' });
+  }
+});
+
+router.post('/', requireAuth, async (req, res) => {
+  const body = (req.body && typeof req.body === 'object') ? (req.body as Record<string, unknown>) : {};
+  let fields: VehicleFields | { error: string };
+  try {
+    fields = await applyVehicleFields(body, {
+      vehicle_id: null,
+      name: '',
+      range_miles: 210,
+      efficiency_mi_per_kwh: null,
+      battery_kwh: null,
+      max_charging_speed_kw: null,
+      connector_type: null,
+    });
+  } catch (error) {
+    console.error('Error creating garage vehicle:', error);
+    return res.status(500).json({ error: 'Failed to create vehicle' });
+  }
+  if ('error' in fields) {
+    return res.status(400).json({ error: fields.error });
+  }
+  if (!fields.name) {
+    return res.status(400).json({ error: 'name or vehicleId is required' });
+  }
+
+  const userId = req.user!.id;
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const countResult = await client.query<{ total: string }>(
+      'SELECT COUNT(*) AS total FROM user_vehicles WHERE user_id = $1',
+      [userId]
+    );
+    // A user's first vehicle is always their default.
+    const isDefault = pick(body, 'isDefault', 'is_default') === true || Number.parseInt(countResult.rows[0]?.total ?? '0', 10) === 0;
+
+    const inserted = await client.query<UserVehicleRow>(
+      `
+        INSERT INTO user_vehicles (
+          user_id, vehicle_id, name, range_miles, efficiency_mi_per_kwh, battery_kwh,
+          max_charging_speed_kw, connector_type, is_default
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, FALSE)
+        RETURNING *
+      `,
+      [
+        userId,
+        fields.vehicle_id,
+        fields.name,
+        fields.range_miles,
+        fields.efficiency_mi_per_kwh,
+        fields.battery_kwh,
+        fields.max_charging_speed_kw,
+        fields.connector_type,
+      ]
+    );
+    let row = toUserVehicle(inserted.rows[0]!);
+
+    if (isDefault) {
+      await clearOtherDefaults(client, userId, row.id);
+      const updated = await client.query<UserVehicleRow>(
+        'UPDATE user_vehicles SET is_default = TRUE WHERE id = $1 RETURNING *',
+        [row.id]
+      );
+      row = toUserVehicle(updated.rows[0]!);
+    }
+
+    await client.query('COMMIT');
+    return res.status(201).json(row);
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {
+      // ignore rollback errors
+    });
+    console.error('Error creating garage vehicle:', error);
+    return res.status(500).json({ error: 'Failed to create vehicle' });
+  } finally {
+    client.release();
+  }
+});
+
+router.patch('/:id', requireAuth, async (req, res) => {
+  const id = parseId(req.params.id);
+  if (id === null) {
+    return res.status(400).json({ error: 'Invalid vehicle id' });
+  }
+
+  const userId = req.user!.id;
+  const client = await pool.connect();
+  try {
+    const existing = await getUserVehicle(userId, id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Vehicle not found' });
+    }
+
+    const body = (req.body && typeof req.body === 'object') ? (req.body as Record<string, unknown>) : {};
+    const fields = await applyVehicleFields(body, existing);
+    if ('error' in fields) {
+      return res.status(400).json({ error: fields.error });
+    }
+
+    const rawIsDefault = pick(body, 'isDefault', 'is_default');
+    if (rawIsDefault !== undefined && typeof rawIsDefault !== 'boolean') {
+      return res.status(400).json({ error: 'isDefault must be a boolean' });
+    }
+    // The default can only be moved by marking another vehicle as default.
+    if (rawIsDefault === false && existing.is_default) {
+      return res.status(400).json({ error: 'Mark another vehicle as default instead' });
+    }
+
+    await client.query('BEGIN');
+    if (rawIsDefault === true) {
+      await clearOtherDefaults(client, userId, id);
+    }
+    const updated = await client.query<UserVehicleRow>(
+      `
+        UPDATE user_vehicles
+        SET
+          vehicle_id = $3,
+          name = $4,
+          range_miles = $5,
+          efficiency_mi_per_kwh = $6,
+          battery_kwh = $7,
+          max_charging_speed_kw = $8,
+          connector_type = $9,
+          is_default = $10,
+          updated_at = NOW()
+        WHERE id = $1 AND user_id = $2
+        RETURNING *
+      `,
+      [
+        id,
+        userId,
+        fields.vehicle_id,
+        fields.name,
+        fields.range_miles,
+        fields.efficiency_mi_per_kwh,
+        fields.battery_kwh,
+        fields.max_charging_speed_kw,
+        fields.connector_type,
+        rawIsDefault === true ? true : existing.is_default,
+      ]
+    );
+    await client.query('COMMIT');
+    return res.json(toUserVehicle(updated.rows[0]!));
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {
+      // ignore rollback errors
+    });
+    console.error('Error updating garage vehicle:', error);
+    return res.status(500).json({ error: 'Failed to update vehicle' });
+  } finally {
+    client.release();
+  }
+});
+
+router.delete('/:id', requireAuth, async (req, res) => {
+  const id = parseId(req.params.id);
+  if (id === null) {
+    return res.status(400).json({ error: 'Invalid vehicle id' });
+  }
+
+  const userId = req.user!.id;
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const deleted = await client.query<UserVehicleRow>(
+      'DELETE FROM user_vehicles WHERE id = $1 AND user_id = $2 RETURNING *',
+      [id, userId]
+    );
+    const row = deleted.rows[0];
+    if (!row) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'Vehicle not found' });
+    }
+
+    // Keep exactly one default while the garage is non-empty: promote the oldest remaining vehicle.
+    if (row.is_default) {
+      await client.query(
+        `
+          UPDATE user_vehicles
+          SET is_default = TRUE, updated_at = NOW()
+          WHERE id = (
+            SELECT id FROM user_vehicles WHERE user_id = $1 ORDER BY created_at ASC, id ASC LIMIT 1
+          )
+        `,
+        [userId]
+      );
+    }
+
+    await client.query('COMMIT');
+    return res.status(204).end();
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {
+      // ignore rollback errors
+    });
+    console.error('Error deleting garage vehicle:', error);
+    return res.status(500).json({ error: 'Failed to delete vehicle' });
+  } finally {
+    client.release();
+  }
+});
+
+export default router;
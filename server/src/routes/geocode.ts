@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import { reverseGeocode, suggest } from '../geocoding/index.js';
+import { geocodeLimiter } from '../middleware/rateLimiter.js';
+
+const router = Router();
+
+const SUGGEST_MIN_QUERY_LENGTH = 2;
+const SUGGEST_DEFAULT_LIMIT = 5;
+const SUGGEST_MAX_LIMIT = 10;
+
+router.use(geocodeLimiter);
+
+router.get('/suggest', async (req, res) => {
+  try {
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (q.length > 200) {
+      return res.status(400).json({ error: 'q must be 200 characters or fewer' });
+    }
+
+    const rawLimit = typeof req.query.limit === 'string' ? Number.parseInt(req.query.limit, 10) : NaN;
+    const limit = Number.isFinite(rawLimit)
+      ? Math.max(1, Math.min(SUGGEST_MAX_LIMIT, rawLimit))
+      : SUGGEST_DEFAULT_LIMIT;
+
+    if (q.length < SUGGEST_MIN_QUERY_LENGTH) {
+      return res.json({ query: q, suggestions: [] });
+    }
+
+    const points = await suggest(q, limit);
+    return res.json({
+      query: q,
+      suggestions: points.map(({ label, lat, lng, source }) => ({ label, lat, lng, source })),
+    });
+  } catch (error) {
+    console.error('Error fetching geocode suggestions:', error);
+    return res.status(500).json({ error: 'Failed to fetch suggestions' });
+  }
+});
+
+router.get('/reverse', async (req, res) => {
+  try {
+    const lat = typeof req.query.lat === 'string' ? Number(req.query.lat) : NaN;
+    const lng = typeof req.query.lng === 'string' ? Number(req.query.lng) : NaN;
+    if (!Number.isFinite(lat) || lat < -90 || lat > 90) {
+      return res.status(400).json({ error: 'lat must be a number between -90 and 90' });
+    }
+    if (!Number.isFinite(lng) || lng < -180 || lng > 180) {
+      return res.status(400).json({ error: 'lng must be a number between -180 and 180' });
+    }
+
+    const point = await reverseGeocode(lat, lng);
+    return res.json({
+      label: point.label,
+      lat: point.lat,
+      lng: point.lng,
+      source: point.source,
+      query: point.query,
+    });
+  } catch (error) {
+    console.error('Error reverse geocoding:', error);
+    return res.status(500).json({ error: 'Failed to reverse geocode' });
+  }
+});
+
+export default router;
@@ -4,17 +4,45 @@ import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { config } from '../config.js';
 import { pool } from '../db.js';
+import { getCachedRouteResponse, makeRouteResponseCacheKey, setCachedRouteResponse } from '../cache.js';
 import {
-  getCachedDirections,
-  getCachedGeocode,
-  getCachedRouteResponse,
-  makeDirectionsCacheKey,
-  makeGeocodeCacheKey,
-  makeRouteResponseCacheKey,
-  setCachedDirections,
-  setCachedGeocode,
-  setCachedRouteResponse,
-} from '../cache.js';
+  DEFAULT_START_SOC_PERCENT,
+  estimateLegEnergyKwh,
+  resolveBatteryModel,
+  simulateStateOfCharge,
+  type BatteryModel,
+  type ElevationChange,
+  type SocTimeline,
+} from '../planning/stateOfCharge.js';
+import { planChargingStops, STOP_OVERHEAD_MINUTES, type ChargingCurvePoint, type ChargingPlan } from '../planning/chargingPlan.js';
+import {
+  buildConsumptionProfile,
+  summarizeRangeAdjustment,
+  type ConsumptionProfile,
+  type RangeAdjustment,
+} from '../planning/weatherAdjustment.js';
+import { etaAtDestination, etaAtMiles, etaTimeline } from '../planning/eta.js';
+import { summarizeCheckins, type StationCheckin, type StationCheckinSummary } from '../planning/checkins.js';
+import {
+  DEFAULT_STATION_RANKING,
+  parseStationRanking,
+  scoreStation,
+  stationRankTier,
+  storedStationRanking,
+  type StationRanking,
+} from '../planning/ranking.js';
+import { computeStationReliability, reliabilityTierCap, type StationStatusEvent } from '../planning/reliability.js';
+import {
+  getUserVehicle,
+  getVehicleById,
+  type UserVehicleRow,
+  type VehicleConnectorType,
+  type VehicleRow,
+} from '../vehicles.js';
+import { geocode, type GeocodedPoint } from '../geocoding/index.js';
+import { getDirections, getRoutingProvider, type RouteResult, type RoutingProviderName } from '../routing/index.js';
+import { parseStationNetworkList, type StationNetworkId } from '../networks.js';
+import type { StationSource } from '../ingest/stationRow.js';
 
 const router = Router();
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
@@ -24,13 +52,6 @@ const EARTH_RADIUS_METERS = 6_371_000;
 const METERS_PER_DEGREE_LAT = 111_320;
 const FEET_PER_METER = 3.28084;
 
-type GeocodedPoint = {
-  query: string;
-  label: string;
-  lat: number;
-  lng: number;
-};
-
 type RouteSummary = {
   distance_meters: number;
   duration_seconds: number;
@@ -52,6 +73,20 @@ type RouteResponse = {
   requested_preference?: 'fastest' | 'charger_optimized';
   candidates_evaluated?: number;
   max_gap_miles?: number;
+  max_gap_energy_miles?: number;
+  connector_type?: VehicleConnectorType | null;
+  // Networks stations were drawn from; null means every network.
+  networks?: StationNetworkId[] | null;
+  // Effective station ranking weights and tier thresholds (request → saved preferences → defaults).
+  ranking?: StationRanking;
+  // Departure used for ETAs and weather (the request's `departAt`, or when it was planned), and the
+  // destination arrival including charging stops.
+  depart_at?: string;
+  arrive_at?: string;
+  routing_provider?: RoutingProviderName;
+  soc_timeline?: SocTimeline;
+  charging_plan?: ChargingPlan;
+  range_adjustment?: RangeAdjustment;
   warning?: string;
 };
 
@@ -129,6 +164,8 @@ type StationRow = {
   ev_pricing: string | null;
   access_days_time: string | null;
   max_power_kw: number | null;
+  network: StationNetworkId;
+  source: StationSource;
   created_at?: string | Date;
   updated_at?: string | Date;
 };
@@ -140,9 +177,23 @@ type StationAlongRoute = StationRow & {
   distance_to_next_miles: number;
   elevation_from_prev_ft?: number;
   elevation_to_next_ft?: number;
+  energy_from_prev_kwh?: number;
+  energy_to_next_kwh?: number;
   rank_score?: number;
   rank?: number;
   rank_tier?: 'A' | 'B' | 'C' | 'D';
+  // Share of the owning source's last N ingests the station was operational in; null until enough history.
+  reliability_percent?: number | null;
+  reliability_runs?: number;
+  // Truck stops, food stops and big-box hosts within walking distance (the ranking's amenities factor).
+  amenities_nearby?: number;
+  // User check-ins within STATION_CHECKIN_WINDOW_HOURS; only set for stations that have some.
+  checkin_summary?: StationCheckinSummary;
+  // Arrival time from the trip's departure, including earlier charging stops in the plan.
+  eta_iso?: string;
+  arrival_soc_percent?: number;
+  departure_soc_percent?: number;
+  incompatible?: boolean;
 };
 
 type AutoWaypoint = {
@@ -605,6 +656,7 @@ const WEATHER_DEDUP_THRESHOLD_MILES = 15;
 
 type VisualCrossingHour = {
   datetime: string;
+  datetimeEpoch?: number;
   temp: number;
   feelslike: number;
   humidity: number;
@@ -628,6 +680,9 @@ type VisualCrossingResponse = {
   days: VisualCrossingDay[];
 };
 
+// One route request can sample the same point twice (range adjustment, then the response's weather).
+type WeatherFetchCache = Map<string, Promise<VisualCrossingResponse | null>>;
+
 async function fetchVisualCrossingWeather(
   lat: number,
   lng: number,
@@ -653,6 +708,14 @@ async function fetchVisualCrossingWeather(
 function findClosestHour(hours: VisualCrossingHour[], targetTime: Date): VisualCrossingHour | null {
   if (!hours || hours.length === 0) return null;
 
+  // `datetime` is local to the location; the epoch (when present) compares correctly across time zones.
+  if (hours.every((hour) => typeof hour.datetimeEpoch === 'number')) {
+    const target = targetTime.getTime() / 1000;
+    return hours.reduce((best, hour) => (
+      Math.abs(hour.datetimeEpoch! - target) < Math.abs(best.datetimeEpoch! - target) ? hour : best
+    ));
+  }
+
   const targetHour = targetTime.getUTCHours();
   let closest = hours[0];
   let minDiff = 24;
@@ -675,24 +738,25 @@ async function getWeatherAlongRoute(options: {
   routeDistanceMeters: number;
   durationSeconds: number;
   departureTime?: Date;
+  fetchCache?: WeatherFetchCache;
 }): Promise<WeatherPoint[]> {
   if (!VISUAL_CROSSING_API_KEY) {
     console.log('VISUAL_CROSSING_API_KEY not set; skipping weather');
     return [];
   }
 
-  const { geometry, stations, routeDistanceMeters, durationSeconds, departureTime } = options;
+  const { geometry, stations, routeDistanceMeters, durationSeconds, departureTime, fetchCache } = options;
   const routeDistanceMiles = metersToMiles(routeDistanceMeters);
   const departure = departureTime || new Date();
 
-  // Build sample points every WEATHER_SAMPLE_INTERVAL_MILES
+  // Build sample points every WEATHER_SAMPLE_INTERVAL_MILES. Route geometry is [lat, lng] pairs.
   const samplePoints: { lat: number; lng: number; distanceMiles: number; name: string }[] = [];
 
   // Add origin
   if (geometry.length > 0) {
     samplePoints.push({
-      lat: geometry[0][1],
-      lng: geometry[0][0],
+      lat: geometry[0][0],
+      lng: geometry[0][1],
       distanceMiles: 0,
       name: 'Start',
     });
@@ -705,8 +769,8 @@ async function getWeatherAlongRoute(options: {
     const point = geometry[idx];
     if (point) {
       samplePoints.push({
-        lat: point[1],
-        lng: point[0],
+        lat: point[0],
+        lng: point[1],
         distanceMiles: miles,
         name: `Mile ${miles}`,
       });
@@ -726,8 +790,8 @@ async function getWeatherAlongRoute(options: {
   // Add destination
   if (geometry.length > 1) {
     samplePoints.push({
-      lat: geometry[geometry.length - 1][1],
-      lng: geometry[geometry.length - 1][0],
+      lat: geometry[geometry.length - 1][0],
+      lng: geometry[geometry.length - 1][1],
       distanceMiles: routeDistanceMiles,
       name: 'Destination',
     });
@@ -759,7 +823,13 @@ async function getWeatherAlongRoute(options: {
       const arrivalTime = new Date(departure.getTime() + hoursToArrival * 3600 * 1000);
       const dateStr = arrivalTime.toISOString().split('T')[0];
 
-      const weatherData = await fetchVisualCrossingWeather(point.lat, point.lng, dateStr);
+      const cacheKey = `${point.lat.toFixed(4)},${point.lng.toFixed(4)}/${dateStr}`;
+      let fetched = fetchCache?.get(cacheKey);
+      if (!fetched) {
+        fetched = fetchVisualCrossingWeather(point.lat, point.lng, dateStr);
+        fetchCache?.set(cacheKey, fetched);
+      }
+      const weatherData = await fetched;
       if (!weatherData || !weatherData.days || weatherData.days.length === 0) return null;
 
       const day = weatherData.days[0];
@@ -819,8 +889,30 @@ function computeTargetMaxGapMiles(rangeMiles: number, minArrivalPercent: number)
   return Math.max(0, range * (1 - pct / 100));
 }
 
+const CONNECTOR_TYPES: VehicleConnectorType[] = ['CCS', 'CHADEMO', 'NACS', 'J1772'];
+
+function parseConnectorType(value: string): VehicleConnectorType | null {
+  const normalized = value.trim().toUpperCase();
+  return CONNECTOR_TYPES.find((type) => type === normalized) ?? null;
+}
+
+// Stations with no connector data are kept: unknown is not the same as incompatible.
+function isConnectorCompatible(station: StationRow, connectorType: VehicleConnectorType | null): boolean {
+  if (!connectorType) return true;
+  const types = station.ev_connector_types ?? [];
+  return types.length === 0 || types.includes(connectorType);
+}
+
+function compatibleStations(stations: StationAlongRoute[]): StationAlongRoute[] {
+  return stations.filter((station) => !station.incompatible);
+}
+
 const AUTO_CORRIDOR_MIN_MILES = 5;
 
+// `departAt` window: a little in the past for trips already under way, and as far ahead as forecasts go.
+const MAX_DEPART_PAST_HOURS = 24;
+const MAX_DEPART_AHEAD_DAYS = 14;
+
 function corridorExpansionCandidatesMiles(requestedCorridorMiles: number): number[] {
   const base = Math.max(0, requestedCorridorMiles);
   const candidates = [5, 10, 15, 20, 25, 30, 40, 50, 60, 70, 80]
@@ -835,36 +927,148 @@ function clamp01(value: number): number {
   return Math.max(0, Math.min(1, value));
 }
 
-function stationRankTier(score: number): 'A' | 'B' | 'C' | 'D' {
-  if (!Number.isFinite(score)) return 'D';
-  if (score >= 85) return 'A';
-  if (score >= 70) return 'B';
-  if (score >= 55) return 'C';
-  return 'D';
-}
+// Amenities count when they're within this walk of the charger.
+const AMENITY_RADIUS_MILES = 0.5;
+// This many amenities nearby scores full marks.
+const AMENITY_FULL_SCORE_COUNT = 3;
 
-function computeStationRankScore(station: StationAlongRoute, corridorMiles: number): number {
+function computeStationRankScore(station: StationAlongRoute, corridorMiles: number, ranking: StationRanking): number {
   const powerKw = typeof station.max_power_kw === 'number' && Number.isFinite(station.max_power_kw)
     ? Math.max(0, station.max_power_kw)
     : 0;
   const stalls = Number.isFinite(station.ev_dc_fast_num) ? Math.max(0, station.ev_dc_fast_num) : 0;
   const offRouteMiles = Number.isFinite(station.distance_to_route_miles) ? Math.max(0, station.distance_to_route_miles) : 0;
 
-  const powerScore = clamp01(powerKw / 350);
-  const stallsScore = clamp01(stalls / 10);
-  const offRouteScore = corridorMiles > 0 ? clamp01(1 - offRouteMiles / corridorMiles) : 1;
-  const statusMultiplier = station.status_code === 'E' ? 1 : 0.4;
+  return scoreStation({
+    power: clamp01(powerKw / 350),
+    stalls: clamp01(stalls / 10),
+    detour: corridorMiles > 0 ? clamp01(1 - offRouteMiles / corridorMiles) : 1,
+    amenities: clamp01((station.amenities_nearby ?? 0) / AMENITY_FULL_SCORE_COUNT),
+    operational: station.status_code === 'E' && station.checkin_summary?.reported_down !== true,
+    reliability: typeof station.reliability_percent === 'number' ? station.reliability_percent / 100 : null,
+  }, ranking);
+}
+
+/** Count truck stops and food stops within walking distance of each station; a big-box or mall host counts as one. */
+function applyStationAmenities(
+  stations: StationAlongRoute[],
+  places: Array<{ latitude: number; longitude: number }>
+): void {
+  const radiusMeters = milesToMeters(AMENITY_RADIUS_MILES);
+  for (const station of stations) {
+    let count = station.facility_type && station.facility_type !== 'OTHER' ? 1 : 0;
+    for (const place of places) {
+      if (haversineDistanceMeters(station.latitude, station.longitude, place.latitude, place.longitude) <= radiusMeters) {
+        count += 1;
+      }
+    }
+    station.amenities_nearby = count;
+  }
+}
+
+/** Attach reliability from each station's status history over its source's last N successful ingests. */
+async function applyStationReliability(stations: StationAlongRoute[]): Promise<void> {
+  if (stations.length === 0) return;
+
+  const sources = [...new Set(stations.map((station) => station.source))];
+  const runsResult = await pool.query<{ id: string; source: StationSource }>(
+    `
+      SELECT id, source
+      FROM (
+        SELECT id, source, ROW_NUMBER() OVER (PARTITION BY source ORDER BY id DESC) AS n
+        FROM station_ingest_runs
+        WHERE status = 'succeeded' AND source = ANY($1::text[])
+      ) recent
+      WHERE n <= $2
+      ORDER BY id
+    `,
+    [sources, config.stations.reliabilityRuns]
+  );
+  const runIdsBySource = new Map<StationSource, number[]>();
+  for (const row of runsResult.rows) {
+    const runIds = runIdsBySource.get(row.source) ?? [];
+    runIds.push(Number(row.id));
+    runIdsBySource.set(row.source, runIds);
+  }
+
+  const eventsResult = await pool.query<{
+    station_id: number;
+    run_id: string;
+    change_type: StationStatusEvent['change_type'];
+    status_from: string | null;
+    status_to: string | null;
+  }>(
+    `
+      SELECT
+        station_id,
+        run_id,
+        change_type,
+        changes->'status_code'->>'from' AS status_from,
+        changes->'status_code'->>'to' AS status_to
+      FROM station_history
+      WHERE station_id = ANY($1::int[])
+        AND run_id IS NOT NULL
+        AND (changes ? 'status_code' OR change_type = 'removed')
+      ORDER BY run_id, id
+    `,
+    [stations.map((station) => station.id)]
+  );
+  const eventsByStation = new Map<number, StationStatusEvent[]>();
+  for (const row of eventsResult.rows) {
+    const events = eventsByStation.get(row.station_id) ?? [];
+    events.push({ run_id: Number(row.run_id), change_type: row.change_type, status_from: row.status_from, status_to: row.status_to });
+    eventsByStation.set(row.station_id, events);
+  }
+
+  for (const station of stations) {
+    const reliability = computeStationReliability(
+      station.status_code,
+      runIdsBySource.get(station.source) ?? [],
+      eventsByStation.get(station.id) ?? []
+    );
+    station.reliability_percent = reliability ? Math.round(reliability.reliability * 100) : null;
+    if (reliability) station.reliability_runs = reliability.runs_observed;
+  }
+}
 
-  const weighted = (powerScore * 0.5) + (stallsScore * 0.35) + (offRouteScore * 0.15);
-  const score = Math.round(clamp01(weighted) * 100 * statusMultiplier);
-  return Math.max(0, Math.min(100, score));
+/** Attach a summary of each station's recent user check-ins. */
+async function applyStationCheckins(stations: StationAlongRoute[]): Promise<void> {
+  if (stations.length === 0) return;
+
+  const result = await pool.query<StationCheckin & { station_id: number }>(
+    `
+      SELECT station_id, outcome, working_stalls, created_at
+      FROM station_checkins
+      WHERE station_id = ANY($1::int[])
+        AND created_at > NOW() - make_interval(hours => $2)
+      ORDER BY created_at DESC, id DESC
+    `,
+    [stations.map((station) => station.id), config.stations.checkinWindowHours]
+  );
+  const checkinsByStation = new Map<number, StationCheckin[]>();
+  for (const row of result.rows) {
+    const checkins = checkinsByStation.get(row.station_id) ?? [];
+    checkins.push(row);
+    checkinsByStation.set(row.station_id, checkins);
+  }
+
+  for (const station of stations) {
+    const checkins = checkinsByStation.get(station.id);
+    if (checkins) station.checkin_summary = summarizeCheckins(checkins);
+  }
 }
 
-function applyStationRanking(stations: StationAlongRoute[], corridorMiles: number): void {
+function applyStationRanking(allStations: StationAlongRoute[], corridorMiles: number, ranking: StationRanking): void {
+  const stations = compatibleStations(allStations);
   for (const station of stations) {
-    const score = computeStationRankScore(station, corridorMiles);
+    const score = computeStationRankScore(station, corridorMiles, ranking);
     station.rank_score = score;
-    station.rank_tier = stationRankTier(score);
+    // Tiers run A → D, so the later letter is the worse one.
+    const tier = stationRankTier(score, ranking.tiers);
+    const cap = ranking.weights.reliability > 0
+      ? reliabilityTierCap(typeof station.reliability_percent === 'number' ? station.reliability_percent / 100 : null)
+      : 'A';
+    station.rank_tier = tier > cap ? tier : cap;
   }
 
   const ranked = [...stations].sort((a, b) => {
@@ -1025,6 +1229,40 @@ function elevationAtDistanceMeters(profile: RouteElevationProfile, targetMeters:
   return e0 + (e1 - e0) * t;
 }
 
+function elevationChangeBetweenMeters(profile: RouteElevationProfile, fromMeters: number, toMeters: number): ElevationChange | null {
+  const distances = profile.distances_meters;
+  const elevations = profile.elevations_meters;
+  if (distances.length === 0 || elevations.length !== distances.length) return null;
+  if (!Number.isFinite(fromMeters) || !Number.isFinite(toMeters) || toMeters < fromMeters) return null;
+
+  const startElevation = elevationAtDistanceMeters(profile, fromMeters);
+  const endElevation = elevationAtDistanceMeters(profile, toMeters);
+  if (startElevation === null || endElevation === null) return null;
+
+  let lo = 0;
+  let hi = distances.length;
+  while (lo < hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (distances[mid]! <= fromMeters) lo = mid + 1;
+    else hi = mid;
+  }
+
+  let gainMeters = 0;
+  let lossMeters = 0;
+  let prev = startElevation;
+  for (let i = lo; i < distances.length && distances[i]! < toMeters; i += 1) {
+    const delta = elevations[i]! - prev;
+    if (delta > 0) gainMeters += delta;
+    else lossMeters += -delta;
+    prev = elevations[i]!;
+  }
+  const lastDelta = endElevation - prev;
+  if (lastDelta > 0) gainMeters += lastDelta;
+  else lossMeters += -lastDelta;
+
+  return { gain_meters: gainMeters, loss_meters: lossMeters };
+}
+
 function applyStationElevationDeltas(stations: StationAlongRoute[], route: RouteResult): void {
   if (stations.length === 0) return;
   const profile = buildRouteElevationProfile(route);
@@ -1056,249 +1294,155 @@ function applyStationElevationDeltas(stations: StationAlongRoute[], route: Route
   }
 }
 
-async function geocodeOrs(query: string): Promise<GeocodedPoint | null> {
-  const apiKey = config.apiKeys.openRouteService;
-  if (!apiKey) {
-    throw new Error('OPENROUTESERVICE_API_KEY not set in environment');
-  }
-
-  const geocodeTtlDays = config.cache.geocodeTtlDays;
-  const geocodeCacheKey = geocodeTtlDays > 0 ? makeGeocodeCacheKey(query) : null;
-  if (geocodeCacheKey) {
-    const cached = await getCachedGeocode(geocodeCacheKey);
-    if (cached) {
-      return {
-        query,
-        label: cached.label,
-        lat: cached.lat,
-        lng: cached.lng,
-      };
-    }
-  }
-
-  const url = new URL('https://api.openrouteservice.org/geocode/search');
-  url.searchParams.set('text', query);
-  url.searchParams.set('size', '1');
-
-  const response = await fetch(url.toString(), {
-    headers: {
-      Accept: 'application/json',
-      Authorization: apiKey,
-    },
-  });
-
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(`OpenRouteService geocoding error: ${response.status} ${response.statusText}\n${text}`);
-  }
-
-  const data = (await response.json()) as unknown;
-  if (!data || typeof data !== 'object') return null;
-
-  const features = (data as { features?: unknown }).features;
-  if (!Array.isArray(features) || features.length === 0) return null;
-
-  const first = features[0] as {
-    geometry?: { coordinates?: unknown };
-    properties?: { label?: unknown };
-  };
-
-  const coords = first.geometry?.coordinates;
-  if (!Array.isArray(coords) || coords.length < 2) return null;
-  const [lng, lat] = coords;
-  if (typeof lat !== 'number' || typeof lng !== 'number') return null;
-
-  const label = typeof first.properties?.label === 'string' ? first.properties.label : query;
-
-  const result: GeocodedPoint = {
-    query,
-    label,
-    lat,
-    lng,
-  };
-
-  if (geocodeCacheKey) {
-    await setCachedGeocode({
-      cacheKey: geocodeCacheKey,
-      queryText: query,
-      label: result.label,
-      lat: result.lat,
-      lng: result.lng,
-      ttlDays: geocodeTtlDays,
-    });
-  }
-
-  return result;
+function routeElevationBetweenMiles(route: RouteResult): (fromMiles: number, toMiles: number) => ElevationChange | null {
+  const profile = buildRouteElevationProfile(route);
+  return (fromMiles, toMiles) => (
+    profile ? elevationChangeBetweenMeters(profile, milesToMeters(fromMiles), milesToMeters(toMiles)) : null
+  );
 }
 
-type RouteResult = { summary: RouteSummary; geometry: [number, number][]; elevations_meters?: number[] };
-
-function parseOrsDirectionsFeature(feature: unknown): RouteResult | null {
-  const f = feature as {
-    geometry?: { coordinates?: unknown };
-    properties?: { summary?: { distance?: unknown; duration?: unknown } };
+/**
+ * Energy (kWh) for the legs on either side of each station, matching `distance_from_prev_miles` /
+ * `distance_to_next_miles`: flat consumption scaled by weather, plus climbing cost minus regen.
+ */
+function applyStationLegEnergy(options: {
+  stations: StationAlongRoute[];
+  route: RouteResult;
+  model: BatteryModel;
+  consumption: ConsumptionProfile;
+}): void {
+  const elevationBetween = routeElevationBetweenMiles(options.route);
+  const legKwh = (fromMiles: number, toMiles: number): number => {
+    const miles = Math.max(0, toMiles - fromMiles);
+    const factor = options.consumption.factorBetween(fromMiles, toMiles);
+    const energy = estimateLegEnergyKwh(options.model, miles * factor, elevationBetween(fromMiles, toMiles));
+    return Math.round(energy * 10) / 10;
   };
 
-  const summary = f.properties?.summary;
-  const distance = summary?.distance;
-  const duration = summary?.duration;
-  if (typeof distance !== 'number' || typeof duration !== 'number') return null;
-
-  const line = f.geometry?.coordinates;
-  if (!Array.isArray(line) || line.length === 0) return null;
-
-  const geometry: [number, number][] = [];
-  const elevations: number[] = [];
-  let hasElevation = true;
-  for (const point of line) {
-    if (!Array.isArray(point) || point.length < 2) continue;
-    const [lng, lat, elevation] = point;
-    if (typeof lat !== 'number' || typeof lng !== 'number') continue;
-    geometry.push([lat, lng]);
-    if (typeof elevation === 'number' && Number.isFinite(elevation)) {
-      elevations.push(elevation);
-    } else {
-      hasElevation = false;
-    }
+  for (const station of options.stations) {
+    const along = station.distance_along_route_miles;
+    station.energy_from_prev_kwh = legKwh(along - station.distance_from_prev_miles, along);
+    station.energy_to_next_kwh = legKwh(along, along + station.distance_to_next_miles);
   }
-  if (geometry.length === 0) return null;
-
-  return {
-    summary: {
-      distance_meters: distance,
-      duration_seconds: duration,
-    },
-    geometry,
-    elevations_meters: hasElevation && elevations.length === geometry.length ? elevations : undefined,
-  };
 }
 
-async function directionsOrsWithAlternatives(options: {
-  coordinates: [number, number][];
-  includeAlternatives: boolean;
-}): Promise<RouteResult[]> {
-  const apiKey = config.apiKeys.openRouteService;
-  if (!apiKey) {
-    throw new Error('OPENROUTESERVICE_API_KEY not set in environment');
-  }
-
-  const directionsTtlDays = config.cache.directionsTtlDays;
-  const directionsCacheKey = directionsTtlDays > 0 ? makeDirectionsCacheKey(options) : null;
-
-  function parseCachedRoutes(value: unknown): RouteResult[] | null {
-    if (!Array.isArray(value) || value.length === 0) return null;
-    const parsed: RouteResult[] = [];
-    for (const entry of value) {
-      if (!entry || typeof entry !== 'object') continue;
-      const summary = (entry as { summary?: unknown }).summary as { distance_meters?: unknown; duration_seconds?: unknown } | undefined;
-      const distance = summary?.distance_meters;
-      const duration = summary?.duration_seconds;
-      if (typeof distance !== 'number' || !Number.isFinite(distance)) continue;
-      if (typeof duration !== 'number' || !Number.isFinite(duration)) continue;
-
-      const geometryRaw = (entry as { geometry?: unknown }).geometry;
-      if (!Array.isArray(geometryRaw) || geometryRaw.length === 0) continue;
-      const geometry: [number, number][] = [];
-      for (const point of geometryRaw) {
-        if (!Array.isArray(point) || point.length < 2) continue;
-        const [lat, lng] = point;
-        if (typeof lat !== 'number' || typeof lng !== 'number') continue;
-        if (!Number.isFinite(lat) || !Number.isFinite(lng)) continue;
-        geometry.push([lat, lng]);
-      }
-      if (geometry.length === 0) continue;
+// How "long" a gap between two mile markers is. Plain distance by default; with a battery model it is
+// the gap's energy expressed as flat-road miles, so a 150 mi climb over a pass counts as more than 150.
+type GapMeasure = (fromMiles: number, toMiles: number) => number;
 
-      const elevationsRaw = (entry as { elevations_meters?: unknown }).elevations_meters;
-      const elevations = Array.isArray(elevationsRaw) ? elevationsRaw.filter((n) => typeof n === 'number' && Number.isFinite(n)) : null;
-      const elevations_meters = elevations && elevations.length === geometry.length ? elevations : undefined;
+const distanceGapMeasure: GapMeasure = (fromMiles, toMiles) => Math.max(0, toMiles - fromMiles);
 
-      parsed.push({
-        summary: { distance_meters: distance, duration_seconds: duration },
-        geometry,
-        elevations_meters,
-      });
-    }
-    return parsed.length > 0 ? parsed : null;
-  }
-
-  if (directionsCacheKey) {
-    const cached = await getCachedDirections(directionsCacheKey);
-    const parsed = parseCachedRoutes(cached);
-    if (parsed) return parsed;
-  }
-
-  const body: Record<string, unknown> = {
-    coordinates: options.coordinates.map(([lng, lat]) => [lng, lat]),
-    instructions: false,
-    elevation: true,
-    radiuses: options.coordinates.map(() => 5000), // 5km snap radius for each point
+function drivableGapMeasure(route: RouteResult, model: BatteryModel | null): GapMeasure {
+  if (!model) return distanceGapMeasure;
+  const elevationBetween = routeElevationBetweenMiles(route);
+  return (fromMiles, toMiles) => {
+    const miles = Math.max(0, toMiles - fromMiles);
+    return estimateLegEnergyKwh(model, miles, elevationBetween(fromMiles, toMiles)) * model.efficiencyMiPerKwh;
   };
+}
 
-  // ORS only supports alternative_routes with exactly 2 coordinates (start + end)
-  if (options.includeAlternatives && options.coordinates.length === 2) {
-    body.alternative_routes = {
-      target_count: 3,
-      weight_factor: 1.8,
-      share_factor: 0.6,
-    };
-  }
-
-  const response = await fetch('https://api.openrouteservice.org/v2/directions/driving-car/geojson', {
-    method: 'POST',
-    headers: {
-      Accept: 'application/geo+json',
-      Authorization: apiKey,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(body),
+function computeChargingPlan(options: {
+  stations: StationAlongRoute[];
+  route: RouteResult;
+  model: BatteryModel;
+  startSocPercent: number;
+  minArrivalPercent: number;
+  maxChargingSpeedKw: number | null;
+  chargingCurve: ChargingCurvePoint[] | null;
+  consumption: ConsumptionProfile;
+}): ChargingPlan {
+  return planChargingStops({
+    model: options.model,
+    // Stations flagged as not operational or without a usable connector are never planned as stops.
+    candidates: options.stations
+      .filter((s) => s.status_code === 'E' && !s.incompatible)
+      .map((s) => ({
+        id: s.id,
+        name: s.station_name,
+        city: s.city,
+        state: s.state,
+        distanceAlongRouteMiles: s.distance_along_route_miles,
+        distanceToRouteMiles: s.distance_to_route_miles,
+        maxPowerKw: s.max_power_kw,
+      })),
+    totalMiles: metersToMiles(options.route.summary.distance_meters),
+    drivingMinutes: options.route.summary.duration_seconds / 60,
+    startSocPercent: options.startSocPercent,
+    minArrivalPercent: options.minArrivalPercent,
+    maxChargingSpeedKw: options.maxChargingSpeedKw,
+    chargingCurve: options.chargingCurve,
+    elevationBetween: routeElevationBetweenMiles(options.route),
+    consumptionFactorBetween: options.consumption.factorBetween,
   });
+}
 
-  if (!response.ok) {
-    const text = await response.text();
-    let orsCode: number | undefined;
-    try {
-      const parsed = JSON.parse(text) as { error?: { code?: unknown } };
-      if (typeof parsed?.error?.code === 'number') {
-        orsCode = parsed.error.code;
-      }
-    } catch {
-      // ignore parse errors
-    }
-
-    const error = new Error(`OpenRouteService directions error: ${response.status} ${response.statusText}\n${text}`);
-    (error as unknown as { orsStatus?: number }).orsStatus = response.status;
-    (error as unknown as { orsCode?: number }).orsCode = orsCode;
-    throw error;
-  }
-
-  const data = (await response.json()) as unknown;
-  if (!data || typeof data !== 'object') {
-    throw new Error('Unexpected directions response: expected an object');
-  }
+function applyStateOfChargeTimeline(options: {
+  stations: StationAlongRoute[];
+  route: RouteResult;
+  model: BatteryModel;
+  startSocPercent: number;
+  minArrivalPercent: number;
+  plan?: ChargingPlan;
+  consumption: ConsumptionProfile;
+}): SocTimeline {
+  const timeline = simulateStateOfCharge({
+    model: options.model,
+    stops: compatibleStations(options.stations)
+      .map((s) => ({ id: s.id, distanceAlongRouteMiles: s.distance_along_route_miles })),
+    totalMiles: metersToMiles(options.route.summary.distance_meters),
+    startSocPercent: options.startSocPercent,
+    minArrivalPercent: options.minArrivalPercent,
+    plannedDepartures: options.plan?.feasible
+      ? new Map(options.plan.stops.map((stop) => [stop.station_id, stop.departure_soc_percent]))
+      : undefined,
+    elevationBetween: routeElevationBetweenMiles(options.route),
+    consumptionFactorBetween: options.consumption.factorBetween,
+  });
 
-  const features = (data as { features?: unknown }).features;
-  if (!Array.isArray(features) || features.length === 0) {
-    throw new Error('Unexpected directions response: missing features');
+  const byId = new Map(timeline.stations.map((entry) => [entry.station_id, entry]));
+  for (const station of options.stations) {
+    const entry = byId.get(station.id);
+    if (!entry) continue;
+    station.arrival_soc_percent = entry.arrival_soc_percent;
+    station.departure_soc_percent = entry.departure_soc_percent;
   }
 
-  const routes = features
-    .map(parseOrsDirectionsFeature)
-    .filter((r): r is RouteResult => r !== null);
+  return timeline;
+}
 
-  if (routes.length === 0) {
-    throw new Error('Unexpected directions response: no valid routes');
-  }
+function initialBearingDegrees(from: [number, number], to: [number, number]): number {
+  const lat1 = degreesToRadians(from[0]);
+  const lat2 = degreesToRadians(to[0]);
+  const dLng = degreesToRadians(to[1] - from[1]);
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
 
-  if (directionsCacheKey) {
-    await setCachedDirections({
-      cacheKey: directionsCacheKey,
-      requestJson: body,
-      routesJson: routes,
-      ttlDays: directionsTtlDays,
-    });
-  }
+const BEARING_WINDOW_MILES = 3;
+
+// Direction of travel around a mile marker, smoothed over a few miles so road wiggles don't flip it.
+function routeBearingAtMiles(route: RouteResult): (miles: number) => number | null {
+  const routeIndex = buildRouteIndex(route.geometry, route.summary.distance_meters);
+  const totalMiles = metersToMiles(route.summary.distance_meters);
+  return (miles) => {
+    const from = pointAtDistanceAlongRouteMeters(routeIndex, milesToMeters(Math.max(0, miles - BEARING_WINDOW_MILES)));
+    const to = pointAtDistanceAlongRouteMeters(routeIndex, milesToMeters(Math.min(totalMiles, miles + BEARING_WINDOW_MILES)));
+    if (!from || !to || (from[0] === to[0] && from[1] === to[1])) return null;
+    return initialBearingDegrees(from, to);
+  };
+}
 
-  return routes;
+function weatherConsumptionProfile(route: RouteResult, weather: WeatherPoint[]): ConsumptionProfile {
+  return buildConsumptionProfile({
+    samples: weather.map((w) => ({
+      distanceAlongRouteMiles: w.distance_along_route_miles,
+      temperatureF: w.temperature_f,
+      windSpeedMph: w.wind_speed_mph,
+      windDirectionDeg: w.wind_direction,
+    })),
+    bearingAt: routeBearingAtMiles(route),
+  });
 }
 
 type Bounds = { minLat: number; maxLat: number; minLng: number; maxLng: number };
@@ -1457,15 +1601,16 @@ function projectPointOntoRoute(
   };
 }
 
-async function getStationsInBounds(bounds: Bounds): Promise<StationRow[]> {
+async function getStationsInBounds(bounds: Bounds, networks: StationNetworkId[] | null): Promise<StationRow[]> {
   const result = await pool.query<StationRow>(
     `
       SELECT *
       FROM stations
       WHERE latitude BETWEEN $1 AND $2
         AND longitude BETWEEN $3 AND $4
+        AND ($5::text[] IS NULL OR network = ANY($5::text[]))
     `,
-    [bounds.minLat, bounds.maxLat, bounds.minLng, bounds.maxLng]
+    [bounds.minLat, bounds.maxLat, bounds.minLng, bounds.maxLng, networks]
   );
   return result.rows;
 }
@@ -1487,6 +1632,8 @@ async function getStationsAlongRoute(options: {
   geometry: [number, number][];
   routeDistanceMeters: number;
   corridorMiles: number;
+  connectorType: VehicleConnectorType | null;
+  networks: StationNetworkId[] | null;
 }): Promise<StationAlongRoute[]> {
   const corridorMeters = milesToMeters(options.corridorMiles);
   const routeIndex = buildRouteIndex(options.geometry, options.routeDistanceMeters);
@@ -1522,13 +1669,14 @@ async function getStationsAlongRoute(options: {
           ) AS distance_to_route_meters
         FROM stations s, route
         WHERE s.ev_dc_fast_num > 0
+          AND ($3::text[] IS NULL OR s.network = ANY($3::text[]))
           AND ST_DWithin(
             ST_SetSRID(ST_MakePoint(s.longitude, s.latitude), 4326)::geography,
             route.geog,
             $2
           )
       `,
-      [lineWkt, corridorMeters]
+      [lineWkt, corridorMeters, options.networks]
     );
 
     return result.rows;
@@ -1543,7 +1691,7 @@ async function getStationsAlongRoute(options: {
   } catch (error) {
     console.warn('PostGIS route corridor query failed; falling back to bounding-box filter:', error);
     const bounds = computeBounds(options.geometry, corridorMeters);
-    candidates = await getStationsInBounds(bounds);
+    candidates = await getStationsInBounds(bounds, options.networks);
     usingPostgisDistance = false;
   }
 
@@ -1580,22 +1728,24 @@ async function getStationsAlongRoute(options: {
       distance_along_route_miles: metersToMiles(projection.distanceAlongRouteMeters),
       distance_from_prev_miles: 0,
       distance_to_next_miles: 0,
+      incompatible: !isConnectorCompatible(station, options.connectorType),
     });
   }
 
   stations.sort((a, b) => a.distance_along_route_miles - b.distance_along_route_miles);
 
+  // Gaps are measured between stations the vehicle can actually use, including for incompatible ones.
   const totalMiles = metersToMiles(options.routeDistanceMeters);
-  for (let i = 0; i < stations.length; i += 1) {
-    const current = stations[i]!;
-    const prev = i > 0 ? stations[i - 1]! : null;
-    const next = i < stations.length - 1 ? stations[i + 1]! : null;
-
-    const prevDistance = prev ? prev.distance_along_route_miles : 0;
-    const nextDistance = next ? next.distance_along_route_miles : totalMiles;
-
+  let prevDistance = 0;
+  for (const current of stations) {
     current.distance_from_prev_miles = Math.max(0, current.distance_along_route_miles - prevDistance);
+    if (!current.incompatible) prevDistance = current.distance_along_route_miles;
+  }
+  let nextDistance = totalMiles;
+  for (let i = stations.length - 1; i >= 0; i -= 1) {
+    const current = stations[i]!;
     current.distance_to_next_miles = Math.max(0, nextDistance - current.distance_along_route_miles);
+    if (!current.incompatible) nextDistance = current.distance_along_route_miles;
   }
 
   return stations;
@@ -1636,15 +1786,21 @@ async function getTruckStopsAlongRoute(options: {
   return matches;
 }
 
-function computeMaxGapMiles(stations: StationAlongRoute[], totalRouteMiles: number): number {
-  if (stations.length === 0) return totalRouteMiles;
+function computeMaxGapMiles(
+  allStations: StationAlongRoute[],
+  totalRouteMiles: number,
+  measure: GapMeasure = distanceGapMeasure
+): number {
+  const stations = compatibleStations(allStations);
+  if (stations.length === 0) return measure(0, totalRouteMiles);
 
-  let maxGap = Math.max(0, stations[0]!.distance_along_route_miles);
+  let maxGap = measure(0, Math.max(0, stations[0]!.distance_along_route_miles));
   for (let i = 1; i < stations.length; i += 1) {
-    const gap = stations[i]!.distance_along_route_miles - stations[i - 1]!.distance_along_route_miles;
+    const gap = measure(stations[i - 1]!.distance_along_route_miles, stations[i]!.distance_along_route_miles);
     if (gap > maxGap) maxGap = gap;
   }
-  const endGap = Math.max(0, totalRouteMiles - stations[stations.length - 1]!.distance_along_route_miles);
+  const lastMile = stations[stations.length - 1]!.distance_along_route_miles;
+  const endGap = measure(Math.min(lastMile, totalRouteMiles), totalRouteMiles);
   if (endGap > maxGap) maxGap = endGap;
 
   return maxGap;
@@ -1657,7 +1813,13 @@ type RouteGap = {
   midMiles: number;
 };
 
-function computeLargestGaps(stations: StationAlongRoute[], totalRouteMiles: number, take: number): RouteGap[] {
+function computeLargestGaps(
+  allStations: StationAlongRoute[],
+  totalRouteMiles: number,
+  take: number,
+  measure: GapMeasure = distanceGapMeasure
+): RouteGap[] {
+  const stations = compatibleStations(allStations);
   const gaps: RouteGap[] = [];
 
   if (stations.length === 0) {
@@ -1702,8 +1864,10 @@ function computeLargestGaps(stations: StationAlongRoute[], totalRouteMiles: numb
 
   return gaps
     .filter((g) => Number.isFinite(g.lengthMiles) && g.lengthMiles > 0)
-    .sort((a, b) => b.lengthMiles - a.lengthMiles)
-    .slice(0, Math.max(1, take));
+    .map((gap) => ({ gap, cost: measure(gap.startMiles, gap.endMiles) }))
+    .sort((a, b) => b.cost - a.cost)
+    .slice(0, Math.max(1, take))
+    .map(({ gap }) => gap);
 }
 
 async function findCandidateWaypointsNearGaps(options: {
@@ -1711,6 +1875,8 @@ async function findCandidateWaypointsNearGaps(options: {
   routeDistanceMeters: number;
   gaps: RouteGap[];
   corridorMiles: number;
+  connectorType: VehicleConnectorType | null;
+  networks: StationNetworkId[] | null;
   excludeStationIds: Set<number>;
   limit: number;
 }): Promise<AutoWaypoint[]> {
@@ -1727,13 +1893,14 @@ async function findCandidateWaypointsNearGaps(options: {
     const [centerLat, centerLng] = center;
 
     const bounds = boundsAroundPoint(centerLat, centerLng, radiusMeters);
-    const nearby = await getStationsInBounds(bounds);
+    const nearby = await getStationsInBounds(bounds, options.networks);
 
     for (const station of nearby) {
       if (options.excludeStationIds.has(station.id)) continue;
       if (seen.has(station.id)) continue;
       if (!Number.isFinite(station.latitude) || !Number.isFinite(station.longitude)) continue;
       if (!Number.isFinite(station.ev_dc_fast_num) || station.ev_dc_fast_num <= 0) continue;
+      if (!isConnectorCompatible(station, options.connectorType)) continue;
 
       const distanceMeters = haversineDistanceMeters(centerLat, centerLng, station.latitude, station.longitude);
       if (distanceMeters > radiusMeters) continue;
@@ -1818,6 +1985,9 @@ async function optimizeRouteWithAutoWaypoints(options: {
   rangeMiles: number;
   minArrivalPercent: number;
   maxDetourFactor: number;
+  connectorType: VehicleConnectorType | null;
+  networks: StationNetworkId[] | null;
+  batteryModel: BatteryModel | null;
 }): Promise<{
   chosen: RouteResult;
   chosenStations: StationAlongRoute[];
@@ -1833,13 +2003,19 @@ async function optimizeRouteWithAutoWaypoints(options: {
     geometry: options.baseRoute.geometry,
     routeDistanceMeters: options.baseRoute.summary.distance_meters,
     corridorMiles: options.corridorMiles,
+    connectorType: options.connectorType,
+    networks: options.networks,
   });
-  const baseMaxGap = computeMaxGapMiles(baseStations, metersToMiles(options.baseRoute.summary.distance_meters));
+  const baseMaxGap = computeMaxGapMiles(
+    baseStations,
+    metersToMiles(options.baseRoute.summary.distance_meters),
+    drivableGapMeasure(options.baseRoute, options.batteryModel)
+  );
 
   const baseScore: ScoredRoute = {
     route: options.baseRoute,
     stations: baseStations,
-    stationCount: baseStations.length,
+    stationCount: compatibleStations(baseStations).length,
     maxGapMiles: baseMaxGap,
     distanceMeters: options.baseRoute.summary.distance_meters,
     viaCoords: options.baseViaCoords,
@@ -1856,7 +2032,7 @@ async function optimizeRouteWithAutoWaypoints(options: {
 
   for (let iteration = 0; iteration < maxAutoWaypoints; iteration += 1) {
     const totalMiles = metersToMiles(current.route.summary.distance_meters);
-    const gaps = computeLargestGaps(current.stations, totalMiles, 2);
+    const gaps = computeLargestGaps(current.stations, totalMiles, 2, drivableGapMeasure(current.route, options.batteryModel));
 
     const exclude = new Set<number>(current.stations.map((s) => s.id));
     for (const w of autoWaypoints) exclude.add(w.id);
@@ -1866,6 +2042,8 @@ async function optimizeRouteWithAutoWaypoints(options: {
       routeDistanceMeters: current.route.summary.distance_meters,
       gaps,
       corridorMiles: options.corridorMiles,
+      connectorType: options.connectorType,
+      networks: options.networks,
       excludeStationIds: exclude,
       limit: 8,
     });
@@ -1901,7 +2079,7 @@ async function optimizeRouteWithAutoWaypoints(options: {
         if (next && next[0] === candidateCoord[0] && next[1] === candidateCoord[1]) continue;
       }
 
-      const routes = await directionsOrsWithAlternatives({ coordinates: viaCoords, includeAlternatives: false });
+      const routes = await getDirections({ coordinates: viaCoords, includeAlternatives: false });
       evaluatedRoutes += 1;
 
       const route = routes[0]!;
@@ -1911,13 +2089,19 @@ async function optimizeRouteWithAutoWaypoints(options: {
         geometry: route.geometry,
         routeDistanceMeters: route.summary.distance_meters,
         corridorMiles: options.corridorMiles,
+        connectorType: options.connectorType,
+        networks: options.networks,
       });
-      const maxGapMiles = computeMaxGapMiles(stations, metersToMiles(route.summary.distance_meters));
+      const maxGapMiles = computeMaxGapMiles(
+        stations,
+        metersToMiles(route.summary.distance_meters),
+        drivableGapMeasure(route, options.batteryModel)
+      );
 
       candidates.push({
         route,
         stations,
-        stationCount: stations.length,
+        stationCount: compatibleStations(stations).length,
         maxGapMiles,
         distanceMeters: route.summary.distance_meters,
         viaCoords,
@@ -1979,6 +2163,26 @@ router.post('/', async (req, res) => {
       ?? (req.body as { maxDetourFactor?: unknown; max_detour_factor?: unknown } | undefined)?.max_detour_factor;
     const rawMinArrivalPercent = (req.body as { minArrivalPercent?: unknown; min_arrival_percent?: unknown } | undefined)?.minArrivalPercent
       ?? (req.body as { minArrivalPercent?: unknown; min_arrival_percent?: unknown } | undefined)?.min_arrival_percent;
+    const rawStartSocPercent = (req.body as { startSocPercent?: unknown; start_soc_percent?: unknown } | undefined)?.startSocPercent
+      ?? (req.body as { startSocPercent?: unknown; start_soc_percent?: unknown } | undefined)?.start_soc_percent;
+    const rawBatteryKwh = (req.body as { batteryKwh?: unknown; battery_kwh?: unknown } | undefined)?.batteryKwh
+      ?? (req.body as { batteryKwh?: unknown; battery_kwh?: unknown } | undefined)?.battery_kwh;
+    const rawMaxChargingSpeedKw = (req.body as { maxChargingSpeedKw?: unknown; max_charging_speed_kw?: unknown } | undefined)?.maxChargingSpeedKw
+      ?? (req.body as { maxChargingSpeedKw?: unknown; max_charging_speed_kw?: unknown } | undefined)?.max_charging_speed_kw;
+    const rawVehicleProfileId = (req.body as { vehicleProfileId?: unknown; vehicle_profile_id?: unknown } | undefined)?.vehicleProfileId
+      ?? (req.body as { vehicleProfileId?: unknown; vehicle_profile_id?: unknown } | undefined)?.vehicle_profile_id;
+    const rawVehicleId = (req.body as { vehicleId?: unknown; vehicle_id?: unknown } | undefined)?.vehicleId
+      ?? (req.body as { vehicleId?: unknown; vehicle_id?: unknown } | undefined)?.vehicle_id;
+    const rawVehicleMassKg = (req.body as { vehicleMassKg?: unknown; vehicle_mass_kg?: unknown } | undefined)?.vehicleMassKg
+      ?? (req.body as { vehicleMassKg?: unknown; vehicle_mass_kg?: unknown } | undefined)?.vehicle_mass_kg;
+    const rawConnectorType = (req.body as { connectorType?: unknown; connector_type?: unknown } | undefined)?.connectorType
+      ?? (req.body as { connectorType?: unknown; connector_type?: unknown } | undefined)?.connector_type;
+    const rawEfficiency = (req.body as { efficiencyMiPerKwh?: unknown; efficiency_mi_per_kwh?: unknown } | undefined)?.efficiencyMiPerKwh
+      ?? (req.body as { efficiencyMiPerKwh?: unknown; efficiency_mi_per_kwh?: unknown } | undefined)?.efficiency_mi_per_kwh;
+    const rawNetworks = (req.body as { networks?: unknown } | undefined)?.networks;
+    const rawRanking = (req.body as { ranking?: unknown } | undefined)?.ranking;
+    const rawDepartAt = (req.body as { departAt?: unknown; depart_at?: unknown } | undefined)?.departAt
+      ?? (req.body as { departAt?: unknown; depart_at?: unknown } | undefined)?.depart_at;
 
     if (!start || !end) {
       return res.status(400).json({ error: 'start and end are required' });
@@ -1999,7 +2203,7 @@ router.post('/', async (req, res) => {
     }
 
     const queries = [start, ...waypoints, end];
-    const points = await Promise.all(queries.map((q) => geocodeOrs(q)));
+    const points = await Promise.all(queries.map((q) => geocode(q)));
 
     const missingIndex = points.findIndex((p) => p === null);
     if (missingIndex !== -1) {
@@ -2018,19 +2222,110 @@ router.post('/', async (req, res) => {
     const requestedRangeMiles = ensureNumber(rawRangeMiles);
     const requestedMaxDetourFactor = ensureNumber(rawMaxDetourFactor);
     const requestedMinArrivalPercent = ensureNumber(rawMinArrivalPercent);
+    const requestedBatteryKwh = ensureNumber(rawBatteryKwh);
+    const requestedEfficiency = ensureNumber(rawEfficiency);
+    const requestedMaxChargingSpeedKw = ensureNumber(rawMaxChargingSpeedKw);
+    const requestedVehicleProfileId = ensureNumber(rawVehicleProfileId);
+    const requestedVehicleId = ensureNumber(rawVehicleId);
+    const requestedVehicleMassKg = ensureNumber(rawVehicleMassKg);
+
+    // "ANY" (or null) explicitly disables the connector filter; omitting it falls back to the saved vehicle/preferences.
+    let requestedConnectorType: VehicleConnectorType | 'ANY' | null = null;
+    if (rawConnectorType === null) {
+      requestedConnectorType = 'ANY';
+    } else if (rawConnectorType !== undefined) {
+      const connectorTypeRaw = ensureString(rawConnectorType);
+      const parsed = connectorTypeRaw ? parseConnectorType(connectorTypeRaw) : null;
+      if (connectorTypeRaw?.toUpperCase() === 'ANY') {
+        requestedConnectorType = 'ANY';
+      } else if (!parsed) {
+        return res.status(400).json({ error: 'connectorType must be "CCS", "CHADEMO", "NACS", "J1772", "ANY", or null' });
+      } else {
+        requestedConnectorType = parsed;
+      }
+    }
 
-    let preferenceDefaults: { range_miles: number; max_detour_factor: number; min_arrival_percent: number } | null = null;
-    if (
-      req.user
-      && (requestedRangeMiles === null || requestedMaxDetourFactor === null || requestedMinArrivalPercent === null)
-    ) {
+    // Omitted, null, or an empty list means every network.
+    let networks: StationNetworkId[] | null = null;
+    if (rawNetworks !== undefined && rawNetworks !== null) {
+      const parsed = parseStationNetworkList(rawNetworks);
+      if (!parsed) {
+        return res.status(400).json({ error: 'networks must be an array of network IDs (e.g. ["electrify_america", "evgo"])' });
+      }
+      networks = parsed.length > 0 ? parsed : null;
+    }
+
+    // Omitted or null means leaving now.
+    let requestedDepartAt: Date | null = null;
+    if (rawDepartAt !== undefined && rawDepartAt !== null) {
+      const parsed = typeof rawDepartAt === 'string' || typeof rawDepartAt === 'number' ? new Date(rawDepartAt) : null;
+      if (!parsed || Number.isNaN(parsed.getTime())) {
+        return res.status(400).json({ error: 'departAt must be an ISO 8601 date-time' });
+      }
+      const offsetMs = parsed.getTime() - Date.now();
+      if (offsetMs < -MAX_DEPART_PAST_HOURS * 3600 * 1000 || offsetMs > MAX_DEPART_AHEAD_DAYS * 24 * 3600 * 1000) {
+        return res.status(400).json({
+          error: `departAt must be between ${MAX_DEPART_PAST_HOURS} hours ago and ${MAX_DEPART_AHEAD_DAYS} days from now`,
+        });
+      }
+      requestedDepartAt = parsed;
+    }
+    // Minute precision keeps equivalent requests on one cache entry. The resolved departure, "now" included,
+    // is part of the cache key: a cached response carries its ETAs, stop times and weather for that minute.
+    const departAt = new Date(Math.floor((requestedDepartAt ?? new Date()).getTime() / 60_000) * 60_000);
+
+    // A garage vehicle replaces the vehicle half of the saved preferences for this plan.
+    let garageVehicle: UserVehicleRow | null = null;
+    if (requestedVehicleId !== null) {
+      if (!req.user) {
+        return res.status(401).json({ error: 'Sign in to plan with a saved vehicle' });
+      }
+      garageVehicle = Number.isInteger(requestedVehicleId) && requestedVehicleId > 0
+        ? await getUserVehicle(req.user.id, requestedVehicleId)
+        : null;
+      if (!garageVehicle) {
+        return res.status(404).json({ error: 'Vehicle not found' });
+      }
+    }
+
+    let preferenceDefaults: {
+      range_miles: number;
+      max_detour_factor: number;
+      min_arrival_percent: number;
+      battery_kwh: number | null;
+      efficiency_mi_per_kwh: number | null;
+      max_charging_speed_kw: number | null;
+      connector_type: VehicleConnectorType | null;
+      vehicle_id: number | null;
+      vehicle_mass_kg: number | null;
+      ranking: unknown;
+    } | null = null;
+    // Always loaded when signed in: a request's `ranking` only overrides parts of the saved one.
+    if (req.user) {
       const prefsResult = await pool.query<{
         range_miles: number;
         max_detour_factor: number;
         min_arrival_percent: number;
+        battery_kwh: number | null;
+        efficiency_mi_per_kwh: number | null;
+        max_charging_speed_kw: number | null;
+        connector_type: VehicleConnectorType | null;
+        vehicle_id: number | null;
+        vehicle_mass_kg: number | null;
+        ranking: unknown;
       }>(
         `
-          SELECT range_miles, max_detour_factor, min_arrival_percent
+          SELECT
+            range_miles,
+            max_detour_factor,
+            min_arrival_percent,
+            battery_kwh,
+            efficiency_mi_per_kwh,
+            max_charging_speed_kw,
+            connector_type,
+            vehicle_id,
+            vehicle_mass_kg,
+            ranking
           FROM user_preferences
           WHERE user_id = $1
           LIMIT 1
@@ -2039,13 +2334,58 @@ router.post('/', async (req, res) => {
       );
       preferenceDefaults = prefsResult.rows[0] ?? null;
     }
+    const vehicleDefaults = garageVehicle ?? preferenceDefaults;
+
+    // Request weights/tiers over the saved ranking over the defaults; null asks for the defaults outright.
+    let ranking: StationRanking = rawRanking === null
+      ? DEFAULT_STATION_RANKING
+      : storedStationRanking(preferenceDefaults?.ranking);
+    if (rawRanking !== undefined && rawRanking !== null) {
+      const parsed = parseStationRanking(rawRanking, ranking);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      ranking = parsed.ranking;
+    }
+
+    // Scalar values from the request or saved vehicle win; the profile fills gaps and supplies the curve.
+    let vehicleProfile: VehicleRow | null = null;
+    if (requestedVehicleProfileId !== null) {
+      vehicleProfile = Number.isInteger(requestedVehicleProfileId) && requestedVehicleProfileId > 0
+        ? await getVehicleById(requestedVehicleProfileId)
+        : null;
+      if (!vehicleProfile) {
+        return res.status(400).json({ error: 'vehicleProfileId must reference a known vehicle profile' });
+      }
+    } else if (vehicleDefaults?.vehicle_id) {
+      vehicleProfile = await getVehicleById(vehicleDefaults.vehicle_id);
+    }
 
-    const rangeMiles = Math.max(0, requestedRangeMiles ?? preferenceDefaults?.range_miles ?? 210);
+    const rangeMiles = Math.max(
+      0,
+      requestedRangeMiles ?? vehicleDefaults?.range_miles ?? vehicleProfile?.range_miles ?? 210
+    );
     const maxDetourFactor = Math.max(1, requestedMaxDetourFactor ?? preferenceDefaults?.max_detour_factor ?? 1.25);
     const minArrivalPercent = clampPercent(
       Math.round(requestedMinArrivalPercent ?? preferenceDefaults?.min_arrival_percent ?? 10)
     );
-    const targetMaxGapMiles = computeTargetMaxGapMiles(rangeMiles, minArrivalPercent);
+    const startSocPercent = clampPercent(Math.round(ensureNumber(rawStartSocPercent) ?? DEFAULT_START_SOC_PERCENT));
+    const batteryModel = resolveBatteryModel({
+      rangeMiles,
+      batteryKwh: requestedBatteryKwh ?? vehicleDefaults?.battery_kwh ?? vehicleProfile?.usable_battery_kwh,
+      efficiencyMiPerKwh: requestedEfficiency ?? vehicleDefaults?.efficiency_mi_per_kwh ?? vehicleProfile?.efficiency_mi_per_kwh,
+      // Garage vehicles carry no mass of their own, so the preference only applies without one.
+      massKg: requestedVehicleMassKg
+        ?? (garageVehicle ? null : preferenceDefaults?.vehicle_mass_kg)
+        ?? vehicleProfile?.mass_kg,
+    });
+    const maxChargingSpeedKwRaw = requestedMaxChargingSpeedKw
+      ?? vehicleDefaults?.max_charging_speed_kw
+      ?? vehicleProfile?.max_charging_speed_kw
+      ?? null;
+    const maxChargingSpeedKw = maxChargingSpeedKwRaw !== null && maxChargingSpeedKwRaw > 0 ? maxChargingSpeedKwRaw : null;
+    const connectorTypeRequested = requestedConnectorType ?? vehicleDefaults?.connector_type ?? null;
+    const connectorType = connectorTypeRequested === 'ANY' ? null : connectorTypeRequested;
 
     const routeCacheTtlSeconds = config.cache.routeResponseTtlSeconds;
     const routeCacheKey = routeCacheTtlSeconds > 0
@@ -2060,6 +2400,17 @@ router.post('/', async (req, res) => {
         rangeMiles,
         minArrivalPercent,
         maxDetourFactor,
+        startSocPercent,
+        batteryKwh: batteryModel?.batteryKwh ?? null,
+        efficiencyMiPerKwh: batteryModel?.efficiencyMiPerKwh ?? null,
+        maxChargingSpeedKw,
+        vehicleProfileId: vehicleProfile?.id ?? null,
+        massKg: batteryModel?.massKg ?? null,
+        connectorType,
+        networks,
+        ranking,
+        departAt: departAt.toISOString(),
+        routingProvider: getRoutingProvider().name,
       })
       : null;
 
@@ -2071,7 +2422,7 @@ router.post('/', async (req, res) => {
     let candidates: RouteResult[];
     let orsAlternativesUnavailable = false;
     try {
-      candidates = await directionsOrsWithAlternatives({
+      candidates = await getDirections({
         coordinates: coords,
         includeAlternatives: preference === 'charger_optimized',
       });
@@ -2079,7 +2430,7 @@ router.post('/', async (req, res) => {
       if (preference === 'charger_optimized' && isOrsAlternativeRouteLimitError(error)) {
         // Workaround for long routes: run our own waypoint-based optimization.
         orsAlternativesUnavailable = true;
-        const baseCandidates = await directionsOrsWithAlternatives({
+        const baseCandidates = await getDirections({
           coordinates: coords,
           includeAlternatives: false,
         });
@@ -2090,6 +2441,30 @@ router.post('/', async (req, res) => {
     }
 
     let chosen: RouteResult = candidates[0]!;
+
+    // Forecast cold and headwinds on the fastest route shrink the range every gap is judged against.
+    // The response's weather samples the chosen route again, so the points they share are fetched once.
+    const weatherFetches: WeatherFetchCache = new Map();
+    let plannedWeather: WeatherPoint[] = [];
+    if (includeStations) {
+      try {
+        plannedWeather = await getWeatherAlongRoute({
+          geometry: chosen.geometry,
+          stations: [],
+          routeDistanceMeters: chosen.summary.distance_meters,
+          durationSeconds: chosen.summary.duration_seconds,
+          departureTime: departAt,
+          fetchCache: weatherFetches,
+        });
+      } catch (error) {
+        console.warn('Failed to fetch weather for range adjustment:', error);
+      }
+    }
+    const plannedConsumption = weatherConsumptionProfile(chosen, plannedWeather);
+    const plannedRoute = chosen;
+    const effectiveRangeMiles = rangeMiles / plannedConsumption.worstFactor;
+    const targetMaxGapMiles = computeTargetMaxGapMiles(effectiveRangeMiles, minArrivalPercent);
+
     let chosenStations: StationAlongRoute[] | undefined;
     let maxGapMiles: number | undefined;
     let autoWaypoints: AutoWaypoint[] = [];
@@ -2106,9 +2481,12 @@ router.post('/', async (req, res) => {
             baseRoute: chosen,
             baseViaCoords: coords,
             corridorMiles,
-            rangeMiles,
+            rangeMiles: effectiveRangeMiles,
             minArrivalPercent,
             maxDetourFactor,
+            connectorType,
+            networks,
+            batteryModel,
           });
           chosen = optimized.chosen;
           chosenStations = optimized.chosenStations;
@@ -2134,13 +2512,15 @@ router.post('/', async (req, res) => {
               geometry: candidate.geometry,
               routeDistanceMeters: candidate.summary.distance_meters,
               corridorMiles,
+              connectorType,
+              networks,
             });
             const totalMiles = metersToMiles(candidate.summary.distance_meters);
-            const maxGap = computeMaxGapMiles(stations, totalMiles);
+            const maxGap = computeMaxGapMiles(stations, totalMiles, drivableGapMeasure(candidate, batteryModel));
             scored.push({
               route: candidate,
               stations,
-              stationCount: stations.length,
+              stationCount: compatibleStations(stations).length,
               maxGapMiles: maxGap,
               distanceMeters: candidate.summary.distance_meters,
               viaCoords: coords,
@@ -2159,8 +2539,14 @@ router.post('/', async (req, res) => {
           geometry: chosen.geometry,
           routeDistanceMeters: chosen.summary.distance_meters,
           corridorMiles,
+          connectorType,
+          networks,
         });
-        maxGapMiles = computeMaxGapMiles(chosenStations, metersToMiles(chosen.summary.distance_meters));
+        maxGapMiles = computeMaxGapMiles(
+          chosenStations,
+          metersToMiles(chosen.summary.distance_meters),
+          drivableGapMeasure(chosen, batteryModel)
+        );
       }
     }
 
@@ -2184,10 +2570,13 @@ router.post('/', async (req, res) => {
           geometry: chosen.geometry,
           routeDistanceMeters: chosen.summary.distance_meters,
           corridorMiles: candidateCorridorMiles,
+          connectorType,
+          networks,
         });
         const candidateMaxGapMiles = computeMaxGapMiles(
           stations,
-          metersToMiles(chosen.summary.distance_meters)
+          metersToMiles(chosen.summary.distance_meters),
+          drivableGapMeasure(chosen, batteryModel)
         );
 
         if (candidateMaxGapMiles <= targetMaxGapMiles) {
@@ -2195,7 +2584,7 @@ router.post('/', async (req, res) => {
           break;
         }
 
-        if (candidateMaxGapMiles <= rangeMiles && !bestViable) {
+        if (candidateMaxGapMiles <= effectiveRangeMiles && !bestViable) {
           bestViable = { corridorMiles: candidateCorridorMiles, stations, maxGapMiles: candidateMaxGapMiles };
         }
       }
@@ -2227,11 +2616,21 @@ router.post('/', async (req, res) => {
       points: resolvedPoints,
       summary,
       geometry: chosen.geometry,
+      routing_provider: getRoutingProvider().name,
     };
 
     if (includeStations) {
       applyStationElevationDeltas(chosenStations ?? [], chosen);
-      applyStationRanking(chosenStations ?? [], corridorMilesUsed);
+      try {
+        await applyStationReliability(chosenStations ?? []);
+      } catch (error) {
+        console.warn('Failed to load station reliability:', error);
+      }
+      try {
+        await applyStationCheckins(chosenStations ?? []);
+      } catch (error) {
+        console.warn('Failed to load station check-ins:', error);
+      }
       try {
         responseBody.truck_stops = await getTruckStopsAlongRoute({
           geometry: chosen.geometry,
@@ -2250,28 +2649,99 @@ router.post('/', async (req, res) => {
       } catch (error) {
         console.warn('Failed to compute recharge POIs along route:', error);
       }
+      applyStationAmenities(chosenStations ?? [], [...(responseBody.truck_stops ?? []), ...(responseBody.recharge_pois ?? [])]);
+      applyStationRanking(chosenStations ?? [], corridorMilesUsed, ranking);
       try {
         responseBody.weather = await getWeatherAlongRoute({
           geometry: chosen.geometry,
           stations: chosenStations ?? [],
           routeDistanceMeters: chosen.summary.distance_meters,
           durationSeconds: chosen.summary.duration_seconds,
+          departureTime: departAt,
+          fetchCache: weatherFetches,
         });
       } catch (error) {
         console.warn('Failed to fetch weather along route:', error);
       }
+      let consumption = weatherConsumptionProfile(chosen, responseBody.weather ?? []);
+      if (consumption.samples.length === 0 && chosen === plannedRoute) consumption = plannedConsumption;
+      if (consumption.samples.length > 0) {
+        responseBody.range_adjustment = summarizeRangeAdjustment({
+          profile: consumption,
+          rangeMiles,
+          minArrivalPercent,
+          stopMiles: compatibleStations(chosenStations ?? []).map((s) => s.distance_along_route_miles),
+          totalMiles: metersToMiles(chosen.summary.distance_meters),
+        });
+        const legsOverRange = responseBody.range_adjustment.legs.filter((leg) => !leg.within_range).length;
+        if (legsOverRange > 0) {
+          warning = [
+            warning,
+            `${legsOverRange} leg${legsOverRange === 1 ? '' : 's'} exceed the weather-adjusted range (as low as ${responseBody.range_adjustment.effective_range_miles} mi).`,
+          ].filter(Boolean).join(' ');
+        }
+      }
+      if (batteryModel) {
+        applyStationLegEnergy({ stations: chosenStations ?? [], route: chosen, model: batteryModel, consumption });
+        responseBody.charging_plan = computeChargingPlan({
+          stations: chosenStations ?? [],
+          route: chosen,
+          model: batteryModel,
+          startSocPercent,
+          minArrivalPercent,
+          maxChargingSpeedKw,
+          chargingCurve: vehicleProfile?.charging_curve ?? null,
+          consumption,
+        });
+        responseBody.soc_timeline = applyStateOfChargeTimeline({
+          stations: chosenStations ?? [],
+          route: chosen,
+          model: batteryModel,
+          startSocPercent,
+          minArrivalPercent,
+          plan: responseBody.charging_plan,
+          consumption,
+        });
+      }
       responseBody.corridor_miles = corridorMilesUsed;
       responseBody.stations = chosenStations ?? [];
       responseBody.preference = preference;
       responseBody.requested_preference = requestedPreference;
       responseBody.candidates_evaluated = evaluatedRoutes;
-      responseBody.max_gap_miles = maxGapMiles;
+      // Internally gaps are judged by energy; report plain distance alongside it.
+      responseBody.max_gap_miles = chosenStations
+        ? computeMaxGapMiles(chosenStations, metersToMiles(chosen.summary.distance_meters))
+        : maxGapMiles;
+      responseBody.max_gap_energy_miles = maxGapMiles === undefined ? undefined : Math.round(maxGapMiles * 10) / 10;
+      responseBody.connector_type = connectorType;
+      responseBody.networks = networks;
+      responseBody.ranking = ranking;
       responseBody.warning = warning;
       if (autoWaypoints.length > 0) {
         responseBody.auto_waypoints = autoWaypoints;
       }
     }
 
+    const timeline = etaTimeline({
+      departAt,
+      totalMiles: metersToMiles(chosen.summary.distance_meters),
+      drivingMinutes: chosen.summary.duration_seconds / 60,
+      plan: responseBody.charging_plan,
+    });
+    for (const station of responseBody.stations ?? []) {
+      station.eta_iso = etaAtMiles(timeline, station.distance_along_route_miles).toISOString();
+    }
+    if (responseBody.charging_plan?.feasible) {
+      for (const stop of responseBody.charging_plan.stops) {
+        // Half the detour is spent reaching the charger, the other half getting back to the route.
+        const arrival = etaAtMiles(timeline, stop.distance_along_route_miles).getTime() + (stop.detour_minutes / 2) * 60_000;
+        stop.arrival_iso = new Date(arrival).toISOString();
+        stop.departure_iso = new Date(arrival + (stop.charge_minutes + STOP_OVERHEAD_MINUTES) * 60_000).toISOString();
+      }
+    }
+    responseBody.depart_at = departAt.toISOString();
+    responseBody.arrive_at = etaAtDestination(timeline).toISOString();
+
     if (routeCacheKey) {
       await setCachedRouteResponse({
         cacheKey: routeCacheKey,
@@ -2286,6 +2756,17 @@ router.post('/', async (req, res) => {
           rangeMiles,
           minArrivalPercent,
           maxDetourFactor,
+          startSocPercent,
+          batteryKwh: batteryModel?.batteryKwh ?? null,
+          efficiencyMiPerKwh: batteryModel?.efficiencyMiPerKwh ?? null,
+          maxChargingSpeedKw,
+          vehicleProfileId: vehicleProfile?.id ?? null,
+          massKg: batteryModel?.massKg ?? null,
+          connectorType,
+          networks,
+          ranking,
+          departAt: departAt.toISOString(),
+          routingProvider: getRoutingProvider().name,
         },
         responseJson: responseBody,
         ttlSeconds: routeCacheTtlSeconds,
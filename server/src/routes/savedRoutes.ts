@@ -1,6 +1,21 @@
-import { Router } from 'express';
+import { Router, type Request } from 'express';
+import type { PoolClient } from 'pg';
 import { pool } from '../db.js';
 import { requireAuth } from '../middleware/auth.js';
+import { PLAN_PARAMS_VERSION, parsePlanParams, storedPlanParams, type SavedPlanParams } from '../planParams.js';
+import {
+  compareSnapshotStations,
+  parseRouteSnapshot,
+  snapshotStations,
+  type CurrentStationRow,
+} from '../routeSnapshots.js';
+import {
+  createShareToken,
+  parseShareExpiresInDays,
+  shareStatus,
+  type SavedRouteShareRow,
+} from '../routeShares.js';
+import { renumberTripLegs } from '../tripLegs.js';
 
 const router = Router();
 
@@ -22,6 +37,24 @@ function ensureNumber(value: unknown): number | null {
   return null;
 }
 
+function parseRouteId(raw: string): number | null {
+  const id = Number.parseInt(raw, 10);
+  return Number.isFinite(id) && id > 0 ? id : null;
+}
+
+function parseWaypoints(raw: unknown): string[] | { error: string } {
+  if (!Array.isArray(raw)) {
+    return { error: 'waypoints must be an array of strings' };
+  }
+  const waypoints = raw
+    .map((w) => ensureString(w))
+    .filter((w): w is string => Boolean(w));
+  if (waypoints.length > 10) {
+    return { error: 'Too many waypoints (max 10)' };
+  }
+  return waypoints;
+}
+
 type SavedRouteRow = {
   id: number;
   user_id: number | null;
@@ -31,63 +64,123 @@ type SavedRouteRow = {
   waypoints: string[];
   corridor_miles: number;
   preference: 'fastest' | 'charger_optimized';
+  plan_params: unknown;
   created_at: string;
+  // When the saved route response snapshot was taken; null without one. The snapshot itself is fetched separately.
+  snapshot_at: string | null;
 };
 
+// Saved routes with their snapshot time (not the snapshot, which can be large).
+const SAVED_ROUTE_SELECT = `
+  SELECT r.*, s.created_at AS snapshot_at
+  FROM saved_routes r
+  LEFT JOIN saved_route_snapshots s ON s.saved_route_id = r.id
+`;
+
+const ID_COLUMNS = ['id', 'user_id', 'saved_route_id'] as const;
+
+// pg returns BIGSERIAL/BIGINT columns as strings. Saved route and share rows go through here as they are
+// read, so ownership checks and every response see numeric route, owner and share ids.
+function withNumericIds<T extends object>(row: T): T {
+  const normalized = { ...row } as Record<string, unknown>;
+  for (const column of ID_COLUMNS) {
+    if (typeof normalized[column] === 'string') normalized[column] = Number(normalized[column]);
+  }
+  return normalized as T;
+}
+
+// Responses always carry current-version plan params; the legacy columns mirror the route's stops.
+function toSavedRoute(row: SavedRouteRow): Omit<SavedRouteRow, 'plan_params'> & { plan_params: SavedPlanParams } {
+  return { ...row, plan_params: storedPlanParams(row.plan_params, row) };
+}
+
 router.get('/', requireAuth, async (req, res) => {
   try {
     const result = await pool.query<SavedRouteRow>(
       `
-        SELECT *
-        FROM saved_routes
-        WHERE user_id = $1
-        ORDER BY created_at DESC
+        ${SAVED_ROUTE_SELECT}
+        WHERE r.user_id = $1
+        ORDER BY r.created_at DESC
         LIMIT 50
       `,
       [req.user!.id]
     );
-    return res.json(result.rows);
+    return res.json(result.rows.map((row) => toSavedRoute(withNumericIds(row))));
   } catch (error) {
     console.error('Error listing saved routes:', error);
     return res.status(500).json({ error: 'Failed to list saved routes' });
   }
 });
 
-router.get('/:id', async (req, res) => {
-  try {
-    const rawId = req.params.id;
-    const id = Number.parseInt(rawId, 10);
-    if (!Number.isFinite(id) || id <= 0) {
-      return res.status(400).json({ error: 'Invalid route id' });
-    }
+/**
+ * Who may see or change a saved route: only its owner. Legacy routes without an owner are reachable through
+ * the share links migration 024 gave them, never by id.
+ */
+function checkSavedRouteAccess(route: SavedRouteRow, user: Request['user']): { status: number; error: string } | null {
+  if (route.user_id === null) {
+    return { status: 404, error: 'Saved route not found' };
+  }
+  if (!user) {
+    return { status: 401, error: 'Sign in to access this saved route' };
+  }
+  if (route.user_id !== user.id) {
+    return { status: 403, error: 'Forbidden' };
+  }
+  return null;
+}
 
-    const result = await pool.query<SavedRouteRow>('SELECT * FROM saved_routes WHERE id = $1', [id]);
-    const route = result.rows[0];
-    if (!route) {
-      return res.status(404).json({ error: 'Saved route not found' });
-    }
+async function getSavedRoute(id: number): Promise<SavedRouteRow | null> {
+  const result = await pool.query<SavedRouteRow>(`${SAVED_ROUTE_SELECT} WHERE r.id = $1`, [id]);
+  const row = result.rows[0];
+  return row ? withNumericIds(row) : null;
+}
 
-    if (route.user_id === null) {
-      return res.json(route);
-    }
+async function saveSnapshot(client: PoolClient, savedRouteId: number, snapshot: Record<string, unknown>): Promise<void> {
+  await client.query(
+    `
+      INSERT INTO saved_route_snapshots (saved_route_id, response)
+      VALUES ($1, $2)
+      ON CONFLICT (saved_route_id) DO UPDATE SET response = EXCLUDED.response, created_at = NOW()
+    `,
+    [savedRouteId, JSON.stringify(snapshot)]
+  );
+}
 
-    if (!req.user) {
-      return res.status(401).json({ error: 'Sign in to access this saved route' });
-    }
+/** The saved route, or the error response for a missing route or one the user may not access. */
+async function loadSavedRouteFor(
+  rawId: string,
+  user: Request['user']
+): Promise<{ route: SavedRouteRow } | { status: number; error: string }> {
+  const id = parseRouteId(rawId);
+  if (id === null) return { status: 400, error: 'Invalid route id' };
 
-    if (route.user_id !== req.user.id) {
-      return res.status(403).json({ error: 'Forbidden' });
+  const route = await getSavedRoute(id);
+  if (!route) return { status: 404, error: 'Saved route not found' };
+
+  return checkSavedRouteAccess(route, user) ?? { route };
+}
+
+router.get('/:id', async (req, res) => {
+  try {
+    const loaded = await loadSavedRouteFor(req.params.id, req.user);
+    if ('error' in loaded) {
+      return res.status(loaded.status).json({ error: loaded.error });
     }
 
-    return res.json(route);
+    return res.json(toSavedRoute(loaded.route));
   } catch (error) {
     console.error('Error fetching saved route:', error);
     return res.status(500).json({ error: 'Failed to fetch saved route' });
   }
 });
 
+// `planParams` (the full POST /api/route body) wins; the top-level fields are the older, partial form.
+// `snapshot` optionally stores the route response as planned.
 router.post('/', requireAuth, async (req, res) => {
+  const client = await pool.connect();
   try {
+    const rawPlanParams = (req.body as { planParams?: unknown; plan_params?: unknown } | undefined)?.planParams
+      ?? (req.body as { planParams?: unknown; plan_params?: unknown } | undefined)?.plan_params;
     const start = ensureString((req.body as { start?: unknown; start_query?: unknown } | undefined)?.start)
       ?? ensureString((req.body as { start_query?: unknown } | undefined)?.start_query);
     const end = ensureString((req.body as { end?: unknown; end_query?: unknown } | undefined)?.end)
@@ -97,41 +190,399 @@ router.post('/', requireAuth, async (req, res) => {
     const rawCorridorMiles = (req.body as { corridorMiles?: unknown; corridor_miles?: unknown } | undefined)?.corridorMiles
       ?? (req.body as { corridorMiles?: unknown; corridor_miles?: unknown } | undefined)?.corridor_miles;
     const preferenceRaw = ensureString((req.body as { preference?: unknown } | undefined)?.preference);
+    const rawSnapshot = (req.body as { snapshot?: unknown } | undefined)?.snapshot;
 
-    if (!start || !end) {
-      return res.status(400).json({ error: 'start and end are required' });
+    let snapshot: Record<string, unknown> | null = null;
+    if (rawSnapshot !== undefined && rawSnapshot !== null) {
+      const parsed = parseRouteSnapshot(rawSnapshot);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      snapshot = parsed.snapshot;
     }
 
-    let waypoints: string[] = [];
-    if (rawWaypoints !== undefined) {
-      if (!Array.isArray(rawWaypoints)) {
-        return res.status(400).json({ error: 'waypoints must be an array of strings' });
+    let planParams: SavedPlanParams;
+    if (rawPlanParams !== undefined) {
+      const parsed = parsePlanParams(rawPlanParams);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      planParams = parsed.params;
+    } else {
+      if (!start || !end) {
+        return res.status(400).json({ error: 'start and end are required' });
       }
-      waypoints = rawWaypoints
-        .map((w) => ensureString(w))
-        .filter((w): w is string => Boolean(w));
-    }
 
-    if (waypoints.length > 10) {
-      return res.status(400).json({ error: 'Too many waypoints (max 10)' });
-    }
+      let waypoints: string[] = [];
+      if (rawWaypoints !== undefined) {
+        const parsed = parseWaypoints(rawWaypoints);
+        if ('error' in parsed) {
+          return res.status(400).json({ error: parsed.error });
+        }
+        waypoints = parsed;
+      }
 
-    const corridorMiles = Math.round(Math.max(0, ensureNumber(rawCorridorMiles) ?? 30));
-    const preference = preferenceRaw === 'charger_optimized' ? 'charger_optimized' : 'fastest';
+      planParams = {
+        version: PLAN_PARAMS_VERSION,
+        start,
+        end,
+        waypoints,
+        corridorMiles: Math.round(Math.max(0, ensureNumber(rawCorridorMiles) ?? 30)),
+        autoCorridor: false,
+        preference: preferenceRaw === 'charger_optimized' ? 'charger_optimized' : 'fastest',
+      };
+    }
 
-    const result = await pool.query<SavedRouteRow>(
+    await client.query('BEGIN');
+    const inserted = await client.query<{ id: number }>(
       `
-        INSERT INTO saved_routes (user_id, name, start_query, end_query, waypoints, corridor_miles, preference)
-        VALUES ($1, $2, $3, $4, $5, $6, $7)
-        RETURNING *
+        INSERT INTO saved_routes (user_id, name, start_query, end_query, waypoints, corridor_miles, preference, plan_params)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        RETURNING id
       `,
-      [req.user!.id, name ?? null, start, end, waypoints, corridorMiles, preference]
+      [
+        req.user!.id,
+        name ?? null,
+        planParams.start,
+        planParams.end,
+        planParams.waypoints,
+        Math.round(planParams.corridorMiles),
+        planParams.preference,
+        JSON.stringify(planParams),
+      ]
     );
+    const id = inserted.rows[0]!.id;
+    if (snapshot) {
+      await saveSnapshot(client, id, snapshot);
+    }
+    await client.query('COMMIT');
 
-    return res.status(201).json(result.rows[0]);
+    return res.status(201).json(toSavedRoute((await getSavedRoute(id))!));
   } catch (error) {
+    await client.query('ROLLBACK').catch(() => {
+      // ignore rollback errors
+    });
     console.error('Error creating saved route:', error);
     return res.status(500).json({ error: 'Failed to create saved route' });
+  } finally {
+    client.release();
+  }
+});
+
+// Partial update: only the fields present in the body change; `name: null` (or "") clears the name.
+// `planParams` replaces the saved parameters, then any top-level stop/corridor/preference fields apply on top.
+// `snapshot` replaces the stored route response; `snapshot: null` removes it.
+router.patch('/:id', async (req, res) => {
+  const client = await pool.connect();
+  try {
+    const loaded = await loadSavedRouteFor(req.params.id, req.user);
+    if ('error' in loaded) {
+      return res.status(loaded.status).json({ error: loaded.error });
+    }
+    const existing = loaded.route;
+    const id = existing.id;
+
+    const body = (req.body && typeof req.body === 'object') ? (req.body as Record<string, unknown>) : {};
+    const pick = (camel: string, snake: string): unknown => (body[camel] !== undefined ? body[camel] : body[snake]);
+
+    let name = existing.name;
+    if (body.name !== undefined) {
+      if (body.name !== null && typeof body.name !== 'string') {
+        return res.status(400).json({ error: 'name must be a string or null' });
+      }
+      name = ensureString(body.name);
+    }
+
+    let planParams = storedPlanParams(existing.plan_params, existing);
+    const rawPlanParams = pick('planParams', 'plan_params');
+    if (rawPlanParams !== undefined) {
+      const parsed = parsePlanParams(rawPlanParams);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      planParams = parsed.params;
+    }
+
+    let start = planParams.start;
+    const rawStart = pick('start', 'start_query');
+    if (rawStart !== undefined) {
+      const parsed = ensureString(rawStart);
+      if (!parsed) return res.status(400).json({ error: 'start cannot be empty' });
+      start = parsed;
+    }
+
+    let end = planParams.end;
+    const rawEnd = pick('end', 'end_query');
+    if (rawEnd !== undefined) {
+      const parsed = ensureString(rawEnd);
+      if (!parsed) return res.status(400).json({ error: 'end cannot be empty' });
+      end = parsed;
+    }
+
+    let waypoints = planParams.waypoints;
+    if (body.waypoints !== undefined) {
+      const parsed = parseWaypoints(body.waypoints);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      waypoints = parsed;
+    }
+
+    let corridorMiles = planParams.corridorMiles;
+    const rawCorridorMiles = pick('corridorMiles', 'corridor_miles');
+    if (rawCorridorMiles !== undefined) {
+      const parsed = ensureNumber(rawCorridorMiles);
+      if (parsed === null) return res.status(400).json({ error: 'corridorMiles must be a number' });
+      corridorMiles = Math.round(Math.max(0, parsed));
+    }
+
+    let preference = planParams.preference;
+    if (body.preference !== undefined) {
+      if (body.preference !== 'fastest' && body.preference !== 'charger_optimized') {
+        return res.status(400).json({ error: 'preference must be "fastest" or "charger_optimized"' });
+      }
+      preference = body.preference;
+    }
+    planParams = { ...planParams, start, end, waypoints, corridorMiles, preference };
+
+    let snapshot: Record<string, unknown> | null | undefined;
+    if (body.snapshot === null) {
+      snapshot = null;
+    } else if (body.snapshot !== undefined) {
+      const parsed = parseRouteSnapshot(body.snapshot);
+      if ('error' in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      snapshot = parsed.snapshot;
+    }
+
+    await client.query('BEGIN');
+    await client.query(
+      `
+        UPDATE saved_routes
+        SET
+          name = $2,
+          start_query = $3,
+          end_query = $4,
+          waypoints = $5,
+          corridor_miles = $6,
+          preference = $7,
+          plan_params = $8
+        WHERE id = $1
+      `,
+      [id, name, start, end, waypoints, Math.round(corridorMiles), preference, JSON.stringify(planParams)]
+    );
+    if (snapshot === null) {
+      await client.query('DELETE FROM saved_route_snapshots WHERE saved_route_id = $1', [id]);
+    } else if (snapshot) {
+      await saveSnapshot(client, id, snapshot);
+    }
+    await client.query('COMMIT');
+
+    return res.json(toSavedRoute((await getSavedRoute(id))!));
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {
+      // ignore rollback errors
+    });
+    console.error('Error updating saved route:', error);
+    return res.status(500).json({ error: 'Failed to update saved route' });
+  } finally {
+    client.release();
+  }
+});
+
+// Trip legs that used the route go with it; the trips they were in are renumbered.
+router.delete('/:id', async (req, res) => {
+  const client = await pool.connect();
+  try {
+    const loaded = await loadSavedRouteFor(req.params.id, req.user);
+    if ('error' in loaded) {
+      return res.status(loaded.status).json({ error: loaded.error });
+    }
+
+    await client.query('BEGIN');
+    const deleted = await client.query<{ trip_id: string }>(
+      'DELETE FROM trip_legs WHERE saved_route_id = $1 RETURNING trip_id',
+      [loaded.route.id]
+    );
+    await client.query('DELETE FROM saved_routes WHERE id = $1', [loaded.route.id]);
+    await renumberTripLegs(client, Array.from(new Set(deleted.rows.map((row) => Number(row.trip_id)))));
+    await client.query('COMMIT');
+    return res.status(204).end();
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {
+      // ignore rollback errors
+    });
+    console.error('Error deleting saved route:', error);
+    return res.status(500).json({ error: 'Failed to delete saved route' });
+  } finally {
+    client.release();
+  }
+});
+
+// The stored route response, for viewing the route as saved without re-planning.
+router.get('/:id/snapshot', async (req, res) => {
+  try {
+    const loaded = await loadSavedRouteFor(req.params.id, req.user);
+    if ('error' in loaded) {
+      return res.status(loaded.status).json({ error: loaded.error });
+    }
+
+    const result = await pool.query<{ response: unknown; created_at: string }>(
+      'SELECT response, created_at FROM saved_route_snapshots WHERE saved_route_id = $1',
+      [loaded.route.id]
+    );
+    const snapshot = result.rows[0];
+    if (!snapshot) {
+      return res.status(404).json({ error: 'This saved route has no snapshot' });
+    }
+
+    return res.json({ saved_route_id: loaded.route.id, created_at: snapshot.created_at, response: snapshot.response });
+  } catch (error) {
+    console.error('Error fetching saved route snapshot:', error);
+    return res.status(500).json({ error: 'Failed to fetch saved route snapshot' });
+  }
+});
+
+// Snapshot stations against the current station data: which went down or came back, changed, or were removed.
+router.get('/:id/snapshot/compare', async (req, res) => {
+  try {
+    const loaded = await loadSavedRouteFor(req.params.id, req.user);
+    if ('error' in loaded) {
+      return res.status(loaded.status).json({ error: loaded.error });
+    }
+
+    const result = await pool.query<{ response: unknown; created_at: string }>(
+      'SELECT response, created_at FROM saved_route_snapshots WHERE saved_route_id = $1',
+      [loaded.route.id]
+    );
+    const snapshot = result.rows[0];
+    if (!snapshot) {
+      return res.status(404).json({ error: 'This saved route has no snapshot' });
+    }
+
+    const saved = snapshotStations(snapshot.response);
+    const ids = saved.map((station) => station.id);
+    const current = ids.length > 0
+      ? await pool.query<CurrentStationRow>(
+        'SELECT id, station_name, status_code, max_power_kw, ev_dc_fast_num FROM stations WHERE id = ANY($1::int[])',
+        [ids]
+      )
+      : { rows: [] as CurrentStationRow[] };
+    const changes = compareSnapshotStations(saved, new Map(current.rows.map((row) => [row.id, row])));
+
+    // When each change landed, from the ingest history since the snapshot.
+    const changedIds = changes.map((change) => change.station_id);
+    const history = changedIds.length > 0
+      ? await pool.query<{ station_id: number; recorded_at: string }>(
+        `
+          SELECT DISTINCT ON (station_id) station_id, recorded_at
+          FROM station_history
+          WHERE station_id = ANY($1::int[]) AND recorded_at >= $2
+          ORDER BY station_id, recorded_at DESC
+        `,
+        [changedIds, snapshot.created_at]
+      )
+      : { rows: [] as Array<{ station_id: number; recorded_at: string }> };
+    const changedAt = new Map(history.rows.map((row) => [row.station_id, row.recorded_at]));
+
+    return res.json({
+      saved_route_id: loaded.route.id,
+      snapshot_at: snapshot.created_at,
+      stations_checked: saved.length,
+      unchanged: saved.length - changes.length,
+      changes: changes.map((change) => ({ ...change, changed_at: changedAt.get(change.station_id) ?? null })),
+    });
+  } catch (error) {
+    console.error('Error comparing saved route snapshot:', error);
+    return res.status(500).json({ error: 'Failed to compare saved route snapshot' });
+  }
+});
+
+function toSavedRouteShare(row: SavedRouteShareRow) {
+  return { ...withNumericIds(row), status: shareStatus(row) };
+}
+
+// Share links are managed by the route's owner only.
+router.get('/:id/shares', async (req, res) => {
+  try {
+    const loaded = await loadSavedRouteFor(req.params.id, req.user);
+    if ('error' in loaded) {
+      return res.status(loaded.status).json({ error: loaded.error });
+    }
+
+    const result = await pool.query<SavedRouteShareRow>(
+      `
+        SELECT id, saved_route_id, token, created_at, expires_at, revoked_at
+        FROM saved_route_shares
+        WHERE saved_route_id = $1 AND revoked_at IS NULL
+        ORDER BY created_at DESC
+      `,
+      [loaded.route.id]
+    );
+    return res.json(result.rows.map(toSavedRouteShare));
+  } catch (error) {
+    console.error('Error listing saved route shares:', error);
+    return res.status(500).json({ error: 'Failed to list share links' });
+  }
+});
+
+// `expiresInDays` (1-365) sets an expiry; omitted or null never expires.
+router.post('/:id/shares', async (req, res) => {
+  try {
+    const loaded = await loadSavedRouteFor(req.params.id, req.user);
+    if ('error' in loaded) {
+      return res.status(loaded.status).json({ error: loaded.error });
+    }
+
+    const body = (req.body && typeof req.body === 'object') ? (req.body as Record<string, unknown>) : {};
+    const expiry = parseShareExpiresInDays(body.expiresInDays !== undefined ? body.expiresInDays : body.expires_in_days);
+    if ('error' in expiry) {
+      return res.status(400).json({ error: expiry.error });
+    }
+
+    const result = await pool.query<SavedRouteShareRow>(
+      `
+        INSERT INTO saved_route_shares (saved_route_id, token, expires_at)
+        VALUES ($1, $2, CASE WHEN $3::int IS NULL THEN NULL ELSE NOW() + make_interval(days => $3::int) END)
+        RETURNING id, saved_route_id, token, created_at, expires_at, revoked_at
+      `,
+      [loaded.route.id, createShareToken(), expiry.days]
+    );
+    return res.status(201).json(toSavedRouteShare(result.rows[0]!));
+  } catch (error) {
+    console.error('Error creating saved route share:', error);
+    return res.status(500).json({ error: 'Failed to create share link' });
+  }
+});
+
+// Revoked links stop working immediately and answer 410 from then on.
+router.delete('/:id/shares/:shareId', async (req, res) => {
+  try {
+    const loaded = await loadSavedRouteFor(req.params.id, req.user);
+    if ('error' in loaded) {
+      return res.status(loaded.status).json({ error: loaded.error });
+    }
+    const shareId = parseRouteId(req.params.shareId);
+    if (shareId === null) {
+      return res.status(400).json({ error: 'Invalid share id' });
+    }
+
+    const result = await pool.query(
+      `
+        UPDATE saved_route_shares
+        SET revoked_at = NOW()
+        WHERE id = $1 AND saved_route_id = $2 AND revoked_at IS NULL
+      `,
+      [shareId, loaded.route.id]
+    );
+    if (result.rowCount === 0) {
+      return res.status(404).json({ error: 'Share link not found' });
+    }
+    return res.status(204).end();
+  } catch (error) {
+    console.error('Error revoking saved route share:', error);
+    return res.status(500).json({ error: 'Failed to revoke share link' });
   }
 });
 
@@ -0,0 +1,85 @@
+import { Router } from 'express';
+import { pool } from '../db.js';
+import { storedPlanParams } from '../planParams.js';
+import { isShareToken, shareStatus } from '../routeShares.js';
+
+const router = Router();
+
+type SharedRouteRow = {
+  name: string | null;
+  start_query: string;
+  end_query: string;
+  waypoints: string[];
+  corridor_miles: number;
+  preference: 'fastest' | 'charger_optimized';
+  plan_params: unknown;
+  created_at: string;
+  snapshot_at: string | null;
+  shared_at: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+};
+
+// Read-only view of a saved route through a share token. No auth; the owner and route id are never included.
+router.get('/:token', async (req, res) => {
+  try {
+    const token = req.params.token;
+    if (!isShareToken(token)) {
+      return res.status(404).json({ error: 'Share link not found' });
+    }
+
+    const result = await pool.query<SharedRouteRow>(
+      `
+        SELECT
+          r.name,
+          r.start_query,
+          r.end_query,
+          r.waypoints,
+          r.corridor_miles,
+          r.preference,
+          r.plan_params,
+          r.created_at,
+          snap.created_at AS snapshot_at,
+          sh.created_at AS shared_at,
+          sh.expires_at,
+          sh.revoked_at
+        FROM saved_route_shares sh
+        JOIN saved_routes r ON r.id = sh.saved_route_id
+        LEFT JOIN saved_route_snapshots snap ON snap.saved_route_id = r.id
+        WHERE sh.token = $1
+      `,
+      [token]
+    );
+    const row = result.rows[0];
+    if (!row) {
+      return res.status(404).json({ error: 'Share link not found' });
+    }
+
+    const status = shareStatus(row);
+    if (status !== 'active') {
+      return res.status(410).json({ error: status === 'revoked' ? 'This share link has been revoked' : 'This share link has expired' });
+    }
+
+    // The owner's garage vehicle id means nothing to anyone else; its figures are saved alongside.
+    const planParams = storedPlanParams(row.plan_params, row);
+    delete planParams.vehicleId;
+    return res.json({
+      name: row.name,
+      start_query: row.start_query,
+      end_query: row.end_query,
+      waypoints: row.waypoints,
+      corridor_miles: row.corridor_miles,
+      preference: row.preference,
+      plan_params: planParams,
+      created_at: row.created_at,
+      snapshot_at: row.snapshot_at,
+      shared_at: row.shared_at,
+      expires_at: row.expires_at,
+    });
+  } catch (error) {
+    console.error('Error fetching shared route:', error);
+    return res.status(500).json({ error: 'Failed to fetch shared route' });
+  }
+});
+
+export default router;
@@ -1,19 +1,40 @@
 import { Router } from 'express';
+import { config } from '../config.js';
 import { pool } from '../db.js';
+import { requireAuth } from '../middleware/auth.js';
+import { checkinLimiter } from '../middleware/rateLimiter.js';
+import { STATION_NETWORKS, parseStationNetworkList } from '../networks.js';
+import { parseCheckinOutcome, summarizeCheckins, type StationCheckinOutcome } from '../planning/checkins.js';
 
 const router = Router();
 
 // Get all stations
 router.get('/', async (req, res) => {
   try {
-    const { state } = req.query;
+    const { state, network } = req.query;
 
     let query = 'SELECT * FROM stations';
-    const params: string[] = [];
+    const conditions: string[] = [];
+    const params: unknown[] = [];
 
     if (state) {
-      query += ' WHERE state = $1';
       params.push(state as string);
+      conditions.push(`state = $${params.length}`);
+    }
+
+    if (network !== undefined) {
+      const networks = parseStationNetworkList(network);
+      if (!networks) {
+        return res.status(400).json({ error: 'network must be a comma-separated list of network IDs' });
+      }
+      if (networks.length > 0) {
+        params.push(networks);
+        conditions.push(`network = ANY($${params.length}::text[])`);
+      }
+    }
+
+    if (conditions.length > 0) {
+      query += ` WHERE ${conditions.join(' AND ')}`;
     }
 
     query += ' ORDER BY state, city';
@@ -26,6 +47,20 @@ router.get('/', async (req, res) => {
   }
 });
 
+// Known networks with how many stations of each are loaded
+router.get('/networks', async (_req, res) => {
+  try {
+    const result = await pool.query<{ network: string; total: string }>(
+      'SELECT network, COUNT(*) AS total FROM stations GROUP BY network'
+    );
+    const counts = new Map(result.rows.map((row) => [row.network, parseInt(row.total)]));
+    res.json(STATION_NETWORKS.map(({ id, label }) => ({ id, label, station_count: counts.get(id) ?? 0 })));
+  } catch (error) {
+    console.error('Error fetching station networks:', error);
+    res.status(500).json({ error: 'Failed to fetch station networks' });
+  }
+});
+
 // Get station by ID
 router.get('/:id', async (req, res) => {
   try {
@@ -36,13 +71,221 @@ router.get('/:id', async (req, res) => {
       return res.status(404).json({ error: 'Station not found' });
     }
 
-    res.json(result.rows[0]);
+    const sources = await pool.query(
+      `
+        SELECT source, source_id, match_distance_meters, last_seen_at
+        FROM station_sources
+        WHERE station_id = $1
+        ORDER BY match_distance_meters, source
+      `,
+      [id]
+    );
+
+    res.json({ ...result.rows[0], sources: sources.rows });
   } catch (error) {
     console.error('Error fetching station:', error);
     res.status(500).json({ error: 'Failed to fetch station' });
   }
 });
 
+// Field-level change history for a station, newest first (survives the station being removed)
+router.get('/:id/history', async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ error: 'Invalid station id' });
+    }
+
+    const limit = req.query.limit === undefined ? 100 : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+      return res.status(400).json({ error: 'limit must be an integer between 1 and 500' });
+    }
+
+    const [station, history, summary] = await Promise.all([
+      pool.query('SELECT id, station_name, status_code, network FROM stations WHERE id = $1', [id]),
+      pool.query(
+        `
+          SELECT h.id, h.change_type, h.changes, h.recorded_at, h.run_id, r.source, r.input
+          FROM station_history h
+          LEFT JOIN station_ingest_runs r ON r.id = h.run_id
+          WHERE h.station_id = $1
+          ORDER BY h.recorded_at DESC, h.id DESC
+          LIMIT $2
+        `,
+        [id, limit]
+      ),
+      pool.query<{ total_changes: string; status_changes: string; first_recorded_at: Date | null; last_status_change_at: Date | null }>(
+        `
+          SELECT
+            COUNT(*) AS total_changes,
+            COUNT(*) FILTER (WHERE changes ? 'status_code' AND change_type = 'updated') AS status_changes,
+            MIN(recorded_at) AS first_recorded_at,
+            MAX(recorded_at) FILTER (WHERE changes ? 'status_code' AND change_type = 'updated') AS last_status_change_at
+          FROM station_history
+          WHERE station_id = $1
+        `,
+        [id]
+      ),
+    ]);
+
+    if (station.rows.length === 0 && history.rows.length === 0) {
+      return res.status(404).json({ error: 'Station not found' });
+    }
+
+    const totals = summary.rows[0];
+    res.json({
+      station_id: id,
+      // null once the station has been removed; its history is still returned.
+      station: station.rows[0] ?? null,
+      summary: {
+        total_changes: parseInt(totals?.total_changes ?? '0'),
+        status_changes: parseInt(totals?.status_changes ?? '0'),
+        first_recorded_at: totals?.first_recorded_at ?? null,
+        last_status_change_at: totals?.last_status_change_at ?? null,
+      },
+      history: history.rows,
+    });
+  } catch (error) {
+    console.error('Error fetching station history:', error);
+    res.status(500).json({ error: 'Failed to fetch station history' });
+  }
+});
+
+type CheckinRow = {
+  id: string;
+  station_id: number;
+  user_id: string;
+  outcome: StationCheckinOutcome;
+  working_stalls: number | null;
+  comment: string | null;
+  created_at: Date;
+};
+
+// Never expose who checked in; `mine` lets the UI mark the caller's own reports.
+function toCheckinResponse(row: CheckinRow, userId: number | undefined) {
+  return {
+    id: Number(row.id),
+    station_id: row.station_id,
+    outcome: row.outcome,
+    working_stalls: row.working_stalls,
+    comment: row.comment,
+    created_at: row.created_at,
+    mine: userId !== undefined && Number(row.user_id) === userId,
+  };
+}
+
+// Recent user check-ins for a station, newest first, with the summary route planning ranks by
+router.get('/:id/checkins', async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ error: 'Invalid station id' });
+    }
+
+    const limit = req.query.limit === undefined ? 20 : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+      return res.status(400).json({ error: 'limit must be an integer between 1 and 100' });
+    }
+
+    const [station, checkins, recent] = await Promise.all([
+      pool.query('SELECT id FROM stations WHERE id = $1', [id]),
+      pool.query<CheckinRow>(
+        `
+          SELECT id, station_id, user_id, outcome, working_stalls, comment, created_at
+          FROM station_checkins
+          WHERE station_id = $1
+          ORDER BY created_at DESC, id DESC
+          LIMIT $2
+        `,
+        [id, limit]
+      ),
+      pool.query<Pick<CheckinRow, 'outcome' | 'working_stalls' | 'created_at'>>(
+        `
+          SELECT outcome, working_stalls, created_at
+          FROM station_checkins
+          WHERE station_id = $1 AND created_at > NOW() - make_interval(hours => $2)
+          ORDER BY created_at DESC, id DESC
+        `,
+        [id, config.stations.checkinWindowHours]
+      ),
+    ]);
+
+    if (station.rows.length === 0 && checkins.rows.length === 0) {
+      return res.status(404).json({ error: 'Station not found' });
+    }
+
+    res.json({
+      station_id: id,
+      window_hours: config.stations.checkinWindowHours,
+      summary: summarizeCheckins(recent.rows),
+      checkins: checkins.rows.map((row) => toCheckinResponse(row, req.user?.id)),
+    });
+  } catch (error) {
+    console.error('Error fetching station check-ins:', error);
+    res.status(500).json({ error: 'Failed to fetch station check-ins' });
+  }
+});
+
+// Report how charging went at a station
+router.post('/:id/checkins', checkinLimiter, requireAuth, async (req, res) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(400).json({ error: 'Invalid station id' });
+    }
+
+    const body = (req.body && typeof req.body === 'object') ? (req.body as Record<string, unknown>) : {};
+    const outcome = parseCheckinOutcome(body.outcome);
+    if (!outcome) {
+      return res.status(400).json({ error: 'outcome must be "charged_ok", "partial", "failed", or "iced"' });
+    }
+
+    const rawWorkingStalls = body.workingStalls ?? body.working_stalls;
+    let workingStalls: number | null = null;
+    if (rawWorkingStalls !== undefined && rawWorkingStalls !== null && rawWorkingStalls !== '') {
+      const parsed = Number(rawWorkingStalls);
+      if (!Number.isInteger(parsed) || parsed < 0 || parsed > 100) {
+        return res.status(400).json({ error: 'workingStalls must be an integer between 0 and 100' });
+      }
+      workingStalls = parsed;
+    }
+
+    let comment: string | null = null;
+    if (body.comment !== undefined && body.comment !== null) {
+      if (typeof body.comment !== 'string') {
+        return res.status(400).json({ error: 'comment must be a string' });
+      }
+      comment = body.comment.trim() || null;
+      if (comment && comment.length > 500) {
+        return res.status(400).json({ error: 'comment must be at most 500 characters' });
+      }
+    }
+
+    const station = await pool.query<{ ev_dc_fast_num: number }>('SELECT ev_dc_fast_num FROM stations WHERE id = $1', [id]);
+    if (station.rows.length === 0) {
+      return res.status(404).json({ error: 'Station not found' });
+    }
+    const stalls = station.rows[0]!.ev_dc_fast_num;
+    if (workingStalls !== null && stalls > 0 && workingStalls > stalls) {
+      return res.status(400).json({ error: `workingStalls cannot exceed the station's ${stalls} stalls` });
+    }
+
+    const result = await pool.query<CheckinRow>(
+      `
+        INSERT INTO station_checkins (station_id, user_id, outcome, working_stalls, comment)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING id, station_id, user_id, outcome, working_stalls, comment, created_at
+      `,
+      [id, req.user!.id, outcome, workingStalls, comment]
+    );
+
+    res.status(201).json(toCheckinResponse(result.rows[0]!, req.user!.id));
+  } catch (error) {
+    console.error('Error creating station check-in:', error);
+    res.status(500).json({ error: 'Failed to save check-in' });
+  }
+});
+
 // Get stations near a location
 router.get('/near/:lat/:lng', async (req, res) => {
   try {
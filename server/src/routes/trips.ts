@@ -0,0 +1,532 @@
+import { Router } from 'express';
+import type { PoolClient } from 'pg';
+import { pool } from '../db.js';
+import { requireAuth } from '../middleware/auth.js';
+import { storedPlanParams, type SavedPlanParams } from '../planParams.js';
+import { renumberTripLegs } from '../tripLegs.js';
+
+const router = Router();
+
+// Enough for a month on the road with a leg a day.
+const MAX_TRIP_LEGS = 31;
+
+function ensureString(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  return trimmed;
+}
+
+function hasOwn(obj: Record<string, unknown>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(obj, key);
+}
+
+function pick(body: Record<string, unknown>, camel: string, snake: string): unknown {
+  return hasOwn(body, camel) ? body[camel] : hasOwn(body, snake) ? body[snake] : undefined;
+}
+
+function parseId(raw: unknown): number | null {
+  const id = typeof raw === 'number' ? raw : typeof raw === 'string' ? Number.parseInt(raw, 10) : NaN;
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+// A calendar date (YYYY-MM-DD); legs are days, not instants.
+function parseLegDate(raw: unknown): string | null {
+  if (typeof raw !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(raw.trim())) return null;
+  const date = raw.trim();
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === date ? date : null;
+}
+
+type TripRow = {
+  id: number;
+  name: string;
+  created_at: string;
+  updated_at: string;
+};
+
+type TripLegRow = {
+  id: number;
+  trip_id: number;
+  position: number;
+  leg_date: string;
+  saved_route_id: number;
+  route_name: string | null;
+  start_query: string;
+  end_query: string;
+  waypoints: string[];
+  corridor_miles: number;
+  preference: 'fastest' | 'charger_optimized';
+  plan_params: unknown;
+  snapshot_at: string | null;
+};
+
+type TripLeg = {
+  id: number;
+  position: number;
+  date: string;
+  saved_route: {
+    id: number;
+    name: string | null;
+    start_query: string;
+    end_query: string;
+    waypoints: string[];
+    corridor_miles: number;
+    preference: 'fastest' | 'charger_optimized';
+    plan_params: SavedPlanParams;
+    snapshot_at: string | null;
+  };
+};
+
+type Trip = TripRow & { legs: TripLeg[] };
+
+const TRIP_SELECT = 'SELECT id, name, created_at, updated_at FROM trips';
+
+// pg returns BIGSERIAL/BIGINT columns as strings; trip, leg and saved route ids go out as numbers.
+function toTripRow(row: TripRow): TripRow {
+  return { ...row, id: Number(row.id) };
+}
+
+function toTripLeg(row: TripLegRow): TripLeg {
+  return {
+    id: Number(row.id),
+    position: row.position,
+    date: row.leg_date,
+    saved_route: {
+      id: Number(row.saved_route_id),
+      name: row.route_name,
+      start_query: row.start_query,
+      end_query: row.end_query,
+      waypoints: row.waypoints,
+      corridor_miles: row.corridor_miles,
+      preference: row.preference,
+      plan_params: storedPlanParams(row.plan_params, row),
+      snapshot_at: row.snapshot_at,
+    },
+  };
+}
+
+async function getTripLegs(tripIds: number[]): Promise<Map<number, TripLeg[]>> {
+  const legs = new Map<number, TripLeg[]>(tripIds.map((id) => [id, []]));
+  if (tripIds.length === 0) return legs;
+
+  const result = await pool.query<TripLegRow>(
+    `
+      SELECT
+        l.id,
+        l.trip_id,
+        l.position,
+        to_char(l.leg_date, 'YYYY-MM-DD') AS leg_date,
+        l.saved_route_id,
+        r.name AS route_name,
+        r.start_query,
+        r.end_query,
+        r.waypoints,
+        r.corridor_miles,
+        r.preference,
+        r.plan_params,
+        s.created_at AS snapshot_at
+      FROM trip_legs l
+      JOIN saved_routes r ON r.id = l.saved_route_id
+      LEFT JOIN saved_route_snapshots s ON s.saved_route_id = r.id
+      WHERE l.trip_id = ANY($1::bigint[])
+      ORDER BY l.trip_id, l.position
+    `,
+    [tripIds]
+  );
+  for (const row of result.rows) {
+    legs.get(Number(row.trip_id))?.push(toTripLeg(row));
+  }
+  return legs;
+}
+
+/** The user's trip with its legs in order, or null if it doesn't exist or isn't theirs. */
+async function getTrip(userId: number, id: number): Promise<Trip | null> {
+  const result = await pool.query<TripRow>(`${TRIP_SELECT} WHERE id = $1 AND user_id = $2`, [id, userId]);
+  const row = result.rows[0] ? toTripRow(result.rows[0]) : null;
+  if (!row) return null;
+  const legs = await getTripLegs([row.id]);
+  return { ...row, legs: legs.get(row.id) ?? [] };
+}
+
+type LegInput = { savedRouteId: number; date: string };
+
+function parseLegInput(raw: unknown): LegInput | { error: string } {
+  const body = (raw && typeof raw === 'object') ? (raw as Record<string, unknown>) : {};
+  const savedRouteId = parseId(pick(body, 'savedRouteId', 'saved_route_id'));
+  if (savedRouteId === null) return { error: 'savedRouteId is required' };
+  const date = parseLegDate(body.date);
+  if (!date) return { error: 'date must be a YYYY-MM-DD date' };
+  return { savedRouteId, date };
+}
+
+// Legs can only use the trip owner's own saved routes.
+async function findUnownedRoute(client: PoolClient, userId: number, savedRouteIds: number[]): Promise<number | null> {
+  if (savedRouteIds.length === 0) return null;
+  const result = await client.query<{ id: string }>(
+    'SELECT id FROM saved_routes WHERE id = ANY($1::bigint[]) AND user_id = $2',
+    [savedRouteIds, userId]
+  );
+  const owned = new Set(result.rows.map((row) => Number(row.id)));
+  return savedRouteIds.find((id) => !owned.has(id)) ?? null;
+}
+
+async function touchTrip(client: PoolClient, tripId: number): Promise<void> {
+  await client.query('UPDATE trips SET updated_at = NOW() WHERE id = $1', [tripId]);
+}
+
+router.get('/', requireAuth, async (req, res) => {
+  try {
+    const result = await pool.query<TripRow>(
+      `
+        ${TRIP_SELECT}
+        WHERE user_id = $1
+        ORDER BY created_at DESC
+        LIMIT 50
+      `,
+      [req.user!.id]
+    );
+    const trips = result.rows.map(toTripRow);
+    const legs = await getTripLegs(trips.map((trip) => trip.id));
+    return res.json(trips.map((trip) => ({ ...trip, legs: legs.get(trip.id) ?? [] })));
+  } catch (error) {
+    console.error('Error listing trips:', error);
+    return res.status(500).json({ error: 'Failed to list trips' });
+  }
+});
+
+router.get('/:id', requireAuth, async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid trip id' });
+    }
+
+    const trip = await getTrip(req.user!.id, id);
+    if (!trip) {
+      return res.status(404).json({ error: 'Trip not found' });
+    }
+    return res.json(trip);
+  } catch (error) {
+    console.error('Error fetching trip:', error);
+    return res.status(500).json({ error: 'Failed to fetch trip' });
+  }
+});
+
+// `legs` optionally seeds the trip in order: [{ savedRouteId, date }].
+router.post('/', requireAuth, async (req, res) => {
+  const body = (req.body && typeof req.body === 'object') ? (req.body as Record<string, unknown>) : {};
+  const name = ensureString(body.name);
+  if (!name) {
+    return res.status(400).json({ error: 'name is required' });
+  }
+
+  const legs: LegInput[] = [];
+  if (body.legs !== undefined) {
+    if (!Array.isArray(body.legs) || body.legs.length > MAX_TRIP_LEGS) {
+      return res.status(400).json({ error: `legs must be an array of up to ${MAX_TRIP_LEGS} legs` });
+    }
+    for (const raw of body.legs) {
+      const leg = parseLegInput(raw);
+      if ('error' in leg) {
+        return res.status(400).json({ error: `legs: ${leg.error}` });
+      }
+      legs.push(leg);
+    }
+  }
+
+  const userId = req.user!.id;
+  const client = await pool.connect();
+  try {
+    const unowned = await findUnownedRoute(client, userId, legs.map((leg) => leg.savedRouteId));
+    if (unowned !== null) {
+      return res.status(400).json({ error: `Saved route ${unowned} not found` });
+    }
+
+    await client.query('BEGIN');
+    const inserted = await client.query<{ id: string }>(
+      'INSERT INTO trips (user_id, name) VALUES ($1, $2) RETURNING id',
+      [userId, name]
+    );
+    const tripId = Number(inserted.rows[0]!.id);
+    for (const [position, leg] of legs.entries()) {
+      await client.query(
+        'INSERT INTO trip_legs (trip_id, saved_route_id, position, leg_date) VALUES ($1, $2, $3, $4)',
+        [tripId, leg.savedRouteId, position, leg.date]
+      );
+    }
+    await client.query('COMMIT');
+
+    return res.status(201).json(await getTrip(userId, tripId));
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {
+      // ignore rollback errors
+    });
+    console.error('Error creating trip:', error);
+    return res.status(500).json({ error: 'Failed to create trip' });
+  } finally {
+    client.release();
+  }
+});
+
+router.patch('/:id', requireAuth, async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid trip id' });
+    }
+
+    const body = (req.body && typeof req.body === 'object') ? (req.body as Record<string, unknown>) : {};
+    const name = ensureString(body.name);
+    if (!name) {
+      return res.status(400).json({ error: 'name must be a non-empty string' });
+    }
+
+    const userId = req.user!.id;
+    const updated = await pool.query(
+      'UPDATE trips SET name = $3, updated_at = NOW() WHERE id = $1 AND user_id = $2',
+      [id, userId, name]
+    );
+    if (updated.rowCount === 0) {
+      return res.status(404).json({ error: 'Trip not found' });
+    }
+    return res.json(await getTrip(userId, id));
+  } catch (error) {
+    console.error('Error updating trip:', error);
+    return res.status(500).json({ error: 'Failed to update trip' });
+  }
+});
+
+router.delete('/:id', requireAuth, async (req, res) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid trip id' });
+    }
+
+    const deleted = await pool.query('DELETE FROM trips WHERE id = $1 AND user_id = $2', [id, req.user!.id]);
+    if (deleted.rowCount === 0) {
+      return res.status(404).json({ error: 'Trip not found' });
+    }
+    return res.status(204).end();
+  } catch (error) {
+    console.error('Error deleting trip:', error);
+    return res.status(500).json({ error: 'Failed to delete trip' });
+  }
+});
+
+// Leg changes return the whole trip so the itinerary can re-render from one response.
+
+// Appends a leg: { savedRouteId, date }.
+router.post('/:id/legs', requireAuth, async (req, res) => {
+  const id = parseId(req.params.id);
+  if (id === null) {
+    return res.status(400).json({ error: 'Invalid trip id' });
+  }
+  const leg = parseLegInput(req.body);
+  if ('error' in leg) {
+    return res.status(400).json({ error: leg.error });
+  }
+
+  const userId = req.user!.id;
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const trip = await client.query<{ id: number }>(
+      'SELECT id FROM trips WHERE id = $1 AND user_id = $2 FOR UPDATE',
+      [id, userId]
+    );
+    if (!trip.rows[0]) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'Trip not found' });
+    }
+    if (await findUnownedRoute(client, userId, [leg.savedRouteId]) !== null) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ error: `Saved route ${leg.savedRouteId} not found` });
+    }
+
+    const count = await client.query<{ total: string; next_position: number }>(
+      'SELECT COUNT(*) AS total, COALESCE(MAX(position) + 1, 0)::int AS next_position FROM trip_legs WHERE trip_id = $1',
+      [id]
+    );
+    if (Number.parseInt(count.rows[0]?.total ?? '0', 10) >= MAX_TRIP_LEGS) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ error: `A trip can have at most ${MAX_TRIP_LEGS} legs` });
+    }
+
+    await client.query(
+      'INSERT INTO trip_legs (trip_id, saved_route_id, position, leg_date) VALUES ($1, $2, $3, $4)',
+      [id, leg.savedRouteId, count.rows[0]?.next_position ?? 0, leg.date]
+    );
+    await touchTrip(client, id);
+    await client.query('COMMIT');
+
+    return res.status(201).json(await getTrip(userId, id));
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {
+      // ignore rollback errors
+    });
+    console.error('Error adding trip leg:', error);
+    return res.status(500).json({ error: 'Failed to add trip leg' });
+  } finally {
+    client.release();
+  }
+});
+
+// Reorders every leg at once: { legIds } must list each of the trip's legs exactly once.
+router.put('/:id/legs/order', requireAuth, async (req, res) => {
+  const id = parseId(req.params.id);
+  if (id === null) {
+    return res.status(400).json({ error: 'Invalid trip id' });
+  }
+  const body = (req.body && typeof req.body === 'object') ? (req.body as Record<string, unknown>) : {};
+  const rawLegIds = pick(body, 'legIds', 'leg_ids');
+  const legIds = Array.isArray(rawLegIds) ? rawLegIds.map(parseId) : null;
+  if (!legIds || legIds.some((legId) => legId === null)) {
+    return res.status(400).json({ error: 'legIds must be an array of leg ids' });
+  }
+
+  const userId = req.user!.id;
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const trip = await client.query<{ id: number }>(
+      'SELECT id FROM trips WHERE id = $1 AND user_id = $2 FOR UPDATE',
+      [id, userId]
+    );
+    if (!trip.rows[0]) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'Trip not found' });
+    }
+
+    const existing = await client.query<{ id: string }>('SELECT id FROM trip_legs WHERE trip_id = $1', [id]);
+    const existingIds = new Set(existing.rows.map((row) => Number(row.id)));
+    if (legIds.length !== existingIds.size || new Set(legIds).size !== legIds.length || legIds.some((legId) => !existingIds.has(legId!))) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ error: 'legIds must list every leg of the trip exactly once' });
+    }
+
+    // Positions are checked at commit, so they can be swapped freely here.
+    await client.query(
+      `
+        UPDATE trip_legs l
+        SET position = (ordered.ordinal - 1)::int
+        FROM unnest($2::bigint[]) WITH ORDINALITY AS ordered(id, ordinal)
+        WHERE l.trip_id = $1 AND l.id = ordered.id
+      `,
+      [id, legIds]
+    );
+    await touchTrip(client, id);
+    await client.query('COMMIT');
+
+    return res.json(await getTrip(userId, id));
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {
+      // ignore rollback errors
+    });
+    console.error('Error reordering trip legs:', error);
+    return res.status(500).json({ error: 'Failed to reorder trip legs' });
+  } finally {
+    client.release();
+  }
+});
+
+// Changes a leg's date and/or saved route.
+router.patch('/:id/legs/:legId', requireAuth, async (req, res) => {
+  const id = parseId(req.params.id);
+  const legId = parseId(req.params.legId);
+  if (id === null || legId === null) {
+    return res.status(400).json({ error: 'Invalid trip or leg id' });
+  }
+
+  const body = (req.body && typeof req.body === 'object') ? (req.body as Record<string, unknown>) : {};
+  let date: string | null = null;
+  if (body.date !== undefined) {
+    date = parseLegDate(body.date);
+    if (!date) return res.status(400).json({ error: 'date must be a YYYY-MM-DD date' });
+  }
+  let savedRouteId: number | null = null;
+  const rawSavedRouteId = pick(body, 'savedRouteId', 'saved_route_id');
+  if (rawSavedRouteId !== undefined) {
+    savedRouteId = parseId(rawSavedRouteId);
+    if (savedRouteId === null) return res.status(400).json({ error: 'savedRouteId must be a saved route id' });
+  }
+
+  const userId = req.user!.id;
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    if (savedRouteId !== null && await findUnownedRoute(client, userId, [savedRouteId]) !== null) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ error: `Saved route ${savedRouteId} not found` });
+    }
+
+    const updated = await client.query(
+      `
+        UPDATE trip_legs l
+        SET
+          leg_date = COALESCE($3::date, l.leg_date),
+          saved_route_id = COALESCE($4::bigint, l.saved_route_id)
+        FROM trips t
+        WHERE l.id = $2 AND l.trip_id = $1 AND t.id = l.trip_id AND t.user_id = $5
+      `,
+      [id, legId, date, savedRouteId, userId]
+    );
+    if (updated.rowCount === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'Trip leg not found' });
+    }
+    await touchTrip(client, id);
+    await client.query('COMMIT');
+
+    return res.json(await getTrip(userId, id));
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {
+      // ignore rollback errors
+    });
+    console.error('Error updating trip leg:', error);
+    return res.status(500).json({ error: 'Failed to update trip leg' });
+  } finally {
+    client.release();
+  }
+});
+
+router.delete('/:id/legs/:legId', requireAuth, async (req, res) => {
+  const id = parseId(req.params.id);
+  const legId = parseId(req.params.legId);
+  if (id === null || legId === null) {
+    return res.status(400).json({ error: 'Invalid trip or leg id' });
+  }
+
+  const userId = req.user!.id;
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const deleted = await client.query(
+      `
+        DELETE FROM trip_legs l
+        USING trips t
+        WHERE l.id = $2 AND l.trip_id = $1 AND t.id = l.trip_id AND t.user_id = $3
+      `,
+      [id, legId, userId]
+    );
+    if (deleted.rowCount === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'Trip leg not found' });
+    }
+    await renumberTripLegs(client, [id]);
+    await client.query('COMMIT');
+
+    return res.json(await getTrip(userId, id));
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {
+      // ignore rollback errors
+    });
+    console.error('Error removing trip leg:', error);
+    return res.status(500).json({ error: 'Failed to remove trip leg' });
+  } finally {
+    client.release();
+  }
+});
+
+export default router;
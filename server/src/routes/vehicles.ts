@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { getVehicleById, listVehicles } from '../vehicles.js';
+
+const router = Router();
+
+router.get('/', async (_req, res) => {
+  try {
+    return res.json(await listVehicles());
+  } catch (error) {
+    console.error('Error listing vehicles:', error);
+    return res.status(500).json({ error: 'Failed to list vehicles' });
+  }
+});
+
+router.get('/:id', async (req, res) => {
+  try {
+    const id = Number.parseInt(req.params.id, 10);
+    if (!Number.isFinite(id) || id <= 0) {
+      return res.status(400).json({ error: 'Invalid vehicle id' });
+    }
+
+    const vehicle = await getVehicleById(id);
+    if (!vehicle) {
+      return res.status(404).json({ error: 'Vehicle not found' });
+    }
+
+    return res.json(vehicle);
+  } catch (error) {
+    console.error('Error fetching vehicle:', error);
+    return res.status(500).json({ error: 'Failed to fetch vehicle' });
+  }
+});
+
+export default router;
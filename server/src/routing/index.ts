@@ -0,0 +1,91 @@
+import { config } from '../config.js';
+import { getCachedDirections, makeDirectionsCacheKey, setCachedDirections } from '../cache.js';
+import { createOrsProvider } from './ors.js';
+import { createOsrmProvider } from './osrm.js';
+import { createValhallaProvider } from './valhalla.js';
+import type { DirectionsRequest, RouteResult, RoutingProvider } from './types.js';
+
+export type { DirectionsRequest, RouteResult, RoutingProvider, RoutingProviderName } from './types.js';
+
+let provider: RoutingProvider | null = null;
+
+/** The routing engine selected by `ROUTING_PROVIDER` (defaults to OpenRouteService). */
+export function getRoutingProvider(): RoutingProvider {
+  if (provider) return provider;
+  switch (config.routing.provider) {
+    case 'osrm':
+      provider = createOsrmProvider({ baseUrl: config.routing.osrmBaseUrl, profile: config.routing.osrmProfile });
+      break;
+    case 'valhalla':
+      provider = createValhallaProvider({ baseUrl: config.routing.valhallaBaseUrl });
+      break;
+    case 'ors':
+      provider = createOrsProvider({ baseUrl: config.routing.orsBaseUrl, apiKey: config.apiKeys.openRouteService });
+      break;
+  }
+  return provider;
+}
+
+function parseCachedRoutes(value: unknown): RouteResult[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  const parsed: RouteResult[] = [];
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') continue;
+    const summary = (entry as { summary?: unknown }).summary as { distance_meters?: unknown; duration_seconds?: unknown } | undefined;
+    const distance = summary?.distance_meters;
+    const duration = summary?.duration_seconds;
+    if (typeof distance !== 'number' || !Number.isFinite(distance)) continue;
+    if (typeof duration !== 'number' || !Number.isFinite(duration)) continue;
+
+    const geometryRaw = (entry as { geometry?: unknown }).geometry;
+    if (!Array.isArray(geometryRaw) || geometryRaw.length === 0) continue;
+    const geometry: [number, number][] = [];
+    for (const point of geometryRaw) {
+      if (!Array.isArray(point) || point.length < 2) continue;
+      const [lat, lng] = point;
+      if (typeof lat !== 'number' || typeof lng !== 'number') continue;
+      if (!Number.isFinite(lat) || !Number.isFinite(lng)) continue;
+      geometry.push([lat, lng]);
+    }
+    if (geometry.length === 0) continue;
+
+    const elevationsRaw = (entry as { elevations_meters?: unknown }).elevations_meters;
+    const elevations = Array.isArray(elevationsRaw) ? elevationsRaw.filter((n) => typeof n === 'number' && Number.isFinite(n)) : null;
+    const elevations_meters = elevations && elevations.length === geometry.length ? elevations : undefined;
+
+    parsed.push({
+      summary: { distance_meters: distance, duration_seconds: duration },
+      geometry,
+      elevations_meters,
+    });
+  }
+  return parsed.length > 0 ? parsed : null;
+}
+
+/** Directions from the configured provider, served from the directions cache when possible. */
+export async function getDirections(request: DirectionsRequest): Promise<RouteResult[]> {
+  const routing = getRoutingProvider();
+  const directionsTtlDays = config.cache.directionsTtlDays;
+  const directionsCacheKey = directionsTtlDays > 0
+    ? makeDirectionsCacheKey({ provider: routing.name, ...request })
+    : null;
+
+  if (directionsCacheKey) {
+    const cached = await getCachedDirections(directionsCacheKey);
+    const parsed = parseCachedRoutes(cached);
+    if (parsed) return parsed;
+  }
+
+  const routes = await routing.directions(request);
+
+  if (directionsCacheKey) {
+    await setCachedDirections({
+      cacheKey: directionsCacheKey,
+      requestJson: { provider: routing.name, ...request },
+      routesJson: routes,
+      ttlDays: directionsTtlDays,
+    });
+  }
+
+  return routes;
+}
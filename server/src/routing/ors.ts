@@ -0,0 +1,126 @@
+import type { DirectionsRequest, RouteResult, RoutingProvider } from './types.js';
+
+export const ORS_PUBLIC_BASE_URL = 'https://api.openrouteservice.org';
+
+function parseOrsDirectionsFeature(feature: unknown): RouteResult | null {
+  const f = feature as {
+    geometry?: { coordinates?: unknown };
+    properties?: { summary?: { distance?: unknown; duration?: unknown } };
+  };
+
+  const summary = f.properties?.summary;
+  const distance = summary?.distance;
+  const duration = summary?.duration;
+  if (typeof distance !== 'number' || typeof duration !== 'number') return null;
+
+  const line = f.geometry?.coordinates;
+  if (!Array.isArray(line) || line.length === 0) return null;
+
+  const geometry: [number, number][] = [];
+  const elevations: number[] = [];
+  let hasElevation = true;
+  for (const point of line) {
+    if (!Array.isArray(point) || point.length < 2) continue;
+    const [lng, lat, elevation] = point;
+    if (typeof lat !== 'number' || typeof lng !== 'number') continue;
+    geometry.push([lat, lng]);
+    if (typeof elevation === 'number' && Number.isFinite(elevation)) {
+      elevations.push(elevation);
+    } else {
+      hasElevation = false;
+    }
+  }
+  if (geometry.length === 0) return null;
+
+  return {
+    summary: {
+      distance_meters: distance,
+      duration_seconds: duration,
+    },
+    geometry,
+    elevations_meters: hasElevation && elevations.length === geometry.length ? elevations : undefined,
+  };
+}
+
+/**
+ * OpenRouteService `driving-car` directions with elevation. Errors carry `orsStatus`/`orsCode` so callers
+ * can recognise ORS-specific limits (e.g. alternatives refused on long routes).
+ */
+export function createOrsProvider(options: { baseUrl: string; apiKey: string | undefined }): RoutingProvider {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+
+  async function directions(request: DirectionsRequest): Promise<RouteResult[]> {
+    // Self-hosted ORS instances usually run without keys; the public API always needs one.
+    if (!options.apiKey && baseUrl === ORS_PUBLIC_BASE_URL) {
+      throw new Error('OPENROUTESERVICE_API_KEY not set in environment');
+    }
+
+    const body: Record<string, unknown> = {
+      coordinates: request.coordinates.map(([lng, lat]) => [lng, lat]),
+      instructions: false,
+      elevation: true,
+      radiuses: request.coordinates.map(() => 5000), // 5km snap radius for each point
+    };
+
+    // ORS only supports alternative_routes with exactly 2 coordinates (start + end)
+    if (request.includeAlternatives && request.coordinates.length === 2) {
+      body.alternative_routes = {
+        target_count: 3,
+        weight_factor: 1.8,
+        share_factor: 0.6,
+      };
+    }
+
+    const headers: Record<string, string> = {
+      Accept: 'application/geo+json',
+      'Content-Type': 'application/json',
+    };
+    if (options.apiKey) headers.Authorization = options.apiKey;
+
+    const response = await fetch(`${baseUrl}/v2/directions/driving-car/geojson`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      let orsCode: number | undefined;
+      try {
+        const parsed = JSON.parse(text) as { error?: { code?: unknown } };
+        if (typeof parsed?.error?.code === 'number') {
+          orsCode = parsed.error.code;
+        }
+      } catch {
+        // ignore parse errors
+      }
+
+      const error = new Error(`OpenRouteService directions error: ${response.status} ${response.statusText}\n${text}`);
+      (error as unknown as { orsStatus?: number }).orsStatus = response.status;
+      (error as unknown as { orsCode?: number }).orsCode = orsCode;
+      throw error;
+    }
+
+    const data = (await response.json()) as unknown;
+    if (!data || typeof data !== 'object') {
+      throw new Error('Unexpected directions response: expected an object');
+    }
+
+    const features = (data as { features?: unknown }).features;
+    if (!Array.isArray(features) || features.length === 0) {
+      throw new Error('Unexpected directions response: missing features');
+    }
+
+    const routes = features
+      .map(parseOrsDirectionsFeature)
+      .filter((r): r is RouteResult => r !== null);
+
+    if (routes.length === 0) {
+      throw new Error('Unexpected directions response: no valid routes');
+    }
+
+    return routes;
+  }
+
+  return { name: 'ors', directions };
+}
@@ -0,0 +1,82 @@
+import type { DirectionsRequest, RouteResult, RoutingProvider } from './types.js';
+
+function parseOsrmRoute(route: unknown): RouteResult | null {
+  const r = route as {
+    distance?: unknown;
+    duration?: unknown;
+    geometry?: { coordinates?: unknown };
+  };
+  if (typeof r.distance !== 'number' || typeof r.duration !== 'number') return null;
+
+  const line = r.geometry?.coordinates;
+  if (!Array.isArray(line) || line.length === 0) return null;
+
+  const geometry: [number, number][] = [];
+  for (const point of line) {
+    if (!Array.isArray(point) || point.length < 2) continue;
+    const [lng, lat] = point;
+    if (typeof lat !== 'number' || typeof lng !== 'number') continue;
+    geometry.push([lat, lng]);
+  }
+  if (geometry.length === 0) return null;
+
+  return {
+    summary: {
+      distance_meters: r.distance,
+      duration_seconds: r.duration,
+    },
+    geometry,
+  };
+}
+
+/**
+ * Self-hosted OSRM (`osrm-routed`) route service. OSRM has no elevation data, so routes come back
+ * without `elevations_meters` and the planner falls back to flat-road energy estimates.
+ */
+export function createOsrmProvider(options: { baseUrl: string; profile: string }): RoutingProvider {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+
+  async function directions(request: DirectionsRequest): Promise<RouteResult[]> {
+    const coords = request.coordinates.map(([lng, lat]) => `${lng},${lat}`).join(';');
+    const url = new URL(`${baseUrl}/route/v1/${encodeURIComponent(options.profile)}/${coords}`);
+    url.searchParams.set('overview', 'full');
+    url.searchParams.set('geometries', 'geojson');
+    url.searchParams.set('steps', 'false');
+    url.searchParams.set('radiuses', request.coordinates.map(() => '5000').join(';'));
+    // OSRM only computes alternatives for plain start/end requests.
+    if (request.includeAlternatives && request.coordinates.length === 2) {
+      url.searchParams.set('alternatives', '3');
+    }
+
+    const response = await fetch(url.toString(), { headers: { Accept: 'application/json' } });
+    const text = await response.text();
+
+    let data: { code?: unknown; message?: unknown; routes?: unknown } | null = null;
+    try {
+      data = JSON.parse(text) as { code?: unknown; message?: unknown; routes?: unknown };
+    } catch {
+      // handled below
+    }
+
+    if (!response.ok || !data || data.code !== 'Ok') {
+      const code = typeof data?.code === 'string' ? data.code : 'unknown';
+      throw new Error(`OSRM directions error: ${response.status} ${response.statusText} (${code})\n${text}`);
+    }
+
+    if (!Array.isArray(data.routes) || data.routes.length === 0) {
+      throw new Error('Unexpected directions response: missing routes');
+    }
+
+    const routes = data.routes
+      .map(parseOsrmRoute)
+      .filter((r): r is RouteResult => r !== null);
+
+    if (routes.length === 0) {
+      throw new Error('Unexpected directions response: no valid routes');
+    }
+
+    return routes;
+  }
+
+  return { name: 'osrm', directions };
+}
@@ -0,0 +1,23 @@
+export type RoutingProviderName = 'ors' | 'osrm' | 'valhalla';
+
+export const ROUTING_PROVIDER_NAMES: RoutingProviderName[] = ['ors', 'osrm', 'valhalla'];
+
+export type RouteResult = {
+  summary: { distance_meters: number; duration_seconds: number };
+  // [lat, lng] pairs, matching the rest of the planner.
+  geometry: [number, number][];
+  // One entry per geometry point when the provider returns elevation; otherwise undefined.
+  elevations_meters?: number[];
+};
+
+export type DirectionsRequest = {
+  // [lng, lat] pairs: start, any via points, end.
+  coordinates: [number, number][];
+  includeAlternatives: boolean;
+};
+
+export type RoutingProvider = {
+  name: RoutingProviderName;
+  // Fastest route first, then any alternatives the engine found. Throws on engine errors.
+  directions: (request: DirectionsRequest) => Promise<RouteResult[]>;
+};
@@ -0,0 +1,121 @@
+import type { DirectionsRequest, RouteResult, RoutingProvider } from './types.js';
+
+const METERS_PER_KILOMETER = 1000;
+
+/** Decode a Valhalla shape (Google polyline encoding at 1e6 precision) into [lat, lng] pairs. */
+function decodePolyline6(encoded: string): [number, number][] {
+  const points: [number, number][] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const nextValue = (): number | null => {
+    let result = 0;
+    let shift = 0;
+    while (index < encoded.length) {
+      const byte = encoded.charCodeAt(index) - 63;
+      index += 1;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+      if (byte < 0x20) {
+        return result & 1 ? ~(result >> 1) : result >> 1;
+      }
+    }
+    return null;
+  };
+
+  while (index < encoded.length) {
+    const dLat = nextValue();
+    const dLng = nextValue();
+    if (dLat === null || dLng === null) break;
+    lat += dLat;
+    lng += dLng;
+    points.push([lat / 1e6, lng / 1e6]);
+  }
+  return points;
+}
+
+function parseValhallaTrip(trip: unknown): RouteResult | null {
+  const t = trip as {
+    summary?: { length?: unknown; time?: unknown };
+    legs?: unknown;
+  };
+  const length = t.summary?.length;
+  const time = t.summary?.time;
+  if (typeof length !== 'number' || typeof time !== 'number') return null;
+  if (!Array.isArray(t.legs) || t.legs.length === 0) return null;
+
+  const geometry: [number, number][] = [];
+  for (const leg of t.legs) {
+    const shape = (leg as { shape?: unknown } | null)?.shape;
+    if (typeof shape !== 'string') continue;
+    const points = decodePolyline6(shape);
+    // Each leg starts where the previous one ended.
+    geometry.push(...(geometry.length > 0 ? points.slice(1) : points));
+  }
+  if (geometry.length === 0) return null;
+
+  return {
+    summary: {
+      distance_meters: length * METERS_PER_KILOMETER,
+      duration_seconds: time,
+    },
+    geometry,
+  };
+}
+
+/**
+ * Self-hosted Valhalla `/route` with `auto` costing. Elevation is not requested, so routes come back
+ * without `elevations_meters` and the planner falls back to flat-road energy estimates.
+ */
+export function createValhallaProvider(options: { baseUrl: string }): RoutingProvider {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+
+  async function directions(request: DirectionsRequest): Promise<RouteResult[]> {
+    const body: Record<string, unknown> = {
+      locations: request.coordinates.map(([lng, lat]) => ({ lat, lon: lng, type: 'break' })),
+      costing: 'auto',
+      units: 'kilometers',
+      directions_type: 'none',
+    };
+    // Valhalla only computes alternates for plain start/end requests.
+    if (request.includeAlternatives && request.coordinates.length === 2) {
+      body.alternates = 2;
+    }
+
+    const response = await fetch(`${baseUrl}/route`, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      throw new Error(`Valhalla directions error: ${response.status} ${response.statusText}\n${text}`);
+    }
+
+    const data = (await response.json()) as { trip?: unknown; alternates?: unknown } | null;
+    if (!data || typeof data !== 'object' || !data.trip) {
+      throw new Error('Unexpected directions response: missing trip');
+    }
+
+    const trips = [
+      data.trip,
+      ...(Array.isArray(data.alternates) ? data.alternates.map((a) => (a as { trip?: unknown } | null)?.trip) : []),
+    ];
+    const routes = trips
+      .map(parseValhallaTrip)
+      .filter((r): r is RouteResult => r !== null);
+
+    if (routes.length === 0) {
+      throw new Error('Unexpected directions response: no valid routes');
+    }
+
+    return routes;
+  }
+
+  return { name: 'valhalla', directions };
+}
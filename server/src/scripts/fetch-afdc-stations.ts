@@ -0,0 +1,62 @@
+/**
+ * Import DC fast stations for the configured networks from the NREL Alternative Fuels Data Center and
+ * reconcile them against the OpenChargeMap stations already in Postgres. Matched AFDC records fill gaps in
+ * the OCM station; the rest are added as AFDC-owned stations.
+ *
+ * Run with: npm run fetch:stations:afdc (from server directory or repo root)
+ * Import a saved AFDC JSON response or locator CSV instead of calling the API:
+ *   npm run fetch:stations:afdc -- --from-file <path>
+ * Print what would change without writing anything: --dry-run. Apply past the removal/change thresholds: --force.
+ */
+
+import { pool } from '../db.js';
+import { runMigrations } from '../migrations.js';
+import { config } from '../config.js';
+import { afdcStationRows, fetchStationsFromAfdc, type AfdcStation } from '../ingest/afdc.js';
+import { readFromFileArg, readStationFile } from '../ingest/files.js';
+import { readIngestFlags, runIngest } from '../ingest/history.js';
+import { importAfdcStations } from '../ingest/pipeline.js';
+
+async function loadAfdcStations(fromFile: string | null): Promise<AfdcStation[]> {
+  if (!fromFile) {
+    return fetchStationsFromAfdc(config.stations.networks.map((n) => n.id));
+  }
+
+  console.log(`Reading AFDC stations from ${fromFile}...`);
+  const file = await readStationFile(fromFile);
+  if (file.format !== 'afdc-json' && file.format !== 'afdc-csv') {
+    throw new Error(`${fromFile} is not an AFDC file (detected ${file.format}); load it with fetch:stations -- --from-file`);
+  }
+  return file.stations;
+}
+
+async function main() {
+  await runMigrations();
+
+  const args = process.argv.slice(2);
+  const fromFile = readFromFileArg(args);
+  await runIngest(
+    { source: 'afdc', input: fromFile ?? 'api', ...readIngestFlags(args) },
+    async () => {
+      const afdcStations = await loadAfdcStations(fromFile);
+      const rows = afdcStationRows(afdcStations, config.stations.networks.map((n) => n.id));
+      console.log(`AFDC: ${rows.length} DC fast stations on configured networks (of ${afdcStations.length} records)`);
+      return rows;
+    },
+    importAfdcStations
+  );
+
+  const totalResult = await pool.query<{ source: string; total: string }>(
+    'SELECT source, COUNT(*) as total FROM stations GROUP BY source ORDER BY source'
+  );
+  console.log(`\nStations in database by source: ${totalResult.rows.map((r) => `${r.source}=${r.total}`).join(', ')}`);
+}
+
+main()
+  .catch((error) => {
+    console.error('Error:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await pool.end();
+  });
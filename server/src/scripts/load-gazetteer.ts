@@ -0,0 +1,209 @@
+/**
+ * Load US cities and ZIP codes into the `gazetteer` table used by the local geocoder.
+ *
+ * Accepts any mix of:
+ *   - Census Gazetteer places file (e.g. 2023_Gaz_place_national.txt, tab-separated, USPS/NAME/INTPTLAT/INTPTLONG)
+ *   - Census Gazetteer ZCTA file   (e.g. 2023_Gaz_zcta_national.txt, tab-separated, GEOID/INTPTLAT/INTPTLONG)
+ *   - Simple CSV with a header of kind,name,state,lat,lng (kind = city | zip)
+ *
+ * Census files: https://www.census.gov/geographies/reference-files/time-series/geo/gazetteer-files.html
+ *
+ * Run with: npm run load:gazetteer -- <file> [<file> ...] [--replace]
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { pool } from '../db.js';
+import { runMigrations } from '../migrations.js';
+import { gazetteerSearchName, parseUsState } from '../geocoding/gazetteer.js';
+
+type GazetteerEntry = {
+  kind: 'city' | 'zip';
+  name: string;
+  state: string | null;
+  lat: number;
+  lng: number;
+  // Picks between same-named places in one state (larger wins) and ranks suggestions.
+  landAreaSqMi: number | null;
+};
+
+// Census place names carry a legal/statistical suffix ("Gainesville city", "Brookline CDP",
+// "Nashville-Davidson metropolitan government (balance)"); descriptors are lowercase, names are not.
+function stripPlaceSuffix(name: string): string {
+  const words = name.replace(/\s*\(balance\)\s*$/, '').split(' ');
+  while (words.length > 1) {
+    const last = words[words.length - 1]!;
+    if (last === 'CDP' || /^[a-z]/.test(last)) {
+      words.pop();
+    } else {
+      break;
+    }
+  }
+  return words.join(' ');
+}
+
+function parseCensusPlaces(lines: string[], headers: string[]): GazetteerEntry[] {
+  const col = (name: string) => headers.indexOf(name);
+  const [iState, iName, iLat, iLng, iLand] = [col('USPS'), col('NAME'), col('INTPTLAT'), col('INTPTLONG'), col('ALAND_SQMI')];
+  const entries: GazetteerEntry[] = [];
+  for (const line of lines) {
+    const cells = line.split('\t').map((c) => c.trim());
+    const state = parseUsState(cells[iState] ?? '');
+    const rawName = cells[iName] ?? '';
+    const name = stripPlaceSuffix(rawName);
+    const lat = Number(cells[iLat]);
+    const lng = Number(cells[iLng]);
+    if (!state || !name || !Number.isFinite(lat) || !Number.isFinite(lng)) continue;
+    const landArea = Number(cells[iLand]);
+    const landAreaSqMi = Number.isFinite(landArea) && landArea > 0 ? landArea : null;
+    entries.push({ kind: 'city', name, state, lat, lng, landAreaSqMi });
+
+    // Consolidated city-counties: also answer to the city half ("Nashville-Davidson" → "Nashville").
+    const consolidated = /\(balance\)|government|county/.test(rawName);
+    const shortName = name.split(/[-/]/)[0]!.trim();
+    if (consolidated && shortName && shortName !== name) {
+      entries.push({ kind: 'city', name: shortName, state, lat, lng, landAreaSqMi });
+    }
+  }
+  return entries;
+}
+
+function parseCensusZctas(lines: string[], headers: string[]): GazetteerEntry[] {
+  const col = (name: string) => headers.indexOf(name);
+  const [iZip, iLat, iLng] = [col('GEOID'), col('INTPTLAT'), col('INTPTLONG')];
+  const entries: GazetteerEntry[] = [];
+  for (const line of lines) {
+    const cells = line.split('\t').map((c) => c.trim());
+    const zip = cells[iZip] ?? '';
+    const lat = Number(cells[iLat]);
+    const lng = Number(cells[iLng]);
+    if (!/^\d{5}$/.test(zip) || !Number.isFinite(lat) || !Number.isFinite(lng)) continue;
+    entries.push({ kind: 'zip', name: zip, state: null, lat, lng, landAreaSqMi: null });
+  }
+  return entries;
+}
+
+function parseSimpleCsv(lines: string[], headers: string[]): GazetteerEntry[] {
+  const col = (name: string) => headers.indexOf(name);
+  const [iKind, iName, iState, iLat, iLng] = [col('kind'), col('name'), col('state'), col('lat'), col('lng')];
+  const entries: GazetteerEntry[] = [];
+  for (const line of lines) {
+    const cells = line.split(',').map((c) => c.trim().replace(/^"|"$/g, ''));
+    const kind = cells[iKind];
+    const name = cells[iName] ?? '';
+    const state = iState === -1 || !cells[iState] ? null : parseUsState(cells[iState]!);
+    const lat = Number(cells[iLat]);
+    const lng = Number(cells[iLng]);
+    if (kind !== 'city' && kind !== 'zip') continue;
+    if (!name || !Number.isFinite(lat) || !Number.isFinite(lng)) continue;
+    if (kind === 'city' && !state) continue;
+    entries.push({ kind, name, state, lat, lng, landAreaSqMi: null });
+  }
+  return entries;
+}
+
+async function readGazetteerFile(filePath: string): Promise<GazetteerEntry[]> {
+  const text = await fs.readFile(filePath, 'utf8');
+  const [headerLine, ...lines] = text.split(/\r?\n/).filter((line) => line.trim().length > 0);
+  if (!headerLine) return [];
+
+  if (headerLine.includes('\t')) {
+    const headers = headerLine.split('\t').map((h) => h.trim().toUpperCase());
+    if (headers.includes('NAME') && headers.includes('USPS')) return parseCensusPlaces(lines, headers);
+    if (headers.includes('GEOID')) return parseCensusZctas(lines, headers);
+  } else {
+    const headers = headerLine.split(',').map((h) => h.trim().toLowerCase());
+    if (headers.includes('kind') && headers.includes('lat') && headers.includes('lng')) return parseSimpleCsv(lines, headers);
+  }
+  throw new Error(`Unrecognised gazetteer file format: ${path.basename(filePath)}`);
+}
+
+function dedupe(entries: GazetteerEntry[]): GazetteerEntry[] {
+  const byKey = new Map<string, GazetteerEntry>();
+  for (const entry of entries) {
+    const key = `${entry.kind}|${gazetteerSearchName(entry.name)}|${entry.state ?? ''}`;
+    const existing = byKey.get(key);
+    if (!existing || (entry.landAreaSqMi ?? 0) > (existing.landAreaSqMi ?? 0)) byKey.set(key, entry);
+  }
+  return Array.from(byKey.values());
+}
+
+async function upsertEntries(entries: GazetteerEntry[]): Promise<void> {
+  console.log(`Upserting ${entries.length} gazetteer entries into database...`);
+
+  const client = await pool.connect();
+  const batchSize = 500;
+  let processed = 0;
+
+  try {
+    for (let i = 0; i < entries.length; i += batchSize) {
+      const batch = entries.slice(i, i + batchSize);
+
+      const values: unknown[] = [];
+      const placeholders: string[] = [];
+
+      batch.forEach((entry, idx) => {
+        const offset = idx * 7;
+        placeholders.push(`($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6}, $${offset + 7})`);
+        values.push(entry.kind, entry.name, entry.state, gazetteerSearchName(entry.name), entry.lat, entry.lng, entry.landAreaSqMi);
+      });
+
+      await client.query(
+        `
+          INSERT INTO gazetteer (kind, name, state, search_name, lat, lng, land_area_sq_mi)
+          VALUES ${placeholders.join(', ')}
+          ON CONFLICT (kind, search_name, (COALESCE(state, ''))) DO UPDATE SET
+            name = EXCLUDED.name,
+            lat = EXCLUDED.lat,
+            lng = EXCLUDED.lng,
+            land_area_sq_mi = EXCLUDED.land_area_sq_mi,
+            updated_at = NOW()
+        `,
+        values
+      );
+      processed += batch.length;
+      console.log(`Upserted ${processed}/${entries.length}`);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const replace = args.includes('--replace');
+  const files = args.filter((arg) => !arg.startsWith('--'));
+  if (files.length === 0) {
+    throw new Error('Usage: npm run load:gazetteer -- <file> [<file> ...] [--replace]');
+  }
+
+  await runMigrations();
+
+  const entries: GazetteerEntry[] = [];
+  for (const file of files) {
+    const parsed = await readGazetteerFile(file);
+    console.log(`Parsed ${parsed.length} entries from ${path.basename(file)}`);
+    entries.push(...parsed);
+  }
+
+  if (replace) {
+    console.log('Clearing existing gazetteer entries...');
+    await pool.query('DELETE FROM gazetteer');
+  }
+
+  await upsertEntries(dedupe(entries));
+
+  const totalResult = await pool.query<{ kind: string; total: string }>(
+    'SELECT kind, COUNT(*) AS total FROM gazetteer GROUP BY kind ORDER BY kind'
+  );
+  console.log(`\nGazetteer entries: ${totalResult.rows.map((r) => `${r.total} ${r.kind}`).join(', ') || '0'}`);
+}
+
+main()
+  .catch((error) => {
+    console.error('Error:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await pool.end();
+  });
@@ -0,0 +1,211 @@
+// Local stand-in for a routing engine, for exercising ROUTING_PROVIDER without a real OSRM/Valhalla/ORS
+// deployment. It answers the OSRM, Valhalla and ORS directions endpoints with straight-line routes
+// (densified every ~1 km, driven at a constant highway speed). Point the matching *_BASE_URL at it:
+//
+//   ROUTING_STANDIN_PORT=5000 npm run routing:standin
+//   ROUTING_PROVIDER=osrm OSRM_BASE_URL=http://localhost:5000 npm run dev
+import http from 'node:http';
+
+const EARTH_RADIUS_METERS = 6_371_000;
+const SPEED_METERS_PER_SECOND = 29; // ~65 mph
+const POINT_SPACING_METERS = 1000;
+// Alternatives bow out sideways by this fraction of the straight-line distance.
+const ALTERNATIVE_BOW = 0.08;
+
+type LngLat = [number, number];
+
+type StandinRoute = {
+  distanceMeters: number;
+  durationSeconds: number;
+  coordinates: LngLat[];
+};
+
+function haversineMeters([lng1, lat1]: LngLat, [lng2, lat2]: LngLat): number {
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+function densify(points: LngLat[]): LngLat[] {
+  const out: LngLat[] = [points[0]!];
+  for (let i = 1; i < points.length; i += 1) {
+    const from = points[i - 1]!;
+    const to = points[i]!;
+    const steps = Math.max(1, Math.ceil(haversineMeters(from, to) / POINT_SPACING_METERS));
+    for (let s = 1; s <= steps; s += 1) {
+      const t = s / steps;
+      out.push([from[0] + (to[0] - from[0]) * t, from[1] + (to[1] - from[1]) * t]);
+    }
+  }
+  return out;
+}
+
+function buildRoute(waypoints: LngLat[]): StandinRoute {
+  const coordinates = densify(waypoints);
+  let distanceMeters = 0;
+  for (let i = 1; i < coordinates.length; i += 1) {
+    distanceMeters += haversineMeters(coordinates[i - 1]!, coordinates[i]!);
+  }
+  return { distanceMeters, durationSeconds: distanceMeters / SPEED_METERS_PER_SECOND, coordinates };
+}
+
+function buildRoutes(waypoints: LngLat[], alternatives: number): StandinRoute[] {
+  const routes = [buildRoute(waypoints)];
+  if (waypoints.length !== 2) return routes;
+  const [start, end] = waypoints as [LngLat, LngLat];
+  for (let i = 1; i <= alternatives; i += 1) {
+    const side = i % 2 === 1 ? 1 : -1;
+    const bow = ALTERNATIVE_BOW * Math.ceil(i / 2) * side;
+    const mid: LngLat = [
+      (start[0] + end[0]) / 2 - (end[1] - start[1]) * bow,
+      (start[1] + end[1]) / 2 + (end[0] - start[0]) * bow,
+    ];
+    routes.push(buildRoute([start, mid, end]));
+  }
+  return routes;
+}
+
+// Gentle rolling terrain so the ORS stand-in exercises the elevation-aware code paths.
+function syntheticElevation([lng, lat]: LngLat): number {
+  return Math.round((300 + 150 * Math.sin(lat * 7) + 100 * Math.cos(lng * 5)) * 10) / 10;
+}
+
+function encodePolyline6(coordinates: LngLat[]): string {
+  let out = '';
+  let prevLat = 0;
+  let prevLng = 0;
+  const encodeValue = (value: number) => {
+    let v = value < 0 ? ~(value << 1) : value << 1;
+    while (v >= 0x20) {
+      out += String.fromCharCode((0x20 | (v & 0x1f)) + 63);
+      v >>= 5;
+    }
+    out += String.fromCharCode(v + 63);
+  };
+  for (const [lng, lat] of coordinates) {
+    const latE6 = Math.round(lat * 1e6);
+    const lngE6 = Math.round(lng * 1e6);
+    encodeValue(latE6 - prevLat);
+    encodeValue(lngE6 - prevLng);
+    prevLat = latE6;
+    prevLng = lngE6;
+  }
+  return out;
+}
+
+function parseLngLatList(raw: string): LngLat[] | null {
+  const points: LngLat[] = [];
+  for (const pair of raw.split(';')) {
+    const [lng, lat] = pair.split(',').map(Number);
+    if (!Number.isFinite(lng) || !Number.isFinite(lat)) return null;
+    points.push([lng!, lat!]);
+  }
+  return points.length >= 2 ? points : null;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8')) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+function handleOsrm(url: URL, res: http.ServerResponse): void {
+  const coordsPart = url.pathname.split('/')[4] ?? '';
+  const waypoints = parseLngLatList(decodeURIComponent(coordsPart));
+  if (!waypoints) {
+    sendJson(res, 400, { code: 'InvalidQuery', message: 'Query string malformed' });
+    return;
+  }
+  const alternativesParam = url.searchParams.get('alternatives');
+  const alternatives = alternativesParam === 'true' ? 1 : Math.max(0, Number.parseInt(alternativesParam ?? '0', 10) || 0);
+  const routes = buildRoutes(waypoints, Math.min(alternatives, 2));
+  sendJson(res, 200, {
+    code: 'Ok',
+    routes: routes.map((r) => ({
+      distance: r.distanceMeters,
+      duration: r.durationSeconds,
+      geometry: { type: 'LineString', coordinates: r.coordinates },
+    })),
+  });
+}
+
+function handleValhalla(body: unknown, res: http.ServerResponse): void {
+  const b = body as { locations?: Array<{ lat?: unknown; lon?: unknown }>; alternates?: unknown } | null;
+  const waypoints: LngLat[] = [];
+  for (const loc of b?.locations ?? []) {
+    if (typeof loc?.lat !== 'number' || typeof loc?.lon !== 'number') {
+      sendJson(res, 400, { error_code: 100, error: 'Failed to parse json request', status_code: 400 });
+      return;
+    }
+    waypoints.push([loc.lon, loc.lat]);
+  }
+  if (waypoints.length < 2) {
+    sendJson(res, 400, { error_code: 120, error: 'Insufficient number of locations provided', status_code: 400 });
+    return;
+  }
+  const alternates = typeof b?.alternates === 'number' ? Math.min(b.alternates, 2) : 0;
+  const toTrip = (r: StandinRoute) => ({
+    legs: [{ shape: encodePolyline6(r.coordinates) }],
+    summary: { length: r.distanceMeters / 1000, time: r.durationSeconds },
+    units: 'kilometers',
+  });
+  const [first, ...rest] = buildRoutes(waypoints, alternates);
+  sendJson(res, 200, {
+    trip: toTrip(first!),
+    alternates: rest.map((r) => ({ trip: toTrip(r) })),
+  });
+}
+
+function handleOrs(body: unknown, res: http.ServerResponse): void {
+  const b = body as { coordinates?: unknown; alternative_routes?: { target_count?: unknown } } | null;
+  const waypoints = Array.isArray(b?.coordinates)
+    ? (b.coordinates as unknown[]).filter((p): p is LngLat => Array.isArray(p) && typeof p[0] === 'number' && typeof p[1] === 'number')
+    : [];
+  if (waypoints.length < 2) {
+    sendJson(res, 400, { error: { code: 2003, message: 'Parameter coordinates is invalid' } });
+    return;
+  }
+  const targetCount = typeof b?.alternative_routes?.target_count === 'number' ? b.alternative_routes.target_count : 1;
+  const routes = buildRoutes(waypoints, Math.max(0, Math.min(targetCount - 1, 2)));
+  sendJson(res, 200, {
+    type: 'FeatureCollection',
+    features: routes.map((r) => ({
+      type: 'Feature',
+      properties: { summary: { distance: r.distanceMeters, duration: r.durationSeconds } },
+      geometry: { type: 'LineString', coordinates: r.coordinates.map((p) => [p[0], p[1], syntheticElevation(p)]) },
+    })),
+  });
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  console.log(`${req.method} ${url.pathname}`);
+
+  if (req.method === 'GET' && url.pathname.startsWith('/route/v1/')) {
+    handleOsrm(url, res);
+    return;
+  }
+  if (req.method === 'POST' && (url.pathname === '/route' || url.pathname === '/v2/directions/driving-car/geojson')) {
+    readJsonBody(req)
+      .then((body) => (url.pathname === '/route' ? handleValhalla(body, res) : handleOrs(body, res)))
+      .catch((error: unknown) => sendJson(res, 500, { error: String(error) }));
+    return;
+  }
+  sendJson(res, 404, { error: `No stand-in handler for ${req.method} ${url.pathname}` });
+});
+
+const port = Number.parseInt(process.env.ROUTING_STANDIN_PORT ?? '5000', 10);
+server.listen(port, () => {
+  console.log(`Routing stand-in listening on http://localhost:${port} (OSRM /route/v1, Valhalla /route, ORS /v2/directions)`);
+});
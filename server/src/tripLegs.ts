@@ -0,0 +1,26 @@
+// Trip leg positions.
+//
+// A trip's legs are numbered 0..n-1 in travel order. Removing a leg, or deleting a saved route that legs
+// used (which cascades into `trip_legs`), leaves gaps; both renumber the affected trips in the same
+// transaction.
+
+import type { PoolClient } from 'pg';
+
+/** Close the gaps in the trips' leg positions, keeping the order, and mark the trips updated. */
+export async function renumberTripLegs(client: PoolClient, tripIds: number[]): Promise<void> {
+  if (tripIds.length === 0) return;
+  await client.query(
+    `
+      UPDATE trip_legs l
+      SET position = ordered.position
+      FROM (
+        SELECT id, (ROW_NUMBER() OVER (PARTITION BY trip_id ORDER BY position) - 1)::int AS position
+        FROM trip_legs
+        WHERE trip_id = ANY($1::bigint[])
+      ) ordered
+      WHERE l.id = ordered.id AND l.position <> ordered.position
+    `,
+    [tripIds]
+  );
+  await client.query('UPDATE trips SET updated_at = NOW() WHERE id = ANY($1::bigint[])', [tripIds]);
+}
@@ -0,0 +1,61 @@
+import { pool } from './db.js';
+import type { ChargingCurvePoint } from './planning/chargingPlan.js';
+
+export type VehicleConnectorType = 'CCS' | 'CHADEMO' | 'NACS' | 'J1772';
+
+export type VehicleRow = {
+  id: number;
+  slug: string;
+  make: string;
+  model: string;
+  trim_level: string | null;
+  model_year: number | null;
+  usable_battery_kwh: number;
+  range_miles: number;
+  efficiency_mi_per_kwh: number;
+  mass_kg: number;
+  max_charging_speed_kw: number;
+  charging_curve: ChargingCurvePoint[];
+  connector_types: VehicleConnectorType[];
+  created_at: string;
+  updated_at: string;
+};
+
+export async function listVehicles(): Promise<VehicleRow[]> {
+  const result = await pool.query<VehicleRow>('SELECT * FROM vehicles ORDER BY make, model, trim_level NULLS FIRST, id');
+  return result.rows;
+}
+
+export async function getVehicleById(id: number): Promise<VehicleRow | null> {
+  const result = await pool.query<VehicleRow>('SELECT * FROM vehicles WHERE id = $1', [id]);
+  return result.rows[0] ?? null;
+}
+
+export type UserVehicleRow = {
+  id: number;
+  user_id: number;
+  vehicle_id: number | null;
+  name: string;
+  range_miles: number;
+  efficiency_mi_per_kwh: number | null;
+  battery_kwh: number | null;
+  max_charging_speed_kw: number | null;
+  connector_type: VehicleConnectorType | null;
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+/** pg returns BIGINT columns as strings; garage vehicle ids go out as numbers, as the row type says. */
+export function toUserVehicle(row: UserVehicleRow): UserVehicleRow {
+  return { ...row, id: Number(row.id), user_id: Number(row.user_id) };
+}
+
+export async function getUserVehicle(userId: number, id: number): Promise<UserVehicleRow | null> {
+  const result = await pool.query<UserVehicleRow>(
+    'SELECT * FROM user_vehicles WHERE id = $1 AND user_id = $2',
+    [id, userId]
+  );
+  const row = result.rows[0];
+  return row ? toUserVehicle(row) : null;
+}